@@ -1,17 +1,31 @@
-import { useState } from 'react';
+import { Fragment } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { NavigationProvider, useNavigation } from './contexts/NavigationContext';
+import { SavedViewsProvider } from './contexts/SavedViewsContext';
 import Auth from './components/Auth';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
+import Leads from './components/Leads';
 import Contacts from './components/Contacts';
+import ContactDetail from './components/ContactDetail';
 import Companies from './components/Companies';
+import CompanyDetail from './components/CompanyDetail';
+import Duplicates from './components/Duplicates';
+import Segments from './components/Segments';
 import Deals from './components/Deals';
+import DealDetail from './components/DealDetail';
+import Forecast from './components/Forecast';
 import Tasks from './components/Tasks';
 import Activities from './components/Activities';
+import Calendar from './components/Calendar';
+import Sequences from './components/Sequences';
+import Trash from './components/Trash';
+import Settings from './components/Settings';
+import NotFound from './components/NotFound';
 
 function AppContent() {
-  const { user, loading } = useAuth();
-  const [currentView, setCurrentView] = useState('dashboard');
+  const { user, loading, organization } = useAuth();
+  const { view: currentView, recordId } = useNavigation();
 
   if (loading) {
     return (
@@ -32,32 +46,53 @@ function AppContent() {
     switch (currentView) {
       case 'dashboard':
         return <Dashboard />;
+      case 'leads':
+        return <Leads />;
       case 'contacts':
-        return <Contacts />;
+        return recordId ? <ContactDetail contactId={recordId} /> : <Contacts />;
       case 'companies':
-        return <Companies />;
+        return recordId ? <CompanyDetail companyId={recordId} /> : <Companies />;
+      case 'duplicates':
+        return <Duplicates />;
+      case 'segments':
+        return <Segments />;
       case 'deals':
-        return <Deals />;
+        return recordId ? <DealDetail dealId={recordId} /> : <Deals />;
+      case 'forecast':
+        return <Forecast />;
       case 'tasks':
         return <Tasks />;
       case 'activities':
         return <Activities />;
+      case 'calendar':
+        return <Calendar />;
+      case 'sequences':
+        return <Sequences />;
+      case 'trash':
+        return <Trash />;
+      case 'settings':
+        return <Settings />;
       default:
-        return <Dashboard />;
+        return <NotFound />;
     }
   };
 
   return (
-    <Layout currentView={currentView} onViewChange={setCurrentView}>
-      {renderView()}
-    </Layout>
+    <SavedViewsProvider>
+      <Layout>
+        {/* Remount on workspace switch so every view refetches its records */}
+        <Fragment key={organization?.id}>{renderView()}</Fragment>
+      </Layout>
+    </SavedViewsProvider>
   );
 }
 
 export default function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <NavigationProvider>
+        <AppContent />
+      </NavigationProvider>
     </AuthProvider>
   );
 }
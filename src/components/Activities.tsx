@@ -1,30 +1,69 @@
 import { useState, useEffect } from 'react';
 import { supabase, Activity } from '../lib/supabase';
-import { Plus, Phone, Mail, Calendar, FileText } from 'lucide-react';
-
-const ACTIVITY_ICONS = {
-  call: Phone,
-  email: Mail,
-  meeting: Calendar,
-  note: FileText,
-};
-
-const ACTIVITY_COLORS = {
-  call: 'bg-blue-100 text-blue-800',
-  email: 'bg-purple-100 text-purple-800',
-  meeting: 'bg-green-100 text-green-800',
-  note: 'bg-yellow-100 text-yellow-800',
-};
+import { useAuth } from '../contexts/AuthContext';
+import { useRelationOptions } from '../hooks/useRelationOptions';
+import { useRelationFilter } from '../hooks/useRelationFilter';
+import { recordElementId, useHighlightedRecord } from '../hooks/useHighlightedRecord';
+import { useListFilter } from '../hooks/useListFilter';
+import { EMPTY_RELATIONS, matchesRelations, relationsPayload } from '../lib/relations';
+import { ACTIVITY_ICONS, ACTIVITY_COLORS } from '../lib/styles';
+import { ExportColumn, fullName } from '../lib/export';
+import { FilterField, matchesFilter } from '../lib/filters';
+import ExportMenu from './ExportMenu';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import LinkedRecords from './LinkedRecords';
+import RecordHistoryModal from './RecordHistoryModal';
+import RelationFields from './RelationFields';
+import { Plus, History } from 'lucide-react';
+
+const EXPORT_COLUMNS: ExportColumn<Activity>[] = [
+  { key: 'type', header: 'Type', value: (a) => a.type },
+  { key: 'subject', header: 'Subject', value: (a) => a.subject },
+  { key: 'description', header: 'Description', value: (a) => a.description },
+  { key: 'activity_date', header: 'Date', value: (a) => a.activity_date },
+  { key: 'contact', header: 'Contact', value: (a) => fullName(a.contact) },
+  { key: 'company', header: 'Company', value: (a) => a.company?.name },
+  { key: 'deal', header: 'Deal', value: (a) => a.deal?.title },
+];
+
+const FILTER_FIELDS: FilterField<Activity>[] = [
+  {
+    key: 'type',
+    label: 'Type',
+    type: 'select',
+    options: [
+      { value: 'call', label: 'Call' },
+      { value: 'email', label: 'Email' },
+      { value: 'meeting', label: 'Meeting' },
+      { value: 'note', label: 'Note' },
+    ],
+  },
+  { key: 'subject', label: 'Subject', type: 'text' },
+  { key: 'description', label: 'Description', type: 'text' },
+  { key: 'activity_date', label: 'Date', type: 'datetime' },
+  { key: 'contact', label: 'Contact', type: 'text', value: (a) => fullName(a.contact) },
+  { key: 'company', label: 'Company', type: 'text', value: (a) => a.company?.name },
+  { key: 'company_industry', label: 'Company Industry', type: 'text', value: (a) => a.company?.industry },
+  { key: 'deal', label: 'Deal', type: 'text', value: (a) => a.deal?.title },
+];
 
 export default function Activities() {
+  const { can } = useAuth();
   const [activities, setActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
+  const highlightedId = useHighlightedRecord(loading);
+  const [relationFilter, setRelationFilter] = useRelationFilter();
+  const [listFilter, setListFilter] = useListFilter();
+  const relationOptions = useRelationOptions();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [historyActivity, setHistoryActivity] = useState<Activity | null>(null);
   const [formData, setFormData] = useState({
     type: 'note' as 'call' | 'email' | 'meeting' | 'note',
     subject: '',
     description: '',
     activity_date: new Date().toISOString().slice(0, 16),
+    ...EMPTY_RELATIONS,
   });
 
   useEffect(() => {
@@ -35,7 +74,7 @@ export default function Activities() {
     try {
       const { data, error } = await supabase
         .from('activities')
-        .select('*')
+        .select('*, contact:contacts(*), company:companies(*), deal:deals(*)')
         .order('activity_date', { ascending: false });
 
       if (error) throw error;
@@ -50,7 +89,9 @@ export default function Activities() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const { error } = await supabase.from('activities').insert([formData]);
+      const { error } = await supabase
+        .from('activities')
+        .insert([{ ...formData, ...relationsPayload(formData) }]);
       if (error) throw error;
 
       setIsModalOpen(false);
@@ -67,12 +108,19 @@ export default function Activities() {
       subject: '',
       description: '',
       activity_date: new Date().toISOString().slice(0, 16),
+      ...EMPTY_RELATIONS,
     });
   };
 
+  const filteredActivities = activities.filter(
+    (activity) =>
+      matchesRelations(activity, relationFilter) &&
+      matchesFilter(activity, listFilter, FILTER_FIELDS)
+  );
+
   const groupActivitiesByDate = () => {
     const groups: Record<string, Activity[]> = {};
-    activities.forEach((activity) => {
+    filteredActivities.forEach((activity) => {
       const date = new Date(activity.activity_date).toLocaleDateString();
       if (!groups[date]) {
         groups[date] = [];
@@ -97,17 +145,31 @@ export default function Activities() {
             Track all interactions with contacts and companies
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-          <button
-            onClick={() => setIsModalOpen(true)}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Log Activity
-          </button>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <FilterBuilder fields={FILTER_FIELDS} value={listFilter} onChange={setListFilter} />
+          <SavedViewsMenu list="activities" />
+          <ExportMenu rows={filteredActivities} columns={EXPORT_COLUMNS} fileName="activities" />
+          {can('create') && (
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Log Activity
+            </button>
+          )}
         </div>
       </div>
 
+      <div className="mt-6">
+        <RelationFields
+          value={relationFilter}
+          onChange={setRelationFilter}
+          options={relationOptions}
+          compact
+        />
+      </div>
+
       <div className="mt-8 flow-root">
         <div className="-my-2 overflow-x-auto">
           {Object.entries(activityGroups).map(([date, dateActivities]) => (
@@ -119,7 +181,10 @@ export default function Activities() {
                   return (
                     <div
                       key={activity.id}
-                      className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+                      id={recordElementId(activity.id)}
+                      className={`bg-white p-4 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow ${
+                        activity.id === highlightedId ? 'ring-2 ring-blue-500' : ''
+                      }`}
                     >
                       <div className="flex items-start space-x-4">
                         <div
@@ -143,16 +208,28 @@ export default function Activities() {
                                 {activity.subject}
                               </h4>
                             </div>
-                            <span className="text-sm text-gray-500">
-                              {new Date(activity.activity_date).toLocaleTimeString([], {
-                                hour: '2-digit',
-                                minute: '2-digit',
-                              })}
-                            </span>
+                            <div className="flex items-center space-x-3">
+                              <span className="text-sm text-gray-500">
+                                {new Date(activity.activity_date).toLocaleTimeString([], {
+                                  hour: '2-digit',
+                                  minute: '2-digit',
+                                })}
+                              </span>
+                              <button
+                                onClick={() => setHistoryActivity(activity)}
+                                title="History"
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                            </div>
                           </div>
                           {activity.description && (
                             <p className="mt-2 text-sm text-gray-600">{activity.description}</p>
                           )}
+                          <div className="mt-2">
+                            <LinkedRecords record={activity} />
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -166,6 +243,11 @@ export default function Activities() {
         {activities.length === 0 && (
           <div className="text-center py-12 text-gray-500">No activities logged yet</div>
         )}
+        {activities.length > 0 && filteredActivities.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            No activities linked to the selected records
+          </div>
+        )}
       </div>
 
       {isModalOpen && (
@@ -225,6 +307,12 @@ export default function Activities() {
                 />
               </div>
 
+              <RelationFields
+                value={formData}
+                onChange={(links) => setFormData({ ...formData, ...links })}
+                options={relationOptions}
+              />
+
               <div className="flex justify-end space-x-3 pt-4 border-t">
                 <button
                   type="button"
@@ -247,6 +335,15 @@ export default function Activities() {
           </div>
         </div>
       )}
+
+      {historyActivity && (
+        <RecordHistoryModal
+          table="activities"
+          recordId={historyActivity.id}
+          title={historyActivity.subject}
+          onClose={() => setHistoryActivity(null)}
+        />
+      )}
     </div>
   );
 }
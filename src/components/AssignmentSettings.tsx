@@ -0,0 +1,353 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  supabase,
+  AssignmentStrategy,
+  RoutedTable,
+  TerritoryField,
+  TerritoryOperator,
+  TerritoryRule,
+} from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useMembers } from '../hooks/useMembers';
+import { Plus, Trash2 } from 'lucide-react';
+
+const ROUTED_TABLES: { id: RoutedTable; label: string }[] = [
+  { id: 'leads', label: 'New leads' },
+  { id: 'contacts', label: 'New contacts' },
+];
+
+const STRATEGIES: { id: AssignmentStrategy; label: string; description: string }[] = [
+  { id: 'manual', label: 'Manual', description: 'Records stay with whoever creates them' },
+  { id: 'round_robin', label: 'Round robin', description: 'Rotate through the members below' },
+  {
+    id: 'territory',
+    label: 'Territory',
+    description: 'First matching rule wins; unmatched records rotate through the members below',
+  },
+];
+
+const TERRITORY_FIELDS: Record<RoutedTable, { id: TerritoryField; label: string }[]> = {
+  leads: [
+    { id: 'email', label: 'Email' },
+    { id: 'website', label: 'Website' },
+    { id: 'company_name', label: 'Company' },
+    { id: 'title', label: 'Title' },
+    { id: 'source', label: 'Source' },
+  ],
+  contacts: [
+    { id: 'email', label: 'Email' },
+    { id: 'title', label: 'Title' },
+    { id: 'company_address', label: 'Company address' },
+  ],
+};
+
+const OPERATORS: { id: TerritoryOperator; label: string }[] = [
+  { id: 'contains', label: 'contains' },
+  { id: 'equals', label: 'equals' },
+  { id: 'starts_with', label: 'starts with' },
+  { id: 'ends_with', label: 'ends with' },
+];
+
+const EMPTY_RULE = {
+  field: 'email' as TerritoryField,
+  operator: 'ends_with' as TerritoryOperator,
+  value: '',
+  assignee_id: '',
+};
+
+type RoutingCardProps = {
+  recordType: RoutedTable;
+  label: string;
+  canManage: boolean;
+};
+
+function RoutingCard({ recordType, label, canManage }: RoutingCardProps) {
+  const { organization } = useAuth();
+  const { members, membersById } = useMembers();
+  const [strategy, setStrategy] = useState<AssignmentStrategy>('manual');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [rules, setRules] = useState<TerritoryRule[]>([]);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const eligibleMembers = members.filter((member) => member.role !== 'read_only');
+  const fields = TERRITORY_FIELDS[recordType];
+
+  const fetchRouting = useCallback(async () => {
+    if (!organization) return;
+    try {
+      const [settingsResult, rulesResult] = await Promise.all([
+        supabase
+          .from('assignment_settings')
+          .select('*')
+          .eq('organization_id', organization.id)
+          .eq('record_type', recordType)
+          .maybeSingle(),
+        supabase
+          .from('territory_rules')
+          .select('*')
+          .eq('organization_id', organization.id)
+          .eq('record_type', recordType)
+          .order('position')
+          .order('created_at'),
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+      setStrategy(settingsResult.data?.strategy || 'manual');
+      setMemberIds(settingsResult.data?.member_ids || []);
+      setRules(rulesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching assignment settings:', error);
+    }
+  }, [organization, recordType]);
+
+  useEffect(() => {
+    fetchRouting();
+  }, [fetchRouting]);
+
+  const toggleMember = (userId: string) => {
+    setSaved(false);
+    setMemberIds((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('assignment_settings').upsert(
+        {
+          record_type: recordType,
+          strategy,
+          member_ids: memberIds,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'organization_id,record_type' }
+      );
+
+      if (error) throw error;
+      setSaved(true);
+    } catch (error) {
+      console.error('Error saving assignment settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRule.value.trim() || !newRule.assignee_id) return;
+    try {
+      const { error } = await supabase.from('territory_rules').insert([
+        {
+          ...newRule,
+          value: newRule.value.trim(),
+          record_type: recordType,
+          position: rules.length ? rules[rules.length - 1].position + 1 : 0,
+        },
+      ]);
+
+      if (error) throw error;
+      setNewRule(EMPTY_RULE);
+      fetchRouting();
+    } catch (error) {
+      console.error('Error adding territory rule:', error);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      const { error } = await supabase.from('territory_rules').delete().eq('id', id);
+      if (error) throw error;
+      fetchRouting();
+    } catch (error) {
+      console.error('Error deleting territory rule:', error);
+    }
+  };
+
+  const fieldLabel = (field: TerritoryField) => fields.find((f) => f.id === field)?.label || field;
+  const operatorLabel = (operator: TerritoryOperator) =>
+    OPERATORS.find((o) => o.id === operator)?.label || operator;
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">{label}</h3>
+      </div>
+
+      <div className="px-6 py-4 space-y-6">
+        <fieldset disabled={!canManage}>
+          <legend className="text-sm font-medium text-gray-700">Assign to</legend>
+          <div className="mt-2 space-y-2">
+            {STRATEGIES.map((option) => (
+              <label key={option.id} className="flex items-start text-sm">
+                <input
+                  type="radio"
+                  name={`strategy-${recordType}`}
+                  checked={strategy === option.id}
+                  onChange={() => {
+                    setStrategy(option.id);
+                    setSaved(false);
+                  }}
+                  className="mt-0.5 mr-2"
+                />
+                <span>
+                  <span className="font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {strategy !== 'manual' && (
+          <fieldset disabled={!canManage}>
+            <legend className="text-sm font-medium text-gray-700">Round-robin members</legend>
+            <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {eligibleMembers.map((member) => (
+                <label key={member.user_id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={memberIds.includes(member.user_id)}
+                    onChange={() => toggleMember(member.user_id)}
+                    className="mr-2 rounded border-gray-300"
+                  />
+                  {member.profile?.email || 'Teammate'}
+                </label>
+              ))}
+            </div>
+            {memberIds.length === 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                With no members selected, records the rules do not match stay with their creator.
+              </p>
+            )}
+          </fieldset>
+        )}
+
+        {canManage && (
+          <div className="flex items-center justify-end space-x-3">
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+
+        {strategy === 'territory' && (
+          <div className="border-t border-gray-100 pt-4">
+            <h4 className="text-sm font-medium text-gray-700">Territory rules</h4>
+            <ol className="mt-2 space-y-2">
+              {rules.map((rule, index) => (
+                <li
+                  key={rule.id}
+                  className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-2 text-sm text-gray-700"
+                >
+                  <span>
+                    <span className="mr-2 text-gray-400">{index + 1}.</span>
+                    {fieldLabel(rule.field)} {operatorLabel(rule.operator)}{' '}
+                    <span className="font-medium">"{rule.value}"</span> →{' '}
+                    {membersById[rule.assignee_id]?.profile?.email || 'a former member'}
+                  </span>
+                  {canManage && (
+                    <button
+                      onClick={() => handleDeleteRule(rule.id)}
+                      title="Delete rule"
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+              {rules.length === 0 && <li className="text-sm text-gray-500">No rules yet</li>}
+            </ol>
+
+            {canManage && (
+              <form onSubmit={handleAddRule} className="mt-3 flex flex-wrap items-center gap-2">
+                <select
+                  value={newRule.field}
+                  onChange={(e) => setNewRule({ ...newRule, field: e.target.value as TerritoryField })}
+                  aria-label="Field"
+                  className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 text-sm border px-2 py-1.5"
+                >
+                  {fields.map((field) => (
+                    <option key={field.id} value={field.id}>
+                      {field.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={newRule.operator}
+                  onChange={(e) =>
+                    setNewRule({ ...newRule, operator: e.target.value as TerritoryOperator })
+                  }
+                  aria-label="Operator"
+                  className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 text-sm border px-2 py-1.5"
+                >
+                  {OPERATORS.map((operator) => (
+                    <option key={operator.id} value={operator.id}>
+                      {operator.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={newRule.value}
+                  onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+                  placeholder={newRule.field === 'email' ? '.de' : 'Value'}
+                  aria-label="Value"
+                  className="flex-1 min-w-[8rem] rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 text-sm border px-2 py-1.5"
+                />
+                <select
+                  value={newRule.assignee_id}
+                  onChange={(e) => setNewRule({ ...newRule, assignee_id: e.target.value })}
+                  aria-label="Assign to"
+                  className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 text-sm border px-2 py-1.5"
+                >
+                  <option value="">Assign to...</option>
+                  {eligibleMembers.map((member) => (
+                    <option key={member.user_id} value={member.user_id}>
+                      {member.profile?.email || 'Teammate'}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={!newRule.value.trim() || !newRule.assignee_id}
+                  className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add rule
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AssignmentSettings() {
+  const { can } = useAuth();
+  const canManage = can('manage_team');
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {!canManage && (
+        <div className="bg-white shadow rounded-lg px-6 py-4 text-sm text-gray-600">
+          Only workspace admins can change how new records are assigned.
+        </div>
+      )}
+      {ROUTED_TABLES.map((table) => (
+        <RoutingCard key={table.id} recordType={table.id} label={table.label} canManage={canManage} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { AuditLogEntry } from '../lib/supabase';
+import { changesOf, fieldLabel, isRemoval } from '../lib/audit';
+
+type AuditChangesProps = {
+  entry: AuditLogEntry;
+  format: (field: string, value: unknown) => string;
+};
+
+// Field-by-field values of one audit entry: old → new for updates, the values the record was
+// created or restored with, or had when it was deleted, otherwise.
+export default function AuditChanges({ entry, format }: AuditChangesProps) {
+  const changes = changesOf(entry);
+  if (changes.length === 0) return null;
+
+  return (
+    <dl className="mt-1 space-y-0.5 text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="flex flex-wrap gap-x-1">
+          <dt className="font-medium text-gray-700">{fieldLabel(change.field)}:</dt>
+          {entry.action === 'update' ? (
+            <dd className="text-gray-600">
+              <span className="line-through text-gray-400">{format(change.field, change.oldValue)}</span>
+              {' → '}
+              {format(change.field, change.newValue)}
+            </dd>
+          ) : (
+            <dd className="text-gray-600">
+              {format(change.field, isRemoval(entry.action) ? change.oldValue : change.newValue)}
+            </dd>
+          )}
+        </div>
+      ))}
+    </dl>
+  );
+}
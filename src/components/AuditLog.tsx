@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { supabase, AuditAction, AuditLogEntry, AuditTable } from '../lib/supabase';
+import { AUDIT_ACTIONS, AUDIT_TABLES, changesOf, fieldLabel, singularOf } from '../lib/audit';
+import { DETAIL_VIEWS } from '../lib/routes';
+import { escapeLike } from '../lib/paging';
+import { useAuth } from '../contexts/AuthContext';
+import { useMembers } from '../hooks/useMembers';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useAuditFormatter } from '../hooks/useAuditFormatter';
+import AuditChanges from './AuditChanges';
+import Link from './Link';
+import { Search, ChevronDown, ChevronRight } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-yellow-100 text-yellow-800',
+  restore: 'bg-purple-100 text-purple-800',
+  purge: 'bg-red-100 text-red-800',
+};
+
+// Start of a local calendar day as an ISO timestamp, `days` after the given `YYYY-MM-DD`.
+const dayStart = (date: string, days = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + days);
+  return day.toISOString();
+};
+
+export default function AuditLog() {
+  const { organization } = useAuth();
+  const { members, membersById } = useMembers();
+  const format = useAuditFormatter();
+  const [searchTerm, setSearchTerm] = useQueryParam('search', '');
+  const [table, setTable] = useQueryParam<'all' | AuditTable>('table', 'all', [
+    'all',
+    ...AUDIT_TABLES.map((t) => t.id),
+  ]);
+  const [action, setAction] = useQueryParam<'all' | AuditAction>('action', 'all', [
+    'all',
+    ...AUDIT_ACTIONS.map((a) => a.id),
+  ]);
+  const [actor, setActor] = useQueryParam('actor', '');
+  const [from, setFrom] = useQueryParam('from', '');
+  const [to, setTo] = useQueryParam('to', '');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(
+    async (offset: number) => {
+      if (!organization) return;
+      try {
+        let query = supabase
+          .from('audit_log')
+          .select('*')
+          .eq('organization_id', organization.id)
+          .order('created_at', { ascending: false })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (searchTerm.trim()) query = query.ilike('record_label', `%${escapeLike(searchTerm.trim())}%`);
+        if (table !== 'all') query = query.eq('table_name', table);
+        if (action !== 'all') query = query.eq('action', action);
+        if (actor) query = query.eq('actor_id', actor);
+        if (from) query = query.gte('created_at', dayStart(from));
+        if (to) query = query.lt('created_at', dayStart(to, 1));
+
+        const { data, error } = await query;
+        if (error) throw error;
+        setEntries((current) => (offset === 0 ? data || [] : [...current, ...(data || [])]));
+        setHasMore((data || []).length === PAGE_SIZE);
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [organization, searchTerm, table, action, actor, from, to]
+  );
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [fetchEntries]);
+
+  const actorLabel = (actorId: string | null) =>
+    actorId ? membersById[actorId]?.profile?.email || 'A former member' : 'System';
+
+  const recordLink = (entry: AuditLogEntry) => {
+    const label = entry.record_label || `Untitled ${singularOf(entry.table_name)}`;
+    if (entry.action === 'delete' || entry.action === 'purge') return <span className="text-gray-500">{label}</span>;
+    const hasDetail = (DETAIL_VIEWS as readonly string[]).includes(entry.table_name);
+    return (
+      <Link
+        view={entry.table_name}
+        recordId={hasDetail ? entry.record_id : null}
+        className="text-blue-600 hover:underline"
+      >
+        {label}
+      </Link>
+    );
+  };
+
+  const inputClass =
+    'rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            placeholder="Search by record name..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className={`block w-full pl-10 ${inputClass}`}
+          />
+        </div>
+        <select
+          value={table}
+          onChange={(e) => setTable(e.target.value as 'all' | AuditTable)}
+          aria-label="Record type"
+          className={inputClass}
+        >
+          <option value="all">All records</option>
+          {AUDIT_TABLES.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as 'all' | AuditAction)}
+          aria-label="Action"
+          className={inputClass}
+        >
+          <option value="all">All actions</option>
+          {AUDIT_ACTIONS.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          aria-label="Changed by"
+          className={inputClass}
+        >
+          <option value="">Anyone</option>
+          {members.map((member) => (
+            <option key={member.user_id} value={member.user_id}>
+              {member.profile?.email || 'Teammate'}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          aria-label="From"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          aria-label="To"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">When</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Who</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Action</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Record</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Fields</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {entries.map((entry) => {
+              const changes = changesOf(entry);
+              const isExpanded = expanded === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm text-gray-500">
+                      <span className="inline-flex items-center">
+                        {isExpanded ? (
+                          <ChevronDown className="w-4 h-4 mr-1 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />
+                        )}
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-900">
+                      {actorLabel(entry.actor_id)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-3 text-sm">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          ACTION_COLORS[entry.action]
+                        }`}
+                      >
+                        {AUDIT_ACTIONS.find((a) => a.id === entry.action)?.label}
+                      </span>
+                    </td>
+                    <td className="px-3 py-3 text-sm">
+                      <span className="mr-2 text-xs text-gray-500">{singularOf(entry.table_name)}</span>
+                      {recordLink(entry)}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-500">
+                      {entry.action === 'update'
+                        ? changes.map((change) => fieldLabel(change.field)).join(', ') || '—'
+                        : `${changes.length} ${changes.length === 1 ? 'field' : 'fields'}`}
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-10 py-3">
+                        <AuditChanges entry={entry} format={format} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        {!loading && entries.length === 0 && (
+          <div className="text-center py-12 text-gray-500 bg-white">No changes match these filters</div>
+        )}
+        {loading && <div className="text-center py-12 bg-white">Loading...</div>}
+      </div>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => fetchEntries(entries.length)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
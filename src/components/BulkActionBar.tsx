@@ -0,0 +1,83 @@
+import { ReactNode } from 'react';
+import { BulkStatus } from '../hooks/useBulkActions';
+import { RotateCcw, X } from 'lucide-react';
+
+type BulkActionBarProps = {
+  count: number;
+  bulk: { status: BulkStatus; undo: () => void; dismiss: () => void };
+  onClear: () => void;
+  // The list's bulk actions, shown while records are selected
+  children: ReactNode;
+};
+
+// Bar along the bottom of a list with its bulk actions, the progress of a running change and
+// the undo of the last one.
+export default function BulkActionBar({ count, bulk, onClear, children }: BulkActionBarProps) {
+  const { progress, lastChange, error } = bulk.status;
+  if (count === 0 && !progress && !lastChange && !error) return null;
+
+  const renderContent = () => {
+    if (progress) {
+      const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+      return (
+        <div className="flex-1" role="status">
+          <p className="text-sm text-gray-700">
+            {progress.label} {progress.done} of {progress.total || '...'}
+          </p>
+          <div className="mt-2 h-2 rounded-full bg-gray-200">
+            <div
+              className="h-2 rounded-full bg-blue-600 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    if (count > 0) {
+      return (
+        <>
+          <span className="text-sm font-medium text-gray-900 whitespace-nowrap">
+            {count} selected
+          </span>
+          <div className="flex flex-1 flex-wrap items-center gap-2">{children}</div>
+          <button
+            onClick={onClear}
+            aria-label="Clear selection"
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <p className={`flex-1 text-sm ${error ? 'text-red-600' : 'text-gray-700'}`} role="status">
+          {error || lastChange?.summary}
+        </p>
+        {lastChange && (
+          <button
+            onClick={bulk.undo}
+            className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Undo
+          </button>
+        )}
+        <button onClick={bulk.dismiss} aria-label="Dismiss" className="text-gray-400 hover:text-gray-600">
+          <X className="w-5 h-5" />
+        </button>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-4">
+      <div className="flex w-full max-w-4xl items-center gap-4 rounded-lg bg-white px-4 py-3 shadow-lg ring-1 ring-black ring-opacity-5">
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
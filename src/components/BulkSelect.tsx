@@ -0,0 +1,29 @@
+import { FilterOption } from '../lib/filters';
+
+type BulkSelectProps = {
+  label: string;
+  options: FilterOption[];
+  onSelect: (value: string) => void;
+};
+
+// Bulk action that needs a value, such as the new owner or stage: choosing one runs it.
+export default function BulkSelect({ label, options, onSelect }: BulkSelectProps) {
+  return (
+    <select
+      value=""
+      onChange={(e) => {
+        if (e.target.value) onSelect(e.target.value);
+      }}
+      aria-label={label}
+      disabled={options.length === 0}
+      className="rounded-md border border-gray-300 py-1.5 pl-2 pr-8 text-sm text-gray-700 focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
+    >
+      <option value="">{label}</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,497 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase, Activity, Deal, Task } from '../lib/supabase';
+import {
+  CALENDAR_ITEM_LABELS,
+  CALENDAR_MODES,
+  CalendarItem,
+  CalendarMode,
+  addDays,
+  formatMinutes,
+  groupByDay,
+  parseDay,
+  periodTitle,
+  rescheduleItem,
+  shiftDay,
+  todayKey,
+  toCalendarItems,
+  visibleDays,
+} from '../lib/calendar';
+import { CALENDAR_ITEM_COLORS, CALENDAR_ITEM_ICONS } from '../lib/styles';
+import { fullName } from '../lib/export';
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { usePipelines } from '../hooks/usePipelines';
+import Link from './Link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// The time grid opens scrolled to the start of a working day.
+const FIRST_VISIBLE_HOUR = 8;
+// Items listed in a month cell before the rest collapse into "N more"
+const MONTH_CELL_ITEMS = 3;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const RELATED = '*, contact:contacts(*), company:companies(*)';
+
+/**
+ * Task due dates, meetings and expected close dates by month, week or day, plus an agenda of
+ * one day. Dragging an item onto another day, or hour for meetings, reschedules it.
+ */
+export default function Calendar() {
+  const { can } = useAuth();
+  const { stagesById } = usePipelines();
+  const [mode, setMode] = useQueryParam<CalendarMode>(
+    'mode',
+    'month',
+    CALENDAR_MODES.map((m) => m.id)
+  );
+  // Empty means today, so a bookmarked calendar keeps opening on the current date
+  const [dateParam, setDateParam] = useQueryParam('date', '');
+  const today = todayKey();
+  const day = DAY_PATTERN.test(dateParam) ? dateParam : today;
+  const setDay = (next: string) => setDateParam(next === today ? '' : next);
+
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [meetings, setMeetings] = useState<Activity[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draggingKey, setDraggingKey] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const timeGridRef = useRef<HTMLDivElement>(null);
+
+  const days = useMemo(() => visibleDays(mode, day), [mode, day]);
+  const first = days[0];
+  const end = addDays(days[days.length - 1], 1);
+  // The agenda of today also lists tasks still open from earlier days
+  const withOverdue = mode === 'agenda' && day === today;
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const [tasksResult, overdueResult, meetingsResult, dealsResult] = await Promise.all([
+        supabase
+          .from('tasks')
+          .select(`${RELATED}, deal:deals(*)`)
+          .gte('due_date', first)
+          .lt('due_date', end),
+        withOverdue
+          ? supabase
+              .from('tasks')
+              .select(`${RELATED}, deal:deals(*)`)
+              .lt('due_date', first)
+              .neq('status', 'completed')
+          : Promise.resolve({ data: [], error: null }),
+        supabase
+          .from('activities')
+          .select(`${RELATED}, deal:deals(*)`)
+          .eq('type', 'meeting')
+          .gte('activity_date', parseDay(first).toISOString())
+          .lt('activity_date', parseDay(end).toISOString()),
+        supabase
+          .from('deals')
+          .select(RELATED)
+          .gte('expected_close_date', first)
+          .lt('expected_close_date', end),
+      ]);
+      if (tasksResult.error) throw tasksResult.error;
+      if (overdueResult.error) throw overdueResult.error;
+      if (meetingsResult.error) throw meetingsResult.error;
+      if (dealsResult.error) throw dealsResult.error;
+
+      setTasks([...(overdueResult.data || []), ...(tasksResult.data || [])]);
+      setMeetings(meetingsResult.data || []);
+      setDeals(dealsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [first, end, withOverdue]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    if (mode !== 'week' && mode !== 'day') return;
+    const grid = timeGridRef.current;
+    const row = grid?.querySelector<HTMLElement>(`[data-hour="${FIRST_VISIBLE_HOUR}"]`);
+    if (grid && row) grid.scrollTop = row.offsetTop - grid.offsetTop;
+  }, [mode, loading]);
+
+  const items = useMemo(
+    () => toCalendarItems(tasks, meetings, deals, stagesById),
+    [tasks, meetings, deals, stagesById]
+  );
+  const itemsByDay = useMemo(() => groupByDay(items), [items]);
+
+  // Moves are shown at once and saved in the background; a failed save reloads the calendar.
+  const moveItem = async (item: CalendarItem, toDay: string, hour?: number) => {
+    const sameHour =
+      hour === undefined || item.kind !== 'meeting' || Math.floor(item.minutes / 60) === hour;
+    if (item.day === toDay && sameHour) return;
+
+    const update = rescheduleItem(item, toDay, hour);
+    const id = item.record.id;
+    switch (update.table) {
+      case 'tasks':
+        setTasks(tasks.map((t) => (t.id === id ? { ...t, ...update.values } : t)));
+        break;
+      case 'activities':
+        setMeetings(meetings.map((m) => (m.id === id ? { ...m, ...update.values } : m)));
+        break;
+      case 'deals':
+        setDeals(deals.map((d) => (d.id === id ? { ...d, ...update.values } : d)));
+        break;
+    }
+
+    try {
+      const { error } = await supabase.from(update.table).update(update.values).eq('id', id);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error rescheduling calendar item:', error);
+      fetchItems();
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, item: CalendarItem) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', item.key);
+    setDraggingKey(item.key);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingKey(null);
+    setDropTarget(null);
+  };
+
+  // Handlers for a cell that items can be dropped on; `hour` is set for time grid cells.
+  const dropZone = (toDay: string, hour?: number) => {
+    const target = hour === undefined ? toDay : `${toDay}@${hour}`;
+    return {
+      onDragOver: (e: React.DragEvent<HTMLDivElement>) => {
+        if (!draggingKey) return;
+        e.preventDefault();
+        if (dropTarget !== target) setDropTarget(target);
+      },
+      onDrop: (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const key = draggingKey || e.dataTransfer.getData('text/plain');
+        const item = items.find((i) => i.key === key);
+        handleDragEnd();
+        if (item) moveItem(item, toDay, hour);
+      },
+      isTarget: draggingKey !== null && dropTarget === target,
+    };
+  };
+
+  const itemLink = (item: CalendarItem) => {
+    switch (item.kind) {
+      case 'task':
+        return { view: 'tasks', params: { highlight: item.record.id } };
+      case 'meeting':
+        return { view: 'activities', params: { highlight: item.record.id } };
+      case 'close':
+        return { view: 'deals', recordId: item.record.id };
+    }
+  };
+
+  const itemContext = (item: CalendarItem) =>
+    [fullName(item.record.contact), item.record.company?.name].filter(Boolean).join(' · ');
+
+  const renderItem = (item: CalendarItem) => {
+    const Icon = CALENDAR_ITEM_ICONS[item.kind];
+    const movable = can('edit', item.record);
+    return (
+      <div
+        key={item.key}
+        draggable={movable}
+        aria-roledescription={movable ? 'Draggable calendar item' : undefined}
+        onDragStart={(e) => handleDragStart(e, item)}
+        onDragEnd={handleDragEnd}
+        title={`${CALENDAR_ITEM_LABELS[item.kind]}: ${item.title}`}
+        className={`flex items-center rounded border px-1.5 py-0.5 text-xs ${
+          CALENDAR_ITEM_COLORS[item.kind]
+        } ${item.done ? 'line-through opacity-60' : ''} ${
+          draggingKey === item.key ? 'opacity-50' : ''
+        } ${movable ? 'cursor-move' : ''}`}
+      >
+        <Icon className="w-3 h-3 mr-1 flex-shrink-0" />
+        {item.minutes !== null && (
+          <span className="mr-1 flex-shrink-0">{formatMinutes(item.minutes)}</span>
+        )}
+        <Link {...itemLink(item)} draggable={false} className="truncate hover:underline">
+          {item.title}
+        </Link>
+      </div>
+    );
+  };
+
+  const dayNumber = (cellDay: string) => (
+    <button
+      onClick={() => {
+        setDay(cellDay);
+        setMode('day');
+      }}
+      className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium ${
+        cellDay === today ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      {parseDay(cellDay).getDate()}
+    </button>
+  );
+
+  const weekdayHeader = (cellDay: string, long = false) =>
+    parseDay(cellDay).toLocaleDateString(undefined, { weekday: long ? 'long' : 'short' });
+
+  const renderMonth = () => (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="grid grid-cols-7 border-b border-gray-200 bg-gray-50">
+        {days.slice(0, 7).map((cellDay) => (
+          <div key={cellDay} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase">
+            {weekdayHeader(cellDay)}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((cellDay) => {
+          const { isTarget, ...handlers } = dropZone(cellDay);
+          const cellItems = itemsByDay[cellDay] || [];
+          const inMonth = cellDay.slice(0, 7) === day.slice(0, 7);
+          return (
+            <div
+              key={cellDay}
+              {...handlers}
+              className={`min-h-[7rem] border-b border-r border-gray-100 p-1.5 space-y-1 ${
+                inMonth ? '' : 'bg-gray-50'
+              } ${isTarget ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''}`}
+            >
+              <div className={inMonth ? '' : 'opacity-50'}>{dayNumber(cellDay)}</div>
+              {cellItems.slice(0, MONTH_CELL_ITEMS).map(renderItem)}
+              {cellItems.length > MONTH_CELL_ITEMS && (
+                <button
+                  onClick={() => {
+                    setDay(cellDay);
+                    setMode('day');
+                  }}
+                  className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                >
+                  {cellItems.length - MONTH_CELL_ITEMS} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  // Week and day: whole-day items along the top, meetings in the row of their hour.
+  const renderTimeGrid = () => {
+    const columns = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` };
+    return (
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="grid border-b border-gray-200 bg-gray-50" style={columns}>
+          <div />
+          {days.map((cellDay) => (
+            <div key={cellDay} className="flex items-center space-x-1 px-2 py-2">
+              <span className="text-xs font-medium text-gray-500 uppercase">
+                {weekdayHeader(cellDay, days.length === 1)}
+              </span>
+              {dayNumber(cellDay)}
+            </div>
+          ))}
+        </div>
+        <div className="grid border-b border-gray-200" style={columns}>
+          <div className="px-2 py-2 text-right text-xs text-gray-400">All day</div>
+          {days.map((cellDay) => {
+            const { isTarget, ...handlers } = dropZone(cellDay);
+            return (
+              <div
+                key={cellDay}
+                {...handlers}
+                className={`min-h-[3rem] border-l border-gray-100 p-1 space-y-1 ${
+                  isTarget ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''
+                }`}
+              >
+                {(itemsByDay[cellDay] || []).filter((item) => item.minutes === null).map(renderItem)}
+              </div>
+            );
+          })}
+        </div>
+        <div ref={timeGridRef} className="max-h-[36rem] overflow-y-auto">
+          {HOURS.map((hour) => (
+            <div key={hour} data-hour={hour} className="grid" style={columns}>
+              <div className="px-2 py-1 text-right text-xs text-gray-400">
+                {formatMinutes(hour * 60)}
+              </div>
+              {days.map((cellDay) => {
+                const { isTarget, ...handlers } = dropZone(cellDay, hour);
+                return (
+                  <div
+                    key={cellDay}
+                    {...handlers}
+                    className={`min-h-[3rem] border-l border-t border-gray-100 p-1 space-y-1 ${
+                      isTarget ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''
+                    }`}
+                  >
+                    {(itemsByDay[cellDay] || [])
+                      .filter((item) => item.minutes !== null && Math.floor(item.minutes / 60) === hour)
+                      .map(renderItem)}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAgendaRow = (item: CalendarItem) => {
+    const context = itemContext(item);
+    return (
+      <li key={item.key} className="flex items-start space-x-3 px-4 py-3">
+        <span className="w-20 flex-shrink-0 pt-0.5 text-sm text-gray-500">
+          {item.minutes !== null ? formatMinutes(item.minutes) : 'All day'}
+        </span>
+        <div className="min-w-0 flex-1">
+          {renderItem(item)}
+          <p className="mt-1 text-xs text-gray-500">
+            {CALENDAR_ITEM_LABELS[item.kind]}
+            {context && ` · ${context}`}
+          </p>
+        </div>
+      </li>
+    );
+  };
+
+  const renderAgenda = () => {
+    const overdue = withOverdue
+      ? items.filter((item) => item.kind === 'task' && !item.done && item.day < day)
+      : [];
+    const dayItems = itemsByDay[day] || [];
+    const { isTarget, ...handlers } = dropZone(day);
+    return (
+      <div className="space-y-6">
+        {overdue.length > 0 && (
+          <div className="bg-white shadow rounded-lg">
+            <h2 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-red-600">
+              Overdue
+            </h2>
+            <ul className="divide-y divide-gray-100">
+              {overdue.map((item) => (
+                <li key={item.key} className="flex items-start space-x-3 px-4 py-3">
+                  <span className="w-20 flex-shrink-0 pt-0.5 text-sm text-red-600">
+                    {parseDay(item.day).toLocaleDateString()}
+                  </span>
+                  <div className="min-w-0 flex-1">{renderItem(item)}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div
+          {...handlers}
+          className={`bg-white shadow rounded-lg ${isTarget ? 'ring-2 ring-blue-300' : ''}`}
+        >
+          <h2 className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">
+            {day === today ? 'Today' : periodTitle('day', day)}
+          </h2>
+          <ul className="divide-y divide-gray-100">
+            {dayItems.map(renderAgendaRow)}
+            {dayItems.length === 0 && (
+              <li className="px-4 py-8 text-center text-sm text-gray-500">Nothing scheduled</li>
+            )}
+          </ul>
+        </div>
+        {overdue.length > 0 && (
+          <p className="text-xs text-gray-500">Drag an overdue task onto today to reschedule it.</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderView = () => {
+    switch (mode) {
+      case 'month':
+        return renderMonth();
+      case 'week':
+      case 'day':
+        return renderTimeGrid();
+      case 'agenda':
+        return renderAgenda();
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Calendar</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Task due dates, meetings and expected close dates. Drag an item to reschedule it.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setDay(shiftDay(mode, day, -1))}
+            aria-label="Previous"
+            className="p-1.5 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setDay(today)}
+            className="px-3 py-1.5 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setDay(shiftDay(mode, day, 1))}
+            aria-label="Next"
+            className="p-1.5 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <h2 className="ml-2 text-lg font-medium text-gray-900">{periodTitle(mode, day)}</h2>
+        </div>
+        <div className="inline-flex rounded-md shadow-sm">
+          {CALENDAR_MODES.map((m, index) => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              aria-pressed={mode === m.id}
+              className={`px-3 py-1.5 border border-gray-300 text-sm font-medium ${
+                index === 0 ? 'rounded-l-md' : '-ml-px'
+              } ${index === CALENDAR_MODES.length - 1 ? 'rounded-r-md' : ''} ${
+                mode === m.id ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600">
+        {(['task', 'meeting', 'close'] as const).map((kind) => {
+          const Icon = CALENDAR_ITEM_ICONS[kind];
+          return (
+            <span key={kind} className="inline-flex items-center">
+              <Icon className="w-3 h-3 mr-1" />
+              {CALENDAR_ITEM_LABELS[kind]}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="mt-4">
+        {loading ? <div className="text-center py-12">Loading...</div> : renderView()}
+      </div>
+    </div>
+  );
+}
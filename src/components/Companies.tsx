@@ -1,13 +1,79 @@
-import { useState, useEffect } from 'react';
-import { supabase, Company } from '../lib/supabase';
-import { Plus, Edit2, Trash2, Search, Mail, Phone, Globe } from 'lucide-react';
+import { useState } from 'react';
+import { supabase, Company, CustomFieldValues } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePagedList } from '../hooks/usePagedList';
+import { useListFilter } from '../hooks/useListFilter';
+import { useDuplicateCheck } from '../hooks/useDuplicateCheck';
+import { useRecordFilterFields } from '../hooks/useRecordFilterFields';
+import { useSegments } from '../hooks/useSegments';
+import { useSelection } from '../hooks/useSelection';
+import { useBulkActions } from '../hooks/useBulkActions';
+import { ExportColumn } from '../lib/export';
+import { ilikeAny, SortDirection } from '../lib/paging';
+import { filterExpression, memberOptions, optionLabel } from '../lib/filters';
+import { customExportColumns, customValuesToSave, formatCustomValue } from '../lib/customFields';
+import { saveRecordTags, tagNames } from '../lib/tags';
+import { withSegment } from '../lib/segments';
+import { bulkDelete, bulkTag, bulkUpdate } from '../lib/bulk';
+import Link from './Link';
+import ImportWizard from './ImportWizard';
+import ExportMenu from './ExportMenu';
+import DeleteRecordDialog from './DeleteRecordDialog';
+import DuplicateWarning from './DuplicateWarning';
+import Pagination from './Pagination';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import CustomFieldInputs from './CustomFieldInputs';
+import SegmentSelect from './SegmentSelect';
+import TagChips from './TagChips';
+import TagPicker from './TagPicker';
+import BulkActionBar from './BulkActionBar';
+import BulkSelect from './BulkSelect';
+import { Plus, Upload, Edit2, Trash2, Search, Mail, Phone, Globe, Combine } from 'lucide-react';
+
+const EXPORT_COLUMNS: ExportColumn<Company>[] = [
+  { key: 'name', header: 'Name', value: (c) => c.name },
+  { key: 'industry', header: 'Industry', value: (c) => c.industry },
+  { key: 'website', header: 'Website', value: (c) => c.website },
+  { key: 'phone', header: 'Phone', value: (c) => c.phone },
+  { key: 'email', header: 'Email', value: (c) => c.email },
+  { key: 'address', header: 'Address', value: (c) => c.address },
+  { key: 'tags', header: 'Tags', value: (c) => tagNames(c.tags) },
+  { key: 'notes', header: 'Notes', value: (c) => c.notes },
+  { key: 'created_at', header: 'Created', value: (c) => c.created_at },
+];
+
+type CompanySort = 'name' | 'industry' | 'created_at';
+
+const SORT_OPTIONS: { sort: CompanySort; direction: SortDirection; label: string }[] = [
+  { sort: 'created_at', direction: 'desc', label: 'Newest first' },
+  { sort: 'created_at', direction: 'asc', label: 'Oldest first' },
+  { sort: 'name', direction: 'asc', label: 'Name (A–Z)' },
+  { sort: 'name', direction: 'desc', label: 'Name (Z–A)' },
+  { sort: 'industry', direction: 'asc', label: 'Industry (A–Z)' },
+  { sort: 'industry', direction: 'desc', label: 'Industry (Z–A)' },
+];
+
+const SORTS: CompanySort[] = ['name', 'industry', 'created_at'];
+
+// `custom_text` is a computed column joining every custom value.
+const SEARCH_COLUMNS = ['name', 'industry', 'email', 'custom_text'];
 
 export default function Companies() {
-  const [companies, setCompanies] = useState<Company[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
+  const { can } = useAuth();
+  const {
+    fields: filterFields,
+    members,
+    customFields,
+    tags,
+    loading: fieldsLoading,
+  } = useRecordFilterFields<Company>('companies');
+  const { segments, loading: segmentsLoading } = useSegments('companies');
+  const [filter, setFilter] = useListFilter();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
+  const [deletingCompany, setDeletingCompany] = useState<Company | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     industry: '',
@@ -17,32 +83,43 @@ export default function Companies() {
     address: '',
     notes: '',
   });
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagIds, setTagIds] = useState<string[]>([]);
 
-  useEffect(() => {
-    fetchCompanies();
-  }, []);
+  const duplicates = useDuplicateCheck('companies', formData, isModalOpen && !editingCompany);
 
-  const fetchCompanies = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('companies')
-        .select('*')
-        .order('created_at', { ascending: false });
+  const list = usePagedList<Company, CompanySort>({
+    label: 'companies',
+    sorts: SORTS,
+    defaultSort: 'created_at',
+    defaultDirection: 'desc',
+    ready: !fieldsLoading && !segmentsLoading,
+    buildQuery: ({ search, filter, segment, sort, ascending }) => {
+      let query = supabase.from('companies').select('*, tags(*)', { count: 'exact' });
+      if (search) query = query.or(ilikeAny(SEARCH_COLUMNS, search));
+      const expression = filterExpression(
+        withSegment(filter, segments.find((s) => s.id === segment)),
+        filterFields
+      );
+      if (expression) query = query.or(expression);
+      return query.order(sort, { ascending, nullsFirst: false }).order('id');
+    },
+  });
 
-      if (error) throw error;
-      setCompanies(data || []);
-    } catch (error) {
-      console.error('Error fetching companies:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const exportColumns = [...EXPORT_COLUMNS, ...customExportColumns<Company>(customFields)];
+  const listFields = customFields.filter((field) => field.show_in_list);
+
+  const selection = useSelection(list.rows);
+  const bulk = useBulkActions('companies', selection, list.refresh);
+  const ownerOptions = memberOptions(members.filter((member) => member.role !== 'read_only'));
+  const tagOptions = tags.map((tag) => ({ value: tag.id, label: tag.name }));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       const companyData = {
         ...formData,
+        custom_fields: customValuesToSave(customFields, customValues),
         updated_at: new Date().toISOString(),
       };
 
@@ -53,32 +130,31 @@ export default function Companies() {
           .eq('id', editingCompany.id);
 
         if (error) throw error;
+        await saveRecordTags(
+          'companies',
+          editingCompany.id,
+          tagIds,
+          editingCompany.tags?.map((tag) => tag.id) || []
+        );
       } else {
-        const { error } = await supabase.from('companies').insert([companyData]);
+        const { data, error } = await supabase
+          .from('companies')
+          .insert([companyData])
+          .select()
+          .single();
         if (error) throw error;
+        await saveRecordTags('companies', data.id, tagIds, []);
       }
 
       setIsModalOpen(false);
       setEditingCompany(null);
       resetForm();
-      fetchCompanies();
+      list.refresh();
     } catch (error) {
       console.error('Error saving company:', error);
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this company?')) return;
-
-    try {
-      const { error } = await supabase.from('companies').delete().eq('id', id);
-      if (error) throw error;
-      fetchCompanies();
-    } catch (error) {
-      console.error('Error deleting company:', error);
-    }
-  };
-
   const openModal = (company?: Company) => {
     if (company) {
       setEditingCompany(company);
@@ -91,6 +167,8 @@ export default function Companies() {
         address: company.address || '',
         notes: company.notes || '',
       });
+      setCustomValues(company.custom_fields || {});
+      setTagIds(company.tags?.map((tag) => tag.id) || []);
     } else {
       resetForm();
     }
@@ -107,19 +185,12 @@ export default function Companies() {
       address: '',
       notes: '',
     });
+    setCustomValues({});
+    setTagIds([]);
     setEditingCompany(null);
   };
 
-  const filteredCompanies = companies.filter((company) => {
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      company.name.toLowerCase().includes(searchLower) ||
-      company.industry?.toLowerCase().includes(searchLower) ||
-      company.email?.toLowerCase().includes(searchLower)
-    );
-  });
-
-  if (loading) {
+  if (list.loading) {
     return <div className="text-center py-12">Loading...</div>;
   }
 
@@ -132,56 +203,134 @@ export default function Companies() {
             Manage your company accounts and their information
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-          <button
-            onClick={() => openModal()}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          {can('create') && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </button>
+          )}
+          <Link
+            view="duplicates"
+            params={{ type: 'companies' }}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
           >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Company
-          </button>
+            <Combine className="w-4 h-4 mr-2" />
+            Duplicates
+          </Link>
+          <ExportMenu
+            rows={list.rows}
+            columns={exportColumns}
+            fileName="companies"
+            totalCount={list.total}
+            loadRows={list.loadAll}
+          />
+          {can('create') && (
+            <button
+              onClick={() => openModal()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Company
+            </button>
+          )}
         </div>
       </div>
 
-      <div className="mt-6">
-        <div className="relative">
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
           <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
             <Search className="h-5 w-5 text-gray-400" />
           </div>
           <input
             type="text"
             placeholder="Search companies..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={list.search}
+            onChange={(e) => list.setSearch(e.target.value)}
             className="block w-full rounded-md border-gray-300 pl-10 focus:border-blue-500 focus:ring-blue-500 sm:text-sm py-2 border"
           />
         </div>
+        <select
+          value={`${list.sort}:${list.direction}`}
+          onChange={(e) => {
+            const [sort, direction] = e.target.value.split(':');
+            list.setSort(sort as CompanySort, direction as SortDirection);
+          }}
+          aria-label="Sort by"
+          className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={`${option.sort}:${option.direction}`} value={`${option.sort}:${option.direction}`}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <SegmentSelect table="companies" segments={segments} />
+        <FilterBuilder fields={filterFields} value={filter} onChange={setFilter} />
+        <SavedViewsMenu list="companies" />
       </div>
 
-      <div className="mt-8 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-        {filteredCompanies.map((company) => (
+      {list.rows.length > 0 && (
+        <label className="mt-4 inline-flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            ref={(el) => {
+              if (el) el.indeterminate = selection.someSelected;
+            }}
+            onChange={selection.toggleAll}
+            className="mr-2 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Select all on this page
+        </label>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {list.rows.map((company) => (
           <div
             key={company.id}
-            className="bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow"
+            className={`bg-white overflow-hidden shadow rounded-lg hover:shadow-md transition-shadow ${
+              selection.isSelected(company.id) ? 'ring-2 ring-blue-500' : ''
+            }`}
           >
             <div className="px-4 py-5 sm:p-6">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-medium text-gray-900 truncate">
-                  {company.name}
+                <input
+                  type="checkbox"
+                  checked={selection.isSelected(company.id)}
+                  onChange={() => selection.toggle(company.id)}
+                  aria-label={`Select ${company.name}`}
+                  className="mr-3 h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <h3 className="flex-1 text-lg font-medium text-gray-900 truncate">
+                  <Link
+                    view="companies"
+                    recordId={company.id}
+                    className="hover:text-blue-600 hover:underline"
+                  >
+                    {company.name}
+                  </Link>
                 </h3>
                 <div className="flex space-x-2">
-                  <button
-                    onClick={() => openModal(company)}
-                    className="text-blue-600 hover:text-blue-900"
-                  >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(company.id)}
-                    className="text-red-600 hover:text-red-900"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {can('edit', company) && (
+                    <button
+                      onClick={() => openModal(company)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {can('delete', company) && (
+                    <button
+                      onClick={() => setDeletingCompany(company)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -191,6 +340,15 @@ export default function Companies() {
                     <span className="font-medium">Industry:</span> {company.industry}
                   </p>
                 )}
+                {listFields.map(
+                  (field) =>
+                    company.custom_fields?.[field.key] !== undefined && (
+                      <p key={field.id} className="text-sm text-gray-600">
+                        <span className="font-medium">{field.label}:</span>{' '}
+                        {formatCustomValue(field, company.custom_fields[field.key])}
+                      </p>
+                    )
+                )}
                 {company.email && (
                   <div className="flex items-center text-sm text-gray-600">
                     <Mail className="w-4 h-4 mr-2 text-gray-400" />
@@ -217,15 +375,83 @@ export default function Companies() {
                   </div>
                 )}
               </div>
+
+              <TagChips tags={company.tags} className="mt-4" />
             </div>
           </div>
         ))}
       </div>
 
-      {filteredCompanies.length === 0 && (
+      {list.rows.length === 0 && (
         <div className="text-center py-12 text-gray-500">No companies found</div>
       )}
 
+      <Pagination page={list.page} total={list.total} onPageChange={list.setPage} />
+
+      <BulkActionBar count={selection.selected.length} bulk={bulk} onClear={selection.clear}>
+        {can('reassign') && (
+          <BulkSelect
+            label="Reassign to..."
+            options={ownerOptions}
+            onSelect={(ownerId) =>
+              bulk.run(
+                (count) => `Reassigned ${count} to ${optionLabel(ownerOptions, ownerId)}`,
+                'edit',
+                (records, onProgress) =>
+                  bulkUpdate('companies', records, { owner_id: ownerId }, onProgress)
+              )
+            }
+          />
+        )}
+        <BulkSelect
+          label="Add tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Tagged ${count} with ${optionLabel(tagOptions, tagId)}`,
+              'edit',
+              (records, onProgress) => bulkTag('companies', records, tagId, true, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Remove tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Removed ${optionLabel(tagOptions, tagId)} from ${count}`,
+              'edit',
+              (records, onProgress) => bulkTag('companies', records, tagId, false, onProgress)
+            )
+          }
+        />
+        <ExportMenu rows={selection.selected} columns={exportColumns} fileName="companies" dropUp />
+        {selection.selected.some((company) => can('delete', company)) && (
+          <button
+            onClick={() => {
+              if (!confirm(`Move ${selection.selected.length} selected companies to the trash?`)) return;
+              bulk.run(
+                (count) => `Moved ${count} to the trash`,
+                'delete',
+                (records, onProgress) => bulkDelete('companies', records, onProgress)
+              );
+            }}
+            className="inline-flex items-center rounded-md border border-red-200 bg-white px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </button>
+        )}
+      </BulkActionBar>
+
+      {isImportOpen && (
+        <ImportWizard
+          entity="companies"
+          onClose={() => setIsImportOpen(false)}
+          onImported={list.refresh}
+        />
+      )}
+
       {isModalOpen && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -310,6 +536,16 @@ export default function Companies() {
                 />
               </div>
 
+              <TagPicker value={tagIds} onChange={setTagIds} />
+
+              <CustomFieldInputs
+                fields={customFields}
+                values={customValues}
+                onChange={setCustomValues}
+              />
+
+              <DuplicateWarning table="companies" matches={duplicates} />
+
               <div className="flex justify-end space-x-3 pt-4 border-t">
                 <button
                   type="button"
@@ -325,13 +561,23 @@ export default function Companies() {
                   type="submit"
                   className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
                 >
-                  {editingCompany ? 'Update' : 'Create'}
+                  {editingCompany ? 'Update' : duplicates.length > 0 ? 'Create anyway' : 'Create'}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {deletingCompany && (
+        <DeleteRecordDialog
+          table="companies"
+          recordId={deletingCompany.id}
+          label={deletingCompany.name}
+          onClose={() => setDeletingCompany(null)}
+          onDeleted={list.refresh}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { supabase, Company, Contact, Deal } from '../lib/supabase';
+import { usePipelines } from '../hooks/usePipelines';
+import Link from './Link';
+import CustomFieldDetails from './CustomFieldDetails';
+import RecordHistory from './RecordHistory';
+import RecordOwner from './RecordOwner';
+import RelatedTasks from './RelatedTasks';
+import RelatedActivities from './RelatedActivities';
+import { ArrowLeft, Mail, Phone, Globe, MapPin, DollarSign, History } from 'lucide-react';
+
+type CompanyDetailProps = {
+  companyId: string;
+};
+
+export default function CompanyDetail({ companyId }: CompanyDetailProps) {
+  const { stagesById } = usePipelines();
+  const [company, setCompany] = useState<Company | null>(null);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCompany = async () => {
+      setLoading(true);
+      try {
+        const [companyResult, contactsResult, dealsResult] = await Promise.all([
+          supabase.from('companies').select('*').eq('id', companyId).maybeSingle(),
+          supabase
+            .from('contacts')
+            .select('*')
+            .eq('company_id', companyId)
+            .order('last_name'),
+          supabase
+            .from('deals')
+            .select('*')
+            .eq('company_id', companyId)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (companyResult.error) throw companyResult.error;
+        if (contactsResult.error) throw contactsResult.error;
+        if (dealsResult.error) throw dealsResult.error;
+        setCompany(companyResult.data);
+        setContacts(contactsResult.data || []);
+        setDeals(dealsResult.data || []);
+      } catch (error) {
+        console.error('Error fetching company:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCompany();
+  }, [companyId]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!company) {
+    return (
+      <div className="px-4 sm:px-6 lg:px-8 text-center py-12">
+        <p className="text-gray-500">This company does not exist or was deleted.</p>
+        <Link
+          view="companies"
+          className="mt-4 inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          Back to companies
+        </Link>
+      </div>
+    );
+  }
+
+  const openValue = deals
+    .filter((deal) => stagesById[deal.stage_id]?.outcome === 'open')
+    .reduce((sum, deal) => sum + deal.value, 0);
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <Link
+        view="companies"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Companies
+      </Link>
+
+      <div className="mt-4 mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">{company.name}</h1>
+        <p className="mt-1 text-sm text-gray-700">
+          {company.industry && `${company.industry} · `}
+          {contacts.length} contacts · ${openValue.toLocaleString()} open pipeline
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="space-y-6">
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Details</h3>
+            <dl className="space-y-3 text-sm">
+              <RecordOwner
+                table="companies"
+                recordId={company.id}
+                ownerId={company.owner_id}
+                onReassign={(ownerId) => setCompany({ ...company, owner_id: ownerId })}
+              />
+              <div className="flex items-center text-gray-600">
+                <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                {company.email || <span className="text-gray-400">No email</span>}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Phone className="w-4 h-4 mr-2 text-gray-400" />
+                {company.phone || <span className="text-gray-400">No phone</span>}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Globe className="w-4 h-4 mr-2 text-gray-400" />
+                {company.website ? (
+                  <a
+                    href={company.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:underline truncate"
+                  >
+                    {company.website}
+                  </a>
+                ) : (
+                  <span className="text-gray-400">No website</span>
+                )}
+              </div>
+              {company.address && (
+                <div className="flex items-start text-gray-600">
+                  <MapPin className="w-4 h-4 mr-2 mt-0.5 text-gray-400" />
+                  <span className="whitespace-pre-line">{company.address}</span>
+                </div>
+              )}
+              <CustomFieldDetails table="companies" values={company.custom_fields} />
+              {company.notes && (
+                <div className="pt-3 border-t border-gray-100">
+                  <dt className="font-medium text-gray-700">Notes</dt>
+                  <dd className="mt-1 text-gray-600 whitespace-pre-line">{company.notes}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <History className="w-5 h-5 mr-2 text-gray-400" />
+              History
+            </h3>
+            <RecordHistory table="companies" recordId={company.id} />
+          </div>
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Contacts ({contacts.length})</h3>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {contacts.map((contact) => (
+                <li key={contact.id}>
+                  <Link
+                    view="contacts"
+                    recordId={contact.id}
+                    className="block px-6 py-3 hover:bg-gray-50"
+                  >
+                    <p className="text-sm font-medium text-gray-900">
+                      {contact.first_name} {contact.last_name}
+                    </p>
+                    {(contact.title || contact.email) && (
+                      <p className="text-xs text-gray-500">
+                        {[contact.title, contact.email].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </Link>
+                </li>
+              ))}
+              {contacts.length === 0 && (
+                <li className="px-6 py-3 text-sm text-gray-500">No contacts at this company</li>
+              )}
+            </ul>
+          </div>
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Deals ({deals.length})</h3>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {deals.map((deal) => (
+                <li key={deal.id}>
+                  <Link
+                    view="deals"
+                    recordId={deal.id}
+                    className="px-6 py-3 flex items-center justify-between hover:bg-gray-50"
+                  >
+                    <span className="text-sm font-medium text-gray-900">{deal.title}</span>
+                    <span className="flex items-center text-xs text-gray-500">
+                      {stagesById[deal.stage_id]?.name}
+                      <DollarSign className="w-3 h-3 ml-3" />
+                      {deal.value.toLocaleString()}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+              {deals.length === 0 && (
+                <li className="px-6 py-3 text-sm text-gray-500">No deals with this company</li>
+              )}
+            </ul>
+          </div>
+        </div>
+
+        <div className="space-y-6 lg:col-span-2">
+          <RelatedTasks column="company_id" recordId={company.id} />
+          <RelatedActivities column="company_id" recordId={company.id} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { EmailMessage } from '../lib/supabase';
+import { quoteMessage, replySubject, sendEmail } from '../lib/email';
+import { renderTemplate } from '../lib/templates';
+import { useEmailTemplates } from '../hooks/useEmailTemplates';
+import { Send } from 'lucide-react';
+
+type ComposeEmailModalProps = {
+  // Recipient of a new email, such as the contact whose page it is sent from
+  to: string;
+  // The logged message being answered, if this is a reply
+  replyTo?: EmailMessage | null;
+  // Records a template's merge variables are filled in from
+  contactId?: string | null;
+  dealId?: string | null;
+  onClose: () => void;
+  onSent: () => void;
+};
+
+const splitAddresses = (value: string) =>
+  value
+    .split(/[,;\s]+/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+const initialDraft = (to: string, replyTo?: EmailMessage | null) => ({
+  to: replyTo
+    ? (replyTo.direction === 'inbound' ? [replyTo.from_address] : replyTo.to_addresses).join(', ')
+    : to,
+  cc: '',
+  subject: replyTo ? replySubject(replyTo.subject) : '',
+  text: replyTo ? quoteMessage(replyTo) : '',
+});
+
+export default function ComposeEmailModal({
+  to,
+  replyTo,
+  contactId,
+  dealId,
+  onClose,
+  onSent,
+}: ComposeEmailModalProps) {
+  const { templates } = useEmailTemplates();
+  const [draft, setDraft] = useState(() => initialDraft(to, replyTo));
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  // A reply keeps its subject and quote, with the template's text above the quote.
+  const applyTemplate = async (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template || !contactId) return;
+    setError('');
+    try {
+      const [subject, text] = await Promise.all([
+        renderTemplate(template.subject, contactId, dealId),
+        renderTemplate(template.body, contactId, dealId),
+      ]);
+      setDraft((current) => ({
+        ...current,
+        subject: replyTo ? current.subject : subject,
+        text: replyTo ? text + quoteMessage(replyTo) : text,
+      }));
+    } catch (err) {
+      console.error('Error rendering email template:', err);
+      setError('Could not fill in the template.');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    try {
+      await sendEmail({
+        to: splitAddresses(draft.to),
+        cc: splitAddresses(draft.cc),
+        subject: draft.subject.trim(),
+        text: draft.text,
+        in_reply_to: replyTo?.message_id || null,
+      });
+      onSent();
+    } catch (err) {
+      console.error('Error sending email:', err);
+      setError(err instanceof Error ? err.message : 'Could not send the email.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">{replyTo ? 'Reply' : 'Send Email'}</h3>
+          {contactId && templates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => applyTemplate(e.target.value)}
+              aria-label="Use template"
+              className="rounded-md border border-gray-300 py-1.5 pl-2 pr-8 text-sm text-gray-700 focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">Use template...</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">To *</label>
+            <input
+              type="text"
+              required
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Cc</label>
+            <input
+              type="text"
+              value={draft.cc}
+              onChange={(e) => setDraft({ ...draft, cc: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Subject *</label>
+            <input
+              type="text"
+              required
+              value={draft.subject}
+              onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Message</label>
+            <textarea
+              rows={10}
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The email is sent from your connected mailbox and logged as an activity.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={sending}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {sending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
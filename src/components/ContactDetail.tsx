@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { supabase, Contact, Deal } from '../lib/supabase';
+import { usePipelines } from '../hooks/usePipelines';
+import Link from './Link';
+import CustomFieldDetails from './CustomFieldDetails';
+import RecordHistory from './RecordHistory';
+import RecordOwner from './RecordOwner';
+import RelatedTasks from './RelatedTasks';
+import RelatedActivities from './RelatedActivities';
+import ContactSequences from './ContactSequences';
+import { ArrowLeft, Mail, Phone, Building2, DollarSign, History } from 'lucide-react';
+
+type ContactDetailProps = {
+  contactId: string;
+};
+
+export default function ContactDetail({ contactId }: ContactDetailProps) {
+  const { stagesById } = usePipelines();
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchContact = async () => {
+      setLoading(true);
+      try {
+        const [contactResult, dealsResult] = await Promise.all([
+          supabase
+            .from('contacts')
+            .select('*, company:companies(*)')
+            .eq('id', contactId)
+            .maybeSingle(),
+          supabase
+            .from('deals')
+            .select('*')
+            .eq('contact_id', contactId)
+            .order('created_at', { ascending: false }),
+        ]);
+
+        if (contactResult.error) throw contactResult.error;
+        if (dealsResult.error) throw dealsResult.error;
+        setContact(contactResult.data);
+        setDeals(dealsResult.data || []);
+      } catch (error) {
+        console.error('Error fetching contact:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchContact();
+  }, [contactId]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!contact) {
+    return (
+      <div className="px-4 sm:px-6 lg:px-8 text-center py-12">
+        <p className="text-gray-500">This contact does not exist or was deleted.</p>
+        <Link
+          view="contacts"
+          className="mt-4 inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          Back to contacts
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <Link
+        view="contacts"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Contacts
+      </Link>
+
+      <div className="mt-4 mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">
+          {contact.first_name} {contact.last_name}
+        </h1>
+        {(contact.title || contact.company) && (
+          <p className="mt-1 text-sm text-gray-700">
+            {contact.title}
+            {contact.title && contact.company && ' at '}
+            {contact.company && (
+              <Link
+                view="companies"
+                recordId={contact.company_id}
+                className="font-medium text-blue-600 hover:underline"
+              >
+                {contact.company.name}
+              </Link>
+            )}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="space-y-6">
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Details</h3>
+            <dl className="space-y-3 text-sm">
+              <RecordOwner
+                table="contacts"
+                recordId={contact.id}
+                ownerId={contact.owner_id}
+                onReassign={(ownerId) => setContact({ ...contact, owner_id: ownerId })}
+              />
+              <div className="flex items-center text-gray-600">
+                <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                {contact.email ? (
+                  <a href={`mailto:${contact.email}`} className="text-blue-600 hover:underline">
+                    {contact.email}
+                  </a>
+                ) : (
+                  <span className="text-gray-400">No email</span>
+                )}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Phone className="w-4 h-4 mr-2 text-gray-400" />
+                {contact.phone || <span className="text-gray-400">No phone</span>}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Building2 className="w-4 h-4 mr-2 text-gray-400" />
+                {contact.company?.name || <span className="text-gray-400">No company</span>}
+              </div>
+              <CustomFieldDetails table="contacts" values={contact.custom_fields} />
+              {contact.notes && (
+                <div className="pt-3 border-t border-gray-100">
+                  <dt className="font-medium text-gray-700">Notes</dt>
+                  <dd className="mt-1 text-gray-600 whitespace-pre-line">{contact.notes}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <History className="w-5 h-5 mr-2 text-gray-400" />
+              History
+            </h3>
+            <RecordHistory table="contacts" recordId={contact.id} />
+          </div>
+
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Deals ({deals.length})</h3>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {deals.map((deal) => (
+                <li key={deal.id}>
+                  <Link
+                    view="deals"
+                    recordId={deal.id}
+                    className="px-6 py-3 flex items-center justify-between hover:bg-gray-50"
+                  >
+                    <span className="text-sm font-medium text-gray-900">{deal.title}</span>
+                    <span className="flex items-center text-xs text-gray-500">
+                      {stagesById[deal.stage_id]?.name}
+                      <DollarSign className="w-3 h-3 ml-3" />
+                      {deal.value.toLocaleString()}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+              {deals.length === 0 && (
+                <li className="px-6 py-3 text-sm text-gray-500">No deals with this contact</li>
+              )}
+            </ul>
+          </div>
+
+          <ContactSequences contactId={contact.id} deals={deals} />
+        </div>
+
+        <div className="space-y-6 lg:col-span-2">
+          <RelatedTasks
+            column="contact_id"
+            recordId={contact.id}
+            links={{ company_id: contact.company_id }}
+          />
+          <RelatedActivities
+            column="contact_id"
+            recordId={contact.id}
+            links={{ company_id: contact.company_id }}
+            emailTo={contact.email}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
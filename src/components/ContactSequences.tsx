@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Deal, SequenceEnrollment } from '../lib/supabase';
+import { ENROLLMENT_STATUS_LABELS } from '../lib/sequences';
+import { ENROLLMENT_STATUS_COLORS } from '../lib/styles';
+import { useAuth } from '../contexts/AuthContext';
+import { useSequences } from '../hooks/useSequences';
+import Link from './Link';
+import { Workflow } from 'lucide-react';
+
+type ContactSequencesProps = {
+  contactId: string;
+  // Deals of the contact, one of which the sequence can be about
+  deals: Deal[];
+};
+
+const selectClass =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+// The contact's sequence enrollments, with enrolling and stopping.
+export default function ContactSequences({ contactId, deals }: ContactSequencesProps) {
+  const { can } = useAuth();
+  const { sequences } = useSequences();
+  const [enrollments, setEnrollments] = useState<SequenceEnrollment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sequenceId, setSequenceId] = useState('');
+  const [dealId, setDealId] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchEnrollments = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('sequence_enrollments')
+        .select('*, sequence:sequences(*, steps:sequence_steps(id))')
+        .eq('contact_id', contactId)
+        .order('enrolled_at', { ascending: false });
+      if (fetchError) throw fetchError;
+      setEnrollments(data || []);
+    } catch (err) {
+      console.error('Error fetching sequence enrollments:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [contactId]);
+
+  useEffect(() => {
+    fetchEnrollments();
+  }, [fetchEnrollments]);
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sequenceId) return;
+    setError('');
+    try {
+      const { error: insertError } = await supabase
+        .from('sequence_enrollments')
+        .insert([{ sequence_id: sequenceId, contact_id: contactId, deal_id: dealId || null }]);
+      if (insertError) {
+        if (insertError.code === '23505') {
+          setError('This contact is already in that sequence.');
+          return;
+        }
+        throw insertError;
+      }
+      setSequenceId('');
+      setDealId('');
+      fetchEnrollments();
+    } catch (err) {
+      console.error('Error enrolling contact:', err);
+      setError('Could not enroll the contact.');
+    }
+  };
+
+  const handleStop = async (enrollment: SequenceEnrollment) => {
+    try {
+      const now = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('sequence_enrollments')
+        .update({ status: 'stopped', finished_at: now, updated_at: now })
+        .eq('id', enrollment.id);
+      if (updateError) throw updateError;
+      fetchEnrollments();
+    } catch (err) {
+      console.error('Error stopping sequence enrollment:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg px-6 py-4">
+      <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <Workflow className="w-5 h-5 mr-2 text-gray-400" />
+        Sequences
+      </h3>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading sequences...</p>
+      ) : (
+        <ul className="space-y-3">
+          {enrollments.map((enrollment) => {
+            const stepCount = enrollment.sequence?.steps?.length || 0;
+            return (
+              <li key={enrollment.id} className="text-sm">
+                <div className="flex items-center justify-between">
+                  <Link
+                    view="sequences"
+                    className="font-medium text-gray-900 hover:text-blue-600 hover:underline"
+                  >
+                    {enrollment.sequence?.name}
+                  </Link>
+                  <span
+                    className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      ENROLLMENT_STATUS_COLORS[enrollment.status]
+                    }`}
+                  >
+                    {ENROLLMENT_STATUS_LABELS[enrollment.status]}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-xs text-gray-500">
+                  {enrollment.status === 'active'
+                    ? `Step ${Math.min(enrollment.current_step + 1, stepCount)} of ${stepCount}, next ${new Date(
+                        enrollment.next_run_at
+                      ).toLocaleString()}`
+                    : `Enrolled ${new Date(enrollment.enrolled_at).toLocaleDateString()}`}
+                </p>
+                {enrollment.status === 'active' && enrollment.last_error && (
+                  <p className="mt-0.5 text-xs text-red-600">{enrollment.last_error}</p>
+                )}
+                {enrollment.status === 'active' && can('edit', enrollment) && (
+                  <button
+                    onClick={() => handleStop(enrollment)}
+                    className="mt-1 text-xs font-medium text-red-600 hover:text-red-800"
+                  >
+                    Stop
+                  </button>
+                )}
+              </li>
+            );
+          })}
+          {enrollments.length === 0 && (
+            <li className="text-sm text-gray-500">Not in any sequence</li>
+          )}
+        </ul>
+      )}
+
+      {can('create') && sequences.length > 0 && (
+        <form onSubmit={handleEnroll} className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <select
+            value={sequenceId}
+            onChange={(e) => setSequenceId(e.target.value)}
+            aria-label="Sequence"
+            className={selectClass}
+          >
+            <option value="">Choose a sequence...</option>
+            {sequences.map((sequence) => (
+              <option key={sequence.id} value={sequence.id}>
+                {sequence.name}
+              </option>
+            ))}
+          </select>
+          {deals.length > 0 && (
+            <select
+              value={dealId}
+              onChange={(e) => setDealId(e.target.value)}
+              aria-label="Deal"
+              className={selectClass}
+            >
+              <option value="">No deal</option>
+              {deals.map((deal) => (
+                <option key={deal.id} value={deal.id}>
+                  {deal.title}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            type="submit"
+            disabled={!sequenceId}
+            className="w-full px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            Enroll
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,83 @@
 import { useState, useEffect } from 'react';
-import { supabase, Contact, Company } from '../lib/supabase';
-import { Plus, Edit2, Trash2, Search, Mail, Phone, Building2 } from 'lucide-react';
+import { supabase, Contact, Company, CustomFieldValues } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePagedList } from '../hooks/usePagedList';
+import { useListFilter } from '../hooks/useListFilter';
+import { useDuplicateCheck } from '../hooks/useDuplicateCheck';
+import { useRecordFilterFields } from '../hooks/useRecordFilterFields';
+import { useSegments } from '../hooks/useSegments';
+import { useSelection } from '../hooks/useSelection';
+import { useBulkActions } from '../hooks/useBulkActions';
+import { useSequences } from '../hooks/useSequences';
+import { ExportColumn, fullName } from '../lib/export';
+import { ilikeAny } from '../lib/paging';
+import { filterExpression, memberOptions, optionLabel } from '../lib/filters';
+import { customExportColumns, customValuesToSave, formatCustomValue } from '../lib/customFields';
+import { saveRecordTags, tagNames } from '../lib/tags';
+import { withSegment } from '../lib/segments';
+import { bulkDelete, bulkEnroll, bulkTag, bulkUpdate } from '../lib/bulk';
+import Link from './Link';
+import ImportWizard from './ImportWizard';
+import ExportMenu from './ExportMenu';
+import DeleteRecordDialog from './DeleteRecordDialog';
+import DuplicateWarning from './DuplicateWarning';
+import SortableHeader from './SortableHeader';
+import Pagination from './Pagination';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import CustomFieldInputs from './CustomFieldInputs';
+import SegmentSelect from './SegmentSelect';
+import TagChips from './TagChips';
+import TagPicker from './TagPicker';
+import BulkActionBar from './BulkActionBar';
+import BulkSelect from './BulkSelect';
+import { Plus, Upload, Edit2, Trash2, Search, Mail, Phone, Building2, Combine } from 'lucide-react';
+
+const EXPORT_COLUMNS: ExportColumn<Contact>[] = [
+  { key: 'first_name', header: 'First Name', value: (c) => c.first_name },
+  { key: 'last_name', header: 'Last Name', value: (c) => c.last_name },
+  { key: 'email', header: 'Email', value: (c) => c.email },
+  { key: 'phone', header: 'Phone', value: (c) => c.phone },
+  { key: 'title', header: 'Title', value: (c) => c.title },
+  { key: 'company', header: 'Company', value: (c) => c.company?.name },
+  { key: 'tags', header: 'Tags', value: (c) => tagNames(c.tags) },
+  { key: 'notes', header: 'Notes', value: (c) => c.notes },
+  { key: 'created_at', header: 'Created', value: (c) => c.created_at },
+];
+
+type ContactSort = 'name' | 'email' | 'phone' | 'company' | 'title' | 'created_at';
+
+// Columns of `contact_list` each sort orders by.
+const SORT_COLUMNS: Record<ContactSort, string[]> = {
+  name: ['last_name', 'first_name'],
+  email: ['email'],
+  phone: ['phone'],
+  company: ['company_name'],
+  title: ['title'],
+  created_at: ['created_at'],
+};
+
+const SORTS = Object.keys(SORT_COLUMNS) as ContactSort[];
+
+// `custom_text` is a computed column joining every custom value.
+const SEARCH_COLUMNS = ['full_name', 'email', 'company_name', 'custom_text'];
 
 export default function Contacts() {
-  const [contacts, setContacts] = useState<Contact[]>([]);
+  const { can } = useAuth();
+  const {
+    fields: filterFields,
+    members,
+    customFields,
+    tags,
+    loading: fieldsLoading,
+  } = useRecordFilterFields<Contact>('contacts');
+  const { segments, loading: segmentsLoading } = useSegments('contacts');
+  const [filter, setFilter] = useListFilter();
   const [companies, setCompanies] = useState<Company[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [deletingContact, setDeletingContact] = useState<Contact | null>(null);
   const [formData, setFormData] = useState({
     first_name: '',
     last_name: '',
@@ -18,28 +87,50 @@ export default function Contacts() {
     company_id: '',
     notes: '',
   });
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagIds, setTagIds] = useState<string[]>([]);
+
+  const duplicates = useDuplicateCheck('contacts', formData, isModalOpen && !editingContact);
+
+  const list = usePagedList<Contact, ContactSort>({
+    label: 'contacts',
+    sorts: SORTS,
+    defaultSort: 'created_at',
+    defaultDirection: 'desc',
+    ready: !fieldsLoading && !segmentsLoading,
+    buildQuery: ({ search, filter, segment, sort, ascending }) => {
+      let query = supabase
+        .from('contact_list')
+        .select('*, company:companies(*), tags(*)', { count: 'exact' });
+
+      if (search) query = query.or(ilikeAny(SEARCH_COLUMNS, search));
+      const expression = filterExpression(
+        withSegment(filter, segments.find((s) => s.id === segment)),
+        filterFields
+      );
+      if (expression) query = query.or(expression);
+      SORT_COLUMNS[sort].forEach((column) => {
+        query = query.order(column, { ascending, nullsFirst: false });
+      });
+      return query.order('id');
+    },
+  });
+
+  const exportColumns = [...EXPORT_COLUMNS, ...customExportColumns<Contact>(customFields)];
+  const listFields = customFields.filter((field) => field.show_in_list);
+
+  const selection = useSelection(list.rows);
+  const bulk = useBulkActions('contacts', selection, list.refresh);
+  const ownerOptions = memberOptions(members.filter((member) => member.role !== 'read_only'));
+  const tagOptions = tags.map((tag) => ({ value: tag.id, label: tag.name }));
+  const companyOptions = companies.map((company) => ({ value: company.id, label: company.name }));
+  const { sequences } = useSequences();
+  const sequenceOptions = sequences.map((sequence) => ({ value: sequence.id, label: sequence.name }));
 
   useEffect(() => {
-    fetchContacts();
     fetchCompanies();
   }, []);
 
-  const fetchContacts = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('contacts')
-        .select('*, company:companies(*)')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setContacts(data || []);
-    } catch (error) {
-      console.error('Error fetching contacts:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchCompanies = async () => {
     try {
       const { data, error } = await supabase
@@ -60,6 +151,7 @@ export default function Contacts() {
       const contactData = {
         ...formData,
         company_id: formData.company_id || null,
+        custom_fields: customValuesToSave(customFields, customValues),
         updated_at: new Date().toISOString(),
       };
 
@@ -70,32 +162,31 @@ export default function Contacts() {
           .eq('id', editingContact.id);
 
         if (error) throw error;
+        await saveRecordTags(
+          'contacts',
+          editingContact.id,
+          tagIds,
+          editingContact.tags?.map((tag) => tag.id) || []
+        );
       } else {
-        const { error } = await supabase.from('contacts').insert([contactData]);
+        const { data, error } = await supabase
+          .from('contacts')
+          .insert([contactData])
+          .select()
+          .single();
         if (error) throw error;
+        await saveRecordTags('contacts', data.id, tagIds, []);
       }
 
       setIsModalOpen(false);
       setEditingContact(null);
       resetForm();
-      fetchContacts();
+      list.refresh();
     } catch (error) {
       console.error('Error saving contact:', error);
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this contact?')) return;
-
-    try {
-      const { error } = await supabase.from('contacts').delete().eq('id', id);
-      if (error) throw error;
-      fetchContacts();
-    } catch (error) {
-      console.error('Error deleting contact:', error);
-    }
-  };
-
   const openModal = (contact?: Contact) => {
     if (contact) {
       setEditingContact(contact);
@@ -108,6 +199,8 @@ export default function Contacts() {
         company_id: contact.company_id || '',
         notes: contact.notes || '',
       });
+      setCustomValues(contact.custom_fields || {});
+      setTagIds(contact.tags?.map((tag) => tag.id) || []);
     } else {
       resetForm();
     }
@@ -124,20 +217,12 @@ export default function Contacts() {
       company_id: '',
       notes: '',
     });
+    setCustomValues({});
+    setTagIds([]);
     setEditingContact(null);
   };
 
-  const filteredContacts = contacts.filter((contact) => {
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      contact.first_name.toLowerCase().includes(searchLower) ||
-      contact.last_name.toLowerCase().includes(searchLower) ||
-      contact.email?.toLowerCase().includes(searchLower) ||
-      contact.company?.name.toLowerCase().includes(searchLower)
-    );
-  });
-
-  if (loading) {
+  if (list.loading) {
     return <div className="text-center py-12">Loading...</div>;
   }
 
@@ -150,30 +235,59 @@ export default function Contacts() {
             Manage your contacts and their information
           </p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-          <button
-            onClick={() => openModal()}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          {can('create') && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </button>
+          )}
+          <Link
+            view="duplicates"
+            params={{ type: 'contacts' }}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
           >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Contact
-          </button>
+            <Combine className="w-4 h-4 mr-2" />
+            Duplicates
+          </Link>
+          <ExportMenu
+            rows={list.rows}
+            columns={exportColumns}
+            fileName="contacts"
+            totalCount={list.total}
+            loadRows={list.loadAll}
+          />
+          {can('create') && (
+            <button
+              onClick={() => openModal()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Contact
+            </button>
+          )}
         </div>
       </div>
 
-      <div className="mt-6">
-        <div className="relative">
+      <div className="mt-6 flex space-x-3">
+        <div className="relative flex-1">
           <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
             <Search className="h-5 w-5 text-gray-400" />
           </div>
           <input
             type="text"
             placeholder="Search contacts..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={list.search}
+            onChange={(e) => list.setSearch(e.target.value)}
             className="block w-full rounded-md border-gray-300 pl-10 focus:border-blue-500 focus:ring-blue-500 sm:text-sm py-2 border"
           />
         </div>
+        <SegmentSelect table="contacts" segments={segments} />
+        <FilterBuilder fields={filterFields} value={filter} onChange={setFilter} />
+        <SavedViewsMenu list="contacts" />
       </div>
 
       <div className="mt-8 flex flex-col">
@@ -183,31 +297,90 @@ export default function Contacts() {
               <table className="min-w-full divide-y divide-gray-300">
                 <thead className="bg-gray-50">
                   <tr>
-                    <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
-                      Name
-                    </th>
-                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                      Email
-                    </th>
-                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                      Phone
+                    <th className="relative w-12 px-4">
+                      <input
+                        type="checkbox"
+                        checked={selection.allSelected}
+                        ref={(el) => {
+                          if (el) el.indeterminate = selection.someSelected;
+                        }}
+                        onChange={selection.toggleAll}
+                        aria-label="Select all contacts on this page"
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
                     </th>
+                    <SortableHeader
+                      label="Name"
+                      column="name"
+                      sort={list.sort}
+                      direction={list.direction}
+                      onSort={list.toggleSort}
+                      className="py-3.5 pl-4 pr-3"
+                    />
+                    <SortableHeader
+                      label="Email"
+                      column="email"
+                      sort={list.sort}
+                      direction={list.direction}
+                      onSort={list.toggleSort}
+                    />
+                    <SortableHeader
+                      label="Phone"
+                      column="phone"
+                      sort={list.sort}
+                      direction={list.direction}
+                      onSort={list.toggleSort}
+                    />
+                    <SortableHeader
+                      label="Company"
+                      column="company"
+                      sort={list.sort}
+                      direction={list.direction}
+                      onSort={list.toggleSort}
+                    />
+                    <SortableHeader
+                      label="Title"
+                      column="title"
+                      sort={list.sort}
+                      direction={list.direction}
+                      onSort={list.toggleSort}
+                    />
                     <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                      Company
-                    </th>
-                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
-                      Title
+                      Tags
                     </th>
+                    {listFields.map((field) => (
+                      <th
+                        key={field.id}
+                        className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"
+                      >
+                        {field.label}
+                      </th>
+                    ))}
                     <th className="relative py-3.5 pl-3 pr-4">
                       <span className="sr-only">Actions</span>
                     </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 bg-white">
-                  {filteredContacts.map((contact) => (
-                    <tr key={contact.id}>
+                  {list.rows.map((contact) => (
+                    <tr key={contact.id} className={selection.isSelected(contact.id) ? 'bg-blue-50' : ''}>
+                      <td className="w-12 px-4">
+                        <input
+                          type="checkbox"
+                          checked={selection.isSelected(contact.id)}
+                          onChange={() => selection.toggle(contact.id)}
+                          aria-label={`Select ${contact.first_name} ${contact.last_name}`}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
                       <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900">
-                        {contact.first_name} {contact.last_name}
+                        <Link
+                          view="contacts"
+                          recordId={contact.id}
+                          className="hover:text-blue-600 hover:underline"
+                        >
+                          {contact.first_name} {contact.last_name}
+                        </Link>
                       </td>
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                         {contact.email && (
@@ -236,25 +409,37 @@ export default function Contacts() {
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                         {contact.title}
                       </td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        <TagChips tags={contact.tags} />
+                      </td>
+                      {listFields.map((field) => (
+                        <td key={field.id} className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                          {formatCustomValue(field, contact.custom_fields?.[field.key])}
+                        </td>
+                      ))}
                       <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
-                        <button
-                          onClick={() => openModal(contact)}
-                          className="text-blue-600 hover:text-blue-900 mr-4"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(contact.id)}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        {can('edit', contact) && (
+                          <button
+                            onClick={() => openModal(contact)}
+                            className="text-blue-600 hover:text-blue-900 mr-4"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {can('delete', contact) && (
+                          <button
+                            onClick={() => setDeletingContact(contact)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
-              {filteredContacts.length === 0 && (
+              {list.rows.length === 0 && (
                 <div className="text-center py-12 text-gray-500">
                   No contacts found
                 </div>
@@ -262,8 +447,98 @@ export default function Contacts() {
             </div>
           </div>
         </div>
+        <Pagination page={list.page} total={list.total} onPageChange={list.setPage} />
       </div>
 
+      <BulkActionBar count={selection.selected.length} bulk={bulk} onClear={selection.clear}>
+        {can('reassign') && (
+          <BulkSelect
+            label="Reassign to..."
+            options={ownerOptions}
+            onSelect={(ownerId) =>
+              bulk.run(
+                (count) => `Reassigned ${count} to ${optionLabel(ownerOptions, ownerId)}`,
+                'edit',
+                (records, onProgress) =>
+                  bulkUpdate('contacts', records, { owner_id: ownerId }, onProgress)
+              )
+            }
+          />
+        )}
+        <BulkSelect
+          label="Add tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Tagged ${count} with ${optionLabel(tagOptions, tagId)}`,
+              'edit',
+              (records, onProgress) => bulkTag('contacts', records, tagId, true, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Remove tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Removed ${optionLabel(tagOptions, tagId)} from ${count}`,
+              'edit',
+              (records, onProgress) => bulkTag('contacts', records, tagId, false, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Link to company..."
+          options={companyOptions}
+          onSelect={(companyId) =>
+            bulk.run(
+              (count) => `Linked ${count} to ${optionLabel(companyOptions, companyId)}`,
+              'edit',
+              (records, onProgress) =>
+                bulkUpdate('contacts', records, { company_id: companyId }, onProgress)
+            )
+          }
+        />
+        {can('create') && (
+          <BulkSelect
+            label="Enroll in sequence..."
+            options={sequenceOptions}
+            onSelect={(sequenceId) =>
+              bulk.run(
+                (count) => `Enrolled ${count} in ${optionLabel(sequenceOptions, sequenceId)}`,
+                'edit',
+                (records, onProgress) => bulkEnroll(sequenceId, records, onProgress)
+              )
+            }
+          />
+        )}
+        <ExportMenu rows={selection.selected} columns={exportColumns} fileName="contacts" dropUp />
+        {selection.selected.some((contact) => can('delete', contact)) && (
+          <button
+            onClick={() => {
+              if (!confirm(`Move ${selection.selected.length} selected contacts to the trash?`)) return;
+              bulk.run(
+                (count) => `Moved ${count} to the trash`,
+                'delete',
+                (records, onProgress) => bulkDelete('contacts', records, onProgress)
+              );
+            }}
+            className="inline-flex items-center rounded-md border border-red-200 bg-white px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </button>
+        )}
+      </BulkActionBar>
+
+      {isImportOpen && (
+        <ImportWizard
+          entity="contacts"
+          onClose={() => setIsImportOpen(false)}
+          onImported={list.refresh}
+        />
+      )}
+
       {isModalOpen && (
         <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -356,6 +631,16 @@ export default function Contacts() {
                 />
               </div>
 
+              <TagPicker value={tagIds} onChange={setTagIds} />
+
+              <CustomFieldInputs
+                fields={customFields}
+                values={customValues}
+                onChange={setCustomValues}
+              />
+
+              <DuplicateWarning table="contacts" matches={duplicates} />
+
               <div className="flex justify-end space-x-3 pt-4 border-t">
                 <button
                   type="button"
@@ -371,13 +656,23 @@ export default function Contacts() {
                   type="submit"
                   className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
                 >
-                  {editingContact ? 'Update' : 'Create'}
+                  {editingContact ? 'Update' : duplicates.length > 0 ? 'Create anyway' : 'Create'}
                 </button>
               </div>
             </form>
           </div>
         </div>
       )}
+
+      {deletingContact && (
+        <DeleteRecordDialog
+          table="contacts"
+          recordId={deletingContact.id}
+          label={fullName(deletingContact) || ''}
+          onClose={() => setDeletingContact(null)}
+          onDeleted={list.refresh}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,39 @@
+import { CustomFieldTable, CustomFieldValues } from '../lib/supabase';
+import { formatCustomValue } from '../lib/customFields';
+import { useCustomFields } from '../hooks/useCustomFields';
+
+type CustomFieldDetailsProps = {
+  table: CustomFieldTable;
+  values: CustomFieldValues | null | undefined;
+};
+
+// Custom values of a record on its detail page; fields without a value are left out.
+export default function CustomFieldDetails({ table, values }: CustomFieldDetailsProps) {
+  const { fields } = useCustomFields(table);
+  const filled = fields.filter((field) => values?.[field.key] !== undefined);
+  if (!values || filled.length === 0) return null;
+
+  return (
+    <div className="pt-3 border-t border-gray-100 space-y-2">
+      {filled.map((field) => (
+        <div key={field.id} className="flex justify-between gap-3">
+          <dt className="font-medium text-gray-700">{field.label}</dt>
+          <dd className="text-gray-600 text-right break-words min-w-0">
+            {field.type === 'url' ? (
+              <a
+                href={String(values[field.key])}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline"
+              >
+                {String(values[field.key])}
+              </a>
+            ) : (
+              formatCustomValue(field, values[field.key])
+            )}
+          </dd>
+        </div>
+      ))}
+    </div>
+  );
+}
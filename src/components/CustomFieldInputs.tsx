@@ -0,0 +1,139 @@
+import { CustomField, CustomFieldValue, CustomFieldValues } from '../lib/supabase';
+
+type CustomFieldInputsProps = {
+  fields: CustomField[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+};
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+// Form inputs for the custom fields of a create or edit modal. Values are passed through
+// `customValuesToSave` before saving.
+export default function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: CustomFieldValue) => onChange({ ...values, [key]: value });
+
+  const renderInput = (field: CustomField) => {
+    const value = values[field.key];
+    const text = value === undefined || Array.isArray(value) ? '' : String(value);
+
+    switch (field.type) {
+      case 'checkbox':
+        return (
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => setValue(field.key, e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {field.label}
+          </label>
+        );
+      case 'select':
+        return (
+          <select
+            id={`custom-${field.key}`}
+            value={text}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Select...</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'multi_select': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+            {field.options.map((option) => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) =>
+                    setValue(
+                      field.key,
+                      e.target.checked
+                        ? field.options.filter((o) => o === option || selected.includes(o))
+                        : selected.filter((o) => o !== option)
+                    )
+                  }
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'number':
+      case 'currency':
+        return (
+          <input
+            id={`custom-${field.key}`}
+            type="number"
+            step="any"
+            value={text}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+          />
+        );
+      case 'date':
+        return (
+          <input
+            id={`custom-${field.key}`}
+            type="date"
+            value={text}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+          />
+        );
+      case 'url':
+        return (
+          <input
+            id={`custom-${field.key}`}
+            type="url"
+            pattern="https?://.+"
+            value={text}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+            placeholder="https://example.com"
+          />
+        );
+      default:
+        return (
+          <input
+            id={`custom-${field.key}`}
+            type="text"
+            value={text}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div key={field.id} className={field.type === 'multi_select' ? 'col-span-2' : undefined}>
+          {field.type !== 'checkbox' && (
+            <label htmlFor={`custom-${field.key}`} className="block text-sm font-medium text-gray-700">
+              {field.label}
+              {field.type === 'currency' && ' ($)'}
+            </label>
+          )}
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from 'react';
+import { supabase, CustomField, CustomFieldTable, CustomFieldType } from '../lib/supabase';
+import { CUSTOM_FIELD_TABLES, CUSTOM_FIELD_TYPES, fieldKeyOf, hasOptions } from '../lib/customFields';
+import { useAuth } from '../contexts/AuthContext';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { Plus, Edit2, Trash2, ChevronUp, ChevronDown, Columns } from 'lucide-react';
+
+type FieldDraft = {
+  id: string | null;
+  label: string;
+  type: CustomFieldType;
+  // One option per line
+  options: string;
+  show_in_list: boolean;
+};
+
+const EMPTY_DRAFT: FieldDraft = {
+  id: null,
+  label: '',
+  type: 'text',
+  options: '',
+  show_in_list: false,
+};
+
+const typeLabel = (type: CustomFieldType) =>
+  CUSTOM_FIELD_TYPES.find((t) => t.id === type)?.label || type;
+
+const parseOptions = (text: string) => [
+  ...new Set(
+    text
+      .split('\n')
+      .map((option) => option.trim())
+      .filter(Boolean)
+  ),
+];
+
+// A key not yet used by another field of the record type: `budget`, `budget_2`, ...
+const uniqueKey = (label: string, existing: CustomField[]) => {
+  const base = fieldKeyOf(label);
+  let key = base;
+  for (let n = 2; existing.some((field) => field.key === key); n++) {
+    key = `${base.slice(0, 60)}_${n}`;
+  }
+  return key;
+};
+
+export default function CustomFieldSettings() {
+  const { can } = useAuth();
+  const { fields, loading, refresh } = useCustomFields();
+  const [table, setTable] = useState<CustomFieldTable>('contacts');
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can('manage_custom_fields');
+  const tableFields = fields.filter((field) => field.table_name === table);
+  const tableLabel = CUSTOM_FIELD_TABLES.find((t) => t.id === table)?.label || table;
+
+  const openDraft = (field?: CustomField) => {
+    setDraft(
+      field
+        ? {
+            id: field.id,
+            label: field.label,
+            type: field.type,
+            options: field.options.join('\n'),
+            show_in_list: field.show_in_list,
+          }
+        : EMPTY_DRAFT
+    );
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const options = hasOptions(draft.type) ? parseOptions(draft.options) : [];
+    if (hasOptions(draft.type) && options.length === 0) {
+      setError('Add at least one option.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const fieldData = {
+        label: draft.label.trim(),
+        options,
+        show_in_list: draft.show_in_list,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (draft.id) {
+        const { error: updateError } = await supabase
+          .from('custom_fields')
+          .update(fieldData)
+          .eq('id', draft.id);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from('custom_fields').insert([
+          {
+            ...fieldData,
+            table_name: table,
+            key: uniqueKey(draft.label, tableFields),
+            type: draft.type,
+            position: tableFields.length,
+          },
+        ]);
+        if (insertError) throw insertError;
+      }
+
+      setDraft(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving custom field:', err);
+      setError('Could not save the field.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const moveField = async (index: number, offset: number) => {
+    const reordered = [...tableFields];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    try {
+      const results = await Promise.all(
+        reordered
+          .map((field, position) => ({ field, position }))
+          .filter(({ field, position }) => field.position !== position)
+          .map(({ field, position }) =>
+            supabase.from('custom_fields').update({ position }).eq('id', field.id)
+          )
+      );
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+    } catch (err) {
+      console.error('Error reordering custom fields:', err);
+    } finally {
+      await refresh();
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (
+      !confirm(
+        `Delete the field "${field.label}"? Its values are removed from every ${tableLabel.toLowerCase()} record.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const { error: deleteError } = await supabase.from('custom_fields').delete().eq('id', field.id);
+      if (deleteError) throw deleteError;
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting custom field:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+      <div className="lg:col-span-1">
+        <div className="bg-white shadow rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Record type</h3>
+          <div className="space-y-1">
+            {CUSTOM_FIELD_TABLES.map((t) => (
+              <button
+                key={t.id}
+                onClick={() => {
+                  setTable(t.id);
+                  setDraft(null);
+                }}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm text-left ${
+                  t.id === table ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {t.label}
+                <span className="text-xs text-gray-400">
+                  {fields.filter((field) => field.table_name === t.id).length}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="lg:col-span-3 bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{tableLabel} fields</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {canManage
+                ? 'Shown in the create and edit forms, and usable in search, filters and exports.'
+                : 'Only workspace admins can change custom fields.'}
+            </p>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => openDraft()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Field
+            </button>
+          )}
+        </div>
+
+        <ul className="divide-y divide-gray-200">
+          {tableFields.map((field, index) => (
+            <li key={field.id} className="px-6 py-3 flex items-center">
+              {canManage && (
+                <div className="flex flex-col mr-3">
+                  <button
+                    onClick={() => moveField(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveField(index, 1)}
+                    disabled={index === tableFields.length - 1}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{field.label}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {typeLabel(field.type)}
+                  {hasOptions(field.type) && `: ${field.options.join(', ')}`}
+                </p>
+              </div>
+              {field.show_in_list && (
+                <span
+                  title="Shown in the list"
+                  className="mr-4 inline-flex items-center text-xs text-gray-500"
+                >
+                  <Columns className="w-4 h-4 mr-1" />
+                  In list
+                </span>
+              )}
+              {canManage && (
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => openDraft(field)}
+                    className="text-blue-600 hover:text-blue-900"
+                    aria-label={`Edit ${field.label}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(field)}
+                    className="text-red-600 hover:text-red-900"
+                    aria-label={`Delete ${field.label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+          {tableFields.length === 0 && (
+            <li className="px-6 py-8 text-center text-sm text-gray-500">
+              No custom fields for {tableLabel.toLowerCase()} yet
+            </li>
+          )}
+        </ul>
+      </div>
+
+      {draft && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {draft.id ? 'Edit Field' : `Add ${tableLabel} Field`}
+              </h3>
+            </div>
+            <form onSubmit={handleSave} className="px-6 py-4 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Label *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  value={draft.type}
+                  disabled={!!draft.id}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as CustomFieldType })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2 disabled:bg-gray-50 disabled:text-gray-500"
+                >
+                  {CUSTOM_FIELD_TYPES.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+                {draft.id && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    The type cannot be changed once a field exists.
+                  </p>
+                )}
+              </div>
+
+              {hasOptions(draft.type) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Options *</label>
+                  <textarea
+                    rows={4}
+                    value={draft.options}
+                    onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                    placeholder="One option per line"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                  {draft.id && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Records keep a removed option until they are next edited.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.show_in_list}
+                  onChange={(e) => setDraft({ ...draft, show_in_list: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Show in the {tableLabel.toLowerCase()} list
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : draft.id ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
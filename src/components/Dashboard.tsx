@@ -1,82 +1,49 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
-import { Users, Building2, DollarSign, CheckSquare, TrendingUp, Calendar } from 'lucide-react';
-
-type Stats = {
-  totalContacts: number;
-  totalCompanies: number;
-  totalDeals: number;
-  totalDealValue: number;
-  activeTasks: number;
-  overdueTasks: number;
-  recentActivities: number;
+import { supabase, DashboardStats } from '../lib/supabase';
+import { usePipelines } from '../hooks/usePipelines';
+import { formatDays } from '../lib/velocity';
+import {
+  Users,
+  Building2,
+  DollarSign,
+  CheckSquare,
+  TrendingUp,
+  Calendar,
+  Timer,
+  Scale,
+} from 'lucide-react';
+
+const EMPTY_STATS: DashboardStats = {
+  contacts: 0,
+  companies: 0,
+  activities: 0,
+  deals: 0,
+  active_tasks: 0,
+  overdue_tasks: 0,
+  open_deals: 0,
+  open_value: 0,
+  weighted_value: 0,
+  deals_by_stage: {},
+  velocity: {},
 };
 
 export default function Dashboard() {
-  const [stats, setStats] = useState<Stats>({
-    totalContacts: 0,
-    totalCompanies: 0,
-    totalDeals: 0,
-    totalDealValue: 0,
-    activeTasks: 0,
-    overdueTasks: 0,
-    recentActivities: 0,
-  });
-  const [dealsByStage, setDealsByStage] = useState<Record<string, number>>({});
+  const { pipelines, loading: pipelinesLoading } = usePipelines();
+  const [stats, setStats] = useState<DashboardStats>(EMPTY_STATS);
+  const [velocityPipelineId, setVelocityPipelineId] = useState('');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchDashboardData();
   }, []);
 
+  // Counts, totals and pipeline velocity are all aggregated in Postgres.
   const fetchDashboardData = async () => {
     try {
-      const [
-        contactsResult,
-        companiesResult,
-        dealsResult,
-        tasksResult,
-        activitiesResult,
-      ] = await Promise.all([
-        supabase.from('contacts').select('id', { count: 'exact', head: true }),
-        supabase.from('companies').select('id', { count: 'exact', head: true }),
-        supabase.from('deals').select('*'),
-        supabase.from('tasks').select('*'),
-        supabase.from('activities').select('id', { count: 'exact', head: true }),
-      ]);
-
-      const deals = dealsResult.data || [];
-      const tasks = tasksResult.data || [];
-
-      const totalValue = deals.reduce((sum, deal) => sum + deal.value, 0);
-
-      const activeTasks = tasks.filter(
-        (t) => t.status === 'pending' || t.status === 'in_progress'
-      ).length;
-
-      const overdueTasks = tasks.filter(
-        (t) =>
-          (t.status === 'pending' || t.status === 'in_progress') &&
-          t.due_date &&
-          new Date(t.due_date) < new Date()
-      ).length;
-
-      const stageCount = deals.reduce((acc, deal) => {
-        acc[deal.stage] = (acc[deal.stage] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      setStats({
-        totalContacts: contactsResult.count || 0,
-        totalCompanies: companiesResult.count || 0,
-        totalDeals: deals.length,
-        totalDealValue: totalValue,
-        activeTasks,
-        overdueTasks,
-        recentActivities: activitiesResult.count || 0,
-      });
-
-      setDealsByStage(stageCount);
+      const { data, error } = await supabase.rpc('dashboard_stats');
+
+      if (error) throw error;
+      setStats(data);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -84,44 +51,56 @@ export default function Dashboard() {
     }
   };
 
-  if (loading) {
+  if (loading || pipelinesLoading) {
     return <div className="text-center py-12">Loading...</div>;
   }
 
+  const velocityPipeline =
+    pipelines.find((pipeline) => pipeline.id === velocityPipelineId) ||
+    pipelines.find((pipeline) => pipeline.is_default) ||
+    pipelines[0];
+  const velocity = velocityPipeline ? stats.velocity[velocityPipeline.id] : null;
+
   const statCards = [
     {
       name: 'Total Contacts',
-      value: stats.totalContacts,
+      value: stats.contacts,
       icon: Users,
       color: 'bg-blue-500',
     },
     {
       name: 'Total Companies',
-      value: stats.totalCompanies,
+      value: stats.companies,
       icon: Building2,
       color: 'bg-purple-500',
     },
     {
       name: 'Total Deals',
-      value: stats.totalDeals,
+      value: stats.deals,
       icon: DollarSign,
       color: 'bg-green-500',
     },
     {
-      name: 'Deal Value',
-      value: `$${stats.totalDealValue.toLocaleString()}`,
+      name: 'Open Pipeline',
+      value: `$${stats.open_value.toLocaleString()}`,
       icon: TrendingUp,
       color: 'bg-green-600',
     },
+    {
+      name: 'Weighted Pipeline',
+      value: `$${Math.round(stats.weighted_value).toLocaleString()}`,
+      icon: Scale,
+      color: 'bg-teal-500',
+    },
     {
       name: 'Active Tasks',
-      value: stats.activeTasks,
+      value: stats.active_tasks,
       icon: CheckSquare,
       color: 'bg-orange-500',
     },
     {
       name: 'Overdue Tasks',
-      value: stats.overdueTasks,
+      value: stats.overdue_tasks,
       icon: Calendar,
       color: 'bg-red-500',
     },
@@ -170,30 +149,43 @@ export default function Dashboard() {
         <div className="bg-white overflow-hidden shadow rounded-lg">
           <div className="p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Deals by Stage</h3>
-            <div className="space-y-4">
-              {Object.entries(dealsByStage).map(([stage, count]) => {
-                const percentage = stats.totalDeals > 0
-                  ? (count / stats.totalDeals) * 100
-                  : 0;
-
-                return (
-                  <div key={stage}>
-                    <div className="flex items-center justify-between text-sm mb-1">
-                      <span className="font-medium text-gray-700 capitalize">
-                        {stage.replace('_', ' ')}
-                      </span>
-                      <span className="text-gray-500">{count} deals</span>
-                    </div>
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className="bg-blue-600 h-2 rounded-full transition-all"
-                        style={{ width: `${percentage}%` }}
-                      />
-                    </div>
+            <div className="space-y-6">
+              {stats.deals > 0 &&
+                pipelines.map((pipeline) => (
+                  <div key={pipeline.id} className="space-y-4">
+                    {pipelines.length > 1 && (
+                      <h4 className="text-sm font-semibold text-gray-900">{pipeline.name}</h4>
+                    )}
+                    {pipeline.stages.map((stage) => {
+                      const count = stats.deals_by_stage[stage.id] || 0;
+                      const percentage = stats.deals > 0
+                        ? (count / stats.deals) * 100
+                        : 0;
+
+                      return (
+                        <div key={stage.id}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="font-medium text-gray-700">{stage.name}</span>
+                            <span className="text-gray-500">{count} deals</span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full transition-all ${
+                                stage.outcome === 'won'
+                                  ? 'bg-green-600'
+                                  : stage.outcome === 'lost'
+                                    ? 'bg-red-500'
+                                    : 'bg-blue-600'
+                              }`}
+                              style={{ width: `${percentage}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
-                );
-              })}
-              {Object.keys(dealsByStage).length === 0 && (
+                ))}
+              {stats.deals === 0 && (
                 <p className="text-sm text-gray-500">No deals yet</p>
               )}
             </div>
@@ -207,31 +199,31 @@ export default function Dashboard() {
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Average Deal Value</span>
                 <span className="text-sm font-semibold text-gray-900">
-                  ${stats.totalDeals > 0
-                    ? Math.round(stats.totalDealValue / stats.totalDeals).toLocaleString()
+                  ${stats.open_deals > 0
+                    ? Math.round(stats.open_value / stats.open_deals).toLocaleString()
                     : 0}
                 </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Contacts per Company</span>
                 <span className="text-sm font-semibold text-gray-900">
-                  {stats.totalCompanies > 0
-                    ? (stats.totalContacts / stats.totalCompanies).toFixed(1)
+                  {stats.companies > 0
+                    ? (stats.contacts / stats.companies).toFixed(1)
                     : 0}
                 </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Task Completion Rate</span>
                 <span className="text-sm font-semibold text-gray-900">
-                  {stats.activeTasks + stats.overdueTasks > 0
-                    ? Math.round((stats.activeTasks / (stats.activeTasks + stats.overdueTasks)) * 100)
+                  {stats.active_tasks + stats.overdue_tasks > 0
+                    ? Math.round((stats.active_tasks / (stats.active_tasks + stats.overdue_tasks)) * 100)
                     : 0}%
                 </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-gray-600">Recent Activities</span>
                 <span className="text-sm font-semibold text-gray-900">
-                  {stats.recentActivities}
+                  {stats.activities}
                 </span>
               </div>
             </div>
@@ -239,6 +231,93 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {velocityPipeline && velocity && (
+        <div className="mt-8 bg-white overflow-hidden shadow rounded-lg">
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                <Timer className="w-5 h-5 mr-2 text-gray-400" />
+                Pipeline Velocity
+              </h3>
+              {pipelines.length > 1 && (
+                <select
+                  value={velocityPipeline.id}
+                  onChange={(e) => setVelocityPipelineId(e.target.value)}
+                  aria-label="Pipeline"
+                  className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-1"
+                >
+                  {pipelines.map((pipeline) => (
+                    <option key={pipeline.id} value={pipeline.id}>
+                      {pipeline.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6 sm:grid-cols-4">
+              <div>
+                <p className="text-sm text-gray-500">Avg. Days to Win</p>
+                <p className="text-xl font-semibold text-gray-900">
+                  {velocity.average_days_to_win !== null
+                    ? formatDays(velocity.average_days_to_win)
+                    : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Win Rate</p>
+                <p className="text-xl font-semibold text-gray-900">
+                  {velocity.win_rate !== null ? `${Math.round(velocity.win_rate * 100)}%` : '—'}
+                </p>
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="py-2 pr-3 text-left text-sm font-semibold text-gray-900">Stage</th>
+                  <th className="px-3 py-2 text-right text-sm font-semibold text-gray-900">
+                    Avg. Time in Stage
+                  </th>
+                  <th className="px-3 py-2 text-right text-sm font-semibold text-gray-900">
+                    Deals Entered
+                  </th>
+                  <th className="pl-3 py-2 text-left text-sm font-semibold text-gray-900">
+                    Moved Forward
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {velocity.stages.map((stage) => (
+                  <tr key={stage.stage_id}>
+                    <td className="py-2 pr-3 text-sm font-medium text-gray-700">{stage.name}</td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-900">
+                      {stage.average_days !== null ? formatDays(stage.average_days) : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-500">{stage.entered}</td>
+                    <td className="pl-3 py-2 text-sm text-gray-500">
+                      {stage.conversion_rate !== null ? (
+                        <div className="flex items-center">
+                          <div className="w-24 bg-gray-200 rounded-full h-2 mr-2">
+                            <div
+                              className="bg-green-500 h-2 rounded-full"
+                              style={{ width: `${stage.conversion_rate * 100}%` }}
+                            />
+                          </div>
+                          {Math.round(stage.conversion_rate * 100)}%
+                        </div>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
         <h3 className="text-lg font-medium text-blue-900 mb-2">Welcome to your CRM!</h3>
         <p className="text-sm text-blue-700">
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { supabase, Deal } from '../lib/supabase';
+import { usePipelines } from '../hooks/usePipelines';
+import { weightedValue } from '../lib/forecast';
+import DealTimeline from './DealTimeline';
+import Link from './Link';
+import CustomFieldDetails from './CustomFieldDetails';
+import RecordHistory from './RecordHistory';
+import RecordOwner from './RecordOwner';
+import RelatedTasks from './RelatedTasks';
+import RelatedActivities from './RelatedActivities';
+import { ArrowLeft, Building2, User, Calendar, DollarSign, TrendingUp, History } from 'lucide-react';
+
+type DealDetailProps = {
+  dealId: string;
+};
+
+export default function DealDetail({ dealId }: DealDetailProps) {
+  const { pipelines, stagesById } = usePipelines();
+  const [deal, setDeal] = useState<Deal | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDeal = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('deals')
+          .select('*, company:companies(*), contact:contacts(*)')
+          .eq('id', dealId)
+          .maybeSingle();
+
+        if (error) throw error;
+        setDeal(data);
+      } catch (error) {
+        console.error('Error fetching deal:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDeal();
+  }, [dealId]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!deal) {
+    return (
+      <div className="px-4 sm:px-6 lg:px-8 text-center py-12">
+        <p className="text-gray-500">This deal does not exist or was deleted.</p>
+        <Link
+          view="deals"
+          className="mt-4 inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          Back to deals
+        </Link>
+      </div>
+    );
+  }
+
+  const stage = stagesById[deal.stage_id];
+  const pipeline = pipelines.find((p) => p.id === deal.pipeline_id);
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <Link
+        view="deals"
+        className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Deals
+      </Link>
+
+      <div className="mt-4 mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">{deal.title}</h1>
+        <p className="mt-1 text-sm text-gray-700">
+          {pipelines.length > 1 && pipeline && `${pipeline.name} · `}
+          {stage?.name}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="space-y-6">
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Details</h3>
+            <dl className="space-y-3 text-sm">
+              <RecordOwner
+                table="deals"
+                recordId={deal.id}
+                ownerId={deal.owner_id}
+                onReassign={(ownerId) => setDeal({ ...deal, owner_id: ownerId })}
+              />
+              <div className="flex items-center text-gray-600">
+                <DollarSign className="w-4 h-4 mr-2 text-gray-400" />
+                ${deal.value.toLocaleString()}
+                <span className="ml-2 text-gray-400">
+                  ({deal.probability}% · ${Math.round(weightedValue(deal)).toLocaleString()}{' '}
+                  weighted)
+                </span>
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Calendar className="w-4 h-4 mr-2 text-gray-400" />
+                {deal.expected_close_date ? (
+                  `Expected close ${new Date(deal.expected_close_date).toLocaleDateString()}`
+                ) : (
+                  <span className="text-gray-400">No expected close date</span>
+                )}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <Building2 className="w-4 h-4 mr-2 text-gray-400" />
+                {deal.company ? (
+                  <Link
+                    view="companies"
+                    recordId={deal.company_id}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {deal.company.name}
+                  </Link>
+                ) : (
+                  <span className="text-gray-400">No company</span>
+                )}
+              </div>
+              <div className="flex items-center text-gray-600">
+                <User className="w-4 h-4 mr-2 text-gray-400" />
+                {deal.contact ? (
+                  <Link
+                    view="contacts"
+                    recordId={deal.contact_id}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {deal.contact.first_name} {deal.contact.last_name}
+                  </Link>
+                ) : (
+                  <span className="text-gray-400">No contact</span>
+                )}
+              </div>
+              <CustomFieldDetails table="deals" values={deal.custom_fields} />
+              {deal.notes && (
+                <div className="pt-3 border-t border-gray-100">
+                  <dt className="font-medium text-gray-700">Notes</dt>
+                  <dd className="mt-1 text-gray-600 whitespace-pre-line">{deal.notes}</dd>
+                </div>
+              )}
+            </dl>
+          </div>
+
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <TrendingUp className="w-5 h-5 mr-2 text-gray-400" />
+              Stage History
+            </h3>
+            <DealTimeline dealId={deal.id} />
+          </div>
+
+          <div className="bg-white shadow rounded-lg px-6 py-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <History className="w-5 h-5 mr-2 text-gray-400" />
+              History
+            </h3>
+            <RecordHistory table="deals" recordId={deal.id} />
+          </div>
+        </div>
+
+        <div className="space-y-6 lg:col-span-2">
+          <RelatedTasks
+            column="deal_id"
+            recordId={deal.id}
+            links={{ company_id: deal.company_id, contact_id: deal.contact_id }}
+          />
+          <RelatedActivities
+            column="deal_id"
+            recordId={deal.id}
+            links={{ company_id: deal.company_id, contact_id: deal.contact_id }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
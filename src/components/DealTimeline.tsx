@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { supabase, DealStageHistory } from '../lib/supabase';
+import { daysBetween, formatDays } from '../lib/velocity';
+import { Clock } from 'lucide-react';
+
+type DealTimelineProps = {
+  dealId: string;
+};
+
+export default function DealTimeline({ dealId }: DealTimelineProps) {
+  const [history, setHistory] = useState<DealStageHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('deal_stage_history')
+          .select('*')
+          .eq('deal_id', dealId)
+          .order('entered_at', { ascending: false });
+
+        if (error) throw error;
+        setHistory(data || []);
+      } catch (error) {
+        console.error('Error fetching stage history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [dealId]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No stage changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {history.map((entry) => (
+        <li key={entry.id} className="mb-4 ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+              entry.exited_at ? 'bg-gray-300' : 'bg-blue-600'
+            }`}
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">{entry.stage_name}</span>
+            <span className="inline-flex items-center text-xs text-gray-500">
+              <Clock className="w-3 h-3 mr-1" />
+              {formatDays(daysBetween(entry.entered_at, entry.exited_at))}
+              {!entry.exited_at && ' so far'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            {new Date(entry.entered_at).toLocaleString()}
+            {entry.exited_at && ` – ${new Date(entry.exited_at).toLocaleString()}`}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
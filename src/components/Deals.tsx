@@ -1,35 +1,83 @@
-import { useState, useEffect } from 'react';
-import { supabase, Deal, Company, Contact } from '../lib/supabase';
-import { Plus, Edit2, Trash2, DollarSign } from 'lucide-react';
-
-const DEAL_STAGES = ['lead', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost'];
-
-const STAGE_LABELS: Record<string, string> = {
-  lead: 'Lead',
-  qualified: 'Qualified',
-  proposal: 'Proposal',
-  negotiation: 'Negotiation',
-  closed_won: 'Closed Won',
-  closed_lost: 'Closed Lost',
+import { useState, useEffect, useRef } from 'react';
+import { supabase, Deal, Company, Contact, CustomFieldValues } from '../lib/supabase';
+import { bottomPosition, moveDeal, sortByPosition, topPosition, PositionUpdate } from '../lib/board';
+import { ExportColumn, fullName } from '../lib/export';
+import { weightedValue } from '../lib/forecast';
+import { FilterField, matchesFilter, memberOptions, optionLabel } from '../lib/filters';
+import {
+  customExportColumns,
+  customFilterFields,
+  customValuesToSave,
+  formatCustomValue,
+} from '../lib/customFields';
+import { saveRecordTags, tagNames } from '../lib/tags';
+import { recordFilterFields, tagFilterField } from '../lib/segments';
+import { bulkDelete, bulkMoveDeals, bulkTag, bulkUpdate } from '../lib/bulk';
+import { useAuth } from '../contexts/AuthContext';
+import { usePipelines } from '../hooks/usePipelines';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useListFilter } from '../hooks/useListFilter';
+import { useMembers } from '../hooks/useMembers';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useTags } from '../hooks/useTags';
+import { useSegments } from '../hooks/useSegments';
+import { useSelection } from '../hooks/useSelection';
+import { useBulkActions } from '../hooks/useBulkActions';
+import Link from './Link';
+import DealTimeline from './DealTimeline';
+import DeleteRecordDialog from './DeleteRecordDialog';
+import ExportMenu from './ExportMenu';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import CustomFieldInputs from './CustomFieldInputs';
+import SegmentSelect from './SegmentSelect';
+import TagChips from './TagChips';
+import TagPicker from './TagPicker';
+import BulkActionBar from './BulkActionBar';
+import BulkSelect from './BulkSelect';
+import { Plus, Edit2, Trash2, DollarSign, GripVertical } from 'lucide-react';
+
+const OUTCOME_HEADER_COLORS = {
+  open: 'text-gray-900',
+  won: 'text-green-700',
+  lost: 'text-red-700',
 };
 
 export default function Deals() {
+  const { can } = useAuth();
+  const { pipelines, stagesById, defaultPipeline, loading: pipelinesLoading } = usePipelines();
+  const [pipelineParam, setPipelineParam] = useQueryParam('pipeline', '');
+  const [listFilter, setListFilter] = useListFilter();
+  const { members } = useMembers();
+  const { fields: customFields } = useCustomFields('deals');
+  const { tags } = useTags();
+  const { segments } = useSegments('deals');
+  const [segmentParam] = useQueryParam('segment', '');
   const [deals, setDeals] = useState<Deal[]>([]);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingDeal, setEditingDeal] = useState<Deal | null>(null);
+  const [deletingDeal, setDeletingDeal] = useState<Deal | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ stageId: string; index: number } | null>(null);
+  const [liftedDeal, setLiftedDeal] = useState<Deal | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const [formData, setFormData] = useState({
     title: '',
     value: '',
-    stage: 'lead',
+    pipeline_id: '',
+    stage_id: '',
     probability: '0',
     expected_close_date: '',
     company_id: '',
     contact_id: '',
     notes: '',
   });
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [tagIds, setTagIds] = useState<string[]>([]);
 
   useEffect(() => {
     fetchDeals();
@@ -37,11 +85,17 @@ export default function Deals() {
     fetchContacts();
   }, []);
 
+  // A keyboard move into another column remounts the card, so focus has to follow it.
+  useEffect(() => {
+    if (liftedDeal) cardRefs.current[liftedDeal.id]?.focus();
+  }, [deals, liftedDeal]);
+
   const fetchDeals = async () => {
     try {
       const { data, error } = await supabase
         .from('deals')
-        .select('*, company:companies(*), contact:contacts(*)')
+        .select('*, company:companies(*), contact:contacts(*), tags(*)')
+        .order('position', { ascending: true })
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -87,25 +141,43 @@ export default function Deals() {
       const dealData = {
         title: formData.title,
         value: parseFloat(formData.value) || 0,
-        stage: formData.stage,
+        pipeline_id: formData.pipeline_id,
+        stage_id: formData.stage_id,
         probability: parseInt(formData.probability) || 0,
         expected_close_date: formData.expected_close_date || null,
         company_id: formData.company_id || null,
         contact_id: formData.contact_id || null,
         notes: formData.notes,
+        custom_fields: customValuesToSave(customFields, customValues),
         updated_at: new Date().toISOString(),
       };
 
       if (editingDeal) {
+        const stageChanged = editingDeal.stage_id !== dealData.stage_id;
         const { error } = await supabase
           .from('deals')
-          .update(dealData)
+          .update(
+            stageChanged
+              ? { ...dealData, position: topPosition(deals, dealData.stage_id) }
+              : dealData
+          )
           .eq('id', editingDeal.id);
 
         if (error) throw error;
+        await saveRecordTags(
+          'deals',
+          editingDeal.id,
+          tagIds,
+          editingDeal.tags?.map((tag) => tag.id) || []
+        );
       } else {
-        const { error } = await supabase.from('deals').insert([dealData]);
+        const { data, error } = await supabase
+          .from('deals')
+          .insert([{ ...dealData, position: topPosition(deals, dealData.stage_id) }])
+          .select()
+          .single();
         if (error) throw error;
+        await saveRecordTags('deals', data.id, tagIds, []);
       }
 
       setIsModalOpen(false);
@@ -117,29 +189,200 @@ export default function Deals() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this deal?')) return;
-
+  // `stageChange` carries the new stage's default probability for the deal that changed stage.
+  const persistPositions = async (
+    updates: PositionUpdate[],
+    stageChange?: { id: string; probability: number }
+  ) => {
     try {
-      const { error } = await supabase.from('deals').delete().eq('id', id);
-      if (error) throw error;
-      fetchDeals();
+      const updatedAt = new Date().toISOString();
+      const results = await Promise.all(
+        updates.map(({ id, stage_id, position }) =>
+          supabase
+            .from('deals')
+            .update({
+              stage_id,
+              position,
+              ...(stageChange?.id === id ? { probability: stageChange.probability } : {}),
+              updated_at: updatedAt,
+            })
+            .eq('id', id)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
     } catch (error) {
-      console.error('Error deleting deal:', error);
+      console.error('Error moving deal:', error);
+      fetchDeals();
     }
   };
 
-  const updateDealStage = async (dealId: string, newStage: string) => {
-    try {
-      const { error } = await supabase
-        .from('deals')
-        .update({ stage: newStage, updated_at: new Date().toISOString() })
-        .eq('id', dealId);
+  const stageChangeFor = (deal: Deal, stageId: string) =>
+    deal.stage_id !== stageId
+      ? { id: deal.id, probability: stagesById[stageId]?.probability ?? deal.probability }
+      : undefined;
 
-      if (error) throw error;
-      fetchDeals();
-    } catch (error) {
-      console.error('Error updating deal stage:', error);
+  const withProbability = (
+    source: Deal[],
+    stageChange?: { id: string; probability: number }
+  ) =>
+    stageChange
+      ? source.map((d) =>
+          d.id === stageChange.id ? { ...d, probability: stageChange.probability } : d
+        )
+      : source;
+
+  // Moves are worked out among the cards on the board, so a filter cannot shift a drop next to
+  // a hidden deal; the moved positions are then merged back into all deals.
+  const moveOnBoard = (dealId: string, stageId: string, index: number) => {
+    const result = moveDeal(visibleDeals, dealId, stageId, index);
+    if (!result) return null;
+    const moved = new Map(result.deals.map((d) => [d.id, d]));
+    return { deals: deals.map((d) => moved.get(d.id) || d), updates: result.updates };
+  };
+
+  const applyMove = (dealId: string, stageId: string, index: number) => {
+    const deal = deals.find((d) => d.id === dealId);
+    const result = moveOnBoard(dealId, stageId, index);
+    if (!deal || !result) return;
+    const stageChange = stageChangeFor(deal, stageId);
+    setDeals(withProbability(result.deals, stageChange));
+    persistPositions(result.updates, stageChange);
+  };
+
+  const updateDealStage = (dealId: string, newStageId: string) => {
+    applyMove(dealId, newStageId, 0);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, deal: Deal) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', deal.id);
+    setDraggingId(deal.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleCardDragOver = (
+    e: React.DragEvent<HTMLDivElement>,
+    stageId: string,
+    index: number
+  ) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const after = e.clientY > rect.top + rect.height / 2;
+    const target = { stageId, index: after ? index + 1 : index };
+    if (dropTarget?.stageId !== target.stageId || dropTarget.index !== target.index) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleColumnDragOver = (e: React.DragEvent<HTMLDivElement>, stageId: string) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    if (dropTarget?.stageId !== stageId) {
+      setDropTarget({ stageId, index: getDealsByStage(stageId).length });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, stageId: string) => {
+    e.preventDefault();
+    const dealId = draggingId || e.dataTransfer.getData('text/plain');
+    const index =
+      dropTarget?.stageId === stageId ? dropTarget.index : getDealsByStage(stageId).length;
+    handleDragEnd();
+    if (dealId) applyMove(dealId, stageId, index);
+  };
+
+  // Keyboard moves: Space/Enter lifts a card, arrow keys move it, Space/Enter drops and Escape
+  // cancels. Moves are previewed locally and only persisted on drop.
+  const handleCardKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, deal: Deal) => {
+    if (e.target !== e.currentTarget) return;
+
+    if (!liftedDeal || liftedDeal.id !== deal.id) {
+      if ((e.key === ' ' || e.key === 'Enter') && can('edit', deal)) {
+        e.preventDefault();
+        setLiftedDeal(deal);
+        setAnnouncement(
+          `Picked up ${deal.title}. Use arrow keys to move, Space to drop, Escape to cancel.`
+        );
+      }
+      return;
+    }
+
+    const stageDeals = getDealsByStage(deal.stage_id);
+    const index = stageDeals.findIndex((d) => d.id === deal.id);
+    const stageIndex = stages.findIndex((stage) => stage.id === deal.stage_id);
+    let target: { stageId: string; index: number } | null = null;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        if (index > 0) target = { stageId: deal.stage_id, index: index - 1 };
+        break;
+      case 'ArrowDown':
+        if (index < stageDeals.length - 1) target = { stageId: deal.stage_id, index: index + 2 };
+        break;
+      case 'ArrowLeft':
+        if (stageIndex > 0) target = { stageId: stages[stageIndex - 1].id, index: 0 };
+        break;
+      case 'ArrowRight':
+        if (stageIndex < stages.length - 1) {
+          target = { stageId: stages[stageIndex + 1].id, index: 0 };
+        }
+        break;
+      case ' ':
+      case 'Enter': {
+        e.preventDefault();
+        const original = liftedDeal;
+        setLiftedDeal(null);
+        if (original.stage_id !== deal.stage_id || original.position !== deal.position) {
+          const stageChange = stageChangeFor(original, deal.stage_id);
+          setDeals((current) => withProbability(current, stageChange));
+          persistPositions(
+            [{ id: deal.id, stage_id: deal.stage_id, position: deal.position }],
+            stageChange
+          );
+        }
+        setAnnouncement(`Dropped ${deal.title} in ${stagesById[deal.stage_id]?.name}.`);
+        return;
+      }
+      case 'Escape': {
+        e.preventDefault();
+        const original = liftedDeal;
+        setDeals((current) => current.map((d) => (d.id === original.id ? original : d)));
+        setLiftedDeal(null);
+        setAnnouncement(
+          `Move cancelled. ${deal.title} returned to ${stagesById[original.stage_id]?.name}.`
+        );
+        return;
+      }
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (!target) return;
+
+    const result = moveOnBoard(deal.id, target.stageId, target.index);
+    if (!result) return;
+    // A keyboard preview can trigger a column renumber; persist those neighbours right away.
+    const neighbours = result.updates.filter((u) => u.id !== deal.id);
+    if (neighbours.length > 0) persistPositions(neighbours);
+    setDeals(result.deals);
+
+    const moved = result.deals.find((d) => d.id === deal.id);
+    if (moved) {
+      const position = getDealsByStage(moved.stage_id, result.deals.filter(isVisible)).findIndex(
+        (d) => d.id === moved.id
+      );
+      setAnnouncement(
+        `${deal.title} moved to ${stagesById[moved.stage_id]?.name}, position ${position + 1}.`
+      );
     }
   };
 
@@ -149,13 +392,16 @@ export default function Deals() {
       setFormData({
         title: deal.title,
         value: deal.value.toString(),
-        stage: deal.stage,
+        pipeline_id: deal.pipeline_id,
+        stage_id: deal.stage_id,
         probability: deal.probability.toString(),
         expected_close_date: deal.expected_close_date || '',
         company_id: deal.company_id || '',
         contact_id: deal.contact_id || '',
         notes: deal.notes || '',
       });
+      setCustomValues(deal.custom_fields || {});
+      setTagIds(deal.tags?.map((tag) => tag.id) || []);
     } else {
       resetForm();
     }
@@ -163,28 +409,104 @@ export default function Deals() {
   };
 
   const resetForm = () => {
+    const pipeline = selectedPipeline || defaultPipeline;
+    const firstStage = pipeline?.stages[0];
     setFormData({
       title: '',
       value: '',
-      stage: 'lead',
-      probability: '0',
+      pipeline_id: pipeline?.id || '',
+      stage_id: firstStage?.id || '',
+      probability: (firstStage?.probability ?? 0).toString(),
       expected_close_date: '',
       company_id: '',
       contact_id: '',
       notes: '',
     });
+    setCustomValues({});
+    setTagIds([]);
     setEditingDeal(null);
   };
 
-  const getDealsByStage = (stage: string) => {
-    return deals.filter((deal) => deal.stage === stage);
+  const selectedPipeline =
+    pipelines.find((pipeline) => pipeline.id === pipelineParam) || defaultPipeline;
+  const selectedPipelineId = selectedPipeline?.id || '';
+  const stages = selectedPipeline?.stages || [];
+
+  const filterFields: FilterField<Deal>[] = [
+    { key: 'title', label: 'Title', type: 'text' },
+    { key: 'value', label: 'Value', type: 'number' },
+    {
+      key: 'stage_id',
+      label: 'Stage',
+      type: 'select',
+      options: stages.map((stage) => ({ value: stage.id, label: stage.name })),
+    },
+    { key: 'probability', label: 'Probability', type: 'number' },
+    { key: 'expected_close_date', label: 'Expected Close', type: 'date' },
+    { key: 'company', label: 'Company', type: 'text', value: (d) => d.company?.name },
+    {
+      key: 'company_industry',
+      label: 'Company Industry',
+      type: 'text',
+      value: (d) => d.company?.industry,
+    },
+    { key: 'contact', label: 'Contact', type: 'text', value: (d) => fullName(d.contact) },
+    tagFilterField<Deal>(tags),
+    { key: 'owner_id', label: 'Owner', type: 'select', options: memberOptions(members) },
+    { key: 'notes', label: 'Notes', type: 'text' },
+    { key: 'created_at', label: 'Created', type: 'datetime' },
+    ...customFilterFields<Deal>(customFields),
+  ];
+
+  // Segment rules use the fields shared with the contact and company lists, so they are
+  // matched separately from the board's own filter.
+  const segment = segments.find((s) => s.id === segmentParam);
+  const segmentFields = recordFilterFields<Deal>('deals', { members, customFields, tags });
+
+  const isVisible = (deal: Deal) =>
+    (!segment || matchesFilter(deal, segment.rules, segmentFields)) &&
+    matchesFilter(deal, listFilter, filterFields);
+  const visibleDeals = deals.filter(isVisible);
+  const pipelineDeals = visibleDeals.filter((deal) => deal.pipeline_id === selectedPipelineId);
+  const formPipeline = pipelines.find((pipeline) => pipeline.id === formData.pipeline_id);
+
+  const getDealsByStage = (stageId: string, source: Deal[] = visibleDeals) => {
+    return sortByPosition(source.filter((deal) => deal.stage_id === stageId));
   };
 
+  const exportColumns: ExportColumn<Deal>[] = [
+    { key: 'title', header: 'Title', value: (d) => d.title },
+    { key: 'value', header: 'Value', value: (d) => d.value },
+    {
+      key: 'pipeline',
+      header: 'Pipeline',
+      value: (d) => pipelines.find((pipeline) => pipeline.id === d.pipeline_id)?.name,
+    },
+    { key: 'stage', header: 'Stage', value: (d) => stagesById[d.stage_id]?.name },
+    { key: 'probability', header: 'Probability', value: (d) => d.probability },
+    { key: 'weighted_value', header: 'Weighted Value', value: (d) => weightedValue(d) },
+    { key: 'expected_close_date', header: 'Expected Close', value: (d) => d.expected_close_date },
+    { key: 'company', header: 'Company', value: (d) => d.company?.name },
+    { key: 'contact', header: 'Contact', value: (d) => fullName(d.contact) },
+    { key: 'tags', header: 'Tags', value: (d) => tagNames(d.tags) },
+    { key: 'notes', header: 'Notes', value: (d) => d.notes },
+    { key: 'created_at', header: 'Created', value: (d) => d.created_at },
+    ...customExportColumns<Deal>(customFields),
+  ];
+  const listFields = customFields.filter((field) => field.show_in_list);
+
+  const selection = useSelection(pipelineDeals);
+  const bulk = useBulkActions('deals', selection, fetchDeals);
+  const ownerOptions = memberOptions(members.filter((member) => member.role !== 'read_only'));
+  const stageOptions = stages.map((stage) => ({ value: stage.id, label: stage.name }));
+  const tagOptions = tags.map((tag) => ({ value: tag.id, label: tag.name }));
+  const companyOptions = companies.map((company) => ({ value: company.id, label: company.name }));
+
   const getTotalValue = () => {
-    return deals.reduce((sum, deal) => sum + deal.value, 0);
+    return pipelineDeals.reduce((sum, deal) => sum + deal.value, 0);
   };
 
-  if (loading) {
+  if (loading || pipelinesLoading) {
     return <div className="text-center py-12">Loading...</div>;
   }
 
@@ -198,32 +520,91 @@ export default function Deals() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex items-center space-x-4">
+          {pipelines.length > 1 && (
+            <select
+              value={selectedPipelineId}
+              onChange={(e) => setPipelineParam(e.target.value)}
+              aria-label="Pipeline"
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            >
+              {pipelines.map((pipeline) => (
+                <option key={pipeline.id} value={pipeline.id}>
+                  {pipeline.name}
+                </option>
+              ))}
+            </select>
+          )}
           <div className="text-sm">
             <span className="font-medium text-gray-900">Total Value:</span>
             <span className="ml-2 text-green-600 font-semibold">
               ${getTotalValue().toLocaleString()}
             </span>
           </div>
-          <button
-            onClick={() => openModal()}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Deal
-          </button>
+          <SegmentSelect table="deals" segments={segments} />
+          <FilterBuilder fields={filterFields} value={listFilter} onChange={setListFilter} />
+          <SavedViewsMenu list="deals" />
+          <ExportMenu
+            rows={stages.flatMap((stage) => getDealsByStage(stage.id))}
+            columns={exportColumns}
+            fileName="deals"
+          />
+          {can('create') && (
+            <button
+              onClick={() => openModal()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Deal
+            </button>
+          )}
         </div>
       </div>
 
+      {pipelineDeals.length > 0 && (
+        <label className="mt-6 inline-flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            ref={(el) => {
+              if (el) el.indeterminate = selection.someSelected;
+            }}
+            onChange={selection.toggleAll}
+            className="mr-2 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Select all deals in this pipeline
+        </label>
+      )}
+
+      <div className="sr-only" aria-live="assertive">
+        {announcement}
+      </div>
+
       <div className="mt-8 flex space-x-4 overflow-x-auto pb-4">
-        {DEAL_STAGES.map((stage) => {
-          const stageDeals = getDealsByStage(stage);
+        {stages.map((stage) => {
+          const stageDeals = getDealsByStage(stage.id);
           const stageValue = stageDeals.reduce((sum, deal) => sum + deal.value, 0);
+          const isDropColumn = draggingId !== null && dropTarget?.stageId === stage.id;
+
+          const dropIndicator = (
+            <div className="h-1 rounded-full bg-blue-500" aria-hidden="true" />
+          );
 
           return (
-            <div key={stage} className="flex-shrink-0 w-80">
-              <div className="bg-gray-100 rounded-lg p-4">
+            <div key={stage.id} className="flex-shrink-0 w-80">
+              <div
+                onDragOver={(e) => handleColumnDragOver(e, stage.id)}
+                onDrop={(e) => handleDrop(e, stage.id)}
+                className={`rounded-lg p-4 min-h-[12rem] transition-colors ${
+                  isDropColumn ? 'bg-blue-50 ring-2 ring-blue-200' : 'bg-gray-100'
+                }`}
+              >
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="font-semibold text-gray-900">{STAGE_LABELS[stage]}</h3>
+                  <div>
+                    <h3 className={`font-semibold ${OUTCOME_HEADER_COLORS[stage.outcome]}`}>
+                      {stage.name}
+                    </h3>
+                    <span className="text-xs text-gray-500">{stage.probability}%</span>
+                  </div>
                   <div className="flex items-center space-x-2">
                     <span className="text-sm text-gray-600">{stageDeals.length}</span>
                     <span className="text-xs text-gray-500">
@@ -232,68 +613,126 @@ export default function Deals() {
                   </div>
                 </div>
 
-                <div className="space-y-3">
-                  {stageDeals.map((deal) => (
-                    <div
-                      key={deal.id}
-                      className="bg-white p-4 rounded-lg shadow-sm hover:shadow-md transition-shadow"
-                    >
-                      <div className="flex items-start justify-between mb-2">
-                        <h4 className="font-medium text-gray-900 text-sm">{deal.title}</h4>
-                        <div className="flex space-x-1">
-                          <button
-                            onClick={() => openModal(deal)}
-                            className="text-blue-600 hover:text-blue-900"
-                          >
-                            <Edit2 className="w-3 h-3" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(deal.id)}
-                            className="text-red-600 hover:text-red-900"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </button>
+                <div className="space-y-3" role="list" aria-label={`${stage.name} deals`}>
+                  {stageDeals.map((deal, index) => (
+                    <div key={deal.id} className="space-y-3">
+                      {isDropColumn && dropTarget?.index === index && dropIndicator}
+                      <div
+                        ref={(el) => {
+                          cardRefs.current[deal.id] = el;
+                        }}
+                        role="listitem"
+                        tabIndex={0}
+                        draggable={can('edit', deal)}
+                        aria-roledescription={can('edit', deal) ? 'Draggable deal' : undefined}
+                        aria-grabbed={liftedDeal?.id === deal.id}
+                        onDragStart={(e) => handleDragStart(e, deal)}
+                        onDragEnd={handleDragEnd}
+                        onDragOver={(e) => handleCardDragOver(e, stage.id, index)}
+                        onKeyDown={(e) => handleCardKeyDown(e, deal)}
+                        className={`bg-white p-4 rounded-lg shadow-sm hover:shadow-md transition-shadow ${
+                          can('edit', deal) ? 'cursor-grab' : ''
+                        } focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          draggingId === deal.id ? 'opacity-50' : ''
+                        } ${liftedDeal?.id === deal.id ? 'ring-2 ring-blue-500 shadow-lg' : ''}`}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex items-start">
+                            <input
+                              type="checkbox"
+                              checked={selection.isSelected(deal.id)}
+                              onChange={() => selection.toggle(deal.id)}
+                              aria-label={`Select ${deal.title}`}
+                              className="mr-2 mt-0.5 h-3.5 w-3.5 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <GripVertical className="w-4 h-4 mr-1 text-gray-300 flex-shrink-0" />
+                            <h4 className="font-medium text-gray-900 text-sm">
+                              <Link
+                                view="deals"
+                                recordId={deal.id}
+                                draggable={false}
+                                className="hover:text-blue-600 hover:underline"
+                              >
+                                {deal.title}
+                              </Link>
+                            </h4>
+                          </div>
+                          <div className="flex space-x-1">
+                            {can('edit', deal) && (
+                              <button
+                                onClick={() => openModal(deal)}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                <Edit2 className="w-3 h-3" />
+                              </button>
+                            )}
+                            {can('delete', deal) && (
+                              <button
+                                onClick={() => setDeletingDeal(deal)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="space-y-1 text-sm">
-                        <div className="flex items-center text-green-600 font-semibold">
-                          <DollarSign className="w-4 h-4 mr-1" />
-                          {deal.value.toLocaleString()}
-                        </div>
+                        <div className="space-y-1 text-sm">
+                          <div className="flex items-center text-green-600 font-semibold">
+                            <DollarSign className="w-4 h-4 mr-1" />
+                            {deal.value.toLocaleString()}
+                          </div>
 
-                        {deal.company && (
-                          <div className="text-gray-600">{deal.company.name}</div>
-                        )}
+                          {deal.company && (
+                            <div className="text-gray-600">{deal.company.name}</div>
+                          )}
 
-                        {deal.contact && (
-                          <div className="text-gray-500 text-xs">
-                            {deal.contact.first_name} {deal.contact.last_name}
-                          </div>
-                        )}
+                          {deal.contact && (
+                            <div className="text-gray-500 text-xs">
+                              {deal.contact.first_name} {deal.contact.last_name}
+                            </div>
+                          )}
+
+                          {deal.expected_close_date && (
+                            <div className="text-gray-500 text-xs">
+                              Close: {new Date(deal.expected_close_date).toLocaleDateString()}
+                            </div>
+                          )}
+
+                          {listFields.map(
+                            (field) =>
+                              deal.custom_fields?.[field.key] !== undefined && (
+                                <div key={field.id} className="text-gray-500 text-xs">
+                                  {field.label}: {formatCustomValue(field, deal.custom_fields[field.key])}
+                                </div>
+                              )
+                          )}
 
-                        {deal.expected_close_date && (
-                          <div className="text-gray-500 text-xs">
-                            Close: {new Date(deal.expected_close_date).toLocaleDateString()}
+                          <TagChips tags={deal.tags} className="pt-1" />
+
+                          <div className="pt-2">
+                            <select
+                              value={deal.stage_id}
+                              onChange={(e) => updateDealStage(deal.id, e.target.value)}
+                              className="text-xs border-gray-300 rounded px-2 py-1 w-full"
+                            >
+                              {stages.map((s) => (
+                                <option key={s.id} value={s.id}>
+                                  Move to {s.name}
+                                </option>
+                              ))}
+                            </select>
                           </div>
-                        )}
-
-                        <div className="pt-2">
-                          <select
-                            value={deal.stage}
-                            onChange={(e) => updateDealStage(deal.id, e.target.value)}
-                            className="text-xs border-gray-300 rounded px-2 py-1 w-full"
-                          >
-                            {DEAL_STAGES.map((s) => (
-                              <option key={s} value={s}>
-                                Move to {STAGE_LABELS[s]}
-                              </option>
-                            ))}
-                          </select>
                         </div>
                       </div>
                     </div>
                   ))}
+                  {isDropColumn && dropTarget?.index === stageDeals.length && dropIndicator}
+                  {stageDeals.length === 0 && !isDropColumn && (
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg py-6 text-center text-xs text-gray-400">
+                      Drop deals here
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -350,19 +789,53 @@ export default function Deals() {
                 </div>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Stage *</label>
-                <select
-                  value={formData.stage}
-                  onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
-                >
-                  {DEAL_STAGES.map((stage) => (
-                    <option key={stage} value={stage}>
-                      {STAGE_LABELS[stage]}
-                    </option>
-                  ))}
-                </select>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Pipeline *</label>
+                  <select
+                    value={formData.pipeline_id}
+                    onChange={(e) => {
+                      const pipeline = pipelines.find((p) => p.id === e.target.value);
+                      const firstStage = pipeline?.stages[0];
+                      setFormData({
+                        ...formData,
+                        pipeline_id: e.target.value,
+                        stage_id: firstStage?.id || '',
+                        probability: (firstStage?.probability ?? 0).toString(),
+                      });
+                    }}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  >
+                    {pipelines.map((pipeline) => (
+                      <option key={pipeline.id} value={pipeline.id}>
+                        {pipeline.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Stage *</label>
+                  <select
+                    required
+                    value={formData.stage_id}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        stage_id: e.target.value,
+                        probability: (
+                          stagesById[e.target.value]?.probability ?? formData.probability
+                        ).toString(),
+                      })
+                    }
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  >
+                    {formPipeline?.stages.map((stage) => (
+                      <option key={stage.id} value={stage.id}>
+                        {stage.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div>
@@ -421,6 +894,21 @@ export default function Deals() {
                 />
               </div>
 
+              <TagPicker value={tagIds} onChange={setTagIds} />
+
+              <CustomFieldInputs
+                fields={customFields}
+                values={customValues}
+                onChange={setCustomValues}
+              />
+
+              {editingDeal && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Stage History</h4>
+                  <DealTimeline dealId={editingDeal.id} />
+                </div>
+              )}
+
               <div className="flex justify-end space-x-3 pt-4 border-t">
                 <button
                   type="button"
@@ -443,6 +931,102 @@ export default function Deals() {
           </div>
         </div>
       )}
+
+      <BulkActionBar count={selection.selected.length} bulk={bulk} onClear={selection.clear}>
+        <BulkSelect
+          label="Move to stage..."
+          options={stageOptions}
+          onSelect={(stageId) =>
+            bulk.run(
+              (count) => `Moved ${count} to ${optionLabel(stageOptions, stageId)}`,
+              'edit',
+              (records, onProgress) =>
+                bulkMoveDeals(
+                  records,
+                  stageId,
+                  stagesById[stageId]?.probability ?? 0,
+                  bottomPosition(deals, stageId),
+                  onProgress
+                )
+            )
+          }
+        />
+        {can('reassign') && (
+          <BulkSelect
+            label="Reassign to..."
+            options={ownerOptions}
+            onSelect={(ownerId) =>
+              bulk.run(
+                (count) => `Reassigned ${count} to ${optionLabel(ownerOptions, ownerId)}`,
+                'edit',
+                (records, onProgress) =>
+                  bulkUpdate('deals', records, { owner_id: ownerId }, onProgress)
+              )
+            }
+          />
+        )}
+        <BulkSelect
+          label="Add tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Tagged ${count} with ${optionLabel(tagOptions, tagId)}`,
+              'edit',
+              (records, onProgress) => bulkTag('deals', records, tagId, true, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Remove tag..."
+          options={tagOptions}
+          onSelect={(tagId) =>
+            bulk.run(
+              (count) => `Removed ${optionLabel(tagOptions, tagId)} from ${count}`,
+              'edit',
+              (records, onProgress) => bulkTag('deals', records, tagId, false, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Link to company..."
+          options={companyOptions}
+          onSelect={(companyId) =>
+            bulk.run(
+              (count) => `Linked ${count} to ${optionLabel(companyOptions, companyId)}`,
+              'edit',
+              (records, onProgress) =>
+                bulkUpdate('deals', records, { company_id: companyId }, onProgress)
+            )
+          }
+        />
+        <ExportMenu rows={selection.selected} columns={exportColumns} fileName="deals" dropUp />
+        {selection.selected.some((deal) => can('delete', deal)) && (
+          <button
+            onClick={() => {
+              if (!confirm(`Move ${selection.selected.length} selected deals to the trash?`)) return;
+              bulk.run(
+                (count) => `Moved ${count} to the trash`,
+                'delete',
+                (records, onProgress) => bulkDelete('deals', records, onProgress)
+              );
+            }}
+            className="inline-flex items-center rounded-md border border-red-200 bg-white px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </button>
+        )}
+      </BulkActionBar>
+
+      {deletingDeal && (
+        <DeleteRecordDialog
+          table="deals"
+          recordId={deletingDeal.id}
+          label={deletingDeal.title}
+          onClose={() => setDeletingDeal(null)}
+          onDeleted={fetchDeals}
+        />
+      )}
     </div>
   );
 }
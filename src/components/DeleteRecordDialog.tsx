@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { supabase, AuditTable } from '../lib/supabase';
+import { singularOf } from '../lib/audit';
+import { countRelated, describeRelated, RelatedCount } from '../lib/trash';
+import { useAuth } from '../contexts/AuthContext';
+import { AlertTriangle } from 'lucide-react';
+
+type DeleteRecordDialogProps = {
+  table: AuditTable;
+  recordId: string;
+  label: string;
+  onClose: () => void;
+  onDeleted: () => void;
+};
+
+// Confirms moving a record to the trash, listing how many other records link to it first.
+export default function DeleteRecordDialog({
+  table,
+  recordId,
+  label,
+  onClose,
+  onDeleted,
+}: DeleteRecordDialogProps) {
+  const { organization } = useAuth();
+  const [related, setRelated] = useState<RelatedCount[] | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
+  const singular = singularOf(table);
+  const isSingle = related?.length === 1 && related[0].count === 1;
+
+  useEffect(() => {
+    const fetchRelated = async () => {
+      try {
+        setRelated(await countRelated(table, recordId));
+      } catch (error) {
+        console.error('Error counting related records:', error);
+        setRelated([]);
+      }
+    };
+
+    fetchRelated();
+  }, [table, recordId]);
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError('');
+    try {
+      const { error } = await supabase.from(table).delete().eq('id', recordId);
+      if (error) throw error;
+      onDeleted();
+      onClose();
+    } catch (error) {
+      console.error(`Error deleting ${singular}:`, error);
+      setError(`Could not delete the ${singular}.`);
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Delete {singular}?</h3>
+        </div>
+        <div className="px-6 py-4 space-y-3 text-sm text-gray-700">
+          <p>
+            <span className="font-medium">{label || `This ${singular}`}</span> will be moved to the
+            trash. It can be restored for {organization?.trash_retention_days ?? 30} days before it
+            is deleted permanently.
+          </p>
+          {related === null ? (
+            <p className="text-gray-500">Checking linked records...</p>
+          ) : (
+            related.length > 0 && (
+              <div className="flex rounded-md bg-yellow-50 px-4 py-3 text-yellow-800">
+                <AlertTriangle className="w-5 h-5 mr-3 flex-shrink-0" />
+                <p>
+                  {related.map(describeRelated).join(', ')} {isSingle ? 'is' : 'are'} linked to
+                  this {singular}. {isSingle ? 'It' : 'They'} will be kept, but will no longer
+                  show it, and lose the link if it is purged.
+                </p>
+              </div>
+            )
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+        <div className="px-6 py-4 flex justify-end space-x-3 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={deleting || related === null}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            {deleting ? 'Deleting...' : 'Move to trash'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { DuplicateMatch, DuplicateTable } from '../lib/supabase';
+import { describeReasons } from '../lib/duplicates';
+import Link from './Link';
+import { AlertTriangle } from 'lucide-react';
+
+type DuplicateWarningProps = {
+  table: DuplicateTable;
+  matches: DuplicateMatch[];
+};
+
+// Lists existing records that look like the one being created, each linking to its page.
+export default function DuplicateWarning({ table, matches }: DuplicateWarningProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="flex rounded-md bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+      <AlertTriangle className="w-5 h-5 mr-3 flex-shrink-0" />
+      <div>
+        <p className="font-medium">
+          {matches.length === 1 ? 'This may already exist:' : 'These may already exist:'}
+        </p>
+        <ul className="mt-1 space-y-0.5">
+          {matches.map((match) => (
+            <li key={match.record_id}>
+              <Link
+                view={table}
+                recordId={match.record_id}
+                className="font-medium underline hover:text-yellow-900"
+              >
+                {match.record_label || 'Unnamed'}
+              </Link>
+              <span className="text-yellow-700"> — {describeReasons(match.reasons)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, DuplicatePair, DuplicateTable } from '../lib/supabase';
+import { DUPLICATE_TABLES, describeReasons } from '../lib/duplicates';
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParam } from '../hooks/useQueryParam';
+import Link from './Link';
+import MergeRecordsDialog from './MergeRecordsDialog';
+import { Combine, X } from 'lucide-react';
+
+/**
+ * Review screen for likely duplicates across the workspace. Each pair can be merged, or
+ * dismissed so it is not suggested again.
+ */
+export default function Duplicates() {
+  const { can } = useAuth();
+  const [type, setType] = useQueryParam<DuplicateTable>(
+    'type',
+    'contacts',
+    DUPLICATE_TABLES.map((t) => t.id)
+  );
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+
+  const fetchPairs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('list_duplicate_pairs', { p_table: type });
+      if (error) throw error;
+      setPairs(data || []);
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [type]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    try {
+      const { error } = await supabase
+        .from('duplicate_dismissals')
+        .insert([{ table_name: type, record_a: pair.record_a, record_b: pair.record_b }]);
+
+      if (error) throw error;
+      setPairs((current) => current.filter((p) => p !== pair));
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex-auto">
+        <h1 className="text-2xl font-semibold text-gray-900">Duplicates</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Records that look alike by name, email, phone or website
+        </p>
+      </div>
+
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {DUPLICATE_TABLES.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setType(t.id)}
+              className={`inline-flex items-center border-b-2 px-1 pb-3 text-sm font-medium ${
+                type === t.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : (
+        <ul className="mt-6 space-y-3">
+          {pairs.map((pair) => (
+            <li
+              key={`${pair.record_a}-${pair.record_b}`}
+              className="bg-white shadow rounded-lg px-4 py-4 sm:flex sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  <Link view={type} recordId={pair.record_a} className="hover:text-blue-600 hover:underline">
+                    {pair.label_a || 'Unnamed'}
+                  </Link>
+                  <span className="mx-2 text-gray-400">and</span>
+                  <Link view={type} recordId={pair.record_b} className="hover:text-blue-600 hover:underline">
+                    {pair.label_b || 'Unnamed'}
+                  </Link>
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {describeReasons(pair.reasons)} · {Math.round(pair.score * 100)}% match
+                </p>
+              </div>
+              {can('create') && (
+                <div className="mt-3 sm:mt-0 sm:ml-4 flex flex-shrink-0 space-x-3">
+                  <button
+                    onClick={() => handleDismiss(pair)}
+                    className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Not duplicates
+                  </button>
+                  <button
+                    onClick={() => setMergingPair(pair)}
+                    className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700"
+                  >
+                    <Combine className="w-4 h-4 mr-1" />
+                    Merge
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+          {pairs.length === 0 && (
+            <li className="text-center py-12 text-gray-500">No likely duplicates found</li>
+          )}
+        </ul>
+      )}
+
+      {mergingPair && (
+        <MergeRecordsDialog
+          table={type}
+          firstId={mergingPair.record_a}
+          secondId={mergingPair.record_b}
+          onClose={() => setMergingPair(null)}
+          onMerged={fetchPairs}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, EmailAccount } from '../lib/supabase';
+import { syncMailbox } from '../lib/email';
+import { RefreshCw, Trash2 } from 'lucide-react';
+
+type AccountForm = Pick<
+  EmailAccount,
+  | 'email_address'
+  | 'display_name'
+  | 'username'
+  | 'imap_host'
+  | 'imap_port'
+  | 'imap_secure'
+  | 'smtp_host'
+  | 'smtp_port'
+  | 'smtp_secure'
+  | 'sync_enabled'
+> & { password: string };
+
+const emptyForm = (): AccountForm => ({
+  email_address: '',
+  display_name: '',
+  username: '',
+  imap_host: '',
+  imap_port: 993,
+  imap_secure: true,
+  smtp_host: '',
+  smtp_port: 465,
+  smtp_secure: true,
+  sync_enabled: true,
+  password: '',
+});
+
+const toForm = (account: EmailAccount): AccountForm => ({
+  email_address: account.email_address,
+  display_name: account.display_name || '',
+  username: account.username,
+  imap_host: account.imap_host,
+  imap_port: account.imap_port,
+  imap_secure: account.imap_secure,
+  smtp_host: account.smtp_host,
+  smtp_port: account.smtp_port,
+  smtp_secure: account.smtp_secure,
+  sync_enabled: account.sync_enabled,
+  password: '',
+});
+
+const inputClass =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+// The member's own mailbox, which email activities are read from and sent with.
+export default function EmailSettings() {
+  const [account, setAccount] = useState<EmailAccount | null>(null);
+  const [formData, setFormData] = useState<AccountForm>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const fetchAccount = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase.from('email_accounts').select('*').maybeSingle();
+      if (fetchError) throw fetchError;
+      setAccount(data);
+      setFormData(data ? toForm(data) : emptyForm());
+    } catch (err) {
+      console.error('Error fetching email account:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccount();
+  }, [fetchAccount]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account && !formData.password) {
+      setError('Enter the password of the mailbox.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setNotice('');
+    try {
+      const { password, ...fields } = formData;
+      const values = {
+        ...fields,
+        email_address: fields.email_address.trim(),
+        display_name: fields.display_name?.trim() || null,
+        username: fields.username.trim(),
+        imap_host: fields.imap_host.trim(),
+        smtp_host: fields.smtp_host.trim(),
+        updated_at: new Date().toISOString(),
+      };
+      const { data, error: saveError } = account
+        ? await supabase.from('email_accounts').update(values).eq('id', account.id).select().single()
+        : await supabase.from('email_accounts').insert([values]).select().single();
+      if (saveError) throw saveError;
+
+      if (password) {
+        const { error: passwordError } = await supabase.rpc('set_email_account_password', {
+          p_account_id: data.id,
+          p_password: password,
+        });
+        if (passwordError) throw passwordError;
+      }
+
+      setNotice('Mailbox saved.');
+      await fetchAccount();
+    } catch (err) {
+      console.error('Error saving email account:', err);
+      setError('Could not save the mailbox.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setError('');
+    setNotice('');
+    try {
+      const result = await syncMailbox();
+      if (result.error) {
+        setError(`Could not sync the mailbox: ${result.error}`);
+      } else {
+        setNotice(
+          `Read ${result.read} new ${result.read === 1 ? 'message' : 'messages'}, ${result.logged} logged as activities.`
+        );
+      }
+      await fetchAccount();
+    } catch (err) {
+      console.error('Error syncing mailbox:', err);
+      setError(err instanceof Error ? err.message : 'Could not sync the mailbox.');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!account) return;
+    if (!confirm('Disconnect this mailbox? Emails already logged stay on their records.')) return;
+    try {
+      const { error: deleteError } = await supabase.from('email_accounts').delete().eq('id', account.id);
+      if (deleteError) throw deleteError;
+      setNotice('');
+      await fetchAccount();
+    } catch (err) {
+      console.error('Error disconnecting email account:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Mailbox</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Emails with your contacts and their companies are logged as activities, and emails
+              you send from a contact are sent from this mailbox.
+            </p>
+          </div>
+          {account && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleSync}
+                disabled={syncing}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 mr-1 ${syncing ? 'animate-spin' : ''}`} />
+                {syncing ? 'Syncing...' : 'Sync now'}
+              </button>
+              <button
+                onClick={handleDisconnect}
+                aria-label="Disconnect mailbox"
+                className="text-red-600 hover:text-red-900"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {account && (
+          <p className="mt-3 text-sm text-gray-600">
+            {account.last_synced_at
+              ? `Last synced ${new Date(account.last_synced_at).toLocaleString()}`
+              : 'Not synced yet'}
+            {account.last_error && (
+              <span className="block text-red-600">Last sync failed: {account.last_error}</span>
+            )}
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white shadow rounded-lg px-6 py-4 space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg text-sm">
+            {notice}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Email address *</label>
+            <input
+              type="email"
+              required
+              value={formData.email_address}
+              onChange={(e) => setFormData({ ...formData, email_address: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name shown to recipients</label>
+            <input
+              type="text"
+              value={formData.display_name || ''}
+              onChange={(e) => setFormData({ ...formData, display_name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Username *</label>
+            <input
+              type="text"
+              required
+              autoComplete="off"
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Password {!account && '*'}
+            </label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              placeholder={account ? 'Leave blank to keep the current one' : ''}
+              value={formData.password}
+              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {(['imap', 'smtp'] as const).map((server) => (
+          <fieldset key={server} className="grid grid-cols-6 gap-4 items-end">
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-700">
+                {server === 'imap' ? 'Incoming server (IMAP) *' : 'Outgoing server (SMTP) *'}
+              </label>
+              <input
+                type="text"
+                required
+                value={formData[`${server}_host`]}
+                onChange={(e) => setFormData({ ...formData, [`${server}_host`]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="col-span-1">
+              <label className="block text-sm font-medium text-gray-700">Port *</label>
+              <input
+                type="number"
+                required
+                min={1}
+                max={65535}
+                value={formData[`${server}_port`]}
+                onChange={(e) =>
+                  setFormData({ ...formData, [`${server}_port`]: Number(e.target.value) })
+                }
+                className={inputClass}
+              />
+            </div>
+            <label className="col-span-2 flex items-center pb-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData[`${server}_secure`]}
+                onChange={(e) => setFormData({ ...formData, [`${server}_secure`]: e.target.checked })}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Use SSL/TLS
+            </label>
+          </fieldset>
+        ))}
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.sync_enabled}
+            onChange={(e) => setFormData({ ...formData, sync_enabled: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Sync new mail automatically
+        </label>
+
+        <div className="flex justify-end pt-4 border-t">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : account ? 'Update' : 'Connect mailbox'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+import { exportRows, ExportColumn, ExportFormat, EXPORT_FORMATS } from '../lib/export';
+import { Download } from 'lucide-react';
+
+type ExportMenuProps<T> = {
+  rows: T[];
+  columns: ExportColumn<T>[];
+  fileName: string;
+  // Paged lists pass the number of matching rows and a loader for all of them, since `rows`
+  // is only the page on screen.
+  totalCount?: number;
+  loadRows?: () => Promise<T[]>;
+  // Opens the menu upwards, for the bulk action bar at the bottom of the screen
+  dropUp?: boolean;
+};
+
+export default function ExportMenu<T>({
+  rows,
+  columns,
+  fileName,
+  totalCount,
+  loadRows,
+  dropUp = false,
+}: ExportMenuProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const rowCount = totalCount ?? rows.length;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(true);
+    try {
+      await exportRows(loadRows ? await loadRows() : rows, columns, format, fileName);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={rowCount === 0 || exporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={rowCount === 0 ? 'Nothing to export' : `Export ${rowCount} rows`}
+        className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className={`absolute right-0 z-20 ${dropUp ? 'bottom-full mb-2' : 'mt-2'} w-44 rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5`}
+        >
+          <p className="px-4 py-2 text-xs text-gray-500">{rowCount} rows</p>
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.id}
+              role="menuitem"
+              onClick={() => handleExport(format.id)}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
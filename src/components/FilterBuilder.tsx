@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef } from 'react';
+import { FilterGroup } from '../lib/supabase';
+import { EMPTY_FILTER, FilterField, countConditions, newCondition } from '../lib/filters';
+import FilterGroupEditor from './FilterGroupEditor';
+import { Filter } from 'lucide-react';
+
+type FilterBuilderProps<T> = {
+  fields: FilterField<T>[];
+  value: FilterGroup;
+  onChange: (filter: FilterGroup) => void;
+};
+
+/**
+ * Filter button of a list. Conditions are edited in a draft and only applied to the list on
+ * "Apply", so a half-written condition does not refetch the list on every keystroke.
+ */
+export default function FilterBuilder<T>({ fields, value, onChange }: FilterBuilderProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterGroup>(value);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const activeCount = countConditions(value);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const open = () => {
+    setDraft(value.conditions.length > 0 ? value : { match: 'all', conditions: [newCondition(fields[0])] });
+    setIsOpen(true);
+  };
+
+  const apply = (next: FilterGroup) => {
+    onChange(next);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        aria-expanded={isOpen}
+        className={`inline-flex items-center justify-center rounded-md border px-4 py-2 text-sm font-medium shadow-sm ${
+          activeCount > 0
+            ? 'border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100'
+            : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <Filter className="w-4 h-4 mr-2" />
+        Filter
+        {activeCount > 0 && (
+          <span className="ml-2 rounded-full bg-blue-600 px-1.5 text-xs font-semibold text-white">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-2 w-[40rem] max-w-[90vw] rounded-md bg-white p-4 shadow-lg ring-1 ring-black ring-opacity-5">
+          <FilterGroupEditor fields={fields} group={draft} onChange={setDraft} />
+          <div className="mt-4 flex justify-end space-x-3 border-t border-gray-100 pt-4">
+            <button
+              type="button"
+              onClick={() => apply(EMPTY_FILTER)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              onClick={() => apply(draft)}
+              className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
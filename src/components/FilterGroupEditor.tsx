@@ -0,0 +1,233 @@
+import { FilterCondition, FilterGroup, FilterOperator } from '../lib/supabase';
+import {
+  FILTER_OPERATORS,
+  FilterField,
+  OPERATOR_LABELS,
+  isFilterGroup,
+  isValidNumber,
+  needsValue,
+  newCondition,
+} from '../lib/filters';
+import { Plus, X } from 'lucide-react';
+
+const inputClassName =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:ring-blue-500';
+
+const isDaysOperator = (operator: FilterOperator) =>
+  operator === 'in_last_days' || operator === 'in_next_days';
+
+type ConditionEditorProps<T> = {
+  fields: FilterField<T>[];
+  condition: FilterCondition;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+};
+
+function ConditionEditor<T>({ fields, condition, onChange, onRemove }: ConditionEditorProps<T>) {
+  const field = fields.find((f) => f.key === condition.field) || fields[0];
+  const operators = FILTER_OPERATORS[field.type];
+
+  const renderInput = (value: string, onValueChange: (value: string) => void, label: string) => {
+    if (isDaysOperator(condition.operator)) {
+      return (
+        <input
+          type="number"
+          min="0"
+          value={value}
+          onChange={(e) => onValueChange(e.target.value)}
+          aria-label={label}
+          className={`${inputClassName} w-24`}
+        />
+      );
+    }
+    if (field.type === 'select') {
+      return (
+        <select
+          value={value}
+          onChange={(e) => onValueChange(e.target.value)}
+          aria-label={label}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          {(field.options || []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    // Conditions with a value that is not a number are left out of the filter
+    const invalid = field.type === 'number' && value !== '' && !isValidNumber(value);
+    return (
+      <input
+        type={field.type === 'number' ? 'number' : field.type === 'text' ? 'text' : 'date'}
+        value={value}
+        onChange={(e) => onValueChange(e.target.value)}
+        aria-label={label}
+        aria-invalid={invalid}
+        title={invalid ? 'Enter a number' : undefined}
+        className={`${inputClassName} ${field.type === 'text' ? 'w-40' : 'w-36'} ${
+          invalid ? 'border-red-500' : ''
+        }`}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={field.key}
+        onChange={(e) => onChange(newCondition(fields.find((f) => f.key === e.target.value)!))}
+        aria-label="Field"
+        className={inputClassName}
+      >
+        {fields.map((f) => (
+          <option key={f.key} value={f.key}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => {
+          const operator = e.target.value as FilterOperator;
+          const keepValue = isDaysOperator(operator) === isDaysOperator(condition.operator);
+          onChange({
+            ...condition,
+            operator,
+            value: keepValue ? condition.value : '',
+            value2: keepValue ? condition.value2 : undefined,
+          });
+        }}
+        aria-label="Operator"
+        className={inputClassName}
+      >
+        {operators.map((operator) => (
+          <option key={operator} value={operator}>
+            {OPERATOR_LABELS[operator]}
+          </option>
+        ))}
+      </select>
+      {needsValue(condition.operator) &&
+        renderInput(condition.value, (value) => onChange({ ...condition, value }), 'Value')}
+      {condition.operator === 'between' && (
+        <>
+          <span className="text-sm text-gray-500">and</span>
+          {renderInput(
+            condition.value2 || '',
+            (value2) => onChange({ ...condition, value2 }),
+            'Upper value'
+          )}
+        </>
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label="Remove condition"
+        className="p-1 text-gray-400 hover:text-gray-600"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+type FilterGroupEditorProps<T> = {
+  fields: FilterField<T>[];
+  group: FilterGroup;
+  onChange: (group: FilterGroup) => void;
+  // Nested groups hold conditions only.
+  nested?: boolean;
+};
+
+/**
+ * Editor of a filter group: conditions, the all/any match and one level of nested groups.
+ * Used by the filter button of the lists and the segment rules.
+ */
+export default function FilterGroupEditor<T>({
+  fields,
+  group,
+  onChange,
+  nested,
+}: FilterGroupEditorProps<T>) {
+  const updateItem = (index: number, item: FilterCondition | FilterGroup) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.map((current, i) => (i === index ? item : current)),
+    });
+
+  const removeItem = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  const addItem = (item: FilterCondition | FilterGroup) =>
+    onChange({ ...group, conditions: [...group.conditions, item] });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center text-sm text-gray-700">
+        Match
+        <select
+          value={group.match}
+          onChange={(e) => onChange({ ...group, match: e.target.value as FilterGroup['match'] })}
+          aria-label="Match"
+          className={`${inputClassName} mx-2`}
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        of the following
+      </div>
+
+      {group.conditions.map((item, index) =>
+        isFilterGroup(item) ? (
+          <div key={index} className="relative rounded-md border border-gray-200 bg-gray-50 p-3">
+            <button
+              type="button"
+              onClick={() => removeItem(index)}
+              aria-label="Remove group"
+              className="absolute right-2 top-2 p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+            <FilterGroupEditor
+              fields={fields}
+              group={item}
+              onChange={(next) => updateItem(index, next)}
+              nested
+            />
+          </div>
+        ) : (
+          <ConditionEditor
+            key={index}
+            fields={fields}
+            condition={item}
+            onChange={(next) => updateItem(index, next)}
+            onRemove={() => removeItem(index)}
+          />
+        )
+      )}
+
+      <div className="flex space-x-4">
+        <button
+          type="button"
+          onClick={() => addItem(newCondition(fields[0]))}
+          className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add condition
+        </button>
+        {!nested && (
+          <button
+            type="button"
+            onClick={() => addItem({ match: 'any', conditions: [newCondition(fields[0])] })}
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState, useEffect } from 'react';
+import { supabase, Deal, PeriodType, Quota } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePipelines } from '../hooks/usePipelines';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { buildForecast, COMMIT_PROBABILITY } from '../lib/forecast';
+import { Target, TrendingUp, CheckCircle, Scale } from 'lucide-react';
+
+const PERIOD_TYPES: { id: PeriodType; label: string }[] = [
+  { id: 'month', label: 'Monthly' },
+  { id: 'quarter', label: 'Quarterly' },
+];
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+export default function Forecast() {
+  const { can } = useAuth();
+  const { stagesById, loading: pipelinesLoading } = usePipelines();
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [quotas, setQuotas] = useState<Quota[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [periodType, setPeriodType] = useQueryParam<PeriodType>('period', 'quarter', [
+    'month',
+    'quarter',
+  ]);
+  const [yearParam, setYearParam] = useQueryParam('year', String(new Date().getFullYear()));
+  const year = Number(yearParam) || new Date().getFullYear();
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [dealsResult, quotasResult] = await Promise.all([
+        supabase.from('deals').select('*'),
+        supabase.from('quotas').select('*'),
+      ]);
+
+      if (dealsResult.error) throw dealsResult.error;
+      if (quotasResult.error) throw quotasResult.error;
+      setDeals(dealsResult.data || []);
+      setQuotas(quotasResult.data || []);
+    } catch (error) {
+      console.error('Error fetching forecast data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const quotaFor = (start: string) =>
+    quotas.find((quota) => quota.period_type === periodType && quota.period_start === start);
+
+  const saveQuota = async (start: string) => {
+    const draft = quotaDrafts[start];
+    if (draft === undefined) return;
+
+    const existing = quotaFor(start);
+    try {
+      if (draft.trim() === '') {
+        if (existing) {
+          const { error } = await supabase.from('quotas').delete().eq('id', existing.id);
+          if (error) throw error;
+          setQuotas(quotas.filter((quota) => quota.id !== existing.id));
+        }
+      } else {
+        const amount = Math.max(0, parseFloat(draft) || 0);
+        const { data, error } = await supabase
+          .from('quotas')
+          .upsert(
+            {
+              period_type: periodType,
+              period_start: start,
+              amount,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: 'organization_id,period_type,period_start' }
+          )
+          .select()
+          .single();
+        if (error) throw error;
+        setQuotas([...quotas.filter((quota) => quota.id !== data.id), data]);
+      }
+      const rest = { ...quotaDrafts };
+      delete rest[start];
+      setQuotaDrafts(rest);
+    } catch (error) {
+      console.error('Error saving quota:', error);
+    }
+  };
+
+  if (loading || pipelinesLoading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  const forecast = buildForecast(deals, stagesById, year, periodType);
+  const periodQuotas = forecast.periods.map((period) => quotaFor(period.start)?.amount ?? null);
+  const totalQuota = periodQuotas.reduce<number>((sum, amount) => sum + (amount ?? 0), 0);
+  const chartMax = Math.max(
+    1,
+    ...forecast.periods.map((period) => period.bestCase),
+    ...periodQuotas.map((amount) => amount ?? 0)
+  );
+
+  const years = Array.from(
+    new Set([
+      new Date().getFullYear() - 1,
+      new Date().getFullYear(),
+      new Date().getFullYear() + 1,
+      ...deals
+        .filter((deal) => deal.expected_close_date)
+        .map((deal) => Number((deal.expected_close_date as string).slice(0, 4))),
+    ])
+  ).sort((a, b) => a - b);
+
+  const summaryCards = [
+    { name: 'Closed Won', value: forecast.total.closed, icon: CheckCircle, color: 'bg-green-600' },
+    { name: 'Commit', value: forecast.total.commit, icon: Target, color: 'bg-blue-600' },
+    { name: 'Best Case', value: forecast.total.bestCase, icon: TrendingUp, color: 'bg-blue-300' },
+    { name: 'Weighted', value: forecast.total.weighted, icon: Scale, color: 'bg-teal-500' },
+  ];
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center sm:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Forecast</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Expected revenue by close date, weighted by deal probability
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex items-center gap-3">
+          <div className="flex gap-2">
+            {PERIOD_TYPES.map((type) => (
+              <button
+                key={type.id}
+                onClick={() => setPeriodType(type.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                  periodType === type.id
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={year}
+            onChange={(e) => setYearParam(e.target.value)}
+            aria-label="Year"
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+          >
+            {years.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map((card) => {
+          const Icon = card.icon;
+          return (
+            <div key={card.name} className="bg-white overflow-hidden shadow rounded-lg">
+              <div className="p-5">
+                <div className="flex items-center">
+                  <div className={`flex-shrink-0 rounded-md p-3 ${card.color}`}>
+                    <Icon className="h-6 w-6 text-white" />
+                  </div>
+                  <div className="ml-5 w-0 flex-1">
+                    <dl>
+                      <dt className="text-sm font-medium text-gray-500 truncate">{card.name}</dt>
+                      <dd className="text-2xl font-semibold text-gray-900">
+                        {formatCurrency(card.value)}
+                      </dd>
+                    </dl>
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8 bg-white overflow-hidden shadow rounded-lg">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-medium text-gray-900">Forecast vs. Quota</h3>
+            <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+              <span className="flex items-center">
+                <span className="w-3 h-3 rounded-sm bg-green-600 mr-1" />
+                Closed
+              </span>
+              <span className="flex items-center">
+                <span className="w-3 h-3 rounded-sm bg-blue-600 mr-1" />
+                Commit
+              </span>
+              <span className="flex items-center">
+                <span className="w-3 h-3 rounded-sm bg-blue-200 mr-1" />
+                Best Case
+              </span>
+              <span className="flex items-center">
+                <span className="w-3 h-0.5 bg-teal-500 mr-1" />
+                Weighted
+              </span>
+              <span className="flex items-center">
+                <span className="w-3 h-0.5 bg-red-500 mr-1" />
+                Quota
+              </span>
+            </div>
+          </div>
+
+          <div className="flex items-end gap-3 h-64 border-b border-gray-200">
+            {forecast.periods.map((period, index) => {
+              const quota = periodQuotas[index];
+              const height = (value: number) => `${(value / chartMax) * 100}%`;
+              return (
+                <div
+                  key={period.start}
+                  className="relative flex-1 h-full flex flex-col justify-end"
+                  title={`${period.label}: closed ${formatCurrency(period.closed)}, commit ${formatCurrency(period.commit)}, best case ${formatCurrency(period.bestCase)}, weighted ${formatCurrency(period.weighted)}`}
+                >
+                  <div
+                    className="w-full bg-blue-200 rounded-t"
+                    style={{ height: height(period.bestCase - period.commit) }}
+                  />
+                  <div
+                    className="w-full bg-blue-600"
+                    style={{ height: height(period.commit - period.closed) }}
+                  />
+                  <div className="w-full bg-green-600" style={{ height: height(period.closed) }} />
+                  {period.weighted > 0 && (
+                    <div
+                      className="absolute left-0 right-0 h-0.5 bg-teal-500"
+                      style={{ bottom: height(period.weighted) }}
+                    />
+                  )}
+                  {quota !== null && (
+                    <div
+                      className="absolute -left-1 -right-1 h-0.5 bg-red-500"
+                      style={{ bottom: height(quota) }}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-3 mt-2">
+            {forecast.periods.map((period) => (
+              <div key={period.start} className="flex-1 text-center text-xs text-gray-500 truncate">
+                {period.label}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8 bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-6 pr-3 text-left text-sm font-semibold text-gray-900">
+                Period
+              </th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">Closed</th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">Commit</th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">
+                Best Case
+              </th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">
+                Weighted
+              </th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">Quota</th>
+              <th className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">
+                Attainment
+              </th>
+              <th className="py-3.5 pl-3 pr-6 text-right text-sm font-semibold text-gray-900">
+                Gap to Quota
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {forecast.periods.map((period, index) => {
+              const quota = periodQuotas[index];
+              const gap = quota !== null ? quota - period.closed : null;
+              return (
+                <tr key={period.start}>
+                  <td className="whitespace-nowrap py-3 pl-6 pr-3 text-sm font-medium text-gray-900">
+                    {period.label}
+                    <span className="ml-2 text-xs text-gray-400">{period.dealCount} deals</span>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-right text-gray-900">
+                    {formatCurrency(period.closed)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-right text-gray-900">
+                    {formatCurrency(period.commit)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-right text-gray-900">
+                    {formatCurrency(period.bestCase)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-right text-gray-900">
+                    {formatCurrency(period.weighted)}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 text-sm text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="—"
+                      aria-label={`Quota for ${period.label}`}
+                      disabled={!can('manage_quotas')}
+                      value={quotaDrafts[period.start] ?? (quota !== null ? String(quota) : '')}
+                      onChange={(e) =>
+                        setQuotaDrafts({ ...quotaDrafts, [period.start]: e.target.value })
+                      }
+                      onBlur={() => saveQuota(period.start)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      className="w-28 rounded-md border-gray-300 text-right focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-2 py-1 disabled:bg-transparent disabled:border-transparent"
+                    />
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-3 text-sm text-right text-gray-500">
+                    {quota ? `${Math.round((period.closed / quota) * 100)}%` : '—'}
+                  </td>
+                  <td
+                    className={`whitespace-nowrap py-3 pl-3 pr-6 text-sm text-right ${
+                      gap !== null && gap <= 0 ? 'text-green-600' : 'text-gray-500'
+                    }`}
+                  >
+                    {gap === null ? '—' : gap <= 0 ? 'Met' : formatCurrency(gap)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td className="py-3 pl-6 pr-3 text-sm font-semibold text-gray-900">Total</td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {formatCurrency(forecast.total.closed)}
+              </td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {formatCurrency(forecast.total.commit)}
+              </td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {formatCurrency(forecast.total.bestCase)}
+              </td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {formatCurrency(forecast.total.weighted)}
+              </td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {totalQuota > 0 ? formatCurrency(totalQuota) : '—'}
+              </td>
+              <td className="px-3 py-3 text-sm text-right font-semibold text-gray-900">
+                {totalQuota > 0
+                  ? `${Math.round((forecast.total.closed / totalQuota) * 100)}%`
+                  : '—'}
+              </td>
+              <td className="py-3 pl-3 pr-6" />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Commit includes closed revenue plus open deals at {COMMIT_PROBABILITY}% probability or
+        higher. Best case includes every open deal. Lost deals are excluded.
+        {forecast.unscheduled.dealCount > 0 &&
+          ` ${forecast.unscheduled.dealCount} deals worth ${formatCurrency(
+            forecast.unscheduled.bestCase
+          )}${
+            forecast.unscheduled.closed > 0
+              ? `, ${formatCurrency(forecast.unscheduled.closed)} of it closed,`
+              : ''
+          } have no expected close date and are not included.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+import { useState, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { readSpreadsheet, downloadBlob, SPREADSHEET_ACCEPT } from '../lib/spreadsheet';
+import { ParsedRow } from '../lib/csv';
+import {
+  ImportEntity,
+  ImportProblem,
+  PreparedRow,
+  IMPORT_FIELDS,
+  IMPORT_BATCH_SIZE,
+  autoMapColumns,
+  buildErrorReport,
+  dedupeKey,
+  prepareRows,
+} from '../lib/importer';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, Download, X } from 'lucide-react';
+
+type ImportWizardProps = {
+  entity: ImportEntity;
+  onClose: () => void;
+  onImported: () => void;
+};
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+type ImportResult = {
+  imported: number;
+  createdCompanies: number;
+  problems: ImportProblem[];
+};
+
+const PAGE_SIZE = 1000;
+const PREVIEW_LIMIT = 100;
+
+const ENTITY_LABELS: Record<ImportEntity, { singular: string; plural: string }> = {
+  contacts: { singular: 'contact', plural: 'contacts' },
+  companies: { singular: 'company', plural: 'companies' },
+};
+
+// PostgREST caps each response, so existing records are read page by page.
+const fetchAll = async <T,>(table: string, columns: string) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const chunk = <T,>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export default function ImportWizard({ entity, onClose, onImported }: ImportWizardProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ParsedRow[]>([]);
+  const [mapping, setMapping] = useState<string[]>([]);
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const [previewFilter, setPreviewFilter] = useState<'all' | 'ready' | 'errors' | 'duplicates'>(
+    'all'
+  );
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [reading, setReading] = useState(false);
+
+  const fields = IMPORT_FIELDS[entity];
+  const labels = ENTITY_LABELS[entity];
+
+  const prepared = useMemo(
+    () => prepareRows(entity, rows, mapping, existingKeys),
+    [entity, rows, mapping, existingKeys]
+  );
+  const readyRows = prepared.filter((row) => row.errors.length === 0 && !row.duplicateOf);
+  const errorRows = prepared.filter((row) => row.errors.length > 0);
+  const duplicateRows = prepared.filter((row) => row.errors.length === 0 && row.duplicateOf);
+  const missingRequired = fields.filter(
+    (field) => field.required && !mapping.includes(field.key)
+  );
+
+  const handleFile = async (file: File) => {
+    setError('');
+    setReading(true);
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+      if (!headerRow || dataRows.length === 0) {
+        setError('The file has no data rows. The first row must contain column headers.');
+        return;
+      }
+
+      const keyColumn = entity === 'contacts' ? 'email' : 'name';
+      const existing = await fetchAll<Record<string, string | null>>(entity, keyColumn);
+      setExistingKeys(
+        new Set(
+          existing
+            .map((record) => dedupeKey(entity, { [keyColumn]: record[keyColumn] || '' }))
+            .filter((key): key is string => key !== null)
+        )
+      );
+
+      setFileName(file.name);
+      setHeaders(headerRow.cells.map((header, index) => header || `Column ${index + 1}`));
+      setRows(dataRows);
+      setMapping(autoMapColumns(entity, headerRow.cells));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('The file could not be read. Upload a CSV or XLSX file.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const resolveCompanies = async (ready: PreparedRow[]) => {
+    const companyIds = new Map<string, string>();
+    const companies = await fetchAll<{ id: string; name: string }>('companies', 'id, name');
+    companies.forEach((company) => {
+      const key = company.name.trim().toLowerCase();
+      if (!companyIds.has(key)) companyIds.set(key, company.id);
+    });
+
+    const missing = new Map<string, string>();
+    ready.forEach((row) => {
+      const name = row.values.company_name;
+      if (name && !companyIds.has(name.toLowerCase()) && !missing.has(name.toLowerCase())) {
+        missing.set(name.toLowerCase(), name);
+      }
+    });
+
+    for (const names of chunk(Array.from(missing.values()), IMPORT_BATCH_SIZE)) {
+      const { data, error } = await supabase
+        .from('companies')
+        .insert(names.map((name) => ({ name, user_id: user?.id })))
+        .select('id, name');
+      if (error) throw error;
+      (data || []).forEach((company) => companyIds.set(company.name.toLowerCase(), company.id));
+    }
+
+    return { companyIds, created: missing.size };
+  };
+
+  const runImport = async () => {
+    setError('');
+    setStep('importing');
+    setProgress({ done: 0, total: readyRows.length });
+
+    const problems: ImportProblem[] = [
+      ...errorRows.map((row) => ({ row, message: row.errors.join('; ') })),
+      ...duplicateRows.map((row) => ({ row, message: `Skipped: ${row.duplicateOf}` })),
+    ];
+
+    let companyIds = new Map<string, string>();
+    let createdCompanies = 0;
+    if (entity === 'contacts') {
+      try {
+        ({ companyIds, created: createdCompanies } = await resolveCompanies(readyRows));
+      } catch (err) {
+        console.error('Error creating companies:', err);
+        setError('Companies for the imported contacts could not be created. Nothing was imported.');
+        setStep('preview');
+        return;
+      }
+    }
+
+    const toRecord = (row: PreparedRow) => {
+      const record: Record<string, string | null | undefined> = { user_id: user?.id };
+      fields.forEach((field) => {
+        if (field.key !== 'company_name') record[field.key] = row.values[field.key] || null;
+      });
+      if (entity === 'contacts') {
+        const companyName = row.values.company_name;
+        record.company_id = companyName ? companyIds.get(companyName.toLowerCase()) : null;
+      }
+      return record;
+    };
+
+    let imported = 0;
+    let done = 0;
+    for (const batch of chunk(readyRows, IMPORT_BATCH_SIZE)) {
+      const { error: batchError } = await supabase.from(entity).insert(batch.map(toRecord));
+      if (!batchError) {
+        imported += batch.length;
+      } else {
+        // Retry one by one so a single bad row does not fail its whole batch.
+        for (const row of batch) {
+          const { error: rowError } = await supabase.from(entity).insert([toRecord(row)]);
+          if (rowError) problems.push({ row, message: rowError.message });
+          else imported += 1;
+        }
+      }
+      done += batch.length;
+      setProgress({ done, total: readyRows.length });
+    }
+
+    setResult({ imported, createdCompanies, problems });
+    setStep('done');
+    if (imported > 0) onImported();
+  };
+
+  const downloadErrorReport = () => {
+    if (!result) return;
+    const csv = buildErrorReport(headers, result.problems);
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv;charset=utf-8' }),
+      `${fileName.replace(/\.[^.]+$/, '')}-import-errors.csv`
+    );
+  };
+
+  const visibleRows = (
+    previewFilter === 'ready'
+      ? readyRows
+      : previewFilter === 'errors'
+        ? errorRows
+        : previewFilter === 'duplicates'
+          ? duplicateRows
+          : prepared
+  ).slice(0, PREVIEW_LIMIT);
+  const mappedFields = fields.filter((field) => mapping.includes(field.key));
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Import {labels.plural}</h3>
+            {fileName && <p className="text-sm text-gray-500">{fileName}</p>}
+          </div>
+          {step !== 'importing' && (
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 flex items-start rounded-md bg-red-50 p-3 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg py-12 cursor-pointer hover:border-blue-400">
+              <FileSpreadsheet className="w-10 h-10 text-gray-400" />
+              <span className="mt-3 text-sm font-medium text-gray-900">
+                {reading ? 'Reading file...' : 'Choose a CSV or XLSX file'}
+              </span>
+              <span className="mt-1 text-xs text-gray-500">
+                The first row must contain column headers
+              </span>
+              <input
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="sr-only"
+                disabled={reading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Match each column in your file to a {labels.singular} field. Columns set to
+                "Ignore" are not imported.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="py-2 pr-3 text-left text-sm font-semibold text-gray-900">
+                      Column
+                    </th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-gray-900">
+                      Example
+                    </th>
+                    <th className="pl-3 py-2 text-left text-sm font-semibold text-gray-900">
+                      Field
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {headers.map((header, column) => (
+                    <tr key={column}>
+                      <td className="py-2 pr-3 text-sm font-medium text-gray-900">{header}</td>
+                      <td className="px-3 py-2 text-sm text-gray-500 truncate max-w-xs">
+                        {rows.find((row) => row.cells[column])?.cells[column] || '—'}
+                      </td>
+                      <td className="pl-3 py-2">
+                        <select
+                          value={mapping[column] || ''}
+                          onChange={(e) => {
+                            const next = [...mapping];
+                            next[column] = e.target.value;
+                            setMapping(next);
+                          }}
+                          aria-label={`Field for ${header}`}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-1.5"
+                        >
+                          <option value="">Ignore</option>
+                          {fields.map((field) => (
+                            <option
+                              key={field.key}
+                              value={field.key}
+                              disabled={mapping.includes(field.key) && mapping[column] !== field.key}
+                            >
+                              {field.label}
+                              {field.required ? ' *' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {entity === 'contacts' && (
+                <p className="mt-4 text-xs text-gray-500">
+                  Companies are matched by name. Names that do not match an existing company
+                  create a new one.
+                </p>
+              )}
+              {missingRequired.length > 0 && (
+                <p className="mt-4 text-sm text-red-600">
+                  Map a column to {missingRequired.map((field) => field.label).join(' and ')} to
+                  continue.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div className="rounded-lg bg-green-50 p-3">
+                  <p className="text-2xl font-semibold text-green-700">{readyRows.length}</p>
+                  <p className="text-sm text-green-700">Ready to import</p>
+                </div>
+                <div className="rounded-lg bg-red-50 p-3">
+                  <p className="text-2xl font-semibold text-red-700">{errorRows.length}</p>
+                  <p className="text-sm text-red-700">With errors</p>
+                </div>
+                <div className="rounded-lg bg-yellow-50 p-3">
+                  <p className="text-2xl font-semibold text-yellow-700">{duplicateRows.length}</p>
+                  <p className="text-sm text-yellow-700">
+                    Duplicates {entity === 'contacts' ? 'by email' : 'by name'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex space-x-2 mb-3">
+                {(['all', 'ready', 'errors', 'duplicates'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setPreviewFilter(option)}
+                    className={`px-3 py-1 rounded-lg text-xs font-medium ${
+                      previewFilter === option
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </button>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="py-2 pl-3 pr-2 text-left text-xs font-semibold text-gray-900">
+                        Row
+                      </th>
+                      {mappedFields.map((field) => (
+                        <th
+                          key={field.key}
+                          className="px-2 py-2 text-left text-xs font-semibold text-gray-900"
+                        >
+                          {field.label}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2 text-left text-xs font-semibold text-gray-900">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 bg-white">
+                    {visibleRows.map((row) => (
+                      <tr key={row.rowNumber}>
+                        <td className="py-2 pl-3 pr-2 text-xs text-gray-500">{row.rowNumber}</td>
+                        {mappedFields.map((field) => (
+                          <td
+                            key={field.key}
+                            className="px-2 py-2 text-xs text-gray-900 whitespace-nowrap max-w-[12rem] truncate"
+                          >
+                            {row.values[field.key]}
+                          </td>
+                        ))}
+                        <td className="px-2 py-2 text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-600">{row.errors.join('; ')}</span>
+                          ) : row.duplicateOf ? (
+                            <span className="text-yellow-700">{row.duplicateOf}</span>
+                          ) : (
+                            <span className="text-green-600">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {prepared.length > PREVIEW_LIMIT && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Showing the first {PREVIEW_LIMIT} rows of this list.
+                </p>
+              )}
+              {errorRows.length + duplicateRows.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Rows with errors and duplicates are skipped and listed in the error report.
+                </p>
+              )}
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-8">
+              <p className="text-sm text-gray-700 mb-2">
+                Importing {labels.plural}... {progress.done} of {progress.total}
+              </p>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{
+                    width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`,
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="py-4 space-y-3">
+              <div className="flex items-center text-sm text-gray-900">
+                <CheckCircle className="w-5 h-5 mr-2 text-green-600" />
+                Imported {result.imported} {result.imported === 1 ? labels.singular : labels.plural}
+                {result.createdCompanies > 0 &&
+                  ` and created ${result.createdCompanies} new ${
+                    result.createdCompanies === 1 ? 'company' : 'companies'
+                  }`}
+                .
+              </div>
+              {result.problems.length > 0 && (
+                <div className="flex items-center justify-between rounded-md bg-yellow-50 p-3">
+                  <span className="flex items-center text-sm text-yellow-800">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    {result.problems.length} rows were not imported.
+                  </span>
+                  <button
+                    onClick={downloadErrorReport}
+                    className="inline-flex items-center text-sm font-medium text-yellow-800 hover:text-yellow-900"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    Download error report
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 px-6 py-4 border-t">
+          {step === 'map' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Preview
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button
+                onClick={() => setStep('map')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={runImport}
+                disabled={readyRows.length === 0}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import {readyRows.length} {readyRows.length === 1 ? labels.singular : labels.plural}
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              {step === 'done' ? 'Close' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { supabase, Role } from '../lib/supabase';
+import { ROLES } from '../lib/permissions';
+import { Send } from 'lucide-react';
+
+type InviteFormProps = {
+  onInvited?: () => void;
+};
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+$/;
+
+// Invites one or more addresses to the active workspace. Invitees join once they confirm that
+// address, or on their next sign in if it is already confirmed.
+export default function InviteForm({ onInvited }: InviteFormProps) {
+  const [emails, setEmails] = useState('');
+  const [role, setRole] = useState<Role>('rep');
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const addresses = [
+      ...new Set(
+        emails
+          .split(/[\s,;]+/)
+          .map((email) => email.trim().toLowerCase())
+          .filter(Boolean)
+      ),
+    ];
+    const invalid = addresses.filter((email) => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      setMessage({ type: 'error', text: `Not a valid email: ${invalid.join(', ')}` });
+      return;
+    }
+    if (addresses.length === 0) return;
+
+    setSending(true);
+    setMessage(null);
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .insert(addresses.map((email) => ({ email, role })));
+
+      if (error) {
+        if (error.code === '23505') {
+          setMessage({ type: 'error', text: 'One of these addresses already has a pending invitation' });
+          return;
+        }
+        throw error;
+      }
+
+      setEmails('');
+      setMessage({
+        type: 'success',
+        text: `Invited ${addresses.length} ${addresses.length === 1 ? 'person' : 'people'}`,
+      });
+      onInvited?.();
+    } catch (error) {
+      console.error('Error sending invitations:', error);
+      setMessage({ type: 'error', text: 'Could not send the invitations' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label className="block text-sm font-medium text-gray-700">Email addresses</label>
+      <div className="mt-1 flex space-x-3">
+        <input
+          type="text"
+          value={emails}
+          onChange={(e) => setEmails(e.target.value)}
+          placeholder="alex@example.com, sam@example.com"
+          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as Role)}
+          aria-label="Role"
+          title={ROLES.find((option) => option.id === role)?.description}
+          className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+        >
+          {ROLES.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={sending || !emails.trim()}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {sending ? 'Inviting...' : 'Invite'}
+        </button>
+      </div>
+      {message && (
+        <p
+          className={`mt-2 text-sm ${
+            message.type === 'success' ? 'text-green-600' : 'text-red-600'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </form>
+  );
+}
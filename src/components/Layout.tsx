@@ -1,23 +1,66 @@
-import { ReactNode } from 'react';
+import { ReactNode, useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { LayoutDashboard, Users, Building2, DollarSign, CheckSquare, Activity, LogOut } from 'lucide-react';
+import { useNavigation } from '../contexts/NavigationContext';
+import { useSavedViews } from '../contexts/SavedViewsContext';
+import { SAVED_VIEW_LISTS, savedViewParams } from '../lib/savedViews';
+import Link from './Link';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import NotificationBell from './NotificationBell';
+import SearchPalette from './SearchPalette';
+import {
+  LayoutDashboard,
+  Target,
+  Users,
+  Building2,
+  DollarSign,
+  LineChart,
+  CheckSquare,
+  Activity,
+  CalendarDays,
+  Workflow,
+  Trash2,
+  Settings,
+  LogOut,
+  Search,
+  Pin,
+} from 'lucide-react';
 
 type LayoutProps = {
   children: ReactNode;
-  currentView: string;
-  onViewChange: (view: string) => void;
 };
 
-export default function Layout({ children, currentView, onViewChange }: LayoutProps) {
+export default function Layout({ children }: LayoutProps) {
   const { signOut, user } = useAuth();
+  const { view: currentView, searchParams } = useNavigation();
+  const { pinnedViews } = useSavedViews();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const isMac = navigator.platform.toUpperCase().includes('MAC');
 
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { id: 'leads', label: 'Leads', icon: Target },
     { id: 'contacts', label: 'Contacts', icon: Users },
     { id: 'companies', label: 'Companies', icon: Building2 },
     { id: 'deals', label: 'Deals', icon: DollarSign },
+    { id: 'forecast', label: 'Forecast', icon: LineChart },
     { id: 'tasks', label: 'Tasks', icon: CheckSquare },
     { id: 'activities', label: 'Activities', icon: Activity },
+    { id: 'calendar', label: 'Calendar', icon: CalendarDays },
+    { id: 'sequences', label: 'Sequences', icon: Workflow },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
+    { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
   return (
@@ -33,9 +76,10 @@ export default function Layout({ children, currentView, onViewChange }: LayoutPr
                 {navItems.map((item) => {
                   const Icon = item.icon;
                   return (
-                    <button
+                    <Link
                       key={item.id}
-                      onClick={() => onViewChange(item.id)}
+                      view={item.id}
+                      aria-current={currentView === item.id ? 'page' : undefined}
                       className={`inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
                         currentView === item.id
                           ? 'border-blue-500 text-gray-900'
@@ -44,12 +88,23 @@ export default function Layout({ children, currentView, onViewChange }: LayoutPr
                     >
                       <Icon className="w-4 h-4 mr-2" />
                       {item.label}
-                    </button>
+                    </Link>
                   );
                 })}
               </div>
             </div>
             <div className="flex items-center">
+              <button
+                onClick={() => setIsSearchOpen(true)}
+                aria-label="Search"
+                className="inline-flex items-center mr-4 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-500 hover:bg-gray-50 hover:text-gray-700"
+              >
+                <Search className="w-4 h-4 mr-2" />
+                Search
+                <kbd className="ml-3 text-xs text-gray-400">{isMac ? '⌘K' : 'Ctrl K'}</kbd>
+              </button>
+              <WorkspaceSwitcher />
+              <NotificationBell />
               <span className="text-sm text-gray-700 mr-4">{user?.email}</span>
               <button
                 onClick={signOut}
@@ -61,11 +116,39 @@ export default function Layout({ children, currentView, onViewChange }: LayoutPr
             </div>
           </div>
         </div>
+        {pinnedViews.length > 0 && (
+          <div className="border-t border-gray-100">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center space-x-2 overflow-x-auto py-2">
+              <Pin className="w-4 h-4 flex-shrink-0 text-gray-400" aria-label="Pinned views" />
+              {pinnedViews.map((view) => {
+                const isCurrent = currentView === view.list && searchParams.get('saved') === view.id;
+                return (
+                  <Link
+                    key={view.id}
+                    view={view.list}
+                    params={savedViewParams(view)}
+                    aria-current={isCurrent ? 'page' : undefined}
+                    title={`${SAVED_VIEW_LISTS[view.list]}: ${view.name}`}
+                    className={`whitespace-nowrap rounded-full px-3 py-1 text-xs font-medium ${
+                      isCurrent
+                        ? 'bg-blue-100 text-blue-800'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {view.name}
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </nav>
 
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         {children}
       </main>
+
+      {isSearchOpen && <SearchPalette onClose={() => setIsSearchOpen(false)} />}
     </div>
   );
 }
@@ -0,0 +1,853 @@
+import { useState, useEffect } from 'react';
+import { supabase, errorMessage, Lead, LeadSource, LeadStatus, Company } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePipelines } from '../hooks/usePipelines';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useMembers } from '../hooks/useMembers';
+import { useListFilter } from '../hooks/useListFilter';
+import { ExportColumn, fullName } from '../lib/export';
+import { FilterField, matchesFilter, memberOptions } from '../lib/filters';
+import ExportMenu from './ExportMenu';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import DeleteRecordDialog from './DeleteRecordDialog';
+import MemberSelect from './MemberSelect';
+import RecordHistoryModal from './RecordHistoryModal';
+import { Plus, Edit2, Trash2, Search, Mail, Phone, Building2, ArrowRightCircle, CheckCircle, History } from 'lucide-react';
+
+const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'qualified', 'unqualified', 'converted'];
+
+const STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  unqualified: 'Unqualified',
+  converted: 'Converted',
+};
+
+const STATUS_COLORS: Record<LeadStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  contacted: 'bg-yellow-100 text-yellow-800',
+  qualified: 'bg-green-100 text-green-800',
+  unqualified: 'bg-gray-100 text-gray-800',
+  converted: 'bg-purple-100 text-purple-800',
+};
+
+const LEAD_SOURCES: LeadSource[] = [
+  'web',
+  'referral',
+  'event',
+  'cold_outreach',
+  'partner',
+  'advertising',
+  'other',
+];
+
+const SOURCE_LABELS: Record<LeadSource, string> = {
+  web: 'Website',
+  referral: 'Referral',
+  event: 'Event',
+  cold_outreach: 'Cold Outreach',
+  partner: 'Partner',
+  advertising: 'Advertising',
+  other: 'Other',
+};
+
+const EXPORT_COLUMNS: ExportColumn<Lead>[] = [
+  { key: 'first_name', header: 'First Name', value: (l) => l.first_name },
+  { key: 'last_name', header: 'Last Name', value: (l) => l.last_name },
+  { key: 'email', header: 'Email', value: (l) => l.email },
+  { key: 'phone', header: 'Phone', value: (l) => l.phone },
+  { key: 'title', header: 'Title', value: (l) => l.title },
+  { key: 'company_name', header: 'Company', value: (l) => l.company_name },
+  { key: 'website', header: 'Website', value: (l) => l.website },
+  { key: 'source', header: 'Source', value: (l) => SOURCE_LABELS[l.source] },
+  { key: 'status', header: 'Status', value: (l) => STATUS_LABELS[l.status] },
+  { key: 'score', header: 'Score', value: (l) => l.score },
+  { key: 'converted_at', header: 'Converted', value: (l) => l.converted_at },
+  { key: 'notes', header: 'Notes', value: (l) => l.notes },
+  { key: 'created_at', header: 'Created', value: (l) => l.created_at },
+];
+
+const FILTER_FIELDS: FilterField<Lead>[] = [
+  { key: 'name', label: 'Name', type: 'text', value: (l) => fullName(l) },
+  { key: 'email', label: 'Email', type: 'text' },
+  { key: 'phone', label: 'Phone', type: 'text' },
+  { key: 'title', label: 'Title', type: 'text' },
+  { key: 'company_name', label: 'Company', type: 'text' },
+  { key: 'website', label: 'Website', type: 'text' },
+  {
+    key: 'source',
+    label: 'Source',
+    type: 'select',
+    options: LEAD_SOURCES.map((source) => ({ value: source, label: SOURCE_LABELS[source] })),
+  },
+  {
+    key: 'status',
+    label: 'Status',
+    type: 'select',
+    options: LEAD_STATUSES.map((status) => ({ value: status, label: STATUS_LABELS[status] })),
+  },
+  { key: 'score', label: 'Score', type: 'number' },
+  { key: 'notes', label: 'Notes', type: 'text' },
+  { key: 'converted_at', label: 'Converted', type: 'datetime' },
+  { key: 'created_at', label: 'Created', type: 'datetime' },
+];
+
+const scoreColor = (score: number) => {
+  if (score >= 70) return 'bg-green-500';
+  if (score >= 40) return 'bg-yellow-500';
+  return 'bg-gray-400';
+};
+
+export default function Leads() {
+  const { user, can } = useAuth();
+  const { pipelines, defaultPipeline } = usePipelines();
+  const { members, membersById } = useMembers();
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useQueryParam('search', '');
+  const [filter, setFilter] = useQueryParam<'all' | LeadStatus>('status', 'all', [
+    'all',
+    ...LEAD_STATUSES,
+  ]);
+  const [listFilter, setListFilter] = useListFilter();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLead, setEditingLead] = useState<Lead | null>(null);
+  const [deletingLead, setDeletingLead] = useState<Lead | null>(null);
+  const [historyLead, setHistoryLead] = useState<Lead | null>(null);
+  const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
+  const [convertError, setConvertError] = useState('');
+  const [formData, setFormData] = useState({
+    first_name: '',
+    last_name: '',
+    email: '',
+    phone: '',
+    title: '',
+    company_name: '',
+    website: '',
+    source: 'web' as LeadSource,
+    status: 'new' as LeadStatus,
+    score: '0',
+    notes: '',
+  });
+  const [ownerId, setOwnerId] = useState('');
+  const [convertData, setConvertData] = useState({
+    company_id: '',
+    create_deal: true,
+    stage_id: '',
+    deal_title: '',
+    deal_value: '',
+    expected_close_date: '',
+  });
+
+  useEffect(() => {
+    fetchLeads();
+    fetchCompanies();
+  }, []);
+
+  const fetchLeads = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLeads(data || []);
+    } catch (error) {
+      console.error('Error fetching leads:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCompanies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setCompanies(data || []);
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const leadData = {
+        ...formData,
+        score: Math.min(100, Math.max(0, parseInt(formData.score) || 0)),
+        updated_at: new Date().toISOString(),
+      };
+
+      if (editingLead) {
+        const { error } = await supabase
+          .from('leads')
+          .update(can('reassign') ? { ...leadData, owner_id: ownerId || null } : leadData)
+          .eq('id', editingLead.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('leads').insert([leadData]);
+        if (error) throw error;
+      }
+
+      setIsModalOpen(false);
+      setEditingLead(null);
+      resetForm();
+      fetchLeads();
+    } catch (error) {
+      console.error('Error saving lead:', error);
+    }
+  };
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!convertingLead) return;
+    setConvertError('');
+
+    try {
+      const { error } = await supabase.rpc('convert_lead', {
+        p_lead_id: convertingLead.id,
+        p_company_id: convertData.company_id || null,
+        p_create_deal: convertData.create_deal,
+        p_deal_title: convertData.deal_title || null,
+        p_deal_value: parseFloat(convertData.deal_value) || 0,
+        p_expected_close_date: convertData.expected_close_date || null,
+        p_stage_id: convertData.stage_id || null,
+      });
+
+      if (error) throw error;
+      setConvertingLead(null);
+      fetchLeads();
+      fetchCompanies();
+    } catch (error) {
+      console.error('Error converting lead:', error);
+      setConvertError(errorMessage(error, 'Could not convert lead'));
+    }
+  };
+
+  const openModal = (lead?: Lead) => {
+    if (lead) {
+      setEditingLead(lead);
+      setFormData({
+        first_name: lead.first_name,
+        last_name: lead.last_name || '',
+        email: lead.email || '',
+        phone: lead.phone || '',
+        title: lead.title || '',
+        company_name: lead.company_name || '',
+        website: lead.website || '',
+        source: lead.source,
+        status: lead.status,
+        score: lead.score.toString(),
+        notes: lead.notes || '',
+      });
+      setOwnerId(lead.owner_id || '');
+    } else {
+      resetForm();
+    }
+    setIsModalOpen(true);
+  };
+
+  const openConvertModal = (lead: Lead) => {
+    const existingCompany = companies.find(
+      (company) =>
+        lead.company_name &&
+        company.name.trim().toLowerCase() === lead.company_name.trim().toLowerCase()
+    );
+    setConvertData({
+      company_id: existingCompany?.id || '',
+      create_deal: true,
+      stage_id: defaultPipeline?.stages.find((stage) => stage.outcome === 'open')?.id || '',
+      deal_title: lead.company_name ? `${lead.company_name} deal` : '',
+      deal_value: '',
+      expected_close_date: '',
+    });
+    setConvertError('');
+    setConvertingLead(lead);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      first_name: '',
+      last_name: '',
+      email: '',
+      phone: '',
+      title: '',
+      company_name: '',
+      website: '',
+      source: 'web',
+      status: 'new',
+      score: '0',
+      notes: '',
+    });
+    setEditingLead(null);
+  };
+
+  const filterFields: FilterField<Lead>[] = [
+    ...FILTER_FIELDS,
+    { key: 'owner_id', label: 'Owner', type: 'select', options: memberOptions(members) },
+  ];
+
+  const filteredLeads = leads.filter((lead) => {
+    if (filter !== 'all' && lead.status !== filter) return false;
+    if (!matchesFilter(lead, listFilter, filterFields)) return false;
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      lead.first_name.toLowerCase().includes(searchLower) ||
+      lead.last_name?.toLowerCase().includes(searchLower) ||
+      lead.email?.toLowerCase().includes(searchLower) ||
+      lead.company_name?.toLowerCase().includes(searchLower)
+    );
+  });
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Leads</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Qualify incoming leads and convert them into contacts and deals
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <ExportMenu rows={filteredLeads} columns={EXPORT_COLUMNS} fileName="leads" />
+          {can('create') && (
+            <button
+              onClick={() => openModal()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Lead
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-wrap gap-2">
+        {(['all', ...LEAD_STATUSES] as const).map((status) => (
+          <button
+            key={status}
+            onClick={() => setFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium ${
+              filter === status
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {status === 'all' ? 'All' : STATUS_LABELS[status]}
+            <span className="ml-2 text-xs opacity-75">
+              {status === 'all' ? leads.length : leads.filter((l) => l.status === status).length}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 flex space-x-3">
+        <div className="relative flex-1">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            placeholder="Search leads..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full rounded-md border-gray-300 pl-10 focus:border-blue-500 focus:ring-blue-500 sm:text-sm py-2 border"
+          />
+        </div>
+        <FilterBuilder fields={filterFields} value={listFilter} onChange={setListFilter} />
+        <SavedViewsMenu list="leads" />
+      </div>
+
+      <div className="mt-8 flex flex-col">
+        <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
+          <div className="inline-block min-w-full py-2 align-middle">
+            <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-300">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                      Name
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Contact
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Company
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Source
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Status
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Score
+                    </th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                      Owner
+                    </th>
+                    <th className="relative py-3.5 pl-3 pr-4">
+                      <span className="sr-only">Actions</span>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {filteredLeads.map((lead) => (
+                    <tr key={lead.id}>
+                      <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {lead.first_name} {lead.last_name}
+                        </div>
+                        {lead.title && <div className="text-gray-500">{lead.title}</div>}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {lead.email && (
+                          <div className="flex items-center">
+                            <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                            {lead.email}
+                          </div>
+                        )}
+                        {lead.phone && (
+                          <div className="flex items-center mt-1">
+                            <Phone className="w-4 h-4 mr-2 text-gray-400" />
+                            {lead.phone}
+                          </div>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {lead.company_name && (
+                          <div className="flex items-center">
+                            <Building2 className="w-4 h-4 mr-2 text-gray-400" />
+                            {lead.company_name}
+                          </div>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {SOURCE_LABELS[lead.source]}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm">
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            STATUS_COLORS[lead.status]
+                          }`}
+                        >
+                          {STATUS_LABELS[lead.status]}
+                        </span>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        <div className="flex items-center">
+                          <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
+                            <div
+                              className={`h-2 rounded-full ${scoreColor(lead.score)}`}
+                              style={{ width: `${lead.score}%` }}
+                            />
+                          </div>
+                          {lead.score}
+                        </div>
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {lead.owner_id === user?.id
+                          ? 'You'
+                          : lead.owner_id
+                            ? membersById[lead.owner_id]?.profile?.email || 'Teammate'
+                            : 'Unassigned'}
+                      </td>
+                      <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
+                        <button
+                          onClick={() => setHistoryLead(lead)}
+                          className="text-gray-400 hover:text-gray-600 mr-4"
+                          title="History"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                        {lead.status === 'converted' ? (
+                          <span className="inline-flex items-center text-purple-600 mr-4" title="Converted">
+                            <CheckCircle className="w-4 h-4" />
+                          </span>
+                        ) : (
+                          can('edit', lead) && (
+                            <button
+                              onClick={() => openConvertModal(lead)}
+                              className="text-green-600 hover:text-green-900 mr-4"
+                              title="Convert lead"
+                            >
+                              <ArrowRightCircle className="w-4 h-4" />
+                            </button>
+                          )
+                        )}
+                        {can('edit', lead) && (
+                          <button
+                            onClick={() => openModal(lead)}
+                            className="text-blue-600 hover:text-blue-900 mr-4"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {can('delete', lead) && (
+                          <button
+                            onClick={() => setDeletingLead(lead)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {filteredLeads.length === 0 && (
+                <div className="text-center py-12 text-gray-500">
+                  No leads found
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingLead ? 'Edit Lead' : 'Add Lead'}
+              </h3>
+            </div>
+            <form onSubmit={handleSubmit} className="px-6 py-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    First Name *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.first_name}
+                    onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Last Name</label>
+                  <input
+                    type="text"
+                    value={formData.last_name}
+                    onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Email</label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Phone</label>
+                  <input
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Company</label>
+                  <input
+                    type="text"
+                    value={formData.company_name}
+                    onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Title</label>
+                  <input
+                    type="text"
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Website</label>
+                <input
+                  type="url"
+                  value={formData.website}
+                  onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  placeholder="https://example.com"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Source</label>
+                  <select
+                    value={formData.source}
+                    onChange={(e) =>
+                      setFormData({ ...formData, source: e.target.value as LeadSource })
+                    }
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  >
+                    {LEAD_SOURCES.map((source) => (
+                      <option key={source} value={source}>
+                        {SOURCE_LABELS[source]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Status</label>
+                  <select
+                    value={formData.status}
+                    onChange={(e) =>
+                      setFormData({ ...formData, status: e.target.value as LeadStatus })
+                    }
+                    disabled={!!editingLead?.converted_at}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2 disabled:bg-gray-50 disabled:text-gray-500"
+                  >
+                    {LEAD_STATUSES.filter(
+                      (status) => status !== 'converted' || formData.status === 'converted'
+                    ).map((status) => (
+                      <option key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
+                  {editingLead?.converted_at && (
+                    <p className="mt-1 text-xs text-gray-500">Converted leads keep their status</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Score (0-100)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.score}
+                    onChange={(e) => setFormData({ ...formData, score: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              {editingLead && can('reassign') && (
+                <MemberSelect label="Owner" value={ownerId} onChange={setOwnerId} />
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  rows={3}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsModalOpen(false);
+                    resetForm();
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  {editingLead ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {convertingLead && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                Convert {convertingLead.first_name} {convertingLead.last_name}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Creates a contact from this lead, links it to a company and optionally opens a
+                deal. All records are created together or not at all.
+              </p>
+            </div>
+            <form onSubmit={handleConvert} className="px-6 py-4 space-y-4">
+              {convertError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {convertError}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Company</label>
+                <select
+                  value={convertData.company_id}
+                  onChange={(e) => setConvertData({ ...convertData, company_id: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                >
+                  <option value="">
+                    {convertingLead.company_name
+                      ? `Create new company "${convertingLead.company_name}"`
+                      : 'No company'}
+                  </option>
+                  {companies.map((company) => (
+                    <option key={company.id} value={company.id}>
+                      {company.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={convertData.create_deal}
+                  onChange={(e) =>
+                    setConvertData({ ...convertData, create_deal: e.target.checked })
+                  }
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Create a deal for this lead
+              </label>
+
+              {convertData.create_deal && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Deal Title</label>
+                    <input
+                      type="text"
+                      value={convertData.deal_title}
+                      onChange={(e) =>
+                        setConvertData({ ...convertData, deal_title: e.target.value })
+                      }
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Pipeline Stage
+                    </label>
+                    <select
+                      value={convertData.stage_id}
+                      onChange={(e) => setConvertData({ ...convertData, stage_id: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                    >
+                      {pipelines.map((pipeline) => (
+                        <optgroup key={pipeline.id} label={pipeline.name}>
+                          {pipeline.stages
+                            .filter((stage) => stage.outcome === 'open')
+                            .map((stage) => (
+                              <option key={stage.id} value={stage.id}>
+                                {stage.name}
+                              </option>
+                            ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Value</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={convertData.deal_value}
+                        onChange={(e) =>
+                          setConvertData({ ...convertData, deal_value: e.target.value })
+                        }
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Expected Close Date
+                      </label>
+                      <input
+                        type="date"
+                        value={convertData.expected_close_date}
+                        onChange={(e) =>
+                          setConvertData({ ...convertData, expected_close_date: e.target.value })
+                        }
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setConvertingLead(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+                >
+                  Convert Lead
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {historyLead && (
+        <RecordHistoryModal
+          table="leads"
+          recordId={historyLead.id}
+          title={fullName(historyLead) || ''}
+          onClose={() => setHistoryLead(null)}
+        />
+      )}
+
+      {deletingLead && (
+        <DeleteRecordDialog
+          table="leads"
+          recordId={deletingLead.id}
+          label={fullName(deletingLead) || ''}
+          onClose={() => setDeletingLead(null)}
+          onDeleted={fetchLeads}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { AnchorHTMLAttributes } from 'react';
+import { useNavigation, SearchParamUpdates } from '../contexts/NavigationContext';
+import { pathFor } from '../lib/routes';
+
+type LinkProps = Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & {
+  view: string;
+  recordId?: string | null;
+  params?: SearchParamUpdates;
+};
+
+// Renders a real href so links can be copied or opened in a new tab, but handles plain
+// left clicks in-app.
+export default function Link({ view, recordId = null, params, onClick, ...props }: LinkProps) {
+  const { navigate } = useNavigation();
+  const search = new URLSearchParams(
+    Object.entries(params || {}).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  return (
+    <a
+      {...props}
+      href={`${pathFor(view, recordId)}${search ? `?${search}` : ''}`}
+      onClick={(e) => {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+          return;
+        }
+        e.preventDefault();
+        navigate(view, recordId, params);
+      }}
+    />
+  );
+}
@@ -0,0 +1,53 @@
+import { Activity, Task } from '../lib/supabase';
+import { fullName } from '../lib/export';
+import Link from './Link';
+import { User, Building2, DollarSign } from 'lucide-react';
+
+type LinkedRecordsProps = {
+  record: Pick<Task | Activity, 'contact_id' | 'company_id' | 'deal_id' | 'contact' | 'company' | 'deal'>;
+};
+
+// Chips linking a task or activity to the contact, company and deal it references.
+export default function LinkedRecords({ record }: LinkedRecordsProps) {
+  const links = [
+    record.contact && {
+      view: 'contacts',
+      id: record.contact_id,
+      label: fullName(record.contact),
+      icon: User,
+    },
+    record.company && {
+      view: 'companies',
+      id: record.company_id,
+      label: record.company.name,
+      icon: Building2,
+    },
+    record.deal && {
+      view: 'deals',
+      id: record.deal_id,
+      label: record.deal.title,
+      icon: DollarSign,
+    },
+  ].filter((link) => !!link);
+
+  if (links.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {links.map((link) => {
+        const Icon = link.icon;
+        return (
+          <Link
+            key={link.view}
+            view={link.view}
+            recordId={link.id}
+            className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-700 hover:bg-gray-200"
+          >
+            <Icon className="w-3 h-3 mr-1 text-gray-500" />
+            {link.label}
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useMembers } from '../hooks/useMembers';
+
+type MemberSelectProps = {
+  label: string;
+  value: string;
+  onChange: (userId: string) => void;
+  emptyLabel?: string;
+};
+
+// Form select for the owner or assignee of a record. Read-only members cannot own records,
+// so they are only listed when already selected.
+export default function MemberSelect({ label, value, onChange, emptyLabel = 'Unassigned' }: MemberSelectProps) {
+  const { members, membersById } = useMembers();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+      >
+        <option value="">{emptyLabel}</option>
+        {value && !membersById[value] && <option value={value}>A former member</option>}
+        {members
+          .filter((member) => member.role !== 'read_only' || member.user_id === value)
+          .map((member) => (
+            <option key={member.user_id} value={member.user_id}>
+              {member.profile?.email || 'Teammate'}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+}
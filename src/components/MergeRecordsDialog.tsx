@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { supabase, Company, Contact, DuplicateTable } from '../lib/supabase';
+import { MERGE_FIELDS } from '../lib/duplicates';
+import { singularOf } from '../lib/audit';
+import { fullName } from '../lib/export';
+import { countRelated, describeRelated, RelatedCount } from '../lib/trash';
+import { useAuth } from '../contexts/AuthContext';
+import { useAuditFormatter } from '../hooks/useAuditFormatter';
+
+type MergeRecord = Contact | Company;
+
+type MergeRecordsDialogProps = {
+  table: DuplicateTable;
+  firstId: string;
+  secondId: string;
+  onClose: () => void;
+  onMerged: () => void;
+};
+
+const valueOf = (record: MergeRecord, field: string) =>
+  (record as Record<string, unknown>)[field] ?? null;
+
+const isEmpty = (value: unknown) => value === null || value === '';
+
+const labelOf = (record: MergeRecord) =>
+  'first_name' in record ? fullName(record) : record.name;
+
+// Each field starts out with the survivor's value, unless only the other record has one.
+const defaultChoices = (table: DuplicateTable, records: MergeRecord[], survivor: number) =>
+  Object.fromEntries(
+    MERGE_FIELDS[table].map(({ key }) => [
+      key,
+      isEmpty(valueOf(records[survivor], key)) && !isEmpty(valueOf(records[1 - survivor], key))
+        ? 1 - survivor
+        : survivor,
+    ])
+  );
+
+/**
+ * Merges two records into one. The user picks which record survives and, for each field that
+ * differs, which value to keep; everything linked to the other record moves to the survivor
+ * and the other record goes to the trash.
+ */
+export default function MergeRecordsDialog({
+  table,
+  firstId,
+  secondId,
+  onClose,
+  onMerged,
+}: MergeRecordsDialogProps) {
+  const { can } = useAuth();
+  const format = useAuditFormatter();
+  const [records, setRecords] = useState<MergeRecord[]>([]);
+  const [survivor, setSurvivor] = useState(0);
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  const [related, setRelated] = useState<RelatedCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState('');
+  const singular = singularOf(table);
+  const duplicate = records[1 - survivor];
+
+  useEffect(() => {
+    const fetchRecords = async () => {
+      try {
+        const { data, error } = await supabase
+          .from(table)
+          .select('*')
+          .in('id', [firstId, secondId])
+          .order('created_at');
+
+        if (error) throw error;
+        if (!data || data.length < 2) {
+          setError(`One of these ${table} no longer exists.`);
+          return;
+        }
+        setRecords(data);
+        setChoices(defaultChoices(table, data, 0));
+      } catch (error) {
+        console.error(`Error fetching ${table}:`, error);
+        setError(`Could not load the ${table}.`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecords();
+  }, [table, firstId, secondId]);
+
+  useEffect(() => {
+    if (!duplicate) return;
+    countRelated(table, duplicate.id)
+      .then(setRelated)
+      .catch((error) => console.error('Error counting related records:', error));
+  }, [table, duplicate]);
+
+  const chooseSurvivor = (index: number) => {
+    setSurvivor(index);
+    setChoices(defaultChoices(table, records, index));
+  };
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setError('');
+    try {
+      const values = Object.fromEntries(
+        MERGE_FIELDS[table].map(({ key }) => [key, valueOf(records[choices[key]], key)])
+      );
+      const { error } = await supabase.rpc('merge_records', {
+        p_table: table,
+        p_survivor_id: records[survivor].id,
+        p_duplicate_id: duplicate.id,
+        p_values: values,
+      });
+      if (error) throw error;
+      onMerged();
+      onClose();
+    } catch (error) {
+      console.error(`Error merging ${table}:`, error);
+      setError(`Could not merge the ${table}.`);
+      setMerging(false);
+    }
+  };
+
+  const canMerge = records.length === 2 && records.every((record) => can('edit', record));
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Merge {table}</h3>
+        </div>
+        <div className="px-6 py-4 overflow-y-auto space-y-4 text-sm">
+          {loading ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : (
+            records.length === 2 && (
+              <>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="py-2 pr-3 text-left font-medium text-gray-500 w-32">Keep</th>
+                      {records.map((record, index) => (
+                        <th key={record.id} className="px-3 py-2 text-left font-medium text-gray-900">
+                          <label className="flex items-center">
+                            <input
+                              type="radio"
+                              name="survivor"
+                              checked={survivor === index}
+                              onChange={() => chooseSurvivor(index)}
+                              className="mr-2"
+                            />
+                            <span className="truncate">{labelOf(record)}</span>
+                          </label>
+                          <span className="ml-5 block text-xs font-normal text-gray-500">
+                            Created {new Date(record.created_at).toLocaleDateString()} · Owner{' '}
+                            {format('owner_id', record.owner_id)}
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {MERGE_FIELDS[table].map(({ key, label }) => {
+                      const values = records.map((record) => valueOf(record, key));
+                      const differs = values[0] !== values[1];
+                      return (
+                        <tr key={key}>
+                          <td className="py-2 pr-3 font-medium text-gray-700">{label}</td>
+                          {values.map((value, index) => (
+                            <td key={index} className="px-3 py-2 text-gray-700">
+                              {differs ? (
+                                <label className="flex items-start">
+                                  <input
+                                    type="radio"
+                                    name={key}
+                                    checked={choices[key] === index}
+                                    onChange={() => setChoices({ ...choices, [key]: index })}
+                                    className="mr-2 mt-0.5"
+                                  />
+                                  <span className="whitespace-pre-wrap break-words">
+                                    {format(key, value)}
+                                  </span>
+                                </label>
+                              ) : (
+                                <span className="ml-5 block whitespace-pre-wrap break-words text-gray-500">
+                                  {format(key, value)}
+                                </span>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+
+                <p className="text-gray-700">
+                  {labelOf(duplicate) || `The other ${singular}`} will be moved to the trash
+                  {related.length > 0 &&
+                    `, and its ${related.map(describeRelated).join(', ')} will be linked to the ${singular} you keep`}
+                  .
+                </p>
+                {!canMerge && (
+                  <p className="text-red-600">
+                    You can only merge {table} you are allowed to edit.
+                  </p>
+                )}
+              </>
+            )
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+        <div className="px-6 py-4 flex justify-end space-x-3 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={!canMerge || merging}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {merging ? 'Merging...' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
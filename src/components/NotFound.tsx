@@ -0,0 +1,21 @@
+import Link from './Link';
+import { Compass } from 'lucide-react';
+
+export default function NotFound() {
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 text-center py-16">
+      <Compass className="w-12 h-12 mx-auto text-gray-300" />
+      <h1 className="mt-4 text-2xl font-semibold text-gray-900">Page not found</h1>
+      <p className="mt-2 text-sm text-gray-500">
+        The address <span className="font-mono">{window.location.pathname}</span> does not match
+        any page.
+      </p>
+      <Link
+        view="dashboard"
+        className="mt-6 inline-flex items-center rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+      >
+        Go to dashboard
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect, useRef } from 'react';
+import { Notification } from '../lib/supabase';
+import { DETAIL_VIEWS } from '../lib/routes';
+import { useNotifications } from '../hooks/useNotifications';
+import { useMembers } from '../hooks/useMembers';
+import Link from './Link';
+import { Bell } from 'lucide-react';
+
+const RECORD_LABELS: Record<Notification['record_type'], string> = {
+  companies: 'company',
+  contacts: 'contact',
+  deals: 'deal',
+  leads: 'lead',
+  tasks: 'task',
+};
+
+export default function NotificationBell() {
+  const { notifications, unreadCount, markRead } = useNotifications();
+  const { membersById } = useMembers();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const describe = (notification: Notification) => {
+    const label = RECORD_LABELS[notification.record_type];
+    if (!notification.actor_id) return `You were assigned the ${label}`;
+    const actor = membersById[notification.actor_id];
+    return `${actor?.profile?.email || 'A teammate'} assigned you the ${label}`;
+  };
+
+  const hasDetail = (notification: Notification) =>
+    (DETAIL_VIEWS as readonly string[]).includes(notification.record_type);
+
+  return (
+    <div ref={menuRef} className="relative mr-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        className="relative rounded-full p-2 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 inline-flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-30 mt-2 w-80 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          <div className="flex items-center justify-between border-b border-gray-100 px-4 py-2">
+            <p className="text-xs font-semibold uppercase text-gray-500">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead(notifications.filter((n) => !n.read_at).map((n) => n.id))}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <Link
+                  role="menuitem"
+                  view={notification.record_type}
+                  recordId={hasDetail(notification) ? notification.record_id : null}
+                  onClick={() => {
+                    if (!notification.read_at) markRead([notification.id]);
+                    setIsOpen(false);
+                  }}
+                  className={`block px-4 py-3 text-sm hover:bg-gray-50 ${
+                    notification.read_at ? 'text-gray-500' : 'bg-blue-50 text-gray-900'
+                  }`}
+                >
+                  <p>
+                    {describe(notification)}{' '}
+                    <span className="font-medium">{notification.title || 'Untitled'}</span>
+                  </p>
+                  <p className="mt-0.5 text-xs text-gray-400">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </p>
+                </Link>
+              </li>
+            ))}
+            {notifications.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { PAGE_SIZE } from '../lib/paging';
+
+type PaginationProps = {
+  page: number;
+  total: number;
+  onPageChange: (page: number) => void;
+};
+
+export default function Pagination({ page, total, onPageChange }: PaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  if (total === 0) return null;
+
+  return (
+    <nav className="flex items-center justify-between py-3" aria-label="Pagination">
+      <p className="text-sm text-gray-700">
+        Showing <span className="font-medium">{((page - 1) * PAGE_SIZE + 1).toLocaleString()}</span>{' '}
+        to <span className="font-medium">{Math.min(page * PAGE_SIZE, total).toLocaleString()}</span>{' '}
+        of <span className="font-medium">{total.toLocaleString()}</span>
+      </p>
+      <div className="flex space-x-3">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </nav>
+  );
+}
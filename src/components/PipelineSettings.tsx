@@ -0,0 +1,446 @@
+import { useState, useEffect } from 'react';
+import { supabase, errorMessage, Pipeline, StageOutcome } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { usePipelines } from '../hooks/usePipelines';
+import { Plus, Trash2, ChevronUp, ChevronDown, Star, Save } from 'lucide-react';
+
+type DraftStage = {
+  key: string;
+  id: string | null;
+  name: string;
+  probability: string;
+  outcome: StageOutcome;
+};
+
+const OUTCOME_LABELS: Record<StageOutcome, string> = {
+  open: 'Open',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+const NEW_PIPELINE_STAGES: { name: string; probability: number; outcome: StageOutcome }[] = [
+  { name: 'New', probability: 10, outcome: 'open' },
+  { name: 'In Progress', probability: 50, outcome: 'open' },
+  { name: 'Won', probability: 100, outcome: 'won' },
+  { name: 'Lost', probability: 0, outcome: 'lost' },
+];
+
+let draftKey = 0;
+const nextKey = () => `draft-${++draftKey}`;
+
+const toDraft = (pipeline: Pipeline): DraftStage[] =>
+  pipeline.stages.map((stage) => ({
+    key: stage.id,
+    id: stage.id,
+    name: stage.name,
+    probability: stage.probability.toString(),
+    outcome: stage.outcome,
+  }));
+
+export default function PipelineSettings() {
+  const { can } = useAuth();
+  const { pipelines, loading, refresh } = usePipelines();
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [stages, setStages] = useState<DraftStage[]>([]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const selected = pipelines.find((pipeline) => pipeline.id === selectedId);
+
+  useEffect(() => {
+    if (!selectedId && pipelines.length > 0) setSelectedId(pipelines[0].id);
+  }, [selectedId, pipelines]);
+
+  useEffect(() => {
+    if (selected) {
+      setName(selected.name);
+      setStages(toDraft(selected));
+      setError('');
+    }
+  }, [selected]);
+
+  const updateStage = (key: string, changes: Partial<DraftStage>) => {
+    setStages(stages.map((stage) => (stage.key === key ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStages(reordered);
+  };
+
+  const addStage = () => {
+    setStages([
+      ...stages,
+      { key: nextKey(), id: null, name: '', probability: '0', outcome: 'open' },
+    ]);
+  };
+
+  const removeStage = (key: string) => {
+    setStages(stages.filter((stage) => stage.key !== key));
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    setError('');
+
+    if (!name.trim()) {
+      setError('Pipeline name is required.');
+      return;
+    }
+    if (stages.some((stage) => !stage.name.trim())) {
+      setError('Every stage needs a name.');
+      return;
+    }
+    if (!stages.some((stage) => stage.outcome === 'open')) {
+      setError('A pipeline needs at least one open stage.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updatedAt = new Date().toISOString();
+
+      const { error: pipelineError } = await supabase
+        .from('pipelines')
+        .update({ name: name.trim(), updated_at: updatedAt })
+        .eq('id', selected.id);
+      if (pipelineError) throw pipelineError;
+
+      const keptIds = stages.filter((stage) => stage.id).map((stage) => stage.id as string);
+      const removedIds = selected.stages
+        .map((stage) => stage.id)
+        .filter((id) => !keptIds.includes(id));
+
+      if (removedIds.length > 0) {
+        const { count } = await supabase
+          .from('deals')
+          .select('id', { count: 'exact', head: true })
+          .in('stage_id', removedIds);
+
+        if (count) {
+          throw new Error(
+            `${count} deal${count === 1 ? ' is' : 's are'} still in the removed stages. Move them to another stage first.`
+          );
+        }
+
+        const { error: deleteError } = await supabase
+          .from('pipeline_stages')
+          .delete()
+          .in('id', removedIds);
+        if (deleteError) throw deleteError;
+      }
+
+      for (const [index, stage] of stages.entries()) {
+        const stageData = {
+          name: stage.name.trim(),
+          position: index,
+          probability: Math.min(100, Math.max(0, parseInt(stage.probability) || 0)),
+          outcome: stage.outcome,
+          updated_at: updatedAt,
+        };
+
+        const { error: stageError } = stage.id
+          ? await supabase.from('pipeline_stages').update(stageData).eq('id', stage.id)
+          : await supabase
+              .from('pipeline_stages')
+              .insert([{ ...stageData, pipeline_id: selected.id }]);
+        if (stageError) throw stageError;
+      }
+
+      await refresh();
+    } catch (err) {
+      console.error('Error saving pipeline:', err);
+      setError(errorMessage(err, 'Could not save pipeline'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      const { data, error: createError } = await supabase
+        .from('pipelines')
+        .insert([
+          {
+            name: 'New Pipeline',
+            position: Math.max(-1, ...pipelines.map((pipeline) => pipeline.position)) + 1,
+          },
+        ])
+        .select()
+        .single();
+      if (createError) throw createError;
+
+      const { error: stagesError } = await supabase.from('pipeline_stages').insert(
+        NEW_PIPELINE_STAGES.map((stage, index) => ({
+          ...stage,
+          position: index,
+          pipeline_id: data.id,
+        }))
+      );
+      if (stagesError) throw stagesError;
+
+      await refresh();
+      setSelectedId(data.id);
+    } catch (err) {
+      console.error('Error creating pipeline:', err);
+      setError(errorMessage(err, 'Could not create pipeline'));
+    }
+  };
+
+  const handleMakeDefault = async () => {
+    if (!selected) return;
+    setError('');
+    try {
+      // Clear the current default first; only one default pipeline is allowed per user.
+      const { error: clearError } = await supabase
+        .from('pipelines')
+        .update({ is_default: false })
+        .eq('is_default', true);
+      if (clearError) throw clearError;
+
+      const { error: defaultError } = await supabase
+        .from('pipelines')
+        .update({ is_default: true })
+        .eq('id', selected.id);
+      if (defaultError) throw defaultError;
+
+      await refresh();
+    } catch (err) {
+      console.error('Error updating default pipeline:', err);
+      setError(errorMessage(err, 'Could not update default pipeline'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.is_default) return;
+    if (!confirm(`Are you sure you want to delete the "${selected.name}" pipeline?`)) return;
+    setError('');
+
+    try {
+      const { count } = await supabase
+        .from('deals')
+        .select('id', { count: 'exact', head: true })
+        .eq('pipeline_id', selected.id);
+
+      if (count) {
+        throw new Error(
+          `This pipeline still has ${count} deal${count === 1 ? '' : 's'}. Move or delete them first.`
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from('pipelines')
+        .delete()
+        .eq('id', selected.id);
+      if (deleteError) throw deleteError;
+
+      setSelectedId('');
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting pipeline:', err);
+      setError(errorMessage(err, 'Could not delete pipeline'));
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!can('manage_pipelines')) {
+    return (
+      <div className="bg-white shadow rounded-lg px-6 py-4 text-sm text-gray-600">
+        Only workspace admins can change pipelines. This workspace uses{' '}
+        {pipelines.map((pipeline) => pipeline.name).join(', ')}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+      <div className="lg:col-span-1">
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-900">Pipelines</h3>
+            <button
+              onClick={handleCreate}
+              className="text-blue-600 hover:text-blue-900"
+              title="Add pipeline"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="space-y-1">
+            {pipelines.map((pipeline) => (
+              <button
+                key={pipeline.id}
+                onClick={() => setSelectedId(pipeline.id)}
+                className={`w-full flex items-center justify-between px-3 py-2 rounded-md text-sm text-left ${
+                  pipeline.id === selectedId
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{pipeline.name}</span>
+                {pipeline.is_default && <Star className="w-4 h-4 text-yellow-500 flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="lg:col-span-3 bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="Pipeline name"
+              className="text-lg font-medium text-gray-900 rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 border px-3 py-1"
+            />
+            <div className="flex items-center space-x-3">
+              {selected.is_default ? (
+                <span className="inline-flex items-center text-sm text-yellow-700">
+                  <Star className="w-4 h-4 mr-1 text-yellow-500" />
+                  Default
+                </span>
+              ) : (
+                <>
+                  <button
+                    onClick={handleMakeDefault}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Make default
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete pipeline"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="px-6 py-4 space-y-3">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-12 gap-3 text-xs font-medium text-gray-500 uppercase">
+              <span className="col-span-1">Order</span>
+              <span className="col-span-5">Stage</span>
+              <span className="col-span-2">Probability</span>
+              <span className="col-span-3">Outcome</span>
+              <span className="col-span-1" />
+            </div>
+
+            {stages.map((stage, index) => (
+              <div key={stage.key} className="grid grid-cols-12 gap-3 items-center">
+                <div className="col-span-1 flex flex-col">
+                  <button
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${stage.name || 'stage'} up`}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1}
+                    className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    aria-label={`Move ${stage.name || 'stage'} down`}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={stage.name}
+                  onChange={(e) => updateStage(stage.key, { name: e.target.value })}
+                  placeholder="Stage name"
+                  className="col-span-5 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+                <div className="col-span-2 flex items-center">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={stage.probability}
+                    onChange={(e) => updateStage(stage.key, { probability: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                  />
+                  <span className="ml-1 text-sm text-gray-500">%</span>
+                </div>
+                <select
+                  value={stage.outcome}
+                  onChange={(e) => {
+                    const outcome = e.target.value as StageOutcome;
+                    updateStage(stage.key, {
+                      outcome,
+                      ...(outcome === 'won' ? { probability: '100' } : {}),
+                      ...(outcome === 'lost' ? { probability: '0' } : {}),
+                    });
+                  }}
+                  className="col-span-3 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                >
+                  {(Object.keys(OUTCOME_LABELS) as StageOutcome[]).map((outcome) => (
+                    <option key={outcome} value={outcome}>
+                      {OUTCOME_LABELS[outcome]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeStage(stage.key)}
+                  className="col-span-1 text-red-600 hover:text-red-900 justify-self-center"
+                  aria-label={`Remove ${stage.name || 'stage'}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              onClick={addStage}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add stage
+            </button>
+          </div>
+
+          <div className="px-6 py-4 border-t flex justify-end space-x-3">
+            <button
+              onClick={() => {
+                setName(selected.name);
+                setStages(toDraft(selected));
+                setError('');
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
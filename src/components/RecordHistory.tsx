@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { supabase, AuditLogEntry, AuditTable } from '../lib/supabase';
+import { changesOf, verbOf } from '../lib/audit';
+import { useMembers } from '../hooks/useMembers';
+import { useAuditFormatter } from '../hooks/useAuditFormatter';
+import AuditChanges from './AuditChanges';
+
+type RecordHistoryProps = {
+  table: AuditTable;
+  recordId: string;
+};
+
+const HISTORY_LIMIT = 100;
+
+// Who changed what on one record, newest first, from the audit log.
+export default function RecordHistory({ table, recordId }: RecordHistoryProps) {
+  const { membersById } = useMembers();
+  const format = useAuditFormatter();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('audit_log')
+          .select('*')
+          .eq('table_name', table)
+          .eq('record_id', recordId)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT);
+
+        if (error) throw error;
+        setEntries(data || []);
+      } catch (error) {
+        console.error('Error fetching record history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [table, recordId]);
+
+  // Updates that only touched hidden bookkeeping fields, such as a deal's board position.
+  const visibleEntries = entries.filter(
+    (entry) => entry.action !== 'update' || changesOf(entry).length > 0
+  );
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (visibleEntries.length === 0) {
+    return <p className="text-sm text-gray-500">No changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {visibleEntries.map((entry) => (
+        <li key={entry.id} className="mb-4 ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <p className="text-sm text-gray-900">
+            <span className="font-medium">
+              {entry.actor_id ? membersById[entry.actor_id]?.profile?.email || 'A former member' : 'System'}
+            </span>{' '}
+            {verbOf(entry.action)}
+          </p>
+          <p className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</p>
+          {entry.action === 'update' && <AuditChanges entry={entry} format={format} />}
+        </li>
+      ))}
+    </ol>
+  );
+}
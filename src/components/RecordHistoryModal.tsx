@@ -0,0 +1,34 @@
+import { AuditTable } from '../lib/supabase';
+import RecordHistory from './RecordHistory';
+
+type RecordHistoryModalProps = {
+  table: AuditTable;
+  recordId: string;
+  title: string;
+  onClose: () => void;
+};
+
+// History of a record that has no detail page of its own, such as a task or a lead.
+export default function RecordHistoryModal({ table, recordId, title, onClose }: RecordHistoryModalProps) {
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900 truncate">History of {title}</h3>
+        </div>
+        <div className="px-6 py-4 overflow-y-auto">
+          <RecordHistory table={table} recordId={recordId} />
+        </div>
+        <div className="px-6 py-4 flex justify-end border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
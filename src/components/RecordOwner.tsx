@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { supabase, AssignableTable } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useMembers } from '../hooks/useMembers';
+import { UserCircle } from 'lucide-react';
+
+type RecordOwnerProps = {
+  table: Exclude<AssignableTable, 'tasks'>;
+  recordId: string;
+  ownerId: string | null;
+  onReassign: (ownerId: string | null) => void;
+};
+
+// Details row naming the teammate who owns a record. Admins and managers can hand the record
+// to someone else; the database notifies the new owner.
+export default function RecordOwner({ table, recordId, ownerId, onReassign }: RecordOwnerProps) {
+  const { can } = useAuth();
+  const { members, membersById } = useMembers();
+  const [saving, setSaving] = useState(false);
+  const owner = ownerId ? membersById[ownerId] : undefined;
+
+  const handleReassign = async (value: string) => {
+    const nextOwner = value || null;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from(table)
+        .update({ owner_id: nextOwner })
+        .eq('id', recordId);
+
+      if (error) throw error;
+      onReassign(nextOwner);
+    } catch (error) {
+      console.error('Error reassigning record:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (can('reassign')) {
+    return (
+      <div className="flex items-center text-gray-600">
+        <UserCircle className="w-4 h-4 mr-2 text-gray-400" />
+        <label htmlFor={`owner-${recordId}`} className="mr-2">
+          Owned by
+        </label>
+        <select
+          id={`owner-${recordId}`}
+          value={ownerId || ''}
+          disabled={saving}
+          onChange={(e) => handleReassign(e.target.value)}
+          className="rounded-md border border-gray-300 py-1 pl-2 pr-8 text-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <option value="">No owner</option>
+          {ownerId && !owner && <option value={ownerId}>A former member</option>}
+          {members
+            .filter((member) => member.role !== 'read_only' || member.user_id === ownerId)
+            .map((member) => (
+              <option key={member.user_id} value={member.user_id}>
+                {member.profile?.email || 'Teammate'}
+              </option>
+            ))}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center text-gray-600">
+      <UserCircle className="w-4 h-4 mr-2 text-gray-400" />
+      {owner ? (
+        `Owned by ${owner.profile?.email || 'a teammate'}`
+      ) : (
+        <span className="text-gray-400">{ownerId ? 'Owned by a former member' : 'No owner'}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Activity, EmailMessage } from '../lib/supabase';
+import { groupThreads, messageParticipants } from '../lib/email';
+import { useAuth } from '../contexts/AuthContext';
+import { ACTIVITY_ICONS, ACTIVITY_COLORS } from '../lib/styles';
+import ComposeEmailModal from './ComposeEmailModal';
+import { Plus, Send, Reply } from 'lucide-react';
+
+type RelatedActivitiesProps = {
+  column: 'contact_id' | 'company_id' | 'deal_id';
+  recordId: string;
+  // Extra foreign keys stamped on new activities, e.g. a deal's company and contact.
+  links?: Partial<Record<'contact_id' | 'company_id' | 'deal_id', string | null>>;
+  // Address new emails go to; when set, emails can be sent from here
+  emailTo?: string | null;
+};
+
+const emptyForm = () => ({
+  type: 'note' as Activity['type'],
+  subject: '',
+  description: '',
+  activity_date: new Date().toISOString().slice(0, 16),
+});
+
+export default function RelatedActivities({
+  column,
+  recordId,
+  links,
+  emailTo,
+}: RelatedActivitiesProps) {
+  const { can } = useAuth();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  // Open while composing; holds the message being answered, or null for a new email
+  const [compose, setCompose] = useState<{ replyTo: EmailMessage | null } | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+
+  const fetchActivities = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('activities')
+        .select('*, email_message:email_messages(*)')
+        .eq(column, recordId)
+        .order('activity_date', { ascending: false });
+
+      if (error) throw error;
+      setActivities(data || []);
+    } catch (error) {
+      console.error('Error fetching activities:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [column, recordId]);
+
+  useEffect(() => {
+    fetchActivities();
+  }, [fetchActivities]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase
+        .from('activities')
+        .insert([{ ...formData, ...links, [column]: recordId }]);
+      if (error) throw error;
+
+      setIsFormOpen(false);
+      setFormData(emptyForm());
+      fetchActivities();
+    } catch (error) {
+      console.error('Error saving activity:', error);
+    }
+  };
+
+  const toggleThread = (threadId: string) => {
+    setExpandedThreads((current) => {
+      const next = new Set(current);
+      if (next.has(threadId)) next.delete(threadId);
+      else next.add(threadId);
+      return next;
+    });
+  };
+
+  const renderActivity = (activity: Activity) => {
+    const Icon = ACTIVITY_ICONS[activity.type];
+    const message = activity.email_message;
+    return (
+      <div className="flex items-start space-x-3">
+        <div
+          className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+            ACTIVITY_COLORS[activity.type]
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">{activity.subject}</p>
+            <span className="text-xs text-gray-500">
+              {new Date(activity.activity_date).toLocaleString()}
+            </span>
+          </div>
+          {message && (
+            <p className="mt-0.5 text-xs text-gray-500 truncate">{messageParticipants(message)}</p>
+          )}
+          {activity.description && (
+            <p
+              className={`mt-1 text-sm text-gray-600 ${
+                message ? 'whitespace-pre-line line-clamp-4' : ''
+              }`}
+            >
+              {activity.description}
+            </p>
+          )}
+          {message && can('create') && (
+            <button
+              onClick={() => setCompose({ replyTo: message })}
+              className="mt-1 inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Reply className="w-3 h-3 mr-1" />
+              Reply
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Activities</h3>
+        {!isFormOpen && can('create') && (
+          <div className="flex items-center space-x-4">
+            {emailTo && (
+              <button
+                onClick={() => setCompose({ replyTo: null })}
+                className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Send className="w-4 h-4 mr-1" />
+                Send Email
+              </button>
+            )}
+            <button
+              onClick={() => setIsFormOpen(true)}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Log Activity
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="px-6 py-4 space-y-3 border-b border-gray-200 bg-gray-50">
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={formData.type}
+              onChange={(e) =>
+                setFormData({ ...formData, type: e.target.value as Activity['type'] })
+              }
+              aria-label="Activity type"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            >
+              <option value="call">Call</option>
+              <option value="email">Email</option>
+              <option value="meeting">Meeting</option>
+              <option value="note">Note</option>
+            </select>
+            <input
+              type="datetime-local"
+              required
+              value={formData.activity_date}
+              onChange={(e) => setFormData({ ...formData, activity_date: e.target.value })}
+              aria-label="Date & time"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+          <input
+            type="text"
+            required
+            placeholder="Subject"
+            value={formData.subject}
+            onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+          />
+          <textarea
+            rows={2}
+            placeholder="Add details about this activity..."
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setIsFormOpen(false);
+                setFormData(emptyForm());
+              }}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Log Activity
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="px-6 py-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading activities...</p>
+        ) : activities.length === 0 ? (
+          <p className="text-sm text-gray-500">No activities logged yet</p>
+        ) : (
+          <ul className="space-y-4">
+            {groupThreads(activities).map(({ activity, earlier }) => {
+              const threadId = activity.email_message?.thread_id;
+              const expanded = !!threadId && expandedThreads.has(threadId);
+              return (
+                <li key={activity.id}>
+                  {renderActivity(activity)}
+                  {threadId && earlier.length > 0 && (
+                    <div className="ml-11 mt-2">
+                      <button
+                        onClick={() => toggleThread(threadId)}
+                        className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                      >
+                        {expanded
+                          ? 'Hide earlier messages'
+                          : `${earlier.length} earlier ${earlier.length === 1 ? 'message' : 'messages'} in this thread`}
+                      </button>
+                      {expanded && (
+                        <ul className="mt-3 space-y-4 border-l-2 border-gray-100 pl-4">
+                          {earlier.map((reply) => (
+                            <li key={reply.id}>{renderActivity(reply)}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {compose && (
+        <ComposeEmailModal
+          to={emailTo || ''}
+          contactId={column === 'contact_id' ? recordId : links?.contact_id}
+          dealId={column === 'deal_id' ? recordId : links?.deal_id}
+          replyTo={compose.replyTo}
+          onClose={() => setCompose(null)}
+          onSent={() => {
+            setCompose(null);
+            fetchActivities();
+          }}
+        />
+      )}
+    </div>
+  );
+}
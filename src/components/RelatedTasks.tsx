@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Task } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { TASK_PRIORITY_COLORS, TASK_STATUS_COLORS } from '../lib/styles';
+import { Plus, Calendar, CheckCircle } from 'lucide-react';
+
+type RelatedTasksProps = {
+  column: 'contact_id' | 'company_id' | 'deal_id';
+  recordId: string;
+  // Extra foreign keys stamped on new tasks, e.g. a deal's company and contact.
+  links?: Partial<Record<'contact_id' | 'company_id' | 'deal_id', string | null>>;
+};
+
+const emptyForm = () => ({
+  title: '',
+  due_date: '',
+  priority: 'medium' as Task['priority'],
+});
+
+export default function RelatedTasks({ column, recordId, links }: RelatedTasksProps) {
+  const { can } = useAuth();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq(column, recordId)
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      setTasks(data || []);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [column, recordId]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.from('tasks').insert([
+        {
+          ...formData,
+          due_date: formData.due_date || null,
+          ...links,
+          [column]: recordId,
+        },
+      ]);
+      if (error) throw error;
+
+      setIsFormOpen(false);
+      setFormData(emptyForm());
+      fetchTasks();
+    } catch (error) {
+      console.error('Error saving task:', error);
+    }
+  };
+
+  const completeTask = async (taskId: string) => {
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: 'completed', updated_at: new Date().toISOString() })
+        .eq('id', taskId);
+
+      if (error) throw error;
+      fetchTasks();
+    } catch (error) {
+      console.error('Error updating task status:', error);
+    }
+  };
+
+  const isOverdue = (task: Task) =>
+    task.status !== 'completed' && task.due_date !== null && new Date(task.due_date) < new Date();
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Tasks</h3>
+        {!isFormOpen && can('create') && (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Task
+          </button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="px-6 py-4 space-y-3 border-b border-gray-200 bg-gray-50">
+          <input
+            type="text"
+            required
+            placeholder="Task title"
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={formData.priority}
+              onChange={(e) =>
+                setFormData({ ...formData, priority: e.target.value as Task['priority'] })
+              }
+              aria-label="Priority"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+            <input
+              type="date"
+              value={formData.due_date}
+              onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+              aria-label="Due date"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setIsFormOpen(false);
+                setFormData(emptyForm());
+              }}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Create Task
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="px-6 py-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading tasks...</p>
+        ) : tasks.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tasks.map((task) => (
+              <li key={task.id} className="py-3 flex items-start justify-between">
+                <div className="min-w-0">
+                  <p
+                    className={`text-sm font-medium ${
+                      task.status === 'completed' ? 'text-gray-400 line-through' : 'text-gray-900'
+                    }`}
+                  >
+                    {task.title}
+                  </p>
+                  <div className="mt-1 flex items-center space-x-2 text-xs text-gray-500">
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${
+                        TASK_PRIORITY_COLORS[task.priority]
+                      }`}
+                    >
+                      {task.priority}
+                    </span>
+                    <span
+                      className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${
+                        TASK_STATUS_COLORS[task.status]
+                      }`}
+                    >
+                      {task.status.replace('_', ' ')}
+                    </span>
+                    {task.due_date && (
+                      <span
+                        className={`inline-flex items-center ${isOverdue(task) ? 'text-red-600' : ''}`}
+                      >
+                        <Calendar className="w-3 h-3 mr-1" />
+                        {new Date(task.due_date).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {task.status !== 'completed' && can('edit', task) && (
+                  <button
+                    onClick={() => completeTask(task.id)}
+                    className="ml-4 text-green-600 hover:text-green-800"
+                    title="Mark complete"
+                  >
+                    <CheckCircle className="w-5 h-5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
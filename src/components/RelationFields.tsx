@@ -0,0 +1,51 @@
+import { RelationOptions } from '../hooks/useRelationOptions';
+import { RelationLinks, updateRelations } from '../lib/relations';
+import RelationPicker from './RelationPicker';
+
+type RelationFieldsProps = {
+  value: RelationLinks;
+  onChange: (links: RelationLinks) => void;
+  options: RelationOptions;
+  compact?: boolean;
+};
+
+// Contact, company and deal pickers for a task or activity. In compact mode (list filters)
+// picks are not cascaded, since every extra selection narrows the results.
+export default function RelationFields({
+  value,
+  onChange,
+  options,
+  compact = false,
+}: RelationFieldsProps) {
+  const change = (field: keyof RelationLinks) => (id: string) =>
+    onChange(compact ? { ...value, [field]: id } : updateRelations(value, field, id, options));
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-3 ${compact ? 'gap-3' : 'gap-4'}`}>
+      <RelationPicker
+        label="Contact"
+        options={options.contacts}
+        value={value.contact_id}
+        onChange={change('contact_id')}
+        placeholder={compact ? 'Any contact' : undefined}
+        compact={compact}
+      />
+      <RelationPicker
+        label="Company"
+        options={options.companies}
+        value={value.company_id}
+        onChange={change('company_id')}
+        placeholder={compact ? 'Any company' : undefined}
+        compact={compact}
+      />
+      <RelationPicker
+        label="Deal"
+        options={options.deals}
+        value={value.deal_id}
+        onChange={change('deal_id')}
+        placeholder={compact ? 'Any deal' : undefined}
+        compact={compact}
+      />
+    </div>
+  );
+}
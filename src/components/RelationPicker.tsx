@@ -0,0 +1,148 @@
+import { useState, useEffect, useRef, useId } from 'react';
+import { RelationOption } from '../hooks/useRelationOptions';
+import { X } from 'lucide-react';
+
+type RelationPickerProps = {
+  label: string;
+  options: RelationOption[];
+  value: string;
+  onChange: (id: string) => void;
+  placeholder?: string;
+  compact?: boolean;
+};
+
+const MAX_RESULTS = 50;
+
+export default function RelationPicker({
+  label,
+  options,
+  value,
+  onChange,
+  placeholder,
+  compact = false,
+}: RelationPickerProps) {
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const selected = options.find((option) => option.id === value);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const search = query.trim().toLowerCase();
+  const matches = options
+    .filter(
+      (option) =>
+        !search ||
+        option.label.toLowerCase().includes(search) ||
+        option.detail?.toLowerCase().includes(search)
+    )
+    .slice(0, MAX_RESULTS);
+
+  const select = (option: RelationOption) => {
+    onChange(option.id);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((index) => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && isOpen) {
+      e.preventDefault();
+      if (matches[highlighted]) select(matches[highlighted]);
+    } else if (e.key === 'Escape' && isOpen) {
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  const inputClass = compact
+    ? 'block w-full rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border pl-3 pr-8 py-1.5'
+    : 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border pl-3 pr-8 py-2';
+
+  return (
+    <div ref={containerRef} className="relative">
+      {!compact && <label className="block text-sm font-medium text-gray-700">{label}</label>}
+      <div className="relative">
+        <input
+          type="text"
+          role="combobox"
+          aria-label={label}
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          placeholder={selected ? undefined : placeholder || `Search ${label.toLowerCase()}...`}
+          value={isOpen ? query : selected?.label || ''}
+          onFocus={() => {
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          className={inputClass}
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => {
+              onChange('');
+              setQuery('');
+            }}
+            aria-label={`Clear ${label.toLowerCase()}`}
+            className="absolute inset-y-0 right-0 flex items-center pr-2 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-30 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          {matches.map((option, index) => (
+            <li
+              key={option.id}
+              role="option"
+              aria-selected={option.id === value}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(option);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`cursor-pointer px-3 py-2 ${
+                index === highlighted ? 'bg-blue-50' : ''
+              } ${option.id === value ? 'font-medium text-blue-700' : 'text-gray-900'}`}
+            >
+              {option.label}
+              {option.detail && <span className="ml-2 text-xs text-gray-500">{option.detail}</span>}
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">No matches</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
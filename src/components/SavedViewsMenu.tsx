@@ -0,0 +1,216 @@
+import { useState, useEffect, useRef } from 'react';
+import { SavedView, SavedViewList } from '../lib/supabase';
+import { parseFilter, serializeFilter } from '../lib/filters';
+import { savableParams, savedViewParams } from '../lib/savedViews';
+import { useAuth } from '../contexts/AuthContext';
+import { useNavigation } from '../contexts/NavigationContext';
+import { useSavedViews } from '../contexts/SavedViewsContext';
+import { Bookmark, Pin, PinOff, Trash2, Users } from 'lucide-react';
+
+type SavedViewsMenuProps = {
+  list: SavedViewList;
+};
+
+/**
+ * Saved views of a list: opens them, pins them to the navigation bar and saves the current
+ * search, filter and sort as a new view or into the view being looked at.
+ */
+export default function SavedViewsMenu({ list }: SavedViewsMenuProps) {
+  const { user, role } = useAuth();
+  const { searchParams, navigate, setSearchParams } = useNavigation();
+  const { views, isPinned, saveView, updateView, deleteView, togglePin } = useSavedViews();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const listViews = views.filter((v) => v.list === list);
+  const activeView = listViews.find((v) => v.id === searchParams.get('saved'));
+  const filterParam = serializeFilter(parseFilter(searchParams.get('filter')));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const isOwn = (view: SavedView) => view.user_id === user?.id;
+  const canDelete = (view: SavedView) => isOwn(view) || (view.is_shared && role === 'admin');
+
+  const currentState = () => ({
+    filter: filterParam ? parseFilter(filterParam) : null,
+    params: savableParams(searchParams),
+  });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const view = await saveView({ list, name: name.trim(), is_shared: isShared, ...currentState() });
+      setSearchParams({ saved: view.id });
+      setName('');
+      setIsShared(false);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving view:', error);
+    }
+  };
+
+  const handleUpdate = async (view: SavedView) => {
+    try {
+      await updateView(view.id, currentState());
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error updating view:', error);
+    }
+  };
+
+  const handleToggleShared = async (view: SavedView) => {
+    try {
+      await updateView(view.id, { is_shared: !view.is_shared });
+    } catch (error) {
+      console.error('Error sharing view:', error);
+    }
+  };
+
+  const handleTogglePin = async (view: SavedView) => {
+    try {
+      await togglePin(view.id);
+    } catch (error) {
+      console.error('Error pinning view:', error);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    try {
+      await deleteView(view.id);
+      if (activeView?.id === view.id) setSearchParams({ saved: null });
+    } catch (error) {
+      console.error('Error deleting view:', error);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+      >
+        <Bookmark className="w-4 h-4 mr-2" />
+        <span className="max-w-[10rem] truncate">{activeView ? activeView.name : 'Views'}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-30 mt-2 w-80 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+            {listViews.map((view) => (
+              <li key={view.id} className="flex items-center px-4 py-2">
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    navigate(list, null, savedViewParams(view));
+                    setIsOpen(false);
+                  }}
+                  className={`flex-1 min-w-0 text-left text-sm truncate ${
+                    activeView?.id === view.id ? 'font-semibold text-blue-700' : 'text-gray-900'
+                  }`}
+                >
+                  {view.name}
+                </button>
+                {isOwn(view) ? (
+                  <button
+                    type="button"
+                    onClick={() => handleToggleShared(view)}
+                    title={view.is_shared ? 'Shared with the team; click to stop sharing' : 'Share with the team'}
+                    aria-label={view.is_shared ? `Stop sharing ${view.name}` : `Share ${view.name}`}
+                    className={`ml-2 p-1 ${view.is_shared ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}`}
+                  >
+                    <Users className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <span title="Shared by a teammate" className="ml-2 p-1 text-gray-400">
+                    <Users className="w-4 h-4" />
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleTogglePin(view)}
+                  aria-label={isPinned(view.id) ? `Unpin ${view.name}` : `Pin ${view.name}`}
+                  title={isPinned(view.id) ? 'Unpin from navigation' : 'Pin to navigation'}
+                  className={`p-1 ${isPinned(view.id) ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  {isPinned(view.id) ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                </button>
+                {canDelete(view) && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(view)}
+                    aria-label={`Delete ${view.name}`}
+                    className="p-1 text-gray-300 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+            {listViews.length === 0 && (
+              <li className="px-4 py-3 text-sm text-gray-500">No saved views yet</li>
+            )}
+          </ul>
+
+          {activeView && isOwn(activeView) && (
+            <div className="border-t border-gray-100 px-4 py-2">
+              <button
+                type="button"
+                onClick={() => handleUpdate(activeView)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                Update "{activeView.name}" to the current view
+              </button>
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="border-t border-gray-100 px-4 py-3 space-y-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name of the current view"
+              aria-label="View name"
+              className="block w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={isShared}
+                  onChange={(e) => setIsShared(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Share with the team
+              </label>
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save view
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
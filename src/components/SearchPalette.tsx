@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'react';
+import { SearchResult, SearchTable } from '../lib/supabase';
+import { SEARCH_TABLES, globalSearch, searchTarget } from '../lib/search';
+import { useNavigation } from '../contexts/NavigationContext';
+import { Search, Users, Building2, DollarSign, CheckSquare, Activity } from 'lucide-react';
+
+const SEARCH_DELAY_MS = 250;
+
+const SEARCH_ICONS: Record<SearchTable, typeof Search> = {
+  contacts: Users,
+  companies: Building2,
+  deals: DollarSign,
+  tasks: CheckSquare,
+  activities: Activity,
+};
+
+type SearchPaletteProps = {
+  onClose: () => void;
+};
+
+/**
+ * Searches every record type at once. Results are grouped by type, with the group holding the
+ * best match first; arrow keys move through them and Enter opens the selected one.
+ */
+export default function SearchPalette({ onClose }: SearchPaletteProps) {
+  const { navigate } = useNavigation();
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!term.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await globalSearch(term.trim());
+        if (cancelled) return;
+        setResults(found);
+        setSelected(0);
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [term]);
+
+  // Results arrive ranked, so the first of each type is its best match.
+  const groups = SEARCH_TABLES.map((table) => ({
+    ...table,
+    results: results.filter((result) => result.table_name === table.id),
+  }))
+    .filter((group) => group.results.length > 0)
+    .sort((a, b) => b.results[0].rank - a.results[0].rank);
+  const ordered = groups.flatMap((group) => group.results);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const open = (result: SearchResult) => {
+    const target = searchTarget(result);
+    navigate(target.view, target.recordId, target.params);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((index) => Math.min(index + 1, ordered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && ordered[selected]) {
+      e.preventDefault();
+      open(ordered[selected]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-start justify-center z-50 pt-[15vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="Search"
+        className="bg-white rounded-lg shadow-xl max-w-xl w-full mx-4 overflow-hidden"
+      >
+        <div className="flex items-center px-4 border-b border-gray-200">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            autoFocus
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search contacts, companies, deals, tasks and activities..."
+            aria-label="Search"
+            role="combobox"
+            aria-expanded={ordered.length > 0}
+            aria-controls="search-results"
+            className="flex-1 border-0 px-3 py-4 text-sm focus:outline-none focus:ring-0"
+          />
+          <kbd className="text-xs text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {term.trim() && (
+          <ul
+            id="search-results"
+            ref={listRef}
+            role="listbox"
+            className="max-h-96 overflow-y-auto py-2"
+          >
+            {groups.map((group) => (
+              <li key={group.id} role="presentation">
+                <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500">
+                  {group.label}
+                </p>
+                <ul role="presentation">
+                  {group.results.map((result) => {
+                    const Icon = SEARCH_ICONS[result.table_name];
+                    const index = ordered.indexOf(result);
+                    return (
+                      <li
+                        key={result.record_id}
+                        role="option"
+                        aria-selected={index === selected}
+                        onMouseEnter={() => setSelected(index)}
+                        onClick={() => open(result)}
+                        className={`flex items-center px-4 py-2 cursor-pointer ${
+                          index === selected ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <Icon className="w-4 h-4 mr-3 flex-shrink-0 text-gray-400" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {result.title || 'Untitled'}
+                          </p>
+                          {result.subtitle && (
+                            <p className="text-xs text-gray-500 truncate">{result.subtitle}</p>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+            {ordered.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500">
+                {searching ? 'Searching...' : 'No matching records'}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
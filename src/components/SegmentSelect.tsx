@@ -0,0 +1,44 @@
+import { Segment, TaggableTable } from '../lib/supabase';
+import { SEGMENT_TABLES } from '../lib/segments';
+import { useNavigation } from '../contexts/NavigationContext';
+import Link from './Link';
+import { Layers } from 'lucide-react';
+
+type SegmentSelectProps = {
+  table: TaggableTable;
+  segments: Segment[];
+};
+
+// Narrows a list to the members of a segment, kept in the `segment` query parameter.
+export default function SegmentSelect({ table, segments }: SegmentSelectProps) {
+  const { searchParams, setSearchParams } = useNavigation();
+  const value = searchParams.get('segment') || '';
+  const label = SEGMENT_TABLES.find((t) => t.id === table)?.label.toLowerCase() || table;
+
+  return (
+    <div className="flex items-center">
+      <select
+        value={segments.some((segment) => segment.id === value) ? value : ''}
+        onChange={(e) => setSearchParams({ segment: e.target.value || null, page: null })}
+        aria-label="Segment"
+        className="rounded-l-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+      >
+        <option value="">All {label}</option>
+        {segments.map((segment) => (
+          <option key={segment.id} value={segment.id}>
+            {segment.name}
+          </option>
+        ))}
+      </select>
+      <Link
+        view="segments"
+        params={{ type: table }}
+        title="Manage segments"
+        aria-label="Manage segments"
+        className="rounded-r-md border border-l-0 border-gray-300 bg-white px-3 py-2 text-gray-500 hover:bg-gray-50 hover:text-gray-700"
+      >
+        <Layers className="w-5 h-5" />
+      </Link>
+    </div>
+  );
+}
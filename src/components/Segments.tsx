@@ -0,0 +1,324 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase, FilterGroup, Segment, TaggableTable } from '../lib/supabase';
+import { EMPTY_FILTER, FilterOption, countConditions, filterExpression } from '../lib/filters';
+import { RECORD_SOURCES, SEGMENT_TABLES } from '../lib/segments';
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { usePipelines } from '../hooks/usePipelines';
+import { useSegments } from '../hooks/useSegments';
+import { useRecordFilterFields } from '../hooks/useRecordFilterFields';
+import Link from './Link';
+import FilterGroupEditor from './FilterGroupEditor';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+
+type SegmentDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  rules: FilterGroup;
+};
+
+const EMPTY_DRAFT: SegmentDraft = { id: null, name: '', description: '', rules: EMPTY_FILTER };
+
+/**
+ * Segments are saved rules rather than saved lists: membership is worked out whenever a
+ * segment is used, so records join and leave as they change.
+ */
+export default function Segments() {
+  const { can } = useAuth();
+  const [type, setType] = useQueryParam<TaggableTable>(
+    'type',
+    'contacts',
+    SEGMENT_TABLES.map((t) => t.id)
+  );
+  const { pipelines } = usePipelines();
+  const stageOptions = useMemo<FilterOption[]>(
+    () =>
+      pipelines.flatMap((pipeline) =>
+        pipeline.stages.map((stage) => ({
+          value: stage.id,
+          label: pipelines.length > 1 ? `${pipeline.name}: ${stage.name}` : stage.name,
+        }))
+      ),
+    [pipelines]
+  );
+  const { fields, loading: fieldsLoading } = useRecordFilterFields(type, stageOptions);
+  const { segments, loading: segmentsLoading, refresh } = useSegments(type);
+  const [counts, setCounts] = useState<Record<string, number | null>>({});
+  const [draft, setDraft] = useState<SegmentDraft | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const tableInfo = SEGMENT_TABLES.find((t) => t.id === type) || SEGMENT_TABLES[0];
+  const loading = fieldsLoading || segmentsLoading;
+
+  // Counted from the rules as they are now, so the numbers follow every record change.
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+
+    const countMembers = async (segment: Segment) => {
+      let query = supabase
+        .from(RECORD_SOURCES[type])
+        .select('id', { count: 'exact', head: true });
+      const expression = filterExpression(segment.rules, fields);
+      if (expression) query = query.or(expression);
+      const { count, error: countError } = await query;
+      if (countError) throw countError;
+      return count;
+    };
+
+    Promise.all(
+      // Segments of the previous type may still be listed right after switching
+      segments.filter((segment) => segment.table_name === type).map(async (segment) => {
+        try {
+          return [segment.id, await countMembers(segment)] as const;
+        } catch (err) {
+          console.error('Error counting segment members:', err);
+          return [segment.id, null] as const;
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) setCounts(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [segments, type, fields, loading]);
+
+  const openDraft = (segment?: Segment) => {
+    setDraft(
+      segment
+        ? {
+            id: segment.id,
+            name: segment.name,
+            description: segment.description || '',
+            rules: segment.rules,
+          }
+        : EMPTY_DRAFT
+    );
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    // Rules still missing a value, or with a value that is not a number, are left out
+    if (filterExpression(draft.rules, fields) === null) {
+      setError('Add at least one complete rule.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const segmentData = {
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+        rules: draft.rules,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (draft.id) {
+        const { error: updateError } = await supabase
+          .from('segments')
+          .update(segmentData)
+          .eq('id', draft.id);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from('segments')
+          .insert([{ ...segmentData, table_name: type }]);
+        if (insertError) throw insertError;
+      }
+
+      setDraft(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving segment:', err);
+      setError('Could not save the segment.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: Segment) => {
+    if (!confirm(`Delete the segment "${segment.name}"? Its ${tableInfo.label.toLowerCase()} are kept.`)) {
+      return;
+    }
+    try {
+      const { error: deleteError } = await supabase.from('segments').delete().eq('id', segment.id);
+      if (deleteError) throw deleteError;
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting segment:', err);
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Segments</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Groups of records defined by rules, kept up to date as records change
+          </p>
+        </div>
+        {can('create') && (
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={() => openDraft()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Segment
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {SEGMENT_TABLES.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setType(t.id)}
+              className={`inline-flex items-center border-b-2 px-1 pb-3 text-sm font-medium ${
+                type === t.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : (
+        <ul className="mt-6 space-y-3">
+          {segments.map((segment) => (
+            <li
+              key={segment.id}
+              className="bg-white shadow rounded-lg px-4 py-4 sm:flex sm:items-center sm:justify-between"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  <Link
+                    view={type}
+                    params={{ segment: segment.id }}
+                    className="hover:text-blue-600 hover:underline"
+                  >
+                    {segment.name}
+                  </Link>
+                </p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {counts[segment.id] == null
+                    ? '—'
+                    : `${counts[segment.id]} ${
+                        counts[segment.id] === 1 ? tableInfo.singular : tableInfo.label.toLowerCase()
+                      }`}
+                  {' · '}
+                  {countConditions(segment.rules)} rule{countConditions(segment.rules) === 1 ? '' : 's'}
+                  {segment.description && ` · ${segment.description}`}
+                </p>
+              </div>
+              {can('edit', segment) && (
+                <div className="mt-3 sm:mt-0 sm:ml-4 flex flex-shrink-0 space-x-3">
+                  <button
+                    onClick={() => openDraft(segment)}
+                    className="text-blue-600 hover:text-blue-900"
+                    aria-label={`Edit ${segment.name}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(segment)}
+                    className="text-red-600 hover:text-red-900"
+                    aria-label={`Delete ${segment.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+          {segments.length === 0 && (
+            <li className="text-center py-12 text-gray-500">
+              No segments for {tableInfo.label.toLowerCase()} yet
+            </li>
+          )}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {draft.id ? 'Edit Segment' : `Add ${tableInfo.singular[0].toUpperCase()}${tableInfo.singular.slice(1)} Segment`}
+              </h3>
+            </div>
+            <form onSubmit={handleSave} className="px-6 py-4 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Rules *</label>
+                <FilterGroupEditor
+                  fields={fields}
+                  group={draft.rules}
+                  onChange={(rules) => setDraft({ ...draft, rules })}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : draft.id ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
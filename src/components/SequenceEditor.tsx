@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { supabase, EmailTemplate, Sequence, SequenceStepType } from '../lib/supabase';
+import { STEP_TYPES, StepDraft, emptyStep, saveSequenceSteps, stepProblem } from '../lib/sequences';
+import { SEQUENCE_STEP_ICONS } from '../lib/styles';
+import { ArrowUp, ArrowDown, X } from 'lucide-react';
+
+type SequenceEditorProps = {
+  // The sequence to edit, or null to create one
+  sequence: Sequence | null;
+  templates: EmailTemplate[];
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+const inputClass =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+export default function SequenceEditor({ sequence, templates, onClose, onSaved }: SequenceEditorProps) {
+  const [name, setName] = useState(sequence?.name || '');
+  const [description, setDescription] = useState(sequence?.description || '');
+  const [steps, setSteps] = useState<StepDraft[]>(
+    sequence?.steps?.map(({ step_type, template_id, delay_days, task_title }) => ({
+      step_type,
+      template_id,
+      delay_days,
+      task_title,
+    })) || [emptyStep('email')]
+  );
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!steps.some((step) => step.step_type !== 'wait')) {
+      setError('Add at least one email or task.');
+      return;
+    }
+    const problem = steps.map(stepProblem).find(Boolean);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const sequenceData = {
+        name: name.trim(),
+        description: description.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      let sequenceId = sequence?.id;
+      if (sequenceId) {
+        const { error: updateError } = await supabase
+          .from('sequences')
+          .update(sequenceData)
+          .eq('id', sequenceId);
+        if (updateError) throw updateError;
+      } else {
+        const { data, error: insertError } = await supabase
+          .from('sequences')
+          .insert([sequenceData])
+          .select()
+          .single();
+        if (insertError) throw insertError;
+        sequenceId = data.id as string;
+      }
+
+      await saveSequenceSteps(sequenceId, steps);
+      onSaved();
+    } catch (err) {
+      console.error('Error saving sequence:', err);
+      setError('Could not save the sequence.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStepFields = (step: StepDraft, index: number) => {
+    switch (step.step_type) {
+      case 'email':
+        return (
+          <select
+            value={step.template_id || ''}
+            onChange={(e) => updateStep(index, { template_id: e.target.value || null })}
+            aria-label="Template"
+            className={inputClass}
+          >
+            <option value="">Choose a template...</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        );
+      case 'wait':
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={1}
+              value={step.delay_days ?? ''}
+              onChange={(e) =>
+                updateStep(index, { delay_days: e.target.value ? Number(e.target.value) : null })
+              }
+              aria-label="Days to wait"
+              className={`${inputClass} w-24`}
+            />
+            <span className="text-sm text-gray-600">days</span>
+          </div>
+        );
+      case 'task':
+        return (
+          <input
+            type="text"
+            placeholder="Task title, e.g. Call {{contact.first_name}}"
+            value={step.task_title || ''}
+            onChange={(e) => updateStep(index, { task_title: e.target.value })}
+            aria-label="Task title"
+            className={inputClass}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            {sequence ? 'Edit Sequence' : 'Add Sequence'}
+          </h3>
+        </div>
+        <form onSubmit={handleSave} className="px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name *</label>
+            <input
+              type="text"
+              required
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Steps *</label>
+            <ol className="space-y-2">
+              {steps.map((step, index) => {
+                const Icon = SEQUENCE_STEP_ICONS[step.step_type];
+                return (
+                  <li key={index} className="flex items-center space-x-2 rounded-md bg-gray-50 p-2">
+                    <span className="w-5 text-xs text-gray-500 text-right">{index + 1}.</span>
+                    <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                    <select
+                      value={step.step_type}
+                      onChange={(e) =>
+                        updateStep(index, emptyStep(e.target.value as SequenceStepType))
+                      }
+                      aria-label="Step type"
+                      className={`${inputClass} w-36 flex-shrink-0`}
+                    >
+                      {STEP_TYPES.map((type) => (
+                        <option key={type.id} value={type.id}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex-1 min-w-0">{renderStepFields(step, index)}</div>
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move step up"
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === steps.length - 1}
+                      aria-label="Move step down"
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      aria-label="Remove step"
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+            <div className="mt-2 flex space-x-4">
+              {STEP_TYPES.map((type) => (
+                <button
+                  key={type.id}
+                  type="button"
+                  onClick={() => setSteps([...steps, emptyStep(type.id)])}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  + {type.label}
+                </button>
+              ))}
+            </div>
+            {templates.length === 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                Email steps use templates; add some on the Templates tab first.
+              </p>
+            )}
+            {sequence && (
+              <p className="mt-2 text-xs text-gray-500">
+                Contacts already in the sequence continue from their current step number.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : sequence ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
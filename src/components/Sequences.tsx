@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Sequence, SequenceStats } from '../lib/supabase';
+import { percentOf, stepSummary } from '../lib/sequences';
+import { SEQUENCE_STEP_ICONS } from '../lib/styles';
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useSequences } from '../hooks/useSequences';
+import { useEmailTemplates } from '../hooks/useEmailTemplates';
+import SequenceEditor from './SequenceEditor';
+import TemplateLibrary from './TemplateLibrary';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+
+const TABS = [
+  { id: 'sequences', label: 'Sequences' },
+  { id: 'templates', label: 'Templates' },
+];
+
+/**
+ * Follow-up cadences and the email templates they send. Contacts are enrolled from their own
+ * page or in bulk from the contacts list.
+ */
+export default function Sequences() {
+  const { can } = useAuth();
+  const [tab, setTab] = useQueryParam(
+    'tab',
+    'sequences',
+    TABS.map((t) => t.id)
+  );
+  const { sequences, loading, refresh } = useSequences();
+  const templatesState = useEmailTemplates();
+  const [stats, setStats] = useState<Record<string, SequenceStats>>({});
+  // The sequence being edited, or null for a new one
+  const [editing, setEditing] = useState<{ sequence: Sequence | null } | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('sequence_stats');
+      if (error) throw error;
+      setStats(
+        Object.fromEntries(((data || []) as SequenceStats[]).map((row) => [row.sequence_id, row]))
+      );
+    } catch (error) {
+      console.error('Error fetching sequence stats:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats, sequences]);
+
+  const handleDelete = async (sequence: Sequence) => {
+    if (
+      !confirm(
+        `Delete the sequence "${sequence.name}"? Contacts in it stop receiving its emails; emails already sent stay on their records.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const { error } = await supabase.from('sequences').delete().eq('id', sequence.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error deleting sequence:', error);
+    }
+  };
+
+  const renderStats = (sequence: Sequence) => {
+    const row = stats[sequence.id];
+    if (!row) return null;
+    const items = [
+      { label: 'Enrolled', value: String(row.enrolled) },
+      { label: 'Active', value: String(row.active) },
+      { label: 'Emails sent', value: String(row.emails_sent) },
+      { label: 'Open rate', value: percentOf(row.emails_opened, row.emails_sent) },
+      { label: 'Reply rate', value: percentOf(row.replied, row.enrolled) },
+    ];
+    return (
+      <dl className="mt-3 grid grid-cols-5 gap-4 border-t border-gray-100 pt-3">
+        {items.map((item) => (
+          <div key={item.label}>
+            <dt className="text-xs text-gray-500">{item.label}</dt>
+            <dd className="text-sm font-medium text-gray-900">{item.value}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Sequences</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Follow-up cadences of emails, waits and tasks that stop when the contact replies
+          </p>
+        </div>
+        {tab === 'sequences' && can('create') && (
+          <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+            <button
+              onClick={() => setEditing({ sequence: null })}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Sequence
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {TABS.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`inline-flex items-center border-b-2 px-1 pb-3 text-sm font-medium ${
+                tab === t.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {tab === 'templates' ? (
+        <div className="mt-6">
+          <TemplateLibrary {...templatesState} />
+        </div>
+      ) : loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : (
+        <ul className="mt-6 space-y-3">
+          {sequences.map((sequence) => (
+            <li key={sequence.id} className="bg-white shadow rounded-lg px-4 py-4">
+              <div className="sm:flex sm:items-start sm:justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{sequence.name}</p>
+                  {sequence.description && (
+                    <p className="mt-1 text-xs text-gray-500">{sequence.description}</p>
+                  )}
+                  <ol className="mt-2 flex flex-wrap items-center gap-2">
+                    {(sequence.steps || []).map((step) => {
+                      const Icon = SEQUENCE_STEP_ICONS[step.step_type];
+                      return (
+                        <li
+                          key={step.id}
+                          className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs text-gray-700"
+                        >
+                          <Icon className="w-3 h-3 mr-1" />
+                          {stepSummary(step, templatesState.templates)}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+                {can('edit', sequence) && (
+                  <div className="mt-3 sm:mt-0 sm:ml-4 flex flex-shrink-0 space-x-3">
+                    <button
+                      onClick={() => setEditing({ sequence })}
+                      className="text-blue-600 hover:text-blue-900"
+                      aria-label={`Edit ${sequence.name}`}
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(sequence)}
+                      className="text-red-600 hover:text-red-900"
+                      aria-label={`Delete ${sequence.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              {renderStats(sequence)}
+            </li>
+          ))}
+          {sequences.length === 0 && (
+            <li className="text-center py-12 text-gray-500">No sequences yet</li>
+          )}
+        </ul>
+      )}
+
+      {editing && (
+        <SequenceEditor
+          sequence={editing.sequence}
+          templates={templatesState.templates}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
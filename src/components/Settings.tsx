@@ -0,0 +1,84 @@
+import { useQueryParam } from '../hooks/useQueryParam';
+import PipelineSettings from './PipelineSettings';
+import TeamSettings from './TeamSettings';
+import AssignmentSettings from './AssignmentSettings';
+import CustomFieldSettings from './CustomFieldSettings';
+import TagSettings from './TagSettings';
+import EmailSettings from './EmailSettings';
+import AuditLog from './AuditLog';
+import { useAuth } from '../contexts/AuthContext';
+import { GitBranch, Users, Shuffle, ListPlus, Tags, Mail, ScrollText } from 'lucide-react';
+
+const SETTINGS_TABS = [
+  { id: 'pipelines', label: 'Pipelines', icon: GitBranch },
+  { id: 'team', label: 'Team', icon: Users },
+  { id: 'assignment', label: 'Assignment', icon: Shuffle },
+  { id: 'fields', label: 'Custom fields', icon: ListPlus },
+  { id: 'tags', label: 'Tags', icon: Tags },
+  { id: 'email', label: 'Email', icon: Mail },
+  { id: 'audit', label: 'Audit log', icon: ScrollText, permission: 'view_audit_log' as const },
+];
+
+export default function Settings() {
+  const { can } = useAuth();
+  const tabs = SETTINGS_TABS.filter((tab) => !tab.permission || can(tab.permission));
+  const [activeTab, setActiveTab] = useQueryParam(
+    'tab',
+    'pipelines',
+    tabs.map((tab) => tab.id)
+  );
+
+  const renderTab = () => {
+    switch (activeTab) {
+      case 'pipelines':
+        return <PipelineSettings />;
+      case 'team':
+        return <TeamSettings />;
+      case 'assignment':
+        return <AssignmentSettings />;
+      case 'fields':
+        return <CustomFieldSettings />;
+      case 'tags':
+        return <TagSettings />;
+      case 'email':
+        return <EmailSettings />;
+      case 'audit':
+        return <AuditLog />;
+      default:
+        return <PipelineSettings />;
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex-auto">
+        <h1 className="text-2xl font-semibold text-gray-900">Settings</h1>
+        <p className="mt-2 text-sm text-gray-700">Configure how your CRM works</p>
+      </div>
+
+      <div className="mt-6 border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {tabs.map((tab) => {
+            const Icon = tab.icon;
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`inline-flex items-center border-b-2 px-1 pb-3 text-sm font-medium ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                }`}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {tab.label}
+              </button>
+            );
+          })}
+        </nav>
+      </div>
+
+      <div className="mt-6">{renderTab()}</div>
+    </div>
+  );
+}
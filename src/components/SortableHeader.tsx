@@ -0,0 +1,39 @@
+import { SortDirection } from '../lib/paging';
+import { ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
+
+type SortableHeaderProps<S extends string> = {
+  label: string;
+  column: S;
+  sort: S;
+  direction: SortDirection;
+  onSort: (column: S) => void;
+  className?: string;
+};
+
+export default function SortableHeader<S extends string>({
+  label,
+  column,
+  sort,
+  direction,
+  onSort,
+  className = 'px-3 py-3.5',
+}: SortableHeaderProps<S>) {
+  const isActive = sort === column;
+  const Icon = !isActive ? ChevronsUpDown : direction === 'asc' ? ChevronUp : ChevronDown;
+
+  return (
+    <th
+      aria-sort={isActive ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}
+      className={`${className} text-left text-sm font-semibold text-gray-900`}
+    >
+      <button onClick={() => onSort(column)} className="group inline-flex items-center">
+        {label}
+        <Icon
+          className={`ml-1 w-4 h-4 ${
+            isActive ? 'text-gray-700' : 'text-gray-300 group-hover:text-gray-500'
+          }`}
+        />
+      </button>
+    </th>
+  );
+}
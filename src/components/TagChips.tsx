@@ -0,0 +1,41 @@
+import { Tag } from '../lib/supabase';
+import { tagColorOf } from '../lib/tags';
+import { X } from 'lucide-react';
+
+type TagChipsProps = {
+  tags?: Tag[];
+  // Shows a remove button on each chip
+  onRemove?: (tag: Tag) => void;
+  className?: string;
+};
+
+export default function TagChips({ tags, onRemove, className = '' }: TagChipsProps) {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {[...tags]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((tag) => (
+          <span
+            key={tag.id}
+            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+              tagColorOf(tag.color).chip
+            }`}
+          >
+            {tag.name}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(tag)}
+                aria-label={`Remove tag ${tag.name}`}
+                className="ml-1 opacity-60 hover:opacity-100"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+    </div>
+  );
+}
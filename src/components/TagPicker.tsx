@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Tag } from '../lib/supabase';
+import { tagColorOf } from '../lib/tags';
+import { useAuth } from '../contexts/AuthContext';
+import { useTags } from '../hooks/useTags';
+import TagChips from './TagChips';
+import { Plus } from 'lucide-react';
+
+type TagPickerProps = {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+// Tag input of a create or edit form. Typing a name that matches no tag offers to create it.
+export default function TagPicker({ value, onChange }: TagPickerProps) {
+  const { can } = useAuth();
+  const { tags, tagsById, createTag } = useTags();
+  const [term, setTerm] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+
+  const selected = value.map((id) => tagsById[id]).filter((tag): tag is Tag => !!tag);
+  const needle = term.trim().toLowerCase();
+  const suggestions = tags
+    .filter((tag) => !value.includes(tag.id) && tag.name.toLowerCase().includes(needle))
+    .slice(0, MAX_SUGGESTIONS);
+  const exactMatch = tags.find((tag) => tag.name.toLowerCase() === needle);
+  const canCreate = !!needle && !exactMatch && can('create');
+
+  const add = (tag: Tag) => {
+    if (!value.includes(tag.id)) onChange([...value, tag.id]);
+    setTerm('');
+  };
+
+  const handleCreate = async () => {
+    try {
+      add(await createTag(term));
+    } catch (error) {
+      console.error('Error creating tag:', error);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Keeps Enter from submitting the form
+      e.preventDefault();
+      if (exactMatch) add(exactMatch);
+      else if (suggestions.length > 0 && !canCreate) add(suggestions[0]);
+      else if (canCreate) handleCreate();
+    } else if (e.key === 'Backspace' && !term && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">Tags</label>
+      <div className="relative mt-1">
+        <div className="flex flex-wrap items-center gap-1 rounded-md border border-gray-300 px-2 py-1.5 shadow-sm focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500">
+          <TagChips
+            tags={selected}
+            onRemove={(tag) => onChange(value.filter((id) => id !== tag.id))}
+          />
+          <input
+            type="text"
+            value={term}
+            onChange={(e) => {
+              setTerm(e.target.value);
+              setIsOpen(true);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setIsOpen(false)}
+            onKeyDown={handleKeyDown}
+            placeholder={selected.length === 0 ? 'Add tags...' : ''}
+            aria-label="Add tag"
+            className="flex-1 min-w-[8rem] border-0 p-0.5 text-sm focus:ring-0"
+          />
+        </div>
+
+        {isOpen && (suggestions.length > 0 || canCreate) && (
+          <ul className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5">
+            {suggestions.map((tag) => (
+              <li key={tag.id}>
+                <button
+                  type="button"
+                  // Runs before the input loses focus and closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    add(tag);
+                  }}
+                  className="flex w-full items-center px-3 py-1.5 text-left hover:bg-gray-50"
+                >
+                  <span className={`mr-2 h-2.5 w-2.5 rounded-full ${tagColorOf(tag.color).swatch}`} />
+                  {tag.name}
+                </button>
+              </li>
+            ))}
+            {canCreate && (
+              <li>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    handleCreate();
+                  }}
+                  className="flex w-full items-center px-3 py-1.5 text-left text-blue-600 hover:bg-gray-50"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Create "{term.trim()}"
+                </button>
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { supabase, Tag, TagColor } from '../lib/supabase';
+import { TAG_COLORS, nextTagColor } from '../lib/tags';
+import { useAuth } from '../contexts/AuthContext';
+import { useTags } from '../hooks/useTags';
+import TagChips from './TagChips';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+
+type TagDraft = {
+  id: string | null;
+  name: string;
+  color: TagColor;
+};
+
+export default function TagSettings() {
+  const { can } = useAuth();
+  const { tags, loading, refresh } = useTags();
+  const [draft, setDraft] = useState<TagDraft | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can('manage_tags');
+
+  const openDraft = (tag?: Tag) => {
+    setDraft(
+      tag
+        ? { id: tag.id, name: tag.name, color: tag.color }
+        : { id: null, name: '', color: nextTagColor(tags) }
+    );
+    setError('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (tags.some((tag) => tag.id !== draft.id && tag.name.toLowerCase() === name.toLowerCase())) {
+      setError('A tag with this name already exists.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      if (draft.id) {
+        const { error: updateError } = await supabase
+          .from('tags')
+          .update({ name, color: draft.color, updated_at: new Date().toISOString() })
+          .eq('id', draft.id);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase
+          .from('tags')
+          .insert([{ name, color: draft.color }]);
+        if (insertError) throw insertError;
+      }
+
+      setDraft(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving tag:', err);
+      setError('Could not save the tag.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It is removed from every record.`)) return;
+    try {
+      const { error: deleteError } = await supabase.from('tags').delete().eq('id', tag.id);
+      if (deleteError) throw deleteError;
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting tag:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Tags</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {canManage
+              ? 'Shared by contacts, companies and deals. Renaming or recoloring a tag changes it everywhere.'
+              : 'Only admins and managers can rename, recolor or delete tags.'}
+          </p>
+        </div>
+        {can('create') && (
+          <button
+            onClick={() => openDraft()}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tag
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {tags.map((tag) => (
+          <li key={tag.id} className="px-6 py-3 flex items-center justify-between">
+            <TagChips tags={[tag]} />
+            {canManage && (
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => openDraft(tag)}
+                  className="text-blue-600 hover:text-blue-900"
+                  aria-label={`Edit ${tag.name}`}
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(tag)}
+                  className="text-red-600 hover:text-red-900"
+                  aria-label={`Delete ${tag.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+        {tags.length === 0 && (
+          <li className="px-6 py-8 text-center text-sm text-gray-500">No tags yet</li>
+        )}
+      </ul>
+
+      {draft && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">{draft.id ? 'Edit Tag' : 'Add Tag'}</h3>
+            </div>
+            <form onSubmit={handleSave} className="px-6 py-4 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Color</label>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {TAG_COLORS.map((color) => (
+                    <button
+                      key={color.id}
+                      type="button"
+                      onClick={() => setDraft({ ...draft, color: color.id })}
+                      aria-label={color.label}
+                      aria-pressed={draft.color === color.id}
+                      className={`h-7 w-7 rounded-full ${color.swatch} ${
+                        draft.color === color.id ? 'ring-2 ring-offset-2 ring-blue-500' : ''
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : draft.id ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
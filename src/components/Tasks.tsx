@@ -1,31 +1,100 @@
 import { useState, useEffect } from 'react';
 import { supabase, Task } from '../lib/supabase';
-import { Plus, Edit2, Trash2, Calendar, AlertCircle } from 'lucide-react';
-
-const PRIORITY_COLORS = {
-  low: 'bg-green-100 text-green-800',
-  medium: 'bg-yellow-100 text-yellow-800',
-  high: 'bg-red-100 text-red-800',
-};
-
-const STATUS_COLORS = {
-  pending: 'bg-gray-100 text-gray-800',
-  in_progress: 'bg-blue-100 text-blue-800',
-  completed: 'bg-green-100 text-green-800',
-};
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { useRelationOptions } from '../hooks/useRelationOptions';
+import { useRelationFilter } from '../hooks/useRelationFilter';
+import { recordElementId, useHighlightedRecord } from '../hooks/useHighlightedRecord';
+import { useMembers } from '../hooks/useMembers';
+import { useListFilter } from '../hooks/useListFilter';
+import { useSelection } from '../hooks/useSelection';
+import { useBulkActions } from '../hooks/useBulkActions';
+import {
+  EMPTY_RELATIONS,
+  matchesRelations,
+  relationsOf,
+  relationsPayload,
+} from '../lib/relations';
+import { TASK_PRIORITY_COLORS, TASK_STATUS_COLORS } from '../lib/styles';
+import { ExportColumn, fullName } from '../lib/export';
+import { FilterField, FilterOption, matchesFilter, memberOptions, optionLabel } from '../lib/filters';
+import { bulkDelete, bulkUpdate } from '../lib/bulk';
+import ExportMenu from './ExportMenu';
+import FilterBuilder from './FilterBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+import DeleteRecordDialog from './DeleteRecordDialog';
+import LinkedRecords from './LinkedRecords';
+import MemberSelect from './MemberSelect';
+import RecordHistoryModal from './RecordHistoryModal';
+import RelationFields from './RelationFields';
+import BulkActionBar from './BulkActionBar';
+import BulkSelect from './BulkSelect';
+import { Plus, Edit2, Trash2, Calendar, AlertCircle, UserCircle, History } from 'lucide-react';
+
+const EXPORT_COLUMNS: ExportColumn<Task>[] = [
+  { key: 'title', header: 'Title', value: (t) => t.title },
+  { key: 'description', header: 'Description', value: (t) => t.description },
+  { key: 'status', header: 'Status', value: (t) => t.status },
+  { key: 'priority', header: 'Priority', value: (t) => t.priority },
+  { key: 'due_date', header: 'Due Date', value: (t) => t.due_date },
+  { key: 'contact', header: 'Contact', value: (t) => fullName(t.contact) },
+  { key: 'company', header: 'Company', value: (t) => t.company?.name },
+  { key: 'deal', header: 'Deal', value: (t) => t.deal?.title },
+  { key: 'created_at', header: 'Created', value: (t) => t.created_at },
+];
+
+const STATUS_OPTIONS: FilterOption[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'completed', label: 'Completed' },
+];
+
+const PRIORITY_OPTIONS: FilterOption[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+const FILTER_FIELDS: FilterField<Task>[] = [
+  { key: 'title', label: 'Title', type: 'text' },
+  { key: 'description', label: 'Description', type: 'text' },
+  { key: 'status', label: 'Status', type: 'select', options: STATUS_OPTIONS },
+  { key: 'priority', label: 'Priority', type: 'select', options: PRIORITY_OPTIONS },
+  { key: 'due_date', label: 'Due Date', type: 'datetime' },
+  { key: 'contact', label: 'Contact', type: 'text', value: (t) => fullName(t.contact) },
+  { key: 'company', label: 'Company', type: 'text', value: (t) => t.company?.name },
+  { key: 'company_industry', label: 'Company Industry', type: 'text', value: (t) => t.company?.industry },
+  { key: 'deal', label: 'Deal', type: 'text', value: (t) => t.deal?.title },
+  { key: 'created_at', label: 'Created', type: 'datetime' },
+];
 
 export default function Tasks() {
+  const { user, can } = useAuth();
+  const { members, membersById } = useMembers();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'in_progress' | 'completed'>('all');
+  const highlightedId = useHighlightedRecord(loading);
+  const [filter, setFilter] = useQueryParam<'all' | Task['status']>('status', 'all', [
+    'all',
+    'pending',
+    'in_progress',
+    'completed',
+  ]);
+  const [relationFilter, setRelationFilter] = useRelationFilter();
+  const [listFilter, setListFilter] = useListFilter();
+  const relationOptions = useRelationOptions();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [deletingTask, setDeletingTask] = useState<Task | null>(null);
+  const [historyTask, setHistoryTask] = useState<Task | null>(null);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     due_date: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
     status: 'pending' as 'pending' | 'in_progress' | 'completed',
+    assignee_id: user?.id || '',
+    ...EMPTY_RELATIONS,
   });
 
   useEffect(() => {
@@ -36,7 +105,7 @@ export default function Tasks() {
     try {
       const { data, error } = await supabase
         .from('tasks')
-        .select('*')
+        .select('*, contact:contacts(*), company:companies(*), deal:deals(*)')
         .order('due_date', { ascending: true, nullsFirst: false });
 
       if (error) throw error;
@@ -54,6 +123,8 @@ export default function Tasks() {
       const taskData = {
         ...formData,
         due_date: formData.due_date || null,
+        assignee_id: formData.assignee_id || null,
+        ...relationsPayload(formData),
         updated_at: new Date().toISOString(),
       };
 
@@ -78,18 +149,6 @@ export default function Tasks() {
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this task?')) return;
-
-    try {
-      const { error } = await supabase.from('tasks').delete().eq('id', id);
-      if (error) throw error;
-      fetchTasks();
-    } catch (error) {
-      console.error('Error deleting task:', error);
-    }
-  };
-
   const updateTaskStatus = async (taskId: string, newStatus: Task['status']) => {
     try {
       const { error } = await supabase
@@ -113,6 +172,8 @@ export default function Tasks() {
         due_date: task.due_date ? task.due_date.split('T')[0] : '',
         priority: task.priority,
         status: task.status,
+        assignee_id: task.assignee_id || '',
+        ...relationsOf(task),
       });
     } else {
       resetForm();
@@ -127,15 +188,38 @@ export default function Tasks() {
       due_date: '',
       priority: 'medium',
       status: 'pending',
+      assignee_id: user?.id || '',
+      ...EMPTY_RELATIONS,
     });
     setEditingTask(null);
   };
 
+  const filterFields: FilterField<Task>[] = [
+    ...FILTER_FIELDS,
+    { key: 'assignee_id', label: 'Assignee', type: 'select', options: memberOptions(members) },
+  ];
+
   const filteredTasks = tasks.filter((task) => {
+    if (!matchesRelations(task, relationFilter)) return false;
+    if (!matchesFilter(task, listFilter, filterFields)) return false;
     if (filter === 'all') return true;
     return task.status === filter;
   });
 
+  const selection = useSelection(filteredTasks);
+  const bulk = useBulkActions('tasks', selection, fetchTasks);
+  const assigneeOptions = memberOptions(members.filter((member) => member.role !== 'read_only'));
+  const companyOptions = relationOptions.companies.map((company) => ({
+    value: company.id,
+    label: company.label,
+  }));
+
+  const assigneeLabel = (assigneeId: string | null) => {
+    if (!assigneeId) return 'Unassigned';
+    if (assigneeId === user?.id) return 'You';
+    return membersById[assigneeId]?.profile?.email || 'Teammate';
+  };
+
   const isOverdue = (dueDate: string | null) => {
     if (!dueDate) return false;
     return new Date(dueDate) < new Date();
@@ -152,14 +236,19 @@ export default function Tasks() {
           <h1 className="text-2xl font-semibold text-gray-900">Tasks</h1>
           <p className="mt-2 text-sm text-gray-700">Manage your tasks and to-do items</p>
         </div>
-        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
-          <button
-            onClick={() => openModal()}
-            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Task
-          </button>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex space-x-3">
+          <FilterBuilder fields={filterFields} value={listFilter} onChange={setListFilter} />
+          <SavedViewsMenu list="tasks" />
+          <ExportMenu rows={filteredTasks} columns={EXPORT_COLUMNS} fileName="tasks" />
+          {can('create') && (
+            <button
+              onClick={() => openModal()}
+              className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Task
+            </button>
+          )}
         </div>
       </div>
 
@@ -179,26 +268,60 @@ export default function Tasks() {
         ))}
       </div>
 
-      <div className="mt-8 space-y-4">
+      <div className="mt-4">
+        <RelationFields
+          value={relationFilter}
+          onChange={setRelationFilter}
+          options={relationOptions}
+          compact
+        />
+      </div>
+
+      {filteredTasks.length > 0 && (
+        <label className="mt-6 inline-flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={selection.allSelected}
+            ref={(el) => {
+              if (el) el.indeterminate = selection.someSelected;
+            }}
+            onChange={selection.toggleAll}
+            className="mr-2 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Select all
+        </label>
+      )}
+
+      <div className="mt-4 space-y-4">
         {filteredTasks.map((task) => (
           <div
             key={task.id}
-            className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow"
+            id={recordElementId(task.id)}
+            className={`bg-white p-6 rounded-lg shadow-sm border border-gray-200 hover:shadow-md transition-shadow ${
+              task.id === highlightedId || selection.isSelected(task.id) ? 'ring-2 ring-blue-500' : ''
+            }`}
           >
             <div className="flex items-start justify-between">
+              <input
+                type="checkbox"
+                checked={selection.isSelected(task.id)}
+                onChange={() => selection.toggle(task.id)}
+                aria-label={`Select ${task.title}`}
+                className="mr-4 mt-1.5 h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
               <div className="flex-1">
                 <div className="flex items-center space-x-3 mb-2">
                   <h3 className="text-lg font-medium text-gray-900">{task.title}</h3>
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      PRIORITY_COLORS[task.priority]
+                      TASK_PRIORITY_COLORS[task.priority]
                     }`}
                   >
                     {task.priority}
                   </span>
                   <span
                     className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      STATUS_COLORS[task.status]
+                      TASK_STATUS_COLORS[task.status]
                     }`}
                   >
                     {task.status.replace('_', ' ')}
@@ -209,7 +332,7 @@ export default function Tasks() {
                   <p className="text-sm text-gray-600 mb-3">{task.description}</p>
                 )}
 
-                <div className="flex items-center space-x-4 text-sm text-gray-500">
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
                   {task.due_date && (
                     <div className="flex items-center">
                       <Calendar className="w-4 h-4 mr-1" />
@@ -221,10 +344,15 @@ export default function Tasks() {
                       )}
                     </div>
                   )}
+                  <div className="flex items-center">
+                    <UserCircle className="w-4 h-4 mr-1" />
+                    {assigneeLabel(task.assignee_id)}
+                  </div>
+                  <LinkedRecords record={task} />
                 </div>
 
                 <div className="mt-3 flex space-x-2">
-                  {task.status !== 'completed' && (
+                  {task.status !== 'completed' && can('edit', task) && (
                     <>
                       {task.status === 'pending' && (
                         <button
@@ -247,17 +375,28 @@ export default function Tasks() {
 
               <div className="flex space-x-2 ml-4">
                 <button
-                  onClick={() => openModal(task)}
-                  className="text-blue-600 hover:text-blue-900"
-                >
-                  <Edit2 className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => handleDelete(task.id)}
-                  className="text-red-600 hover:text-red-900"
+                  onClick={() => setHistoryTask(task)}
+                  title="History"
+                  className="text-gray-400 hover:text-gray-600"
                 >
-                  <Trash2 className="w-4 h-4" />
+                  <History className="w-4 h-4" />
                 </button>
+                {can('edit', task) && (
+                  <button
+                    onClick={() => openModal(task)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                )}
+                {can('delete', task) && (
+                  <button
+                    onClick={() => setDeletingTask(task)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -338,6 +477,18 @@ export default function Tasks() {
                 </div>
               </div>
 
+              <MemberSelect
+                label="Assignee"
+                value={formData.assignee_id}
+                onChange={(assigneeId) => setFormData({ ...formData, assignee_id: assigneeId })}
+              />
+
+              <RelationFields
+                value={formData}
+                onChange={(links) => setFormData({ ...formData, ...links })}
+                options={relationOptions}
+              />
+
               <div className="flex justify-end space-x-3 pt-4 border-t">
                 <button
                   type="button"
@@ -360,6 +511,92 @@ export default function Tasks() {
           </div>
         </div>
       )}
+
+      <BulkActionBar count={selection.selected.length} bulk={bulk} onClear={selection.clear}>
+        <BulkSelect
+          label="Set status..."
+          options={STATUS_OPTIONS}
+          onSelect={(status) =>
+            bulk.run(
+              (count) => `Set ${count} to ${optionLabel(STATUS_OPTIONS, status).toLowerCase()}`,
+              'edit',
+              (records, onProgress) => bulkUpdate('tasks', records, { status }, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Set priority..."
+          options={PRIORITY_OPTIONS}
+          onSelect={(priority) =>
+            bulk.run(
+              (count) =>
+                `Set ${count} to ${optionLabel(PRIORITY_OPTIONS, priority).toLowerCase()} priority`,
+              'edit',
+              (records, onProgress) => bulkUpdate('tasks', records, { priority }, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Assign to..."
+          options={assigneeOptions}
+          onSelect={(assigneeId) =>
+            bulk.run(
+              (count) => `Assigned ${count} to ${optionLabel(assigneeOptions, assigneeId)}`,
+              'edit',
+              (records, onProgress) =>
+                bulkUpdate('tasks', records, { assignee_id: assigneeId }, onProgress)
+            )
+          }
+        />
+        <BulkSelect
+          label="Link to company..."
+          options={companyOptions}
+          onSelect={(companyId) =>
+            bulk.run(
+              (count) => `Linked ${count} to ${optionLabel(companyOptions, companyId)}`,
+              'edit',
+              (records, onProgress) =>
+                bulkUpdate('tasks', records, { company_id: companyId }, onProgress)
+            )
+          }
+        />
+        <ExportMenu rows={selection.selected} columns={EXPORT_COLUMNS} fileName="tasks" dropUp />
+        {selection.selected.some((task) => can('delete', task)) && (
+          <button
+            onClick={() => {
+              if (!confirm(`Move ${selection.selected.length} selected tasks to the trash?`)) return;
+              bulk.run(
+                (count) => `Moved ${count} to the trash`,
+                'delete',
+                (records, onProgress) => bulkDelete('tasks', records, onProgress)
+              );
+            }}
+            className="inline-flex items-center rounded-md border border-red-200 bg-white px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </button>
+        )}
+      </BulkActionBar>
+
+      {historyTask && (
+        <RecordHistoryModal
+          table="tasks"
+          recordId={historyTask.id}
+          title={historyTask.title}
+          onClose={() => setHistoryTask(null)}
+        />
+      )}
+
+      {deletingTask && (
+        <DeleteRecordDialog
+          table="tasks"
+          recordId={deletingTask.id}
+          label={deletingTask.title}
+          onClose={() => setDeletingTask(null)}
+          onDeleted={fetchTasks}
+        />
+      )}
     </div>
   );
 }
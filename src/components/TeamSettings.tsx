@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, OrganizationInvitation, OrganizationMember, Role } from '../lib/supabase';
+import { ROLES } from '../lib/permissions';
+import { useAuth } from '../contexts/AuthContext';
+import { useMembers } from '../hooks/useMembers';
+import InviteForm from './InviteForm';
+import { Mail, X, UserMinus } from 'lucide-react';
+
+const roleLabel = (role: Role) => ROLES.find((option) => option.id === role)?.label || role;
+
+// The database rejects leaving a workspace without an admin; surface that reason.
+const teamError = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message?.includes('at least one admin')
+    ? 'A workspace must keep at least one admin.'
+    : fallback;
+
+export default function TeamSettings() {
+  const { user, organization, can } = useAuth();
+  const { members, loading, refresh } = useMembers();
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [error, setError] = useState('');
+  const canManage = can('manage_team');
+
+  const fetchInvitations = useCallback(async () => {
+    if (!organization) return;
+    try {
+      const { data, error } = await supabase
+        .from('organization_invitations')
+        .select('*')
+        .eq('organization_id', organization.id)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+    }
+  }, [organization]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const revokeInvitation = async (id: string) => {
+    try {
+      const { error } = await supabase.from('organization_invitations').delete().eq('id', id);
+      if (error) throw error;
+      fetchInvitations();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+    }
+  };
+
+  const changeRole = async (member: OrganizationMember, role: Role) => {
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .update({ role })
+        .eq('organization_id', member.organization_id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      setError(teamError(error, 'Could not change the role.'));
+    }
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    if (!confirm(`Remove ${member.profile?.email || 'this member'} from ${organization?.name}?`)) {
+      return;
+    }
+    setError('');
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('organization_id', member.organization_id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      setError(teamError(error, 'Could not remove the member.'));
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {canManage && (
+        <div className="bg-white shadow rounded-lg px-6 py-4">
+          <h3 className="text-lg font-medium text-gray-900">Invite teammates</h3>
+          <p className="mt-1 mb-4 text-sm text-gray-500">
+            Everyone in {organization?.name} shares its contacts, companies, deals and activity.
+          </p>
+          <InviteForm onInvited={fetchInvitations} />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Members ({members.length})</h3>
+        </div>
+        <ul className="divide-y divide-gray-100">
+          {members.map((member) => (
+            <li key={member.user_id} className="px-6 py-3 flex items-center justify-between">
+              <span className="text-sm text-gray-900">
+                {member.profile?.email || 'Unknown user'}
+                {member.user_id === user?.id && (
+                  <span className="ml-2 text-xs text-gray-500">(you)</span>
+                )}
+              </span>
+              <div className="flex items-center space-x-4">
+                <span className="text-xs text-gray-500">
+                  Joined {new Date(member.created_at).toLocaleDateString()}
+                </span>
+                {canManage ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => changeRole(member, e.target.value as Role)}
+                    aria-label={`Role of ${member.profile?.email || 'member'}`}
+                    className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 text-sm border px-2 py-1"
+                  >
+                    {ROLES.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    {roleLabel(member.role)}
+                  </span>
+                )}
+                {canManage && member.user_id !== user?.id && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    title="Remove from workspace"
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {invitations.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">
+              Pending invitations ({invitations.length})
+            </h3>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {invitations.map((invitation) => (
+              <li key={invitation.id} className="px-6 py-3 flex items-center justify-between">
+                <span className="flex items-center text-sm text-gray-700">
+                  <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                  {invitation.email}
+                  <span className="ml-2 text-xs text-gray-500">{roleLabel(invitation.role)}</span>
+                </span>
+                {canManage && (
+                  <button
+                    onClick={() => revokeInvitation(invitation.id)}
+                    title="Revoke invitation"
+                    className="text-gray-400 hover:text-red-600"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
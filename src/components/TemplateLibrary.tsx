@@ -0,0 +1,271 @@
+import { useRef, useState } from 'react';
+import { supabase, EmailTemplate } from '../lib/supabase';
+import { MERGE_VARIABLES, mergeTag } from '../lib/templates';
+import { useAuth } from '../contexts/AuthContext';
+import { Plus, Edit2, Trash2 } from 'lucide-react';
+
+type TemplateLibraryProps = {
+  templates: EmailTemplate[];
+  loading: boolean;
+  refresh: () => Promise<void>;
+};
+
+type TemplateDraft = {
+  id: string | null;
+  name: string;
+  subject: string;
+  body: string;
+};
+
+const EMPTY_DRAFT: TemplateDraft = { id: null, name: '', subject: '', body: '' };
+
+const inputClass =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2';
+
+export default function TemplateLibrary({ templates, loading, refresh }: TemplateLibraryProps) {
+  const { can } = useAuth();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Merge variables go where the cursor was in the subject or body
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [lastField, setLastField] = useState<'subject' | 'body'>('body');
+
+  const openDraft = (template?: EmailTemplate) => {
+    setDraft(
+      template
+        ? { id: template.id, name: template.name, subject: template.subject, body: template.body }
+        : EMPTY_DRAFT
+    );
+    setError('');
+  };
+
+  const insertVariable = (key: string) => {
+    if (!draft || !key) return;
+    const element = lastField === 'subject' ? subjectRef.current : bodyRef.current;
+    const value = draft[lastField];
+    const start = element?.selectionStart ?? value.length;
+    const end = element?.selectionEnd ?? value.length;
+    setDraft({ ...draft, [lastField]: value.slice(0, start) + mergeTag(key) + value.slice(end) });
+    element?.focus();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const templateData = {
+        name: draft.name.trim(),
+        subject: draft.subject.trim(),
+        body: draft.body,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (draft.id) {
+        const { error: updateError } = await supabase
+          .from('email_templates')
+          .update(templateData)
+          .eq('id', draft.id);
+        if (updateError) throw updateError;
+      } else {
+        const { error: insertError } = await supabase.from('email_templates').insert([templateData]);
+        if (insertError) throw insertError;
+      }
+
+      setDraft(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving email template:', err);
+      setError('Could not save the template.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: EmailTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    setDeleteError('');
+    try {
+      const { error: dbError } = await supabase
+        .from('email_templates')
+        .delete()
+        .eq('id', template.id);
+      if (dbError) {
+        // Sequence steps keep the templates they send from
+        if (dbError.code === '23503') {
+          setDeleteError(`"${template.name}" is used by a sequence. Remove it from the sequence first.`);
+          return;
+        }
+        throw dbError;
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting email template:', err);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div>
+      {can('create') && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => openDraft()}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Template
+          </button>
+        </div>
+      )}
+
+      {deleteError && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {deleteError}
+        </div>
+      )}
+
+      <ul className="mt-4 space-y-3">
+        {templates.map((template) => (
+          <li
+            key={template.id}
+            className="bg-white shadow rounded-lg px-4 py-4 sm:flex sm:items-start sm:justify-between"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">{template.name}</p>
+              <p className="mt-1 text-sm text-gray-700 truncate">{template.subject}</p>
+              <p className="mt-1 text-xs text-gray-500 line-clamp-2 whitespace-pre-line">
+                {template.body}
+              </p>
+            </div>
+            {can('edit', template) && (
+              <div className="mt-3 sm:mt-0 sm:ml-4 flex flex-shrink-0 space-x-3">
+                <button
+                  onClick={() => openDraft(template)}
+                  className="text-blue-600 hover:text-blue-900"
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="text-red-600 hover:text-red-900"
+                  aria-label={`Delete ${template.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+        {templates.length === 0 && (
+          <li className="text-center py-12 text-gray-500">No templates yet</li>
+        )}
+      </ul>
+
+      {draft && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                {draft.id ? 'Edit Template' : 'Add Template'}
+              </h3>
+            </div>
+            <form onSubmit={handleSave} className="px-6 py-4 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name *</label>
+                <input
+                  type="text"
+                  required
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Subject *</label>
+                <input
+                  ref={subjectRef}
+                  type="text"
+                  required
+                  value={draft.subject}
+                  onFocus={() => setLastField('subject')}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">Body</label>
+                  <select
+                    value=""
+                    onChange={(e) => insertVariable(e.target.value)}
+                    aria-label="Insert variable"
+                    className="rounded-md border border-gray-300 py-1 pl-2 pr-8 text-sm text-gray-700 focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Insert variable...</option>
+                    {MERGE_VARIABLES.map((group) => (
+                      <optgroup key={group.group} label={group.group}>
+                        {group.variables.map((variable) => (
+                          <option key={variable.key} value={variable.key}>
+                            {variable.label}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                <textarea
+                  ref={bodyRef}
+                  rows={10}
+                  value={draft.body}
+                  onFocus={() => setLastField('body')}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Variables are filled in from the contact, their company and the deal, such as{' '}
+                  <code>{'{{contact.first_name}}'}</code>. Add a fallback for empty values with{' '}
+                  <code>{'{{contact.first_name|there}}'}</code>.
+                </p>
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : draft.id ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
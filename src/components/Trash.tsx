@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { supabase, AuditTable, TrashItem } from '../lib/supabase';
+import { AUDIT_TABLES, singularOf } from '../lib/audit';
+import { useAuth } from '../contexts/AuthContext';
+import { useMembers } from '../hooks/useMembers';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { RotateCcw, Trash2, Search } from 'lucide-react';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function Trash() {
+  const { organization, updateOrganization, can } = useAuth();
+  const { membersById } = useMembers();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useQueryParam('search', '');
+  const [type, setType] = useQueryParam<'all' | AuditTable>('type', 'all', [
+    'all',
+    ...AUDIT_TABLES.map((t) => t.id),
+  ]);
+  const [retention, setRetention] = useState(String(organization?.trash_retention_days ?? 30));
+  const [error, setError] = useState('');
+  const retentionDays = organization?.trash_retention_days ?? 30;
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const fetchTrash = async () => {
+    try {
+      const { data, error } = await supabase.rpc('list_trash');
+      if (error) throw error;
+      setItems(
+        ((data || []) as TrashItem[]).sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+      );
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setError('');
+    try {
+      const { error } = await supabase.rpc('restore_record', {
+        p_table: item.table_name,
+        p_id: item.record_id,
+      });
+      if (error) throw error;
+      setItems((current) => current.filter((i) => i.record_id !== item.record_id));
+    } catch (error) {
+      console.error('Error restoring record:', error);
+      setError(`Could not restore the ${singularOf(item.table_name)}.`);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const label = item.record_label || `this ${singularOf(item.table_name)}`;
+    if (!confirm(`Permanently delete ${label}? This cannot be undone.`)) return;
+    setError('');
+    try {
+      const { error } = await supabase.rpc('purge_record', {
+        p_table: item.table_name,
+        p_id: item.record_id,
+      });
+      if (error) throw error;
+      setItems((current) => current.filter((i) => i.record_id !== item.record_id));
+    } catch (error) {
+      console.error('Error purging record:', error);
+      setError(`Could not delete the ${singularOf(item.table_name)}.`);
+    }
+  };
+
+  const handleRetentionSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      await updateOrganization({
+        trash_retention_days: Math.min(365, Math.max(1, parseInt(retention) || 30)),
+      });
+    } catch (error) {
+      console.error('Error saving retention period:', error);
+      setError('Could not save the retention period.');
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(
+      0,
+      Math.ceil((new Date(item.deleted_at).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS)
+    );
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredItems = items.filter(
+    (item) =>
+      (type === 'all' || item.table_name === type) &&
+      (!search || item.record_label?.toLowerCase().includes(search))
+  );
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Trash</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Deleted records are kept for {retentionDays} days, then deleted permanently
+          </p>
+        </div>
+        {can('manage_team') && (
+          <form onSubmit={handleRetentionSave} className="mt-4 sm:mt-0 flex items-center space-x-2">
+            <label htmlFor="retention" className="text-sm text-gray-700">
+              Keep for
+            </label>
+            <input
+              id="retention"
+              type="number"
+              min="1"
+              max="365"
+              value={retention}
+              onChange={(e) => setRetention(e.target.value)}
+              className="w-20 rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-1.5"
+            />
+            <span className="text-sm text-gray-700">days</span>
+            <button
+              type="submit"
+              disabled={String(retentionDays) === retention}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <Search className="h-5 w-5 text-gray-400" />
+          </div>
+          <input
+            type="text"
+            placeholder="Search trash..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="block w-full rounded-md border-gray-300 pl-10 focus:border-blue-500 focus:ring-blue-500 sm:text-sm py-2 border"
+          />
+        </div>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as 'all' | AuditTable)}
+          aria-label="Record type"
+          className="rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-2"
+        >
+          <option value="all">All records</option>
+          {AUDIT_TABLES.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="mt-6 overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">Record</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Deleted by</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Deleted</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Purged in</th>
+              <th className="relative py-3.5 pl-3 pr-4">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {filteredItems.map((item) => (
+              <tr key={`${item.table_name}-${item.record_id}`}>
+                <td className="py-4 pl-4 pr-3 text-sm">
+                  <span className="mr-2 text-xs text-gray-500">{singularOf(item.table_name)}</span>
+                  <span className="font-medium text-gray-900">
+                    {item.record_label || `Untitled ${singularOf(item.table_name)}`}
+                  </span>
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {item.deleted_by
+                    ? membersById[item.deleted_by]?.profile?.email || 'A former member'
+                    : '—'}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {new Date(item.deleted_at).toLocaleString()}
+                </td>
+                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                  {daysLeft(item)} {daysLeft(item) === 1 ? 'day' : 'days'}
+                </td>
+                <td className="whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium">
+                  {item.can_modify && (
+                    <>
+                      <button
+                        onClick={() => handleRestore(item)}
+                        className="inline-flex items-center text-blue-600 hover:text-blue-900 mr-4"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePurge(item)}
+                        className="inline-flex items-center text-red-600 hover:text-red-900"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete forever
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filteredItems.length === 0 && (
+          <div className="text-center py-12 text-gray-500 bg-white">
+            {items.length === 0 ? 'The trash is empty' : 'No deleted records match'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
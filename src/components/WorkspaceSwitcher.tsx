@@ -0,0 +1,169 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import InviteForm from './InviteForm';
+import Link from './Link';
+import { Briefcase, ChevronDown, Check, Plus, UserPlus } from 'lucide-react';
+
+export default function WorkspaceSwitcher() {
+  const { organization, organizations, switchOrganization, createOrganization, can } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSwitch = async (id: string) => {
+    setIsOpen(false);
+    if (id === organization?.id) return;
+    try {
+      await switchOrganization(id);
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      await createOrganization(newName.trim());
+      setNewName('');
+      setIsCreating(false);
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative mr-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        <Briefcase className="w-4 h-4 mr-2 text-gray-400" />
+        <span className="max-w-[10rem] truncate">{organization?.name || 'No workspace'}</span>
+        <ChevronDown className="w-4 h-4 ml-2 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-30 mt-2 w-64 rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          <p className="px-4 py-2 text-xs font-semibold uppercase text-gray-500">Workspaces</p>
+          {organizations.map((org) => (
+            <button
+              key={org.id}
+              role="menuitem"
+              onClick={() => handleSwitch(org.id)}
+              className="flex w-full items-center justify-between px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <span className="truncate">{org.name}</span>
+              {org.id === organization?.id && <Check className="w-4 h-4 text-blue-600" />}
+            </button>
+          ))}
+
+          <div className="mt-1 border-t border-gray-100 pt-1">
+            {isCreating ? (
+              <form onSubmit={handleCreate} className="px-4 py-2">
+                <input
+                  type="text"
+                  autoFocus
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Workspace name"
+                  className="block w-full rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm border px-3 py-1.5"
+                />
+                <div className="mt-2 flex justify-end space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setIsCreating(false)}
+                    className="text-xs px-3 py-1 text-gray-600 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!newName.trim()}
+                    className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Create
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                role="menuitem"
+                onClick={() => setIsCreating(true)}
+                className="flex w-full items-center px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+              >
+                <Plus className="w-4 h-4 mr-2 text-gray-400" />
+                New workspace
+              </button>
+            )}
+            {can('manage_team') && (
+              <button
+                role="menuitem"
+                onClick={() => {
+                  setIsOpen(false);
+                  setIsInviteOpen(true);
+                }}
+                className="flex w-full items-center px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+              >
+                <UserPlus className="w-4 h-4 mr-2 text-gray-400" />
+                Invite teammates
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isInviteOpen && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                Invite teammates to {organization?.name}
+              </h3>
+            </div>
+            <div className="px-6 py-4">
+              <InviteForm />
+              <p className="mt-4 text-xs text-gray-500">
+                Invitees join when they sign up or next sign in with the invited address.
+              </p>
+            </div>
+            <div className="px-6 py-4 flex items-center justify-between border-t">
+              <Link
+                view="settings"
+                params={{ tab: 'team' }}
+                onClick={() => setIsInviteOpen(false)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                Manage team
+              </Link>
+              <button
+                type="button"
+                onClick={() => setIsInviteOpen(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
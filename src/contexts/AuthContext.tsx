@@ -1,6 +1,9 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { supabase, Organization, Role } from '../lib/supabase';
+import { hasPermission, Permission, OwnedRecord } from '../lib/permissions';
+
+type OrganizationUpdates = Partial<Pick<Organization, 'name' | 'trash_retention_days'>>;
 
 type AuthContextType = {
   user: User | null;
@@ -9,6 +12,13 @@ type AuthContextType = {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  organization: Organization | null;
+  organizations: Organization[];
+  switchOrganization: (organizationId: string) => Promise<void>;
+  createOrganization: (name: string) => Promise<void>;
+  updateOrganization: (updates: OrganizationUpdates) => Promise<void>;
+  role: Role | null;
+  can: (permission: Permission, record?: OwnedRecord) => boolean;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,6 +27,53 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [roles, setRoles] = useState<Record<string, Role>>({});
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [organizationsLoading, setOrganizationsLoading] = useState(true);
+
+  const userId = user?.id;
+
+  // Records are scoped to the active workspace by RLS, so everything below the provider waits
+  // for it to be known.
+  const fetchOrganizations = useCallback(async () => {
+    try {
+      const { error: acceptError } = await supabase.rpc('accept_invitations');
+      if (acceptError) throw acceptError;
+
+      const [organizationsResult, rolesResult, activeResult] = await Promise.all([
+        supabase.from('organizations').select('*').order('name'),
+        supabase.from('organization_members').select('organization_id, role').eq('user_id', userId),
+        supabase.rpc('active_organization_id'),
+      ]);
+
+      if (organizationsResult.error) throw organizationsResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+      if (activeResult.error) throw activeResult.error;
+      setOrganizations(organizationsResult.data || []);
+      setRoles(
+        Object.fromEntries(
+          (rolesResult.data || []).map((member) => [member.organization_id, member.role as Role])
+        )
+      );
+      setOrganizationId(activeResult.data);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+    } finally {
+      setOrganizationsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setOrganizations([]);
+      setRoles({});
+      setOrganizationId(null);
+      return;
+    }
+    setOrganizationsLoading(true);
+    fetchOrganizations();
+  }, [userId, fetchOrganizations]);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -51,8 +108,62 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (error) throw error;
   };
 
+  const switchOrganization = async (id: string) => {
+    const { error } = await supabase.rpc('set_active_organization', { p_organization_id: id });
+    if (error) throw error;
+    setOrganizationId(id);
+  };
+
+  const createOrganization = async (name: string) => {
+    const { data, error } = await supabase.rpc('create_organization', { p_name: name });
+    if (error) throw error;
+    const created = data as Organization;
+    setOrganizations((current) =>
+      [...current, created].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setRoles((current) => ({ ...current, [created.id]: 'admin' }));
+    setOrganizationId(created.id);
+  };
+
+  const updateOrganization = async (updates: OrganizationUpdates) => {
+    if (!organizationId) return;
+    const { data, error } = await supabase
+      .from('organizations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', organizationId)
+      .select()
+      .single();
+    if (error) throw error;
+    setOrganizations((current) => current.map((o) => (o.id === data.id ? data : o)));
+  };
+
+  const organization = organizations.find((o) => o.id === organizationId) || null;
+  const role = organizationId ? roles[organizationId] ?? null : null;
+
+  const can = useCallback(
+    (permission: Permission, record?: OwnedRecord) =>
+      hasPermission(role, userId ?? null, permission, record),
+    [role, userId]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, session, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        loading: loading || (!!user && organizationsLoading),
+        signIn,
+        signUp,
+        signOut,
+        organization,
+        organizations,
+        switchOrganization,
+        createOrganization,
+        updateOrganization,
+        role,
+        can,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,80 @@
+import { createContext, useContext, useEffect, useMemo, useState, useCallback, ReactNode } from 'react';
+import { parseRoute, pathFor } from '../lib/routes';
+
+export type SearchParamUpdates = Record<string, string | null>;
+
+type NavigationContextType = {
+  view: string;
+  recordId: string | null;
+  searchParams: URLSearchParams;
+  navigate: (view: string, recordId?: string | null, params?: SearchParamUpdates) => void;
+  setSearchParams: (updates: SearchParamUpdates) => void;
+};
+
+const NavigationContext = createContext<NavigationContextType | undefined>(undefined);
+
+const currentLocation = () => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+});
+
+const buildSearch = (base: string, updates: SearchParamUpdates) => {
+  const params = new URLSearchParams(base);
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null || value === '') params.delete(key);
+    else params.set(key, value);
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export function NavigationProvider({ children }: { children: ReactNode }) {
+  const [location, setLocation] = useState(currentLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(currentLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback(
+    (view: string, recordId: string | null = null, params: SearchParamUpdates = {}) => {
+      const url = `${pathFor(view, recordId)}${buildSearch('', params)}`;
+      if (url !== `${window.location.pathname}${window.location.search}`) {
+        window.history.pushState(null, '', url);
+      }
+      setLocation(currentLocation());
+      window.scrollTo(0, 0);
+    },
+    []
+  );
+
+  // Filters and search terms replace the current history entry so typing does not flood
+  // the back button.
+  const setSearchParams = useCallback((updates: SearchParamUpdates) => {
+    const search = buildSearch(window.location.search, updates);
+    window.history.replaceState(null, '', `${window.location.pathname}${search}`);
+    setLocation(currentLocation());
+  }, []);
+
+  const value = useMemo(() => {
+    const route = parseRoute(location.pathname);
+    return {
+      view: route.view,
+      recordId: route.recordId,
+      searchParams: new URLSearchParams(location.search),
+      navigate,
+      setSearchParams,
+    };
+  }, [location, navigate, setSearchParams]);
+
+  return <NavigationContext.Provider value={value}>{children}</NavigationContext.Provider>;
+}
+
+export function useNavigation() {
+  const context = useContext(NavigationContext);
+  if (context === undefined) {
+    throw new Error('useNavigation must be used within a NavigationProvider');
+  }
+  return context;
+}
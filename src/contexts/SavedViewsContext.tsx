@@ -0,0 +1,141 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { supabase, FilterGroup, SavedView, SavedViewList, SavedViewPin } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+type SavedViewInput = {
+  list: SavedViewList;
+  name: string;
+  filter: FilterGroup | null;
+  params: Record<string, string>;
+  is_shared: boolean;
+};
+
+type SavedViewUpdates = Partial<Omit<SavedViewInput, 'list'>>;
+
+type SavedViewsContextType = {
+  // Own views and views shared in the active workspace
+  views: SavedView[];
+  // Views the user pinned to the navigation bar, in the order they were pinned
+  pinnedViews: SavedView[];
+  loading: boolean;
+  isPinned: (id: string) => boolean;
+  saveView: (input: SavedViewInput) => Promise<SavedView>;
+  updateView: (id: string, updates: SavedViewUpdates) => Promise<void>;
+  deleteView: (id: string) => Promise<void>;
+  togglePin: (id: string) => Promise<void>;
+};
+
+const SavedViewsContext = createContext<SavedViewsContextType | undefined>(undefined);
+
+// Shared by the navigation bar and the views menu of each list, so pinning a view shows up in
+// the navigation straight away.
+export function SavedViewsProvider({ children }: { children: ReactNode }) {
+  const { user, organization } = useAuth();
+  const userId = user?.id;
+  const organizationId = organization?.id;
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [pins, setPins] = useState<SavedViewPin[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchViews = useCallback(async () => {
+    if (!userId || !organizationId) return;
+    try {
+      const [viewsResult, pinsResult] = await Promise.all([
+        supabase.from('saved_views').select('*').order('name'),
+        supabase.from('saved_view_pins').select('*').eq('user_id', userId).order('created_at'),
+      ]);
+
+      if (viewsResult.error) throw viewsResult.error;
+      if (pinsResult.error) throw pinsResult.error;
+      setViews(viewsResult.data || []);
+      setPins(pinsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, organizationId]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  const saveView = async (input: SavedViewInput) => {
+    const { data, error } = await supabase.from('saved_views').insert([input]).select().single();
+    if (error) throw error;
+    setViews((current) => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data as SavedView;
+  };
+
+  const updateView = async (id: string, updates: SavedViewUpdates) => {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    setViews((current) =>
+      current.map((v) => (v.id === id ? data : v)).sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  const deleteView = async (id: string) => {
+    const { error } = await supabase.from('saved_views').delete().eq('id', id);
+    if (error) throw error;
+    setViews((current) => current.filter((v) => v.id !== id));
+    setPins((current) => current.filter((p) => p.saved_view_id !== id));
+  };
+
+  const isPinned = (id: string) => pins.some((p) => p.saved_view_id === id);
+
+  const togglePin = async (id: string) => {
+    if (isPinned(id)) {
+      const { error } = await supabase
+        .from('saved_view_pins')
+        .delete()
+        .eq('saved_view_id', id)
+        .eq('user_id', userId);
+      if (error) throw error;
+      setPins((current) => current.filter((p) => p.saved_view_id !== id));
+    } else {
+      const { data, error } = await supabase
+        .from('saved_view_pins')
+        .insert([{ saved_view_id: id }])
+        .select()
+        .single();
+      if (error) throw error;
+      setPins((current) => [...current, data]);
+    }
+  };
+
+  // Pins of views in other workspaces, or views no longer shared, drop out here.
+  const pinnedViews = pins
+    .map((pin) => views.find((v) => v.id === pin.saved_view_id))
+    .filter((v): v is SavedView => !!v);
+
+  return (
+    <SavedViewsContext.Provider
+      value={{
+        views,
+        pinnedViews,
+        loading,
+        isPinned,
+        saveView,
+        updateView,
+        deleteView,
+        togglePin,
+      }}
+    >
+      {children}
+    </SavedViewsContext.Provider>
+  );
+}
+
+export function useSavedViews() {
+  const context = useContext(SavedViewsContext);
+  if (context === undefined) {
+    throw new Error('useSavedViews must be used within a SavedViewsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react';
+import { useMembers } from './useMembers';
+import { usePipelines } from './usePipelines';
+import { useRelationOptions, RelationOption } from './useRelationOptions';
+
+const MEMBER_FIELDS = ['owner_id', 'assignee_id', 'user_id'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+const byId = (options: RelationOption[]) => {
+  const map: Record<string, string> = {};
+  options.forEach((option) => {
+    map[option.id] = option.label;
+  });
+  return map;
+};
+
+/**
+ * Turns raw audit values into text: member, stage and linked-record ids become names, dates
+ * are localized. Records deleted since are shown as such.
+ */
+export function useAuditFormatter() {
+  const { membersById } = useMembers();
+  const { pipelines, stagesById } = usePipelines();
+  const relationOptions = useRelationOptions();
+
+  const labels = useMemo(
+    () => ({
+      contact_id: byId(relationOptions.contacts),
+      company_id: byId(relationOptions.companies),
+      deal_id: byId(relationOptions.deals),
+      converted_contact_id: byId(relationOptions.contacts),
+      converted_company_id: byId(relationOptions.companies),
+      converted_deal_id: byId(relationOptions.deals),
+    }),
+    [relationOptions]
+  );
+
+  return useCallback(
+    (field: string, value: unknown): string => {
+      if (value === null || value === undefined || value === '') return '—';
+
+      if (typeof value === 'string') {
+        if (MEMBER_FIELDS.includes(field)) {
+          return membersById[value]?.profile?.email || 'a former member';
+        }
+        if (field === 'stage_id') return stagesById[value]?.name || 'a deleted stage';
+        if (field === 'pipeline_id') {
+          return pipelines.find((pipeline) => pipeline.id === value)?.name || 'a deleted pipeline';
+        }
+        if (field in labels) {
+          return labels[field as keyof typeof labels][value] || 'a deleted record';
+        }
+        if (ISO_DATE.test(value)) return new Date(`${value}T00:00:00`).toLocaleDateString();
+        if (ISO_TIMESTAMP.test(value)) return new Date(value).toLocaleString();
+        return value;
+      }
+
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      if (typeof value === 'number') return value.toLocaleString();
+      if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+        return value.join(', ');
+      }
+      return JSON.stringify(value);
+    },
+    [membersById, stagesById, pipelines, labels]
+  );
+}
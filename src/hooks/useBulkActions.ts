@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { AuditTable } from '../lib/supabase';
+import { BulkProgress, BulkResult, BulkUndo } from '../lib/bulk';
+import { describeRelated } from '../lib/trash';
+import { OwnedRecord } from '../lib/permissions';
+import { useAuth } from '../contexts/AuthContext';
+import { Selection } from './useSelection';
+
+type BulkPermission = 'edit' | 'delete';
+
+export type BulkStatus = {
+  // Set while a change or its undo is running
+  progress: { label: string; done: number; total: number } | null;
+  // The last change, until it is undone, dismissed or replaced by another
+  lastChange: { summary: string; undo: BulkUndo } | null;
+  error: string;
+};
+
+/**
+ * Runs bulk changes over the selected records of a list, keeping the last one so it can be
+ * undone. Records the user may not change are left out and mentioned in the summary.
+ */
+export function useBulkActions<T extends { id: string } & OwnedRecord>(
+  table: AuditTable,
+  selection: Selection<T>,
+  onChanged: () => void
+) {
+  const { can } = useAuth();
+  const [status, setStatus] = useState<BulkStatus>({ progress: null, lastChange: null, error: '' });
+
+  /**
+   * Runs a change or an undo. A change that stopped part way is still returned, so the records
+   * it did change can be undone.
+   */
+  const execute = async (
+    label: string,
+    action: (onProgress: BulkProgress) => Promise<BulkResult | void>
+  ) => {
+    let done = 0;
+    setStatus({ progress: { label, done: 0, total: 0 }, lastChange: null, error: '' });
+    const onProgress: BulkProgress = (current, total) => {
+      done = current;
+      setStatus((s) => ({ ...s, progress: { label, done: current, total } }));
+    };
+
+    const fail = (error: unknown, undoable: boolean) => {
+      console.error('Error running bulk action:', error);
+      setStatus((s) => ({
+        ...s,
+        error:
+          done > 0
+            ? `Stopped after ${done} records because of an error. Those changes were kept${
+                undoable ? ' and can be undone' : ''
+              }.`
+            : 'Could not apply the change.',
+      }));
+    };
+
+    try {
+      const result = await action(onProgress);
+      if (!result?.error) return result;
+      fail(result.error, done > 0);
+      return done > 0 ? result : undefined;
+    } catch (error) {
+      fail(error, false);
+    } finally {
+      setStatus((s) => ({ ...s, progress: null }));
+      onChanged();
+    }
+  };
+
+  /**
+   * `describe` turns a count such as "3 contacts" into the summary shown once the change is
+   * done, like "Moved 3 contacts to the trash".
+   */
+  const run = async (
+    describe: (count: string) => string,
+    permission: BulkPermission,
+    action: (records: T[], onProgress: BulkProgress) => Promise<BulkResult>
+  ) => {
+    const records = selection.selected.filter((record) => can(permission, record));
+    const skipped = selection.selected.length - records.length;
+    if (records.length === 0) {
+      setStatus({
+        progress: null,
+        lastChange: null,
+        error: 'You cannot change any of the selected records.',
+      });
+      return;
+    }
+
+    const result = await execute(permission === 'delete' ? 'Deleting' : 'Updating', (onProgress) =>
+      action(records, onProgress)
+    );
+    if (!result) return;
+    selection.clear();
+    // A change that stopped part way only describes the records it did change
+    const count = result.error ? result.done : records.length;
+    setStatus((s) => ({
+      ...s,
+      lastChange: {
+        summary: `${describe(describeRelated({ table, count }))}${
+          skipped > 0 ? `. ${skipped} you cannot change ${skipped === 1 ? 'was' : 'were'} left out` : ''
+        }.`,
+        undo: result.undo,
+      },
+    }));
+  };
+
+  const undo = async () => {
+    const change = status.lastChange;
+    if (!change) return;
+    await execute('Undoing', change.undo);
+  };
+
+  const dismiss = () => setStatus({ progress: null, lastChange: null, error: '' });
+
+  return { status, run, undo, dismiss };
+}
+
+export type BulkActions<T extends { id: string } & OwnedRecord> = ReturnType<
+  typeof useBulkActions<T>
+>;
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, CustomField, CustomFieldTable } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Custom fields of one record type in the active workspace, in display order. `table` can be
+ * left out to load the fields of every record type, as the settings do.
+ */
+export function useCustomFields(table?: CustomFieldTable) {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFields = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      let query = supabase
+        .from('custom_fields')
+        .select('*')
+        .order('position')
+        .order('created_at');
+      if (table) query = query.eq('table_name', table);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setFields(data || []);
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, table]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  return { fields, loading, refresh: fetchFields };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { DuplicateMatch, DuplicateTable } from '../lib/supabase';
+import { findDuplicates, matchValuesOf } from '../lib/duplicates';
+
+const CHECK_DELAY_MS = 400;
+
+/**
+ * Existing records that look like the one being entered, checked once typing pauses. Only the
+ * matched fields are watched, so editing notes or a title does not trigger a new check.
+ */
+export function useDuplicateCheck(
+  table: DuplicateTable,
+  values: Record<string, string | null>,
+  enabled: boolean
+) {
+  const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+  const key = enabled ? JSON.stringify(matchValuesOf(table, values)) : '';
+
+  useEffect(() => {
+    if (!key) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const found = await findDuplicates(table, JSON.parse(key));
+        if (!cancelled) setMatches(found);
+      } catch (error) {
+        console.error('Error checking for duplicates:', error);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [table, key]);
+
+  return matches;
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, EmailTemplate } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+// Email templates of the active workspace, by name.
+export function useEmailTemplates() {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const { data, error } = await supabase.from('email_templates').select('*').order('name');
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  return { templates, loading, refresh: fetchTemplates };
+}
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useQueryParam } from './useQueryParam';
+
+// DOM id of a record's card in a list, for scrolling to it.
+export const recordElementId = (id: string) => `record-${id}`;
+
+/**
+ * The record named by the `highlight` query parameter, used by lists without a detail page to
+ * point at a search result. Its card is scrolled into view once the list has loaded.
+ */
+export function useHighlightedRecord(loading: boolean) {
+  const [highlightedId] = useQueryParam('highlight', '');
+
+  useEffect(() => {
+    if (loading || !highlightedId) return;
+    document
+      .getElementById(recordElementId(highlightedId))
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, highlightedId]);
+
+  return highlightedId;
+}
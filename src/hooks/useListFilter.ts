@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from 'react';
+import { useNavigation } from '../contexts/NavigationContext';
+import { FilterGroup } from '../lib/supabase';
+import { parseFilter, serializeFilter } from '../lib/filters';
+
+/**
+ * Filter built with the filter builder, kept in the `filter` query parameter so a filtered
+ * list can be linked to and saved as a view. Changing it goes back to the first page.
+ */
+export function useListFilter() {
+  const { searchParams, setSearchParams } = useNavigation();
+  const raw = searchParams.get('filter');
+  const filter = useMemo(() => parseFilter(raw), [raw]);
+
+  const setFilter = useCallback(
+    (next: FilterGroup) => setSearchParams({ filter: serializeFilter(next), page: null }),
+    [setSearchParams]
+  );
+
+  return [filter, setFilter] as const;
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase, OrganizationMember } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Members of the active workspace with their profiles, for owner pickers and the team
+ * settings. RLS limits the query to workspaces the user belongs to, so it is filtered to the
+ * active one explicitly.
+ */
+export function useMembers() {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchMembers = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('*, profile:profiles(*)')
+        .eq('organization_id', organizationId)
+        .order('created_at');
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const membersById = useMemo(() => {
+    const map: Record<string, OrganizationMember> = {};
+    members.forEach((member) => {
+      map[member.user_id] = member;
+    });
+    return map;
+  }, [members]);
+
+  return { members, membersById, loading, refresh: fetchMembers };
+}
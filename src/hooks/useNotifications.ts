@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Notification } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+const NOTIFICATION_LIMIT = 30;
+
+/**
+ * The signed-in user's latest notifications in the active workspace. New ones arrive over
+ * realtime; RLS only delivers rows addressed to the user.
+ */
+export function useNotifications() {
+  const { user, organization } = useAuth();
+  const userId = user?.id;
+  const organizationId = organization?.id;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId || !organizationId) return;
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, organizationId]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    if (!userId || !organizationId) return;
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const notification = payload.new as Notification;
+          if (notification.organization_id !== organizationId) return;
+          setNotifications((current) => [notification, ...current].slice(0, NOTIFICATION_LIMIT));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, organizationId]);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', ids);
+
+      if (error) throw error;
+      setNotifications((current) =>
+        current.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n))
+      );
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  return { notifications, unreadCount, loading, markRead, refresh: fetchNotifications };
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigation } from '../contexts/NavigationContext';
+import { fetchAll, ListQueryParams, PAGE_SIZE, RangeQuery, SortDirection } from '../lib/paging';
+import { parseFilter } from '../lib/filters';
+
+const SEARCH_DELAY_MS = 300;
+
+type PagedListOptions<T, S extends string> = {
+  // Used in error messages, e.g. "contacts".
+  label: string;
+  sorts: readonly S[];
+  defaultSort: NoInfer<S>;
+  defaultDirection: SortDirection;
+  // Builds the searched, filtered and sorted query, selected with `{ count: 'exact' }`; the hook adds
+  // the page range.
+  buildQuery: (params: ListQueryParams<S>) => RangeQuery<T>;
+  // False while something the query depends on, such as the fields it filters by, is still
+  // loading; the list waits for it.
+  ready?: boolean;
+};
+
+/**
+ * One page of a server-side searched, filtered and sorted list. The search term, filter,
+ * segment, sort and page live in the `search`, `filter`, `segment`, `sort`, `dir` and `page`
+ * query parameters, so a list position can be linked to; changing the search, filter or sort
+ * goes back to the first page.
+ */
+export function usePagedList<T, S extends string>({
+  label,
+  sorts,
+  defaultSort,
+  defaultDirection,
+  buildQuery,
+  ready = true,
+}: PagedListOptions<T, S>) {
+  const { searchParams, setSearchParams } = useNavigation();
+  const search = searchParams.get('search') || '';
+  const filterParam = searchParams.get('filter');
+  const segment = searchParams.get('segment');
+  const sortParam = searchParams.get('sort') as S | null;
+  const isSorted = sortParam !== null && sorts.includes(sortParam);
+  const sort = isSorted ? sortParam : defaultSort;
+  const direction: SortDirection = isSorted
+    ? searchParams.get('dir') === 'desc'
+      ? 'desc'
+      : 'asc'
+    : defaultDirection;
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+
+  const [rows, setRows] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const buildQueryRef = useRef(buildQuery);
+  buildQueryRef.current = buildQuery;
+  const requestRef = useRef(0);
+  const lastSearchRef = useRef(search);
+
+  const fetchRows = useCallback(async () => {
+    if (!ready) return;
+    const request = ++requestRef.current;
+    const from = (page - 1) * PAGE_SIZE;
+    try {
+      const { data, count, error } = await buildQueryRef
+        .current({
+          search: search.trim(),
+          filter: parseFilter(filterParam),
+          segment,
+          sort,
+          ascending: direction === 'asc',
+        })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (request !== requestRef.current) return;
+      setRows(data || []);
+      setTotal(count || 0);
+
+      // The last rows of the page were deleted or filtered away since it was opened
+      if ((data || []).length === 0 && page > 1 && count) {
+        setSearchParams({ page: String(Math.ceil(count / PAGE_SIZE)) });
+      }
+    } catch (error) {
+      console.error(`Error fetching ${label}:`, error);
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [ready, label, search, filterParam, segment, sort, direction, page, setSearchParams]);
+
+  // Typing is debounced; paging and sorting fetch straight away.
+  useEffect(() => {
+    const delay = search === lastSearchRef.current ? 0 : SEARCH_DELAY_MS;
+    lastSearchRef.current = search;
+    const timer = setTimeout(fetchRows, delay);
+    return () => clearTimeout(timer);
+  }, [fetchRows, search]);
+
+  const setSearch = useCallback(
+    (term: string) => setSearchParams({ search: term, page: null }),
+    [setSearchParams]
+  );
+
+  const setSort = useCallback(
+    (next: S, nextDirection: SortDirection) =>
+      setSearchParams(
+        next === defaultSort && nextDirection === defaultDirection
+          ? { sort: null, dir: null, page: null }
+          : { sort: next, dir: nextDirection, page: null }
+      ),
+    [defaultSort, defaultDirection, setSearchParams]
+  );
+
+  // Ascending, then descending, then back to the default order.
+  const toggleSort = useCallback(
+    (column: S) => {
+      if (column !== sort) setSort(column, 'asc');
+      else if (direction === 'asc') setSort(column, 'desc');
+      else if (isSorted) setSort(defaultSort, defaultDirection);
+      else setSort(column, 'asc');
+    },
+    [isSorted, sort, direction, defaultSort, defaultDirection, setSort]
+  );
+
+  const setPage = useCallback(
+    (next: number) => setSearchParams({ page: next > 1 ? String(next) : null }),
+    [setSearchParams]
+  );
+
+  const loadAll = useCallback(
+    () =>
+      fetchAll(() =>
+        buildQueryRef.current({
+          search: search.trim(),
+          filter: parseFilter(filterParam),
+          segment,
+          sort,
+          ascending: direction === 'asc',
+        })
+      ),
+    [search, filterParam, segment, sort, direction]
+  );
+
+  return {
+    rows,
+    total,
+    loading,
+    refresh: fetchRows,
+    loadAll,
+    search,
+    setSearch,
+    sort,
+    direction,
+    setSort,
+    toggleSort,
+    page,
+    setPage,
+  };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase, Pipeline, PipelineStage } from '../lib/supabase';
+
+export function usePipelines() {
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPipelines = useCallback(async () => {
+    try {
+      const query = () =>
+        supabase
+          .from('pipelines')
+          .select('*, stages:pipeline_stages(*)')
+          .order('position')
+          .order('position', { referencedTable: 'pipeline_stages' });
+
+      let { data, error } = await query();
+      if (error) throw error;
+
+      // New users start with the standard pipeline.
+      if (!data || data.length === 0) {
+        const { error: createError } = await supabase.rpc('create_default_pipeline');
+        if (createError) throw createError;
+        ({ data, error } = await query());
+        if (error) throw error;
+      }
+
+      setPipelines(data || []);
+    } catch (error) {
+      console.error('Error fetching pipelines:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPipelines();
+  }, [fetchPipelines]);
+
+  const stagesById = useMemo(() => {
+    const map: Record<string, PipelineStage> = {};
+    pipelines.forEach((pipeline) => {
+      pipeline.stages.forEach((stage) => {
+        map[stage.id] = stage;
+      });
+    });
+    return map;
+  }, [pipelines]);
+
+  const defaultPipeline = pipelines.find((pipeline) => pipeline.is_default) || pipelines[0];
+
+  return { pipelines, stagesById, defaultPipeline, loading, refresh: fetchPipelines };
+}
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useNavigation } from '../contexts/NavigationContext';
+
+/**
+ * Reads and writes one query-string parameter of the current route. The default value is
+ * left out of the URL, and values outside `allowed` fall back to the default.
+ */
+export function useQueryParam<T extends string = string>(
+  key: string,
+  defaultValue: NoInfer<T>,
+  allowed?: readonly T[]
+) {
+  const { searchParams, setSearchParams } = useNavigation();
+  const raw = searchParams.get(key);
+  const value =
+    raw !== null && (!allowed || (allowed as readonly string[]).includes(raw))
+      ? (raw as T)
+      : defaultValue;
+
+  const setValue = useCallback(
+    (next: T) => setSearchParams({ [key]: next === defaultValue ? null : next }),
+    [key, defaultValue, setSearchParams]
+  );
+
+  return [value, setValue] as const;
+}
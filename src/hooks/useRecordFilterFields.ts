@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { TaggableTable } from '../lib/supabase';
+import { FilterOption } from '../lib/filters';
+import { TaggableRecord, recordFilterFields } from '../lib/segments';
+import { useMembers } from './useMembers';
+import { useCustomFields } from './useCustomFields';
+import { useTags } from './useTags';
+
+/**
+ * Filter fields of contacts, companies or deals, including tags, custom fields and the owner.
+ * `loading` stays true until the custom fields are known, as conditions on fields that are not
+ * known yet are left out of a filter. Pass memoized `stageOptions` to keep `fields` stable.
+ */
+export function useRecordFilterFields<T extends TaggableRecord>(
+  table: TaggableTable,
+  stageOptions?: FilterOption[]
+) {
+  const { members } = useMembers();
+  const { fields: customFields, loading } = useCustomFields(table);
+  const { tags } = useTags();
+
+  const fields = useMemo(
+    () => recordFilterFields<T>(table, { members, customFields, tags, stageOptions }),
+    [table, members, customFields, tags, stageOptions]
+  );
+
+  return { fields, members, customFields, tags, loading };
+}
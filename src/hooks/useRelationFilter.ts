@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { useNavigation } from '../contexts/NavigationContext';
+import { RelationLinks } from '../lib/relations';
+
+/**
+ * Related-record filter kept in the `contact`, `company` and `deal` query parameters, so a
+ * filtered task list or activity log can be linked to.
+ */
+export function useRelationFilter() {
+  const { searchParams, setSearchParams } = useNavigation();
+  const filter: RelationLinks = {
+    contact_id: searchParams.get('contact') || '',
+    company_id: searchParams.get('company') || '',
+    deal_id: searchParams.get('deal') || '',
+  };
+
+  const setFilter = useCallback(
+    (next: RelationLinks) =>
+      setSearchParams({
+        contact: next.contact_id || null,
+        company: next.company_id || null,
+        deal: next.deal_id || null,
+      }),
+    [setSearchParams]
+  );
+
+  return [filter, setFilter] as const;
+}
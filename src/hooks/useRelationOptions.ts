@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { fullName } from '../lib/export';
+
+export type RelationOption = {
+  id: string;
+  label: string;
+  detail?: string | null;
+  companyId?: string | null;
+  contactId?: string | null;
+};
+
+export type RelationOptions = {
+  contacts: RelationOption[];
+  companies: RelationOption[];
+  deals: RelationOption[];
+};
+
+/**
+ * Loads the records tasks and activities can be linked to, in the shape the relation pickers
+ * use. Contacts and deals carry their company name so same-named records can be told apart.
+ */
+export function useRelationOptions() {
+  const [options, setOptions] = useState<RelationOptions>({
+    contacts: [],
+    companies: [],
+    deals: [],
+  });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [contactsResult, companiesResult, dealsResult] = await Promise.all([
+          supabase
+            .from('contacts')
+            .select('id, first_name, last_name, company_id, company:companies(name)')
+            .order('first_name'),
+          supabase.from('companies').select('id, name').order('name'),
+          supabase
+            .from('deals')
+            .select('id, title, company_id, contact_id, company:companies(name)')
+            .order('title'),
+        ]);
+
+        if (contactsResult.error) throw contactsResult.error;
+        if (companiesResult.error) throw companiesResult.error;
+        if (dealsResult.error) throw dealsResult.error;
+
+        const companyName = (company: unknown) =>
+          (company as { name: string } | null)?.name ?? null;
+
+        setOptions({
+          contacts: (contactsResult.data || []).map((contact) => ({
+            id: contact.id,
+            label: fullName(contact) || '',
+            detail: companyName(contact.company),
+            companyId: contact.company_id,
+          })),
+          companies: (companiesResult.data || []).map((company) => ({
+            id: company.id,
+            label: company.name,
+          })),
+          deals: (dealsResult.data || []).map((deal) => ({
+            id: deal.id,
+            label: deal.title,
+            detail: companyName(deal.company),
+            companyId: deal.company_id,
+            contactId: deal.contact_id,
+          })),
+        });
+      } catch (error) {
+        console.error('Error fetching related records:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOptions();
+  }, []);
+
+  return { ...options, loading };
+}
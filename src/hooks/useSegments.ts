@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Segment, TaggableTable } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+// Segments of one record type in the active workspace, by name.
+export function useSegments(table: TaggableTable) {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSegments = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const { data, error } = await supabase
+        .from('segments')
+        .select('*')
+        .eq('table_name', table)
+        .order('name');
+      if (error) throw error;
+      setSegments(data || []);
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, table]);
+
+  useEffect(() => {
+    fetchSegments();
+  }, [fetchSegments]);
+
+  return { segments, loading, refresh: fetchSegments };
+}
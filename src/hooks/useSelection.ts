@@ -0,0 +1,40 @@
+import { useState } from 'react';
+
+/**
+ * Checkbox selection over the rows on screen. Ids of rows that leave the screen are kept, but
+ * only rows still shown count as selected.
+ */
+export function useSelection<T extends { id: string }>(rows: T[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const selected = rows.filter((row) => selectedIds.has(row.id));
+  const allSelected = rows.length > 0 && selected.length === rows.length;
+
+  const toggle = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(rows.map((row) => row.id)));
+  };
+
+  const clear = () => setSelectedIds(new Set());
+
+  return {
+    selected,
+    isSelected: (id: string) => selectedIds.has(id),
+    allSelected,
+    // For the indeterminate state of a select-all checkbox
+    someSelected: selected.length > 0 && !allSelected,
+    toggle,
+    toggleAll,
+    clear,
+  };
+}
+
+export type Selection<T extends { id: string }> = ReturnType<typeof useSelection<T>>;
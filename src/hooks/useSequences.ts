@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, Sequence } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+// Sequences of the active workspace by name, with their steps in order.
+export function useSequences() {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSequences = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const { data, error } = await supabase
+        .from('sequences')
+        .select('*, steps:sequence_steps(*)')
+        .order('name')
+        .order('position', { referencedTable: 'sequence_steps' });
+      if (error) throw error;
+      setSequences(data || []);
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchSequences();
+  }, [fetchSequences]);
+
+  return { sequences, loading, refresh: fetchSequences };
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase, Tag } from '../lib/supabase';
+import { nextTagColor } from '../lib/tags';
+import { useAuth } from '../contexts/AuthContext';
+
+// Tags of the active workspace by name, for pickers, filters and the tag settings.
+export function useTags() {
+  const { organization } = useAuth();
+  const organizationId = organization?.id;
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTags = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const { data, error } = await supabase.from('tags').select('*').order('name');
+      if (error) throw error;
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const tagsById = useMemo(() => {
+    const map: Record<string, Tag> = {};
+    tags.forEach((tag) => {
+      map[tag.id] = tag;
+    });
+    return map;
+  }, [tags]);
+
+  const createTag = async (name: string) => {
+    const { data, error } = await supabase
+      .from('tags')
+      .insert([{ name: name.trim(), color: nextTagColor(tags) }])
+      .select()
+      .single();
+    if (error) throw error;
+    setTags((current) => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data as Tag;
+  };
+
+  return { tags, tagsById, loading, createTag, refresh: fetchTags };
+}
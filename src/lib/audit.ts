@@ -0,0 +1,104 @@
+import { AuditAction, AuditLogEntry, AuditTable } from './supabase';
+
+export const AUDIT_TABLES: { id: AuditTable; label: string; singular: string }[] = [
+  { id: 'leads', label: 'Leads', singular: 'lead' },
+  { id: 'contacts', label: 'Contacts', singular: 'contact' },
+  { id: 'companies', label: 'Companies', singular: 'company' },
+  { id: 'deals', label: 'Deals', singular: 'deal' },
+  { id: 'tasks', label: 'Tasks', singular: 'task' },
+  { id: 'activities', label: 'Activities', singular: 'activity' },
+];
+
+export const AUDIT_ACTIONS: { id: AuditAction; label: string; verb: string }[] = [
+  { id: 'insert', label: 'Created', verb: 'created' },
+  { id: 'update', label: 'Updated', verb: 'updated' },
+  { id: 'delete', label: 'Trashed', verb: 'moved to the trash' },
+  { id: 'restore', label: 'Restored', verb: 'restored' },
+  { id: 'purge', label: 'Purged', verb: 'permanently deleted' },
+];
+
+// Bookkeeping columns that say nothing a reader of the history cares about. Deal positions
+// change on every drag within a board column.
+const HIDDEN_FIELDS = new Set([
+  'id',
+  'organization_id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  'position',
+  'deleted_at',
+  'deleted_by',
+]);
+
+export type FieldChange = {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+export const singularOf = (table: AuditTable) =>
+  AUDIT_TABLES.find((t) => t.id === table)?.singular || table;
+
+export const verbOf = (action: AuditAction) =>
+  AUDIT_ACTIONS.find((a) => a.id === action)?.verb || action;
+
+// Custom values are listed one field at a time, as `custom_fields.<key>`.
+const CUSTOM_PREFIX = 'custom_fields.';
+
+// `expected_close_date` -> "Expected close date", `company_id` -> "Company",
+// `custom_fields.contract_term` -> "Contract term".
+export const fieldLabel = (field: string) => {
+  const words = field
+    .replace(CUSTOM_PREFIX, '')
+    .replace(/_id$/, '')
+    .replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Entries that carry the row as it was before the change rather than after.
+export const isRemoval = (action: AuditAction) => action === 'delete' || action === 'purge';
+
+type Values = Record<string, unknown>;
+
+const asValues = (value: unknown): Values =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Values) : {};
+
+// Replaces `custom_fields` with one field per custom value. An update carries every custom
+// value, so keys whose value stayed the same are dropped from it.
+const flattenCustomFields = (values: Values, other: Values, isUpdate: boolean): Values => {
+  if (!('custom_fields' in values)) return values;
+  const { custom_fields: custom, ...rest } = values;
+  const current = asValues(custom);
+  const previous = asValues(other.custom_fields);
+  const keys = isUpdate
+    ? [...new Set([...Object.keys(current), ...Object.keys(previous)])]
+    : Object.keys(current);
+  keys
+    .filter((key) => !isUpdate || JSON.stringify(current[key]) !== JSON.stringify(previous[key]))
+    .forEach((key) => {
+      rest[`${CUSTOM_PREFIX}${key}`] = current[key] ?? null;
+    });
+  return rest;
+};
+
+/**
+ * The field-level changes of an entry. Every action but an update carries the whole row, so
+ * only fields that had a value are listed for them.
+ */
+export const changesOf = (entry: AuditLogEntry): FieldChange[] => {
+  const isUpdate = entry.action === 'update';
+  const rawOld = entry.old_values || {};
+  const rawNew = entry.new_values || {};
+  const oldValues = flattenCustomFields(rawOld, rawNew, isUpdate);
+  const newValues = flattenCustomFields(rawNew, rawOld, isUpdate);
+  const fields = Object.keys(isRemoval(entry.action) ? oldValues : newValues);
+
+  return fields
+    .filter((field) => !HIDDEN_FIELDS.has(field))
+    .filter((field) => {
+      if (entry.action === 'update') return true;
+      const value = isRemoval(entry.action) ? oldValues[field] : newValues[field];
+      return value !== null && value !== '';
+    })
+    .map((field) => ({ field, oldValue: oldValues[field], newValue: newValues[field] }));
+};
@@ -0,0 +1,84 @@
+import { Deal } from './supabase';
+
+export const POSITION_GAP = 1024;
+
+// Below this gap midpoints stop being distinguishable, so the column is renumbered.
+const MIN_POSITION_GAP = 1e-6;
+
+export type PositionUpdate = {
+  id: string;
+  stage_id: string;
+  position: number;
+};
+
+export const sortByPosition = (deals: Deal[]) =>
+  [...deals].sort(
+    (a, b) => a.position - b.position || b.created_at.localeCompare(a.created_at)
+  );
+
+export const positionBetween = (before?: number, after?: number) => {
+  if (before === undefined && after === undefined) return 0;
+  if (before === undefined) return (after as number) - POSITION_GAP;
+  if (after === undefined) return before + POSITION_GAP;
+  return (before + after) / 2;
+};
+
+/**
+ * Moves a deal to `index` within the stage `stageId` and returns the reordered deals together
+ * with the rows that need persisting. `index` is relative to the target column as currently
+ * rendered, i.e. it still includes the moved card when reordering within the same column.
+ */
+export const moveDeal = (
+  deals: Deal[],
+  dealId: string,
+  stageId: string,
+  index: number
+): { deals: Deal[]; updates: PositionUpdate[] } | null => {
+  const deal = deals.find((d) => d.id === dealId);
+  if (!deal) return null;
+
+  const column = sortByPosition(deals.filter((d) => d.stage_id === stageId));
+  const currentIndex = column.findIndex((d) => d.id === dealId);
+  const others = column.filter((d) => d.id !== dealId);
+
+  let targetIndex = index;
+  if (currentIndex !== -1 && currentIndex < index) targetIndex -= 1;
+  targetIndex = Math.max(0, Math.min(targetIndex, others.length));
+
+  if (currentIndex === targetIndex && deal.stage_id === stageId) return null;
+
+  const before = others[targetIndex - 1]?.position;
+  const after = others[targetIndex]?.position;
+  let updates: PositionUpdate[];
+
+  if (before !== undefined && after !== undefined && after - before < MIN_POSITION_GAP) {
+    const reordered = [...others];
+    reordered.splice(targetIndex, 0, deal);
+    updates = reordered.map((d, i) => ({
+      id: d.id,
+      stage_id: stageId,
+      position: (i + 1) * POSITION_GAP,
+    }));
+  } else {
+    updates = [{ id: dealId, stage_id: stageId, position: positionBetween(before, after) }];
+  }
+
+  const byId = new Map(updates.map((u) => [u.id, u]));
+  return {
+    deals: deals.map((d) => {
+      const update = byId.get(d.id);
+      return update ? { ...d, stage_id: update.stage_id, position: update.position } : d;
+    }),
+    updates,
+  };
+};
+
+export const topPosition = (deals: Deal[], stageId: string) => {
+  const column = sortByPosition(deals.filter((d) => d.stage_id === stageId));
+  return positionBetween(undefined, column[0]?.position);
+};
+
+export const bottomPosition = (deals: Deal[], stageId: string) => {
+  const column = sortByPosition(deals.filter((d) => d.stage_id === stageId));
+  return column[column.length - 1]?.position;
+};
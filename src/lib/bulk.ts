@@ -0,0 +1,282 @@
+import { supabase, AuditTable, Deal, Tag, TaggableTable } from './supabase';
+import { addTagToRecords, removeTagFromRecords } from './tags';
+import { positionBetween, sortByPosition } from './board';
+
+// Ids sent per request, which keeps `id=in.(...)` filters well within URL length limits.
+export const BULK_BATCH_SIZE = 100;
+
+export type BulkProgress = (done: number, total: number) => void;
+
+// Reverts a bulk change, reporting progress the same way.
+export type BulkUndo = (onProgress: BulkProgress) => Promise<void>;
+
+/**
+ * A bulk change stops at the first batch that fails, with the error in `error`. The batches
+ * before it are kept, `done` counts their records and `undo` reverts exactly those.
+ */
+export type BulkResult = { undo: BulkUndo; done: number; error?: unknown };
+
+type BulkRecord = { id: string };
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  );
+
+/**
+ * Runs `step` over the ids in batches, one request at a time, so progress can be shown and a
+ * failure stops the remaining batches.
+ */
+async function inBatches(
+  ids: string[],
+  step: (batch: string[]) => Promise<void>,
+  onProgress: BulkProgress,
+  offset = 0,
+  total = ids.length
+) {
+  let done = offset;
+  onProgress(done, total);
+  for (const batch of chunk(ids, BULK_BATCH_SIZE)) {
+    await step(batch);
+    done += batch.length;
+    onProgress(done, total);
+  }
+}
+
+// Runs the ids of several groups as one job, with progress counted across all of them.
+async function inGroups<G extends { ids: string[] }>(
+  groups: G[],
+  step: (group: G, batch: string[]) => Promise<void>,
+  onProgress: BulkProgress
+) {
+  const total = groups.reduce((sum, group) => sum + group.ids.length, 0);
+  let offset = 0;
+  for (const group of groups) {
+    await inBatches(group.ids, (batch) => step(group, batch), onProgress, offset, total);
+    offset += group.ids.length;
+  }
+}
+
+/**
+ * Applies `apply` to the ids in batches. The undo runs `revert` over the batches that went
+ * through, even when a later one failed.
+ */
+async function applyInBatches(
+  ids: string[],
+  apply: (batch: string[]) => Promise<void>,
+  revert: (done: string[], onProgress: BulkProgress) => Promise<void>,
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  const done: string[] = [];
+  let error: unknown;
+  try {
+    await inBatches(
+      ids,
+      async (batch) => {
+        await apply(batch);
+        done.push(...batch);
+      },
+      onProgress
+    );
+  } catch (batchError) {
+    error = batchError;
+  }
+  return { undo: (onUndoProgress) => revert(done, onUndoProgress), done: done.length, error };
+}
+
+const updateIds = async (table: string, ids: string[], changes: Record<string, unknown>) => {
+  const { error } = await supabase
+    .from(table)
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+/**
+ * Applies the same changes to every record. The undo puts back each record's previous values,
+ * with one request per batch of records that had the same ones.
+ */
+export async function bulkUpdate<T extends BulkRecord>(
+  table: AuditTable,
+  records: T[],
+  changes: Partial<Record<keyof T & string, unknown>>,
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  const keys = Object.keys(changes) as (keyof T & string)[];
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+
+  return applyInBatches(
+    records.map((record) => record.id),
+    (ids) => updateIds(table, ids, changes),
+    (done, onUndoProgress) => {
+      const previous = new Map<string, { values: Record<string, unknown>; ids: string[] }>();
+      done.forEach((id) => {
+        const record = recordsById.get(id)!;
+        const values = Object.fromEntries(keys.map((key) => [key, record[key] ?? null]));
+        const signature = JSON.stringify(values);
+        const entry = previous.get(signature) || { values, ids: [] };
+        entry.ids.push(id);
+        previous.set(signature, entry);
+      });
+      return inGroups(
+        [...previous.values()],
+        (group, batch) => updateIds(table, batch, group.values),
+        onUndoProgress
+      );
+    },
+    onProgress
+  );
+}
+
+/**
+ * Moves deals to a stage, after the deals already in it and in their current order, with the
+ * stage's default probability. Each deal gets its own position, so there is one request per
+ * deal. The undo puts back each deal's stage, probability and position.
+ */
+export async function bulkMoveDeals(
+  records: Deal[],
+  stageId: string,
+  probability: number,
+  lastPosition: number | undefined,
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+  const positions = new Map<string, number>();
+  let position = lastPosition;
+  sortByPosition(records).forEach((record) => {
+    position = positionBetween(position, undefined);
+    positions.set(record.id, position);
+  });
+
+  const updateEach = async (ids: string[], values: (deal: Deal) => Partial<Deal>) => {
+    const updatedAt = new Date().toISOString();
+    const results = await Promise.all(
+      ids.map((id) =>
+        supabase
+          .from('deals')
+          .update({ ...values(recordsById.get(id)!), updated_at: updatedAt })
+          .eq('id', id)
+      )
+    );
+    const failed = results.find((result) => result.error);
+    if (failed?.error) throw failed.error;
+  };
+
+  return applyInBatches(
+    records.map((record) => record.id),
+    (ids) =>
+      updateEach(ids, (deal) => ({
+        stage_id: stageId,
+        probability,
+        position: positions.get(deal.id)!,
+      })),
+    (done, onUndoProgress) =>
+      inBatches(
+        done,
+        (ids) =>
+          updateEach(ids, (deal) => ({
+            stage_id: deal.stage_id,
+            probability: deal.probability,
+            position: deal.position,
+          })),
+        onUndoProgress
+      ),
+    onProgress
+  );
+}
+
+// Moves the records to the trash; the undo restores them.
+export async function bulkDelete(
+  table: AuditTable,
+  records: BulkRecord[],
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  return applyInBatches(
+    records.map((record) => record.id),
+    async (batch) => {
+      const { error } = await supabase.from(table).delete().in('id', batch);
+      if (error) throw error;
+    },
+    (done, onUndoProgress) =>
+      inBatches(
+        done,
+        async (batch) => {
+          const { error } = await supabase.rpc('restore_records', { p_table: table, p_ids: batch });
+          if (error) throw error;
+        },
+        onUndoProgress
+      ),
+    onProgress
+  );
+}
+
+/**
+ * Adds a tag to, or removes it from, every record. Only records whose tags change are sent, so
+ * the undo reverts exactly those.
+ */
+export async function bulkTag(
+  table: TaggableTable,
+  records: (BulkRecord & { tags?: Tag[] })[],
+  tagId: string,
+  add: boolean,
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  const ids = records
+    .filter((record) => !!record.tags?.some((tag) => tag.id === tagId) !== add)
+    .map((record) => record.id);
+  const apply = (batch: string[]) => addTagToRecords(table, batch, tagId);
+  const revert = (batch: string[]) => removeTagFromRecords(table, batch, tagId);
+
+  return applyInBatches(
+    ids,
+    add ? apply : revert,
+    (done, onUndoProgress) => inBatches(done, add ? revert : apply, onUndoProgress),
+    onProgress
+  );
+}
+
+/**
+ * Enrolls the contacts in a sequence, leaving out those already in it. The undo removes the
+ * enrollments it created.
+ */
+export async function bulkEnroll(
+  sequenceId: string,
+  records: BulkRecord[],
+  onProgress: BulkProgress
+): Promise<BulkResult> {
+  const created: string[] = [];
+
+  return applyInBatches(
+    records.map((record) => record.id),
+    async (batch) => {
+      const { data: existing, error: existingError } = await supabase
+        .from('sequence_enrollments')
+        .select('contact_id')
+        .eq('sequence_id', sequenceId)
+        .eq('status', 'active')
+        .in('contact_id', batch);
+      if (existingError) throw existingError;
+
+      const enrolled = new Set((existing || []).map((row: { contact_id: string }) => row.contact_id));
+      const rows = batch
+        .filter((contactId) => !enrolled.has(contactId))
+        .map((contactId) => ({ sequence_id: sequenceId, contact_id: contactId }));
+      if (rows.length === 0) return;
+
+      const { data, error } = await supabase.from('sequence_enrollments').insert(rows).select('id');
+      if (error) throw error;
+      created.push(...(data || []).map((row: { id: string }) => row.id));
+    },
+    // Only the enrollments created by batches that went through are in `created`
+    (_done, onUndoProgress) =>
+      inBatches(
+        created,
+        async (batch) => {
+          const { error } = await supabase.from('sequence_enrollments').delete().in('id', batch);
+          if (error) throw error;
+        },
+        onUndoProgress
+      ),
+    onProgress
+  );
+}
@@ -0,0 +1,194 @@
+import { Activity, Deal, PipelineStage, Task } from './supabase';
+
+export type CalendarMode = 'month' | 'week' | 'day' | 'agenda';
+
+export const CALENDAR_MODES: { id: CalendarMode; label: string }[] = [
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'day', label: 'Day' },
+  { id: 'agenda', label: 'Agenda' },
+];
+
+type ItemBase = {
+  // Unique across kinds, since a task and a deal can share an id
+  key: string;
+  title: string;
+  day: string;
+  // Completed tasks and won or lost deals
+  done: boolean;
+};
+
+// Tasks and close dates fall on a whole day; meetings also have a time, in minutes after midnight.
+export type CalendarItem =
+  | (ItemBase & { kind: 'task'; minutes: null; record: Task })
+  | (ItemBase & { kind: 'meeting'; minutes: number; record: Activity })
+  | (ItemBase & { kind: 'close'; minutes: null; record: Deal });
+
+export type CalendarItemKind = CalendarItem['kind'];
+
+export const CALENDAR_ITEM_LABELS: Record<CalendarItemKind, string> = {
+  task: 'Task',
+  meeting: 'Meeting',
+  close: 'Expected close',
+};
+
+// Days are handled as `YYYY-MM-DD` strings in the browser's time zone, like forecast periods.
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const todayKey = () => dayKey(new Date());
+
+export const addDays = (day: string, days: number) => {
+  const date = parseDay(day);
+  date.setDate(date.getDate() + days);
+  return dayKey(date);
+};
+
+// Weeks start on Sunday.
+export const startOfWeek = (day: string) => addDays(day, -parseDay(day).getDay());
+
+const startOfMonth = (day: string) => `${day.slice(0, 7)}-01`;
+
+// The days shown for `day` in a mode: whole weeks covering its month, its week, or just itself.
+export const visibleDays = (mode: CalendarMode, day: string) => {
+  let first = day;
+  let count = 1;
+  if (mode === 'month') {
+    const monthStart = parseDay(startOfMonth(day));
+    const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0);
+    first = startOfWeek(dayKey(monthStart));
+    count = Math.ceil((monthStart.getDay() + monthEnd.getDate()) / 7) * 7;
+  } else if (mode === 'week') {
+    first = startOfWeek(day);
+    count = 7;
+  }
+  return Array.from({ length: count }, (_, i) => addDays(first, i));
+};
+
+// The day a step back or forward lands on; months step from the 1st so short months are kept.
+export const shiftDay = (mode: CalendarMode, day: string, direction: 1 | -1) => {
+  if (mode === 'month') {
+    const date = parseDay(startOfMonth(day));
+    date.setMonth(date.getMonth() + direction);
+    return dayKey(date);
+  }
+  return addDays(day, (mode === 'week' ? 7 : 1) * direction);
+};
+
+export const periodTitle = (mode: CalendarMode, day: string) => {
+  if (mode === 'month') {
+    return parseDay(day).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  }
+  if (mode === 'week') {
+    const days = visibleDays('week', day);
+    const format = (value: string, options: Intl.DateTimeFormatOptions) =>
+      parseDay(value).toLocaleDateString(undefined, options);
+    return `${format(days[0], { month: 'short', day: 'numeric' })} – ${format(days[6], {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })}`;
+  }
+  return parseDay(day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export const formatMinutes = (minutes: number) =>
+  new Date(2000, 0, 1, 0, minutes).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Due dates are picked as plain dates and stored at midnight UTC, so their date part is the day.
+const taskItem = (task: Task): CalendarItem => ({
+  kind: 'task',
+  key: `task-${task.id}`,
+  title: task.title,
+  day: (task.due_date as string).slice(0, 10),
+  minutes: null,
+  done: task.status === 'completed',
+  record: task,
+});
+
+const meetingItem = (activity: Activity): CalendarItem => {
+  const date = new Date(activity.activity_date);
+  return {
+    kind: 'meeting',
+    key: `meeting-${activity.id}`,
+    title: activity.subject,
+    day: dayKey(date),
+    minutes: date.getHours() * 60 + date.getMinutes(),
+    done: false,
+    record: activity,
+  };
+};
+
+const closeItem = (deal: Deal, stagesById: Record<string, PipelineStage>): CalendarItem => ({
+  kind: 'close',
+  key: `close-${deal.id}`,
+  title: deal.title,
+  day: deal.expected_close_date as string,
+  minutes: null,
+  done: (stagesById[deal.stage_id]?.outcome ?? 'open') !== 'open',
+  record: deal,
+});
+
+// All items in day order; whole-day items come before meetings, which follow by time.
+export const toCalendarItems = (
+  tasks: Task[],
+  meetings: Activity[],
+  deals: Deal[],
+  stagesById: Record<string, PipelineStage>
+) =>
+  [
+    ...tasks.filter((task) => task.due_date).map(taskItem),
+    ...meetings.map(meetingItem),
+    ...deals.filter((deal) => deal.expected_close_date).map((deal) => closeItem(deal, stagesById)),
+  ].sort(
+    (a, b) =>
+      a.day.localeCompare(b.day) ||
+      (a.minutes ?? -1) - (b.minutes ?? -1) ||
+      a.title.localeCompare(b.title)
+  );
+
+export const groupByDay = (items: CalendarItem[]) => {
+  const groups: Record<string, CalendarItem[]> = {};
+  items.forEach((item) => {
+    if (!groups[item.day]) groups[item.day] = [];
+    groups[item.day].push(item);
+  });
+  return groups;
+};
+
+export type Reschedule =
+  | { table: 'tasks'; values: Pick<Task, 'due_date' | 'updated_at'> }
+  | { table: 'activities'; values: Pick<Activity, 'activity_date'> }
+  | { table: 'deals'; values: Pick<Deal, 'expected_close_date' | 'updated_at'> };
+
+/**
+ * The update that moves an item to `day`. Meetings keep their time unless dropped on an `hour`
+ * of the time grid, which keeps the minutes past the hour.
+ */
+export const rescheduleItem = (item: CalendarItem, day: string, hour?: number): Reschedule => {
+  const updatedAt = new Date().toISOString();
+  switch (item.kind) {
+    case 'task':
+      return { table: 'tasks', values: { due_date: day, updated_at: updatedAt } };
+    case 'close':
+      return { table: 'deals', values: { expected_close_date: day, updated_at: updatedAt } };
+    case 'meeting': {
+      const minutes = hour === undefined ? item.minutes : hour * 60 + (item.minutes % 60);
+      const date = parseDay(day);
+      date.setMinutes(minutes);
+      return { table: 'activities', values: { activity_date: date.toISOString() } };
+    }
+  }
+};
@@ -0,0 +1,77 @@
+// The cells of a row and the line of the file it starts on, counting from 1.
+export type ParsedRow = {
+  cells: string[];
+  line: number;
+};
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks.
+ * A leading byte order mark is ignored and blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter = ','): ParsedRow[] => {
+  const rows: ParsedRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push({ cells: row, line: rowLine });
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        // Line breaks inside a quoted field still move later rows down
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+// Semicolons are common in CSVs exported by European spreadsheet locales.
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > count(',') && count('\t') >= count(';')) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+};
+
+const escapeField = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) =>
+  rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
@@ -0,0 +1,135 @@
+import { CustomField, CustomFieldTable, CustomFieldType, CustomFieldValues } from './supabase';
+import { ExportColumn } from './export';
+import { FilterField } from './filters';
+
+export const CUSTOM_FIELD_TABLES: { id: CustomFieldTable; label: string }[] = [
+  { id: 'contacts', label: 'Contacts' },
+  { id: 'companies', label: 'Companies' },
+  { id: 'deals', label: 'Deals' },
+];
+
+export const CUSTOM_FIELD_TYPES: { id: CustomFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'currency', label: 'Currency' },
+  { id: 'date', label: 'Date' },
+  { id: 'select', label: 'Select' },
+  { id: 'multi_select', label: 'Multi-select' },
+  { id: 'checkbox', label: 'Checkbox' },
+  { id: 'url', label: 'URL' },
+];
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select';
+
+const isNumeric = (type: CustomFieldType) => type === 'number' || type === 'currency';
+
+// Numbers and lists keep their JSON type so they compare as numbers and by containment;
+// everything else is compared as text.
+const keepsJsonType = (type: CustomFieldType) => isNumeric(type) || type === 'multi_select';
+
+// "Contract term (months)" -> `contract_term_months`, matching the key check in Postgres.
+export const fieldKeyOf = (label: string) => {
+  const key = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 63);
+  return key || 'field';
+};
+
+type WithCustomFields = { custom_fields?: CustomFieldValues | null };
+
+const valueOf = (record: WithCustomFields, field: CustomField) => record.custom_fields?.[field.key];
+
+/**
+ * A custom value as text. Currency amounts are shown in dollars like deal values; dates are
+ * localized.
+ */
+export const formatCustomValue = (field: CustomField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  switch (field.type) {
+    case 'currency':
+      return `$${Number(value).toLocaleString()}`;
+    case 'number':
+      return Number(value).toLocaleString();
+    case 'checkbox':
+      return value === true ? 'Yes' : 'No';
+    case 'date':
+      return new Date(`${value}T00:00:00`).toLocaleDateString();
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Filter fields for the custom fields of a list. Keys are PostgREST JSON paths into
+ * `custom_fields`, so lists filtered in Postgres can use them as columns.
+ */
+export const customFilterFields = <T extends WithCustomFields>(
+  fields: CustomField[]
+): FilterField<T>[] =>
+  fields.map((field) => {
+    const base = {
+      key: `custom_fields${keepsJsonType(field.type) ? '->' : '->>'}${field.key}`,
+      label: field.label,
+      value: (record: T) => valueOf(record, field),
+    };
+    switch (field.type) {
+      case 'number':
+      case 'currency':
+        return { ...base, type: 'number' };
+      case 'date':
+        return { ...base, type: 'date' };
+      case 'checkbox':
+        return { ...base, type: 'select', options: [{ value: 'true', label: 'Checked' }] };
+      case 'select':
+      case 'multi_select':
+        return {
+          ...base,
+          type: 'select',
+          options: field.options.map((option) => ({ value: option, label: option })),
+          multiple: field.type === 'multi_select',
+        };
+      default:
+        return { ...base, type: 'text' };
+    }
+  });
+
+export const customExportColumns = <T extends WithCustomFields>(
+  fields: CustomField[]
+): ExportColumn<T>[] =>
+  fields.map((field) => ({
+    key: field.key,
+    header: field.label,
+    value: (record) => {
+      const value = valueOf(record, field);
+      return Array.isArray(value) ? value.join(', ') : value;
+    },
+  }));
+
+/**
+ * Values of a create or edit form as they are saved. Number inputs hold text while being
+ * edited; empty values, unchecked checkboxes and options removed since the record was last
+ * saved are dropped, as Postgres rejects options that no longer exist.
+ */
+export const customValuesToSave = (fields: CustomField[], draft: CustomFieldValues) => {
+  const values: CustomFieldValues = {};
+  fields.forEach((field) => {
+    const value = draft[field.key];
+    if (value === undefined || value === '' || value === false) return;
+
+    if (isNumeric(field.type)) {
+      const number = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!isNaN(number)) values[field.key] = number;
+    } else if (field.type === 'multi_select') {
+      const selected = (Array.isArray(value) ? value : []).filter((o) => field.options.includes(o));
+      if (selected.length > 0) values[field.key] = selected;
+    } else if (field.type === 'select') {
+      if (field.options.includes(String(value))) values[field.key] = String(value);
+    } else {
+      values[field.key] = value;
+    }
+  });
+  return values;
+};
@@ -0,0 +1,71 @@
+import { supabase, DuplicateMatch, DuplicateReason, DuplicateTable } from './supabase';
+
+export const DUPLICATE_TABLES: { id: DuplicateTable; label: string }[] = [
+  { id: 'contacts', label: 'Contacts' },
+  { id: 'companies', label: 'Companies' },
+];
+
+export const DUPLICATE_REASONS: Record<DuplicateReason, string> = {
+  name: 'Similar name',
+  email: 'Same email',
+  phone: 'Same phone',
+  domain: 'Same website domain',
+};
+
+// Fields whose value can be picked from either record when merging. Ownership stays with the
+// surviving record, matching `merge_records`.
+export const MERGE_FIELDS: Record<DuplicateTable, { key: string; label: string }[]> = {
+  contacts: [
+    { key: 'first_name', label: 'First Name' },
+    { key: 'last_name', label: 'Last Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'title', label: 'Title' },
+    { key: 'company_id', label: 'Company' },
+    { key: 'notes', label: 'Notes' },
+  ],
+  companies: [
+    { key: 'name', label: 'Name' },
+    { key: 'industry', label: 'Industry' },
+    { key: 'website', label: 'Website' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'email', label: 'Email' },
+    { key: 'address', label: 'Address' },
+    { key: 'notes', label: 'Notes' },
+  ],
+};
+
+// The fields `find_duplicates` matches on; checking is skipped until one of them is filled in.
+const MATCH_FIELDS: Record<DuplicateTable, string[]> = {
+  contacts: ['first_name', 'last_name', 'email', 'phone'],
+  companies: ['name', 'website'],
+};
+
+// The trimmed match fields of a record being entered, null where empty.
+export const matchValuesOf = (table: DuplicateTable, values: Record<string, string | null>) =>
+  Object.fromEntries(MATCH_FIELDS[table].map((field) => [field, values[field]?.trim() || null]));
+
+export const describeReasons = (reasons: DuplicateReason[]) =>
+  reasons.map((reason) => DUPLICATE_REASONS[reason]).join(', ');
+
+/**
+ * Live records of the active workspace that look like the given field values, best match
+ * first. Matching is done in Postgres on normalized emails, phones and domains and on trigram
+ * similarity of names.
+ */
+export async function findDuplicates(
+  table: DuplicateTable,
+  values: Record<string, string | null>,
+  excludeId?: string
+): Promise<DuplicateMatch[]> {
+  const matchValues = matchValuesOf(table, values);
+  if (Object.values(matchValues).every((value) => !value)) return [];
+
+  const { data, error } = await supabase.rpc('find_duplicates', {
+    p_table: table,
+    p_values: matchValues,
+    p_exclude_id: excludeId ?? null,
+  });
+  if (error) throw error;
+  return data || [];
+}
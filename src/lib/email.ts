@@ -0,0 +1,77 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, Activity, EmailMessage } from './supabase';
+
+export type OutgoingEmail = {
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  // `message_id` of the logged message being answered
+  in_reply_to: string | null;
+};
+
+export type SyncResult = { read: number; logged: number; error?: string };
+
+/**
+ * Calls one of the email edge functions. Errors the function explains, such as a mailbox that
+ * is not connected yet, are thrown with its message so they can be shown as is.
+ */
+async function invokeEmailFunction<T>(name: string, body?: object): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new Error(details.error);
+    }
+    throw error;
+  }
+  return data;
+}
+
+// Sends the email from the caller's mailbox; returns the activity it was logged as, if any.
+export const sendEmail = (email: OutgoingEmail) =>
+  invokeEmailFunction<{ activity_id: string | null }>('email-send', email);
+
+// Reads new mail from the caller's mailbox.
+export const syncMailbox = () => invokeEmailFunction<SyncResult>('email-sync');
+
+export const replySubject = (subject: string | null) =>
+  /^re:/i.test(subject || '') ? subject || '' : `Re: ${subject || ''}`.trim();
+
+export const quoteMessage = (message: EmailMessage) =>
+  `\n\nOn ${new Date(message.sent_at).toLocaleString()}, ${
+    message.from_name || message.from_address
+  } wrote:\n${(message.body_text || '')
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n')}`;
+
+export const messageParticipants = (message: EmailMessage) =>
+  message.direction === 'inbound'
+    ? `From ${message.from_name || message.from_address}`
+    : `To ${[...message.to_addresses, ...message.cc_addresses].join(', ')}`;
+
+/**
+ * Groups activities for display: emails of the same thread collapse into the newest one, with
+ * the older ones as its `earlier` messages. Activities are expected newest first.
+ */
+export function groupThreads(activities: Activity[]) {
+  const threads = new Map<string, Activity[]>();
+  const groups: { activity: Activity; earlier: Activity[] }[] = [];
+  activities.forEach((activity) => {
+    const threadId = activity.email_message?.thread_id;
+    if (!threadId) {
+      groups.push({ activity, earlier: [] });
+      return;
+    }
+    const thread = threads.get(threadId);
+    if (thread) {
+      thread.push(activity);
+      return;
+    }
+    const earlier: Activity[] = [];
+    threads.set(threadId, earlier);
+    groups.push({ activity, earlier });
+  });
+  return groups;
+}
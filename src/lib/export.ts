@@ -0,0 +1,70 @@
+import { toCsv } from './csv';
+import { downloadBlob, writeXlsx } from './spreadsheet';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export type ExportColumn<T> = {
+  key: string;
+  header: string;
+  value: (row: T) => ExportValue;
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'xlsx', label: 'Excel (XLSX)' },
+  { id: 'json', label: 'JSON' },
+];
+
+// Spreadsheet apps evaluate CSV text cells that start with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const sanitizeCell = (value: ExportValue) => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `'${value}`;
+  return value;
+};
+
+export const fullName = (person?: { first_name: string; last_name: string | null } | null) =>
+  person ? [person.first_name, person.last_name].filter(Boolean).join(' ') : null;
+
+/**
+ * Generates the file in the browser and starts the download. Rows are exported in the order
+ * given, so callers pass the currently filtered list.
+ */
+export const exportRows = async <T,>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  format: ExportFormat,
+  baseName: string
+) => {
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'json') {
+    const records = rows.map((row) =>
+      Object.fromEntries(columns.map((column) => [column.key, column.value(row) ?? null]))
+    );
+    downloadBlob(
+      new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }),
+      fileName
+    );
+    return;
+  }
+
+  const header = columns.map((column) => column.header);
+
+  if (format === 'csv') {
+    const values = rows.map((row) => columns.map((column) => sanitizeCell(column.value(row))));
+    // The byte order mark makes Excel open the file as UTF-8.
+    downloadBlob(
+      new Blob(['\uFEFF', toCsv([header, ...values])], { type: 'text/csv;charset=utf-8' }),
+      fileName
+    );
+    return;
+  }
+
+  // XLSX cells are written as typed values, never formulas, so they need no escaping.
+  const values = rows.map((row) => columns.map((column) => column.value(row) ?? null));
+  downloadBlob(await writeXlsx(baseName, header, values), fileName);
+};
@@ -0,0 +1,312 @@
+import { FilterCondition, FilterGroup, FilterOperator, OrganizationMember } from './supabase';
+import { escapeLike } from './paging';
+
+export type FilterFieldType = 'text' | 'number' | 'date' | 'datetime' | 'select';
+
+export type FilterOption = { value: string; label: string };
+
+export type FilterField<T> = {
+  // Stored in conditions. Lists filtered in Postgres use it as the column of the queried table
+  // or view.
+  key: string;
+  label: string;
+  // `date` columns hold a day, `datetime` columns a moment; both are compared by local day.
+  type: FilterFieldType;
+  options?: FilterOption[];
+  // A `select` field holding a list of options; `is` matches records that include the option.
+  multiple?: boolean;
+  // Value compared by lists filtered in the browser, the property named `key` by default.
+  value?: (record: T) => unknown;
+};
+
+export const EMPTY_FILTER: FilterGroup = { match: 'all', conditions: [] };
+
+export const FILTER_OPERATORS: Record<FilterFieldType, FilterOperator[]> = {
+  text: ['contains', 'not_contains', 'is', 'is_not', 'starts_with', 'is_empty', 'is_not_empty'],
+  number: ['is', 'is_not', 'greater_than', 'less_than', 'between', 'is_empty', 'is_not_empty'],
+  date: ['is', 'before', 'after', 'between', 'in_last_days', 'in_next_days', 'is_empty', 'is_not_empty'],
+  datetime: ['is', 'before', 'after', 'between', 'in_last_days', 'in_next_days', 'is_empty', 'is_not_empty'],
+  select: ['is', 'is_not', 'is_empty', 'is_not_empty'],
+};
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  not_contains: 'does not contain',
+  starts_with: 'starts with',
+  is: 'is',
+  is_not: 'is not',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  before: 'is before',
+  after: 'is after',
+  between: 'is between',
+  in_last_days: 'in the last (days)',
+  in_next_days: 'in the next (days)',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+export const needsValue = (operator: FilterOperator) =>
+  operator !== 'is_empty' && operator !== 'is_not_empty';
+
+export const isFilterGroup = (item: FilterCondition | FilterGroup): item is FilterGroup =>
+  'conditions' in item;
+
+export const newCondition = <T>(field: FilterField<T>): FilterCondition => ({
+  field: field.key,
+  operator: FILTER_OPERATORS[field.type][0],
+  value: '',
+});
+
+export const isValidNumber = (value: string) => value.trim() !== '' && Number.isFinite(Number(value));
+
+const isComplete = <T>(condition: FilterCondition, field?: FilterField<T>) => {
+  if (!needsValue(condition.operator)) return true;
+  if (condition.value === '' || (condition.operator === 'between' && !condition.value2)) {
+    return false;
+  }
+  if (field?.type !== 'number') return true;
+  return (
+    isValidNumber(condition.value) &&
+    (condition.operator !== 'between' || isValidNumber(condition.value2!))
+  );
+};
+
+// Conditions on unknown fields, such as one removed since a view was saved, and conditions
+// still missing a value or holding a value that is not a number for a number field are left
+// out.
+const activeItems = <T>(
+  group: FilterGroup,
+  fieldsByKey: Map<string, FilterField<T>>
+): (FilterCondition | FilterGroup)[] =>
+  group.conditions.filter((item) =>
+    isFilterGroup(item)
+      ? activeItems(item, fieldsByKey).length > 0
+      : fieldsByKey.has(item.field) && isComplete(item, fieldsByKey.get(item.field))
+  );
+
+export const countConditions = (group: FilterGroup): number =>
+  group.conditions.reduce(
+    (count, item) => count + (isFilterGroup(item) ? countConditions(item) : isComplete(item) ? 1 : 0),
+    0
+  );
+
+// The filter travels in the `filter` query parameter as JSON.
+export const parseFilter = (raw: string | null): FilterGroup => {
+  if (!raw) return EMPTY_FILTER;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && (parsed.match === 'all' || parsed.match === 'any') && Array.isArray(parsed.conditions)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to no filter
+  }
+  return EMPTY_FILTER;
+};
+
+export const serializeFilter = (group: FilterGroup) =>
+  countConditions(group) > 0 ? JSON.stringify(group) : null;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local calendar day of a date column or timestamp, as `YYYY-MM-DD`.
+const dayKeyOf = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : toDayKey(date);
+};
+
+const addDays = (dayKey: string, days: number) => {
+  const date = new Date(`${dayKey}T00:00`);
+  date.setDate(date.getDate() + days);
+  return toDayKey(date);
+};
+
+// Inclusive range of days a date condition matches.
+const dayRange = (condition: FilterCondition): { from?: string; to?: string } => {
+  const today = toDayKey(new Date());
+  const days = Math.max(0, parseInt(condition.value) || 0);
+  switch (condition.operator) {
+    case 'is':
+      return { from: condition.value, to: condition.value };
+    case 'before':
+      return { to: addDays(condition.value, -1) };
+    case 'after':
+      return { from: addDays(condition.value, 1) };
+    case 'between':
+      return { from: condition.value, to: condition.value2 };
+    case 'in_last_days':
+      return { from: addDays(today, -days), to: today };
+    case 'in_next_days':
+      return { from: today, to: addDays(today, days) };
+    default:
+      return {};
+  }
+};
+
+const isEmptyValue = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+const matchesCondition = <T>(record: T, condition: FilterCondition, field: FilterField<T>) => {
+  const raw = field.value
+    ? field.value(record)
+    : (record as Record<string, unknown>)[field.key];
+
+  if (condition.operator === 'is_empty') return isEmptyValue(raw);
+  if (condition.operator === 'is_not_empty') return !isEmptyValue(raw);
+
+  switch (field.type) {
+    case 'text': {
+      const text = isEmptyValue(raw) ? '' : String(raw).toLowerCase();
+      const term = condition.value.toLowerCase();
+      if (condition.operator === 'contains') return text.includes(term);
+      if (condition.operator === 'not_contains') return !text.includes(term);
+      if (condition.operator === 'starts_with') return text.startsWith(term);
+      if (condition.operator === 'is') return text === term;
+      return text !== term;
+    }
+    case 'number': {
+      if (isEmptyValue(raw)) return condition.operator === 'is_not';
+      const number = Number(raw);
+      const value = Number(condition.value);
+      if (condition.operator === 'is') return number === value;
+      if (condition.operator === 'is_not') return number !== value;
+      if (condition.operator === 'greater_than') return number > value;
+      if (condition.operator === 'less_than') return number < value;
+      return number >= value && number <= Number(condition.value2);
+    }
+    case 'date':
+    case 'datetime': {
+      const day = dayKeyOf(raw);
+      if (!day) return false;
+      const { from, to } = dayRange(condition);
+      return (!from || day >= from) && (!to || day <= to);
+    }
+    case 'select': {
+      const matches = field.multiple
+        ? Array.isArray(raw) && raw.includes(condition.value)
+        : String(raw) === condition.value;
+      if (condition.operator === 'is') return matches;
+      return isEmptyValue(raw) || !matches;
+    }
+  }
+};
+
+/**
+ * Whether a record loaded in the browser matches the filter. An empty filter matches every
+ * record.
+ */
+export function matchesFilter<T>(record: T, group: FilterGroup, fields: FilterField<T>[]) {
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+
+  const matchesGroup = (current: FilterGroup): boolean => {
+    const items = activeItems(current, fieldsByKey);
+    if (items.length === 0) return true;
+    const test = (item: FilterCondition | FilterGroup) =>
+      isFilterGroup(item)
+        ? matchesGroup(item)
+        : matchesCondition(record, item, fieldsByKey.get(item.field)!);
+    return current.match === 'all' ? items.every(test) : items.some(test);
+  };
+
+  return matchesGroup(group);
+}
+
+// Values are quoted so commas, dots and parentheses cannot break the filter syntax.
+const quote = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+const conditionExpression = <T>(condition: FilterCondition, field: FilterField<T>): string => {
+  const column = field.key;
+  const value = condition.value;
+
+  if (condition.operator === 'is_empty') {
+    return field.type === 'text' ? `or(${column}.is.null,${column}.eq."")` : `${column}.is.null`;
+  }
+  if (condition.operator === 'is_not_empty') {
+    return field.type === 'text'
+      ? `and(${column}.not.is.null,${column}.neq."")`
+      : `${column}.not.is.null`;
+  }
+
+  switch (field.type) {
+    case 'text': {
+      const pattern = escapeLike(value);
+      if (condition.operator === 'contains') return `${column}.ilike.${quote(`%${pattern}%`)}`;
+      if (condition.operator === 'not_contains') {
+        return `or(${column}.is.null,${column}.not.ilike.${quote(`%${pattern}%`)})`;
+      }
+      if (condition.operator === 'starts_with') return `${column}.ilike.${quote(`${pattern}%`)}`;
+      if (condition.operator === 'is') return `${column}.ilike.${quote(pattern)}`;
+      return `or(${column}.is.null,${column}.not.ilike.${quote(pattern)})`;
+    }
+    case 'number': {
+      const number = Number(value);
+      if (condition.operator === 'is') return `${column}.eq.${number}`;
+      if (condition.operator === 'is_not') return `or(${column}.is.null,${column}.neq.${number})`;
+      if (condition.operator === 'greater_than') return `${column}.gt.${number}`;
+      if (condition.operator === 'less_than') return `${column}.lt.${number}`;
+      return `and(${column}.gte.${number},${column}.lte.${Number(condition.value2)})`;
+    }
+    case 'date':
+    case 'datetime': {
+      // Timestamps are compared with the start of the local day.
+      const bound = (dayKey: string) =>
+        quote(field.type === 'date' ? dayKey : new Date(`${dayKey}T00:00`).toISOString());
+      const { from, to } = dayRange(condition);
+      const parts = [
+        from && `${column}.gte.${bound(from)}`,
+        to && `${column}.lt.${bound(addDays(to, 1))}`,
+      ].filter((part): part is string => !!part);
+      return parts.length === 1 ? parts[0] : `and(${parts.join(',')})`;
+    }
+    case 'select':
+      // Lists of options are JSON arrays, matched by containment.
+      if (field.multiple) {
+        const option = quote(JSON.stringify([value]));
+        if (condition.operator === 'is') return `${column}.cs.${option}`;
+        return `or(${column}.is.null,${column}.not.cs.${option})`;
+      }
+      if (condition.operator === 'is') return `${column}.eq.${quote(value)}`;
+      return `or(${column}.is.null,${column}.neq.${quote(value)})`;
+  }
+};
+
+/**
+ * The filter as a PostgREST logic tree for `query.or(...)`, or null when it has no
+ * conditions. Only fields whose key is a column of the queried table or view can be used.
+ */
+export function filterExpression<T>(group: FilterGroup, fields: FilterField<T>[]): string | null {
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+
+  const groupExpression = (current: FilterGroup): string | null => {
+    const items = activeItems(current, fieldsByKey);
+    if (items.length === 0) return null;
+    const parts = items.map((item) =>
+      isFilterGroup(item)
+        ? groupExpression(item)
+        : conditionExpression(item, fieldsByKey.get(item.field)!)
+    );
+    return `${current.match === 'all' ? 'and' : 'or'}(${parts.join(',')})`;
+  };
+
+  return groupExpression(group);
+}
+
+// Options of an owner or assignee field.
+export const memberOptions = (members: OrganizationMember[]): FilterOption[] =>
+  members.map((member) => ({
+    value: member.user_id,
+    label: member.profile?.email || 'Teammate',
+  }));
+
+// Label of the option with the given value, such as a member's email for their id.
+export const optionLabel = (options: FilterOption[], value: string) =>
+  options.find((option) => option.value === value)?.label || value;
@@ -0,0 +1,114 @@
+import { Deal, PeriodType, PipelineStage } from './supabase';
+
+// Open deals at or above this probability count towards the commit forecast.
+export const COMMIT_PROBABILITY = 70;
+
+export const weightedValue = (deal: Pick<Deal, 'value' | 'probability'>) =>
+  (deal.value * deal.probability) / 100;
+
+export type ForecastTotals = {
+  closed: number;
+  commit: number;
+  bestCase: number;
+  weighted: number;
+  dealCount: number;
+};
+
+export type ForecastPeriod = ForecastTotals & {
+  start: string;
+  label: string;
+};
+
+const emptyTotals = (): ForecastTotals => ({
+  closed: 0,
+  commit: 0,
+  bestCase: 0,
+  weighted: 0,
+  dealCount: 0,
+});
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Dates are handled as `YYYY-MM-DD` strings so periods do not shift with the browser time zone.
+export const periodStart = (date: string, type: PeriodType) => {
+  const [year, month] = date.split('-').map(Number);
+  const startMonth = type === 'quarter' ? Math.floor((month - 1) / 3) * 3 + 1 : month;
+  return `${year}-${pad(startMonth)}-01`;
+};
+
+export const periodLabel = (start: string, type: PeriodType) => {
+  const [year, month] = start.split('-').map(Number);
+  if (type === 'quarter') return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, {
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+export const periodsForYear = (year: number, type: PeriodType) => {
+  const step = type === 'quarter' ? 3 : 1;
+  const starts: string[] = [];
+  for (let month = 1; month <= 12; month += step) {
+    starts.push(`${year}-${pad(month)}-01`);
+  }
+  return starts;
+};
+
+const addDeal = (totals: ForecastTotals, deal: Deal, outcome: PipelineStage['outcome']) => {
+  totals.dealCount += 1;
+  if (outcome === 'won') {
+    totals.closed += deal.value;
+    totals.commit += deal.value;
+    totals.bestCase += deal.value;
+    totals.weighted += deal.value;
+    return;
+  }
+  if (deal.probability >= COMMIT_PROBABILITY) totals.commit += deal.value;
+  totals.bestCase += deal.value;
+  totals.weighted += weightedValue(deal);
+};
+
+/**
+ * Buckets deals by `expected_close_date`. The buckets are cumulative: commit includes closed
+ * revenue plus high-probability open deals, best case includes every open deal, and weighted
+ * adds open deals at value × probability. Lost deals are ignored; open and won deals without a
+ * date are totalled as `unscheduled`.
+ */
+export const buildForecast = (
+  deals: Deal[],
+  stagesById: Record<string, PipelineStage>,
+  year: number,
+  type: PeriodType
+) => {
+  const periods: ForecastPeriod[] = periodsForYear(year, type).map((start) => ({
+    ...emptyTotals(),
+    start,
+    label: periodLabel(start, type),
+  }));
+  const byStart = new Map(periods.map((period) => [period.start, period]));
+  const unscheduled = emptyTotals();
+
+  deals.forEach((deal) => {
+    const outcome = stagesById[deal.stage_id]?.outcome;
+    if (!outcome || outcome === 'lost') return;
+
+    if (!deal.expected_close_date) {
+      addDeal(unscheduled, deal, outcome);
+      return;
+    }
+
+    const period = byStart.get(periodStart(deal.expected_close_date, type));
+    if (period) addDeal(period, deal, outcome);
+  });
+
+  const total = periods.reduce((sum, period) => {
+    sum.closed += period.closed;
+    sum.commit += period.commit;
+    sum.bestCase += period.bestCase;
+    sum.weighted += period.weighted;
+    sum.dealCount += period.dealCount;
+    return sum;
+  }, emptyTotals());
+
+  return { periods, unscheduled, total };
+};
@@ -0,0 +1,181 @@
+import { ParsedRow, toCsv } from './csv';
+
+export type ImportEntity = 'contacts' | 'companies';
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+  validate?: (value: string) => string | null;
+};
+
+export type PreparedRow = {
+  rowNumber: number;
+  source: string[];
+  values: Record<string, string>;
+  errors: string[];
+  duplicateOf: string | null;
+};
+
+export const IMPORT_BATCH_SIZE = 100;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const validateEmail = (value: string) =>
+  EMAIL_PATTERN.test(value) ? null : 'is not a valid email address';
+
+const validateWebsite = (value: string) =>
+  /^(https?:\/\/)?[^\s.]+\.[^\s]+$/i.test(value) ? null : 'is not a valid URL';
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  contacts: [
+    {
+      key: 'first_name',
+      label: 'First Name',
+      required: true,
+      aliases: ['first', 'firstname', 'given name', 'forename'],
+    },
+    {
+      key: 'last_name',
+      label: 'Last Name',
+      required: true,
+      aliases: ['last', 'lastname', 'surname', 'family name'],
+    },
+    {
+      key: 'email',
+      label: 'Email',
+      aliases: ['email address', 'e mail', 'mail'],
+      validate: validateEmail,
+    },
+    { key: 'phone', label: 'Phone', aliases: ['phone number', 'telephone', 'tel', 'mobile'] },
+    { key: 'title', label: 'Title', aliases: ['job title', 'position', 'role'] },
+    {
+      key: 'company_name',
+      label: 'Company',
+      aliases: ['company name', 'organization', 'organisation', 'account', 'employer'],
+    },
+    { key: 'notes', label: 'Notes', aliases: ['note', 'comments', 'description'] },
+  ],
+  companies: [
+    {
+      key: 'name',
+      label: 'Name',
+      required: true,
+      aliases: ['company', 'company name', 'organization', 'organisation', 'account name'],
+    },
+    { key: 'industry', label: 'Industry', aliases: ['sector', 'vertical'] },
+    {
+      key: 'website',
+      label: 'Website',
+      aliases: ['url', 'web site', 'domain', 'homepage'],
+      validate: validateWebsite,
+    },
+    { key: 'phone', label: 'Phone', aliases: ['phone number', 'telephone', 'tel'] },
+    {
+      key: 'email',
+      label: 'Email',
+      aliases: ['email address', 'e mail', 'mail'],
+      validate: validateEmail,
+    },
+    { key: 'address', label: 'Address', aliases: ['street', 'location', 'street address'] },
+    { key: 'notes', label: 'Notes', aliases: ['note', 'comments', 'description'] },
+  ],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Suggests a field for each column by comparing the header with the field key, label and
+ * aliases. Each field is mapped at most once; unmatched columns map to `''` (ignored).
+ */
+export const autoMapColumns = (entity: ImportEntity, headers: string[]) => {
+  const used = new Set<string>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS[entity].find(
+      (candidate) =>
+        !used.has(candidate.key) &&
+        [candidate.key.replace(/_/g, ' '), candidate.label.toLowerCase(), ...candidate.aliases].includes(
+          normalized
+        )
+    );
+    if (!field) return '';
+    used.add(field.key);
+    return field.key;
+  });
+};
+
+// Contacts are deduplicated by email, companies by name; both case-insensitively.
+export const dedupeKey = (entity: ImportEntity, values: Record<string, string>) => {
+  const key = entity === 'contacts' ? values.email : values.name;
+  return key ? key.trim().toLowerCase() : null;
+};
+
+export const prepareRows = (
+  entity: ImportEntity,
+  rows: ParsedRow[],
+  mapping: string[],
+  existingKeys: Set<string>
+): PreparedRow[] => {
+  const fields = IMPORT_FIELDS[entity];
+  const seen = new Map<string, number>();
+  const noun = entity === 'contacts' ? 'contact with this email' : 'company with this name';
+
+  // Row numbers are the file's line or worksheet row, so they still match with blank lines and
+  // fields spanning several lines.
+  return rows.map(({ cells: source, line: rowNumber }) => {
+    const values: Record<string, string> = {};
+    mapping.forEach((key, column) => {
+      if (key && source[column] !== undefined && source[column].trim() !== '') {
+        values[key] = source[column].trim();
+      }
+    });
+
+    const errors: string[] = [];
+    fields.forEach((field) => {
+      const value = values[field.key];
+      if (!value) {
+        if (field.required) errors.push(`${field.label} is required`);
+        return;
+      }
+      const problem = field.validate?.(value);
+      if (problem) errors.push(`${field.label} ${problem}`);
+    });
+
+    let duplicateOf: string | null = null;
+    const key = dedupeKey(entity, values);
+    if (key) {
+      if (existingKeys.has(key)) {
+        duplicateOf = `A ${noun} already exists`;
+      } else if (seen.has(key)) {
+        duplicateOf = `Duplicate of row ${seen.get(key)}`;
+      } else {
+        seen.set(key, rowNumber);
+      }
+    }
+
+    return { rowNumber, source, values, errors, duplicateOf };
+  });
+};
+
+export type ImportProblem = {
+  row: PreparedRow;
+  message: string;
+};
+
+export const buildErrorReport = (headers: string[], problems: ImportProblem[]) =>
+  toCsv([
+    ['Row', ...headers, 'Error'],
+    ...problems
+      .sort((a, b) => a.row.rowNumber - b.row.rowNumber)
+      .map(({ row, message }) => [
+        row.rowNumber,
+        ...headers.map((_, column) => row.source[column] ?? ''),
+        message,
+      ]),
+  ]);
@@ -0,0 +1,45 @@
+import { FilterGroup } from './supabase';
+
+export const PAGE_SIZE = 50;
+
+// PostgREST caps how many rows one request returns, so longer lists are loaded in batches.
+const FETCH_ALL_BATCH_SIZE = 1000;
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ListQueryParams<S extends string> = {
+  search: string;
+  filter: FilterGroup;
+  // Id of the segment the list is narrowed to, if any
+  segment: string | null;
+  sort: S;
+  ascending: boolean;
+};
+
+type RangeResult<T> = { data: T[] | null; count?: number | null; error: unknown };
+
+export type RangeQuery<T> = {
+  range: (from: number, to: number) => PromiseLike<RangeResult<T>>;
+};
+
+export const escapeLike = (term: string) => term.replace(/[%_\\]/g, '\\$&');
+
+/**
+ * PostgREST `or` filter matching the term anywhere in any of the columns. The pattern is
+ * quoted so commas, dots and parentheses in the term cannot break the filter syntax.
+ */
+export const ilikeAny = (columns: string[], term: string) => {
+  const pattern = `"%${escapeLike(term).replace(/[\\"]/g, '\\$&')}%"`;
+  return columns.map((column) => `${column}.ilike.${pattern}`).join(',');
+};
+
+// Every row of a query, for exports that need more than the page on screen.
+export async function fetchAll<T>(query: () => RangeQuery<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_ALL_BATCH_SIZE) {
+    const { data, error } = await query().range(from, from + FETCH_ALL_BATCH_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_ALL_BATCH_SIZE) return rows;
+  }
+}
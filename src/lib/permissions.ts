@@ -0,0 +1,64 @@
+import { Role } from './supabase';
+
+export type Permission =
+  | 'create'
+  | 'edit'
+  | 'delete'
+  | 'reassign'
+  | 'manage_pipelines'
+  | 'manage_custom_fields'
+  | 'manage_quotas'
+  | 'manage_tags'
+  | 'manage_team'
+  | 'view_audit_log';
+
+// Companies, contacts, deals and leads are owned through `owner_id`; activities belong to
+// `user_id`, and tasks to both their creator and their assignee.
+export type OwnedRecord = {
+  owner_id?: string | null;
+  assignee_id?: string | null;
+  user_id?: string;
+};
+
+export const ROLES: { id: Role; label: string; description: string }[] = [
+  { id: 'admin', label: 'Admin', description: 'Everything, including pipelines and the team' },
+  { id: 'manager', label: 'Manager', description: "Edits and reassigns the whole team's records" },
+  { id: 'rep', label: 'Rep', description: 'Creates records and edits their own' },
+  { id: 'read_only', label: 'Read-only', description: 'Views everything, changes nothing' },
+];
+
+const isOwner = (record: OwnedRecord, userId: string) =>
+  record.owner_id !== undefined
+    ? record.owner_id === userId
+    : record.user_id === userId || record.assignee_id === userId;
+
+/**
+ * Mirrors the workspace policies in Postgres so the UI can hide actions that would be
+ * rejected. The database remains the authority; keep the two in step.
+ */
+export function hasPermission(
+  role: Role | null,
+  userId: string | null,
+  permission: Permission,
+  record?: OwnedRecord
+): boolean {
+  if (!role || !userId) return false;
+
+  switch (permission) {
+    case 'create':
+      return role !== 'read_only';
+    case 'edit':
+    case 'delete':
+      if (role === 'admin' || role === 'manager') return true;
+      return role === 'rep' && !!record && isOwner(record, userId);
+    case 'reassign':
+    case 'manage_quotas':
+    case 'manage_tags':
+      return role === 'admin' || role === 'manager';
+    case 'manage_pipelines':
+    case 'manage_custom_fields':
+    case 'manage_team':
+    case 'view_audit_log':
+      return role === 'admin';
+  }
+}
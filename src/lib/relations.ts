@@ -0,0 +1,60 @@
+import { RelationOptions } from '../hooks/useRelationOptions';
+
+export type RelationLinks = {
+  contact_id: string;
+  company_id: string;
+  deal_id: string;
+};
+
+export const EMPTY_RELATIONS: RelationLinks = { contact_id: '', company_id: '', deal_id: '' };
+
+export const relationsOf = (record: {
+  contact_id: string | null;
+  company_id: string | null;
+  deal_id: string | null;
+}): RelationLinks => ({
+  contact_id: record.contact_id || '',
+  company_id: record.company_id || '',
+  deal_id: record.deal_id || '',
+});
+
+// Empty picker values are stored as null so the foreign keys stay valid.
+export const relationsPayload = (links: RelationLinks) => ({
+  contact_id: links.contact_id || null,
+  company_id: links.company_id || null,
+  deal_id: links.deal_id || null,
+});
+
+/**
+ * Applies a picker change. Picking a deal fills in its contact and company, and picking a
+ * contact fills in their company, but only where nothing was chosen yet.
+ */
+export function updateRelations(
+  links: RelationLinks,
+  field: keyof RelationLinks,
+  id: string,
+  options: RelationOptions
+): RelationLinks {
+  const next = { ...links, [field]: id };
+  if (!id) return next;
+
+  if (field === 'deal_id') {
+    const deal = options.deals.find((option) => option.id === id);
+    if (!next.contact_id && deal?.contactId) next.contact_id = deal.contactId;
+    if (!next.company_id && deal?.companyId) next.company_id = deal.companyId;
+  }
+  if (field === 'deal_id' || field === 'contact_id') {
+    const contact = options.contacts.find((option) => option.id === next.contact_id);
+    if (!next.company_id && contact?.companyId) next.company_id = contact.companyId;
+  }
+  return next;
+}
+
+// A record matches when it is linked to every selected record; empty filters match anything.
+export const matchesRelations = (
+  record: { contact_id: string | null; company_id: string | null; deal_id: string | null },
+  filter: RelationLinks
+) =>
+  (!filter.contact_id || record.contact_id === filter.contact_id) &&
+  (!filter.company_id || record.company_id === filter.company_id) &&
+  (!filter.deal_id || record.deal_id === filter.deal_id);
@@ -0,0 +1,51 @@
+export const VIEWS = [
+  'dashboard',
+  'leads',
+  'contacts',
+  'companies',
+  'duplicates',
+  'segments',
+  'deals',
+  'forecast',
+  'tasks',
+  'activities',
+  'calendar',
+  'sequences',
+  'trash',
+  'settings',
+] as const;
+
+// Views that have a `/:view/:id` detail page.
+export const DETAIL_VIEWS = ['contacts', 'companies', 'deals'] as const;
+
+export type Route = {
+  view: string;
+  recordId: string | null;
+};
+
+export const NOT_FOUND_VIEW = 'not-found';
+
+export const parseRoute = (pathname: string): Route => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as `%E0%A4%A` cannot be decoded
+    return { view: NOT_FOUND_VIEW, recordId: null };
+  }
+  if (segments.length === 0) return { view: 'dashboard', recordId: null };
+
+  const [view, recordId, ...rest] = segments;
+  const isView = (VIEWS as readonly string[]).includes(view);
+  const hasDetail = (DETAIL_VIEWS as readonly string[]).includes(view);
+
+  if (!isView || rest.length > 0 || (recordId && !hasDetail)) {
+    return { view: NOT_FOUND_VIEW, recordId: null };
+  }
+  return { view, recordId: recordId ?? null };
+};
+
+export const pathFor = (view: string, recordId?: string | null) => {
+  if (view === 'dashboard' && !recordId) return '/';
+  return `/${view}${recordId ? `/${encodeURIComponent(recordId)}` : ''}`;
+};
@@ -0,0 +1,26 @@
+import { SavedView, SavedViewList } from './supabase';
+
+export const SAVED_VIEW_LISTS: Record<SavedViewList, string> = {
+  leads: 'Leads',
+  contacts: 'Contacts',
+  companies: 'Companies',
+  deals: 'Deals',
+  tasks: 'Tasks',
+  activities: 'Activities',
+};
+
+// Query parameters that describe where the user is in a list rather than what it shows, so
+// they are not saved with a view. The filter is saved separately.
+const TRANSIENT_PARAMS = ['page', 'highlight', 'saved', 'filter'];
+
+export const savableParams = (searchParams: URLSearchParams) =>
+  Object.fromEntries(
+    [...searchParams.entries()].filter(([key]) => !TRANSIENT_PARAMS.includes(key))
+  );
+
+// Query parameters that open a saved view; `saved` marks it as the view being looked at.
+export const savedViewParams = (view: SavedView): Record<string, string> => ({
+  ...view.params,
+  ...(view.filter ? { filter: JSON.stringify(view.filter) } : {}),
+  saved: view.id,
+});
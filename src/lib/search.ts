@@ -0,0 +1,32 @@
+import { supabase, SearchResult, SearchTable } from './supabase';
+import { DETAIL_VIEWS } from './routes';
+
+// Result groups in the order the palette lists them.
+export const SEARCH_TABLES: { id: SearchTable; label: string }[] = [
+  { id: 'contacts', label: 'Contacts' },
+  { id: 'companies', label: 'Companies' },
+  { id: 'deals', label: 'Deals' },
+  { id: 'tasks', label: 'Tasks' },
+  { id: 'activities', label: 'Activities' },
+];
+
+export type SearchTarget = {
+  view: string;
+  recordId: string | null;
+  params?: Record<string, string>;
+};
+
+/**
+ * Where a result opens: its detail page, or for tasks and activities the list with the record
+ * highlighted.
+ */
+export const searchTarget = (result: SearchResult): SearchTarget =>
+  (DETAIL_VIEWS as readonly string[]).includes(result.table_name)
+    ? { view: result.table_name, recordId: result.record_id }
+    : { view: result.table_name, recordId: null, params: { highlight: result.record_id } };
+
+export async function globalSearch(term: string): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('global_search', { p_term: term });
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,91 @@
+import { CustomField, CustomFieldValues, FilterGroup, OrganizationMember, Segment, Tag, TaggableTable } from './supabase';
+import { FilterField, FilterOption, memberOptions } from './filters';
+import { customFilterFields } from './customFields';
+
+export const SEGMENT_TABLES: { id: TaggableTable; label: string; singular: string }[] = [
+  { id: 'contacts', label: 'Contacts', singular: 'contact' },
+  { id: 'companies', label: 'Companies', singular: 'company' },
+  { id: 'deals', label: 'Deals', singular: 'deal' },
+];
+
+// Table or view the records of each type are queried from.
+export const RECORD_SOURCES: Record<TaggableTable, string> = {
+  contacts: 'contact_list',
+  companies: 'companies',
+  deals: 'deals',
+};
+
+// Fields Postgres can filter on: keys are columns of the record source, so the same fields
+// serve the paged lists, segment member counts and the deal board, which filters in the
+// browser.
+const BASE_FIELDS: Record<TaggableTable, FilterField<unknown>[]> = {
+  contacts: [
+    { key: 'full_name', label: 'Name', type: 'text' },
+    { key: 'email', label: 'Email', type: 'text' },
+    { key: 'phone', label: 'Phone', type: 'text' },
+    { key: 'title', label: 'Title', type: 'text' },
+    { key: 'company_name', label: 'Company', type: 'text' },
+    { key: 'company_industry', label: 'Company Industry', type: 'text' },
+    { key: 'notes', label: 'Notes', type: 'text' },
+    { key: 'created_at', label: 'Created', type: 'datetime' },
+  ],
+  companies: [
+    { key: 'name', label: 'Name', type: 'text' },
+    { key: 'industry', label: 'Industry', type: 'text' },
+    { key: 'website', label: 'Website', type: 'text' },
+    { key: 'email', label: 'Email', type: 'text' },
+    { key: 'phone', label: 'Phone', type: 'text' },
+    { key: 'address', label: 'Address', type: 'text' },
+    { key: 'notes', label: 'Notes', type: 'text' },
+    { key: 'created_at', label: 'Created', type: 'datetime' },
+  ],
+  deals: [
+    { key: 'title', label: 'Title', type: 'text' },
+    { key: 'value', label: 'Value', type: 'number' },
+    { key: 'probability', label: 'Probability', type: 'number' },
+    { key: 'expected_close_date', label: 'Expected Close', type: 'date' },
+    { key: 'notes', label: 'Notes', type: 'text' },
+    { key: 'created_at', label: 'Created', type: 'datetime' },
+  ],
+};
+
+type Tagged = { tags?: Tag[] };
+
+export type TaggableRecord = Tagged & { custom_fields?: CustomFieldValues | null };
+
+// `tag_ids` is a computed column holding the ids of a record's tags.
+export const tagFilterField = <T extends Tagged>(tags: Tag[]): FilterField<T> => ({
+  key: 'tag_ids',
+  label: 'Tags',
+  type: 'select',
+  multiple: true,
+  options: tags.map((tag) => ({ value: tag.id, label: tag.name })),
+  value: (record) => record.tags?.map((tag) => tag.id) || [],
+});
+
+type FieldSources = {
+  members: OrganizationMember[];
+  customFields: CustomField[];
+  tags: Tag[];
+  // Deal stages, labeled with their pipeline where there are several
+  stageOptions?: FilterOption[];
+};
+
+export function recordFilterFields<T extends TaggableRecord>(
+  table: TaggableTable,
+  { members, customFields, tags, stageOptions = [] }: FieldSources
+): FilterField<T>[] {
+  return [
+    ...BASE_FIELDS[table],
+    ...(table === 'deals'
+      ? [{ key: 'stage_id', label: 'Stage', type: 'select' as const, options: stageOptions }]
+      : []),
+    tagFilterField<T>(tags),
+    ...customFilterFields<T>(customFields),
+    { key: 'owner_id', label: 'Owner', type: 'select', options: memberOptions(members) },
+  ];
+}
+
+// Records must match both the segment and the list's own filter.
+export const withSegment = (filter: FilterGroup, segment?: Segment): FilterGroup =>
+  segment ? { match: 'all', conditions: [segment.rules, filter] } : filter;
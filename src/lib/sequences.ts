@@ -0,0 +1,72 @@
+import { supabase, EmailTemplate, EnrollmentStatus, SequenceStep, SequenceStepType } from './supabase';
+
+export const STEP_TYPES: { id: SequenceStepType; label: string }[] = [
+  { id: 'email', label: 'Send email' },
+  { id: 'wait', label: 'Wait' },
+  { id: 'task', label: 'Create task' },
+];
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  replied: 'Replied',
+  stopped: 'Stopped',
+};
+
+export type StepDraft = Pick<SequenceStep, 'step_type' | 'template_id' | 'delay_days' | 'task_title'>;
+
+export const emptyStep = (type: SequenceStepType): StepDraft => ({
+  step_type: type,
+  template_id: null,
+  delay_days: type === 'wait' ? 2 : null,
+  task_title: type === 'task' ? '' : null,
+});
+
+export const stepSummary = (step: StepDraft, templates: EmailTemplate[]) => {
+  switch (step.step_type) {
+    case 'email':
+      return `Email: ${templates.find((t) => t.id === step.template_id)?.name || 'no template'}`;
+    case 'wait':
+      return `Wait ${step.delay_days} ${step.delay_days === 1 ? 'day' : 'days'}`;
+    case 'task':
+      return `Task: ${step.task_title}`;
+  }
+};
+
+// Why a step can't be saved, if it can't.
+export const stepProblem = (step: StepDraft) => {
+  if (step.step_type === 'email' && !step.template_id) return 'Choose a template for every email.';
+  if (step.step_type === 'wait' && !(step.delay_days && step.delay_days > 0)) {
+    return 'Waits must last at least a day.';
+  }
+  if (step.step_type === 'task' && !step.task_title?.trim()) return 'Give every task a title.';
+  return null;
+};
+
+/**
+ * Replaces the steps of a sequence. Active enrollments keep their position, so they continue
+ * with whatever step is now at it.
+ */
+export async function saveSequenceSteps(sequenceId: string, steps: StepDraft[]) {
+  const { error: deleteError } = await supabase
+    .from('sequence_steps')
+    .delete()
+    .eq('sequence_id', sequenceId);
+  if (deleteError) throw deleteError;
+  if (steps.length === 0) return;
+
+  const { error } = await supabase.from('sequence_steps').insert(
+    steps.map((step, position) => ({
+      sequence_id: sequenceId,
+      position,
+      step_type: step.step_type,
+      template_id: step.step_type === 'email' ? step.template_id : null,
+      delay_days: step.step_type === 'wait' ? step.delay_days : null,
+      task_title: step.step_type === 'task' ? step.task_title?.trim() : null,
+    }))
+  );
+  if (error) throw error;
+}
+
+export const percentOf = (part: number, whole: number) =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
@@ -0,0 +1,89 @@
+import type { CellValue } from 'exceljs';
+import { detectDelimiter, parseCsv, ParsedRow } from './csv';
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+const isXlsx = (file: File) => /\.xlsx$/i.test(file.name);
+
+// exceljs is large, so it is only loaded when a workbook is actually read or written.
+const loadExcel = async () => (await import('exceljs')).default;
+
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('hyperlink' in value) return String(value.text ?? value.hyperlink);
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText((value.result ?? null) as CellValue);
+  }
+  if ('error' in value) return '';
+  return String(value);
+};
+
+/**
+ * Reads the first worksheet of an XLSX file, or a delimited text file, into rows of strings
+ * with the line or worksheet row each came from.
+ */
+export const readSpreadsheet = async (file: File): Promise<ParsedRow[]> => {
+  if (!isXlsx(file)) {
+    const text = await file.text();
+    return parseCsv(text, detectDelimiter(text));
+  }
+
+  const Excel = await loadExcel();
+  const workbook = new Excel.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: ParsedRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(cellText(row.getCell(col).value).trim());
+    }
+    if (cells.some((cell) => cell !== '')) rows.push({ cells, line: row.number });
+  });
+  return rows;
+};
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Builds a single-sheet workbook. The first row is bold and frozen; numbers, booleans and
+ * dates keep their type so they stay sortable in Excel.
+ */
+export const writeXlsx = async (
+  sheetName: string,
+  header: string[],
+  rows: (string | number | boolean | Date | null)[][]
+) => {
+  const Excel = await loadExcel();
+  const workbook = new Excel.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.addRow(header).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(row));
+  sheet.columns.forEach((column, index) => {
+    // Reduced rather than spread into Math.max, which has an argument limit large exports exceed
+    const longest = rows.reduce(
+      (max, row) => Math.max(max, String(row[index] ?? '').length),
+      header[index].length
+    );
+    column.width = Math.min(60, Math.max(10, longest + 2));
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,54 @@
+import { Phone, Mail, Calendar, FileText, Clock, CheckSquare, DollarSign } from 'lucide-react';
+import { Activity, EnrollmentStatus, SequenceStepType, Task } from './supabase';
+import { CalendarItemKind } from './calendar';
+
+export const ACTIVITY_ICONS: Record<Activity['type'], typeof Phone> = {
+  call: Phone,
+  email: Mail,
+  meeting: Calendar,
+  note: FileText,
+};
+
+export const ACTIVITY_COLORS: Record<Activity['type'], string> = {
+  call: 'bg-blue-100 text-blue-800',
+  email: 'bg-purple-100 text-purple-800',
+  meeting: 'bg-green-100 text-green-800',
+  note: 'bg-yellow-100 text-yellow-800',
+};
+
+export const TASK_PRIORITY_COLORS: Record<Task['priority'], string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+export const TASK_STATUS_COLORS: Record<Task['status'], string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+export const SEQUENCE_STEP_ICONS: Record<SequenceStepType, typeof Phone> = {
+  email: Mail,
+  wait: Clock,
+  task: CheckSquare,
+};
+
+export const ENROLLMENT_STATUS_COLORS: Record<EnrollmentStatus, string> = {
+  active: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  replied: 'bg-purple-100 text-purple-800',
+  stopped: 'bg-gray-100 text-gray-800',
+};
+
+export const CALENDAR_ITEM_ICONS: Record<CalendarItemKind, typeof Phone> = {
+  task: CheckSquare,
+  meeting: Calendar,
+  close: DollarSign,
+};
+
+export const CALENDAR_ITEM_COLORS: Record<CalendarItemKind, string> = {
+  task: 'bg-blue-50 text-blue-800 border-blue-200',
+  meeting: 'bg-green-50 text-green-800 border-green-200',
+  close: 'bg-amber-50 text-amber-800 border-amber-200',
+};
@@ -9,6 +9,46 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+// PostgREST errors come back as plain objects rather than `Error`s, but both carry a message.
+export const errorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string } | null)?.message || fallback;
+
+export type Organization = {
+  id: string;
+  name: string;
+  trash_retention_days: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Profile = {
+  id: string;
+  email: string | null;
+  active_organization_id: string | null;
+  created_at: string;
+};
+
+export type Role = 'admin' | 'manager' | 'rep' | 'read_only';
+
+export type OrganizationMember = {
+  organization_id: string;
+  user_id: string;
+  role: Role;
+  created_at: string;
+  profile?: Profile | null;
+};
+
+export type OrganizationInvitation = {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: Role;
+  invited_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+};
+
 export type Company = {
   id: string;
   name: string;
@@ -18,9 +58,15 @@ export type Company = {
   email: string | null;
   address: string | null;
   notes: string | null;
+  custom_fields: CustomFieldValues;
+  owner_id: string | null;
   user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
   created_at: string;
   updated_at: string;
+  tags?: Tag[];
 };
 
 export type Contact = {
@@ -32,27 +78,95 @@ export type Contact = {
   title: string | null;
   company_id: string | null;
   notes: string | null;
+  custom_fields: CustomFieldValues;
+  owner_id: string | null;
   user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
   created_at: string;
   updated_at: string;
   company?: Company;
+  tags?: Tag[];
 };
 
 export type Deal = {
   id: string;
   title: string;
   value: number;
-  stage: string;
+  pipeline_id: string;
+  stage_id: string;
+  position: number;
   probability: number;
   expected_close_date: string | null;
   company_id: string | null;
   contact_id: string | null;
   notes: string | null;
+  custom_fields: CustomFieldValues;
+  owner_id: string | null;
   user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
   created_at: string;
   updated_at: string;
   company?: Company;
   contact?: Contact;
+  tags?: Tag[];
+};
+
+export type StageOutcome = 'open' | 'won' | 'lost';
+
+export type PipelineStage = {
+  id: string;
+  pipeline_id: string;
+  name: string;
+  position: number;
+  probability: number;
+  outcome: StageOutcome;
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Pipeline = {
+  id: string;
+  name: string;
+  is_default: boolean;
+  position: number;
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+  stages: PipelineStage[];
+};
+
+export type DealStageHistory = {
+  id: string;
+  deal_id: string;
+  pipeline_id: string | null;
+  stage_id: string | null;
+  stage_name: string;
+  from_stage_id: string | null;
+  entered_at: string;
+  exited_at: string | null;
+  changed_by: string | null;
+  user_id: string;
+  organization_id: string;
+};
+
+export type PeriodType = 'month' | 'quarter';
+
+export type Quota = {
+  id: string;
+  period_type: PeriodType;
+  period_start: string;
+  amount: number;
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
 };
 
 export type Task = {
@@ -65,9 +179,16 @@ export type Task = {
   contact_id: string | null;
   company_id: string | null;
   deal_id: string | null;
+  assignee_id: string | null;
   user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
   created_at: string;
   updated_at: string;
+  contact?: Contact | null;
+  company?: Company | null;
+  deal?: Deal | null;
 };
 
 export type Activity = {
@@ -80,5 +201,418 @@ export type Activity = {
   company_id: string | null;
   deal_id: string | null;
   user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  created_at: string;
+  contact?: Contact | null;
+  company?: Company | null;
+  deal?: Deal | null;
+  email_message?: EmailMessage | null;
+};
+
+export type LeadSource =
+  | 'web'
+  | 'referral'
+  | 'event'
+  | 'cold_outreach'
+  | 'partner'
+  | 'advertising'
+  | 'other';
+
+export type LeadStatus = 'new' | 'contacted' | 'qualified' | 'unqualified' | 'converted';
+
+export type Lead = {
+  id: string;
+  first_name: string;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  title: string | null;
+  company_name: string | null;
+  website: string | null;
+  source: LeadSource;
+  status: LeadStatus;
+  score: number;
+  owner_id: string | null;
+  notes: string | null;
+  converted_at: string | null;
+  converted_company_id: string | null;
+  converted_contact_id: string | null;
+  converted_deal_id: string | null;
+  user_id: string;
+  organization_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AssignableTable = 'companies' | 'contacts' | 'deals' | 'leads' | 'tasks';
+
+export type Notification = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  actor_id: string | null;
+  type: 'assigned';
+  record_type: AssignableTable;
+  record_id: string;
+  title: string;
+  read_at: string | null;
+  created_at: string;
+};
+
+export type RoutedTable = 'leads' | 'contacts';
+
+export type AssignmentStrategy = 'manual' | 'round_robin' | 'territory';
+
+export type AssignmentSettings = {
+  organization_id: string;
+  record_type: RoutedTable;
+  strategy: AssignmentStrategy;
+  member_ids: string[];
+  last_assigned_id: string | null;
+  updated_at: string;
+};
+
+export type TerritoryField = 'email' | 'website' | 'company_name' | 'source' | 'title' | 'company_address';
+
+export type TerritoryOperator = 'equals' | 'contains' | 'starts_with' | 'ends_with';
+
+export type TerritoryRule = {
+  id: string;
+  organization_id: string;
+  record_type: RoutedTable;
+  position: number;
+  field: TerritoryField;
+  operator: TerritoryOperator;
+  value: string;
+  assignee_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type AuditTable = 'companies' | 'contacts' | 'deals' | 'tasks' | 'activities' | 'leads';
+
+export type AuditAction = 'insert' | 'update' | 'delete' | 'restore' | 'purge';
+
+export type AuditLogEntry = {
+  id: string;
+  organization_id: string;
+  table_name: AuditTable;
+  record_id: string;
+  record_label: string | null;
+  action: AuditAction;
+  actor_id: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type TrashItem = {
+  table_name: AuditTable;
+  record_id: string;
+  record_label: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  can_modify: boolean;
+};
+
+export type DuplicateTable = 'contacts' | 'companies';
+
+export type DuplicateReason = 'name' | 'email' | 'phone' | 'domain';
+
+export type DuplicateMatch = {
+  record_id: string;
+  record_label: string | null;
+  reasons: DuplicateReason[];
+  score: number;
+};
+
+export type DuplicatePair = {
+  record_a: string;
+  label_a: string | null;
+  record_b: string;
+  label_b: string | null;
+  reasons: DuplicateReason[];
+  score: number;
+};
+
+export type DuplicateDismissal = {
+  organization_id: string;
+  table_name: DuplicateTable;
+  record_a: string;
+  record_b: string;
+  user_id: string | null;
+  created_at: string;
+};
+
+export type DashboardStats = {
+  contacts: number;
+  companies: number;
+  activities: number;
+  deals: number;
+  active_tasks: number;
+  overdue_tasks: number;
+  open_deals: number;
+  open_value: number;
+  weighted_value: number;
+  deals_by_stage: Record<string, number>;
+  // Keyed by pipeline id
+  velocity: Record<string, PipelineVelocity>;
+};
+
+export type StageVelocity = {
+  stage_id: string;
+  name: string;
+  // Average of completed stints in the stage
+  average_days: number | null;
+  entered: number;
+  // Deals that later reached a further stage that is not a lost outcome
+  converted: number;
+  conversion_rate: number | null;
+};
+
+export type PipelineVelocity = {
+  stages: StageVelocity[];
+  average_days_to_win: number | null;
+  win_rate: number | null;
+};
+
+export type SearchTable = 'contacts' | 'companies' | 'deals' | 'tasks' | 'activities';
+
+export type SearchResult = {
+  table_name: SearchTable;
+  record_id: string;
+  title: string;
+  subtitle: string | null;
+  rank: number;
+};
+
+export type FilterMatch = 'all' | 'any';
+
+export type FilterOperator =
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'is'
+  | 'is_not'
+  | 'greater_than'
+  | 'less_than'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'in_last_days'
+  | 'in_next_days'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export type FilterCondition = {
+  field: string;
+  operator: FilterOperator;
+  value: string;
+  // Upper bound of `between`
+  value2?: string;
+};
+
+export type FilterGroup = {
+  match: FilterMatch;
+  conditions: (FilterCondition | FilterGroup)[];
+};
+
+export type SavedViewList = 'leads' | 'contacts' | 'companies' | 'deals' | 'tasks' | 'activities';
+
+export type SavedView = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  list: SavedViewList;
+  name: string;
+  filter: FilterGroup | null;
+  params: Record<string, string>;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SavedViewPin = {
+  saved_view_id: string;
+  user_id: string;
+  created_at: string;
+};
+
+export type CustomFieldTable = 'contacts' | 'companies' | 'deals';
+
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'select'
+  | 'multi_select'
+  | 'checkbox'
+  | 'url';
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+// Values by field key; fields without a value are left out.
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export type CustomField = {
+  id: string;
+  organization_id: string;
+  table_name: CustomFieldTable;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  position: number;
+  show_in_list: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type TaggableTable = 'contacts' | 'companies' | 'deals';
+
+export type TagColor =
+  | 'gray'
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'indigo'
+  | 'purple'
+  | 'pink';
+
+export type Tag = {
+  id: string;
+  organization_id: string;
+  name: string;
+  color: TagColor;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Segment = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  table_name: TaggableTable;
+  name: string;
+  description: string | null;
+  rules: FilterGroup;
+  created_at: string;
+  updated_at: string;
+};
+
+export type EmailAccount = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  email_address: string;
+  display_name: string | null;
+  username: string;
+  imap_host: string;
+  imap_port: number;
+  imap_secure: boolean;
+  smtp_host: string;
+  smtp_port: number;
+  smtp_secure: boolean;
+  sync_enabled: boolean;
+  last_synced_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type EmailMessage = {
+  id: string;
+  organization_id: string;
+  account_id: string | null;
+  activity_id: string;
+  thread_id: string;
+  message_id: string;
+  in_reply_to: string | null;
+  references: string[];
+  direction: 'inbound' | 'outbound';
+  from_address: string;
+  from_name: string | null;
+  to_addresses: string[];
+  cc_addresses: string[];
+  subject: string | null;
+  body_text: string | null;
+  sent_at: string;
+  enrollment_id: string | null;
+  sequence_step: number | null;
+  opened_at: string | null;
+  open_count: number;
+  created_at: string;
+};
+
+export type EmailTemplate = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  name: string;
+  subject: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type SequenceStepType = 'email' | 'wait' | 'task';
+
+export type SequenceStep = {
+  id: string;
+  sequence_id: string;
+  position: number;
+  step_type: SequenceStepType;
+  template_id: string | null;
+  delay_days: number | null;
+  task_title: string | null;
+  created_at: string;
+};
+
+export type Sequence = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
   created_at: string;
+  updated_at: string;
+  steps?: SequenceStep[];
+};
+
+export type EnrollmentStatus = 'active' | 'completed' | 'replied' | 'stopped';
+
+export type SequenceEnrollment = {
+  id: string;
+  organization_id: string;
+  sequence_id: string;
+  contact_id: string;
+  deal_id: string | null;
+  user_id: string;
+  status: EnrollmentStatus;
+  current_step: number;
+  next_run_at: string;
+  last_message_id: string | null;
+  last_error: string | null;
+  enrolled_at: string;
+  finished_at: string | null;
+  updated_at: string;
+  sequence?: Sequence | null;
+};
+
+export type SequenceStats = {
+  sequence_id: string;
+  enrolled: number;
+  active: number;
+  completed: number;
+  replied: number;
+  emails_sent: number;
+  emails_opened: number;
 };
@@ -0,0 +1,88 @@
+import { supabase, Tag, TagColor, TaggableTable } from './supabase';
+
+export const TAG_COLORS: { id: TagColor; label: string; chip: string; swatch: string }[] = [
+  { id: 'gray', label: 'Gray', chip: 'bg-gray-100 text-gray-800', swatch: 'bg-gray-400' },
+  { id: 'red', label: 'Red', chip: 'bg-red-100 text-red-800', swatch: 'bg-red-500' },
+  { id: 'orange', label: 'Orange', chip: 'bg-orange-100 text-orange-800', swatch: 'bg-orange-500' },
+  { id: 'yellow', label: 'Yellow', chip: 'bg-yellow-100 text-yellow-800', swatch: 'bg-yellow-400' },
+  { id: 'green', label: 'Green', chip: 'bg-green-100 text-green-800', swatch: 'bg-green-500' },
+  { id: 'teal', label: 'Teal', chip: 'bg-teal-100 text-teal-800', swatch: 'bg-teal-500' },
+  { id: 'blue', label: 'Blue', chip: 'bg-blue-100 text-blue-800', swatch: 'bg-blue-500' },
+  { id: 'indigo', label: 'Indigo', chip: 'bg-indigo-100 text-indigo-800', swatch: 'bg-indigo-500' },
+  { id: 'purple', label: 'Purple', chip: 'bg-purple-100 text-purple-800', swatch: 'bg-purple-500' },
+  { id: 'pink', label: 'Pink', chip: 'bg-pink-100 text-pink-800', swatch: 'bg-pink-500' },
+];
+
+export const tagColorOf = (color: TagColor) =>
+  TAG_COLORS.find((c) => c.id === color) || TAG_COLORS[0];
+
+// New tags take the colors of the palette in turn.
+export const nextTagColor = (tags: Tag[]): TagColor =>
+  TAG_COLORS[tags.length % TAG_COLORS.length].id;
+
+// Join table linking each record type to its tags.
+const TAG_LINKS: Record<TaggableTable, { table: string; column: string }> = {
+  contacts: { table: 'contact_tags', column: 'contact_id' },
+  companies: { table: 'company_tags', column: 'company_id' },
+  deals: { table: 'deal_tags', column: 'deal_id' },
+};
+
+export const tagNames = (tags?: Tag[]) =>
+  tags && tags.length > 0 ? tags.map((tag) => tag.name).join(', ') : null;
+
+/**
+ * Links and unlinks tags so a record ends up with `tagIds`, given the tags it had when the
+ * form was opened.
+ */
+export async function saveRecordTags(
+  table: TaggableTable,
+  recordId: string,
+  tagIds: string[],
+  previousIds: string[]
+) {
+  const { table: linkTable, column } = TAG_LINKS[table];
+  const added = tagIds.filter((id) => !previousIds.includes(id));
+  const removed = previousIds.filter((id) => !tagIds.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from(linkTable)
+      .delete()
+      .eq(column, recordId)
+      .in('tag_id', removed);
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from(linkTable)
+      .insert(added.map((tagId) => ({ [column]: recordId, tag_id: tagId })));
+    if (error) throw error;
+  }
+}
+
+// Gives every record in `recordIds` the tag; records that already have it are left alone.
+export async function addTagToRecords(table: TaggableTable, recordIds: string[], tagId: string) {
+  const { table: linkTable, column } = TAG_LINKS[table];
+  const { error } = await supabase
+    .from(linkTable)
+    .upsert(
+      recordIds.map((recordId) => ({ [column]: recordId, tag_id: tagId })),
+      { ignoreDuplicates: true }
+    );
+  if (error) throw error;
+}
+
+export async function removeTagFromRecords(
+  table: TaggableTable,
+  recordIds: string[],
+  tagId: string
+) {
+  const { table: linkTable, column } = TAG_LINKS[table];
+  const { error } = await supabase
+    .from(linkTable)
+    .delete()
+    .eq('tag_id', tagId)
+    .in(column, recordIds);
+  if (error) throw error;
+}
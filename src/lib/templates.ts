@@ -0,0 +1,47 @@
+import { supabase } from './supabase';
+
+// Merge variables offered in the template editor; any field of the records can be used.
+export const MERGE_VARIABLES: { group: string; variables: { key: string; label: string }[] }[] = [
+  {
+    group: 'Contact',
+    variables: [
+      { key: 'contact.first_name', label: 'First name' },
+      { key: 'contact.last_name', label: 'Last name' },
+      { key: 'contact.email', label: 'Email' },
+      { key: 'contact.title', label: 'Title' },
+      { key: 'contact.phone', label: 'Phone' },
+    ],
+  },
+  {
+    group: 'Company',
+    variables: [
+      { key: 'company.name', label: 'Name' },
+      { key: 'company.industry', label: 'Industry' },
+      { key: 'company.website', label: 'Website' },
+    ],
+  },
+  {
+    group: 'Deal',
+    variables: [
+      { key: 'deal.title', label: 'Title' },
+      { key: 'deal.value', label: 'Value' },
+      { key: 'deal.expected_close_date', label: 'Expected close date' },
+    ],
+  },
+];
+
+export const mergeTag = (key: string) => `{{${key}}}`;
+
+/**
+ * Fills in the merge variables of a template for a contact, their company and optionally a
+ * deal. Rendering happens in the database, the same way sequences render their emails.
+ */
+export async function renderTemplate(text: string, contactId: string, dealId?: string | null) {
+  const { data, error } = await supabase.rpc('render_template', {
+    p_text: text,
+    p_contact_id: contactId,
+    p_deal_id: dealId || null,
+  });
+  if (error) throw error;
+  return data as string;
+}
@@ -0,0 +1,55 @@
+import { supabase, AuditTable } from './supabase';
+import { AUDIT_TABLES } from './audit';
+
+export type RelatedCount = {
+  table: AuditTable;
+  count: number;
+};
+
+// Records that point at a record of each type through a foreign key. They stay linked while it
+// is in the trash, but no longer show it, and lose the link when it is purged.
+const RELATED_TABLES: Partial<Record<AuditTable, { table: AuditTable; column: string }[]>> = {
+  companies: [
+    { table: 'contacts', column: 'company_id' },
+    { table: 'deals', column: 'company_id' },
+    { table: 'tasks', column: 'company_id' },
+    { table: 'activities', column: 'company_id' },
+  ],
+  contacts: [
+    { table: 'deals', column: 'contact_id' },
+    { table: 'tasks', column: 'contact_id' },
+    { table: 'activities', column: 'contact_id' },
+  ],
+  deals: [
+    { table: 'tasks', column: 'deal_id' },
+    { table: 'activities', column: 'deal_id' },
+  ],
+};
+
+/**
+ * Counts the live records linked to the given one, leaving out types with none.
+ */
+export async function countRelated(table: AuditTable, id: string): Promise<RelatedCount[]> {
+  const related = RELATED_TABLES[table] || [];
+  const results = await Promise.all(
+    related.map((relation) =>
+      supabase
+        .from(relation.table)
+        .select('id', { count: 'exact', head: true })
+        .eq(relation.column, id)
+    )
+  );
+
+  return related
+    .map((relation, index) => {
+      if (results[index].error) throw results[index].error;
+      return { table: relation.table, count: results[index].count || 0 };
+    })
+    .filter((relation) => relation.count > 0);
+}
+
+// "1 deal", "3 tasks".
+export const describeRelated = ({ table, count }: RelatedCount) => {
+  const type = AUDIT_TABLES.find((t) => t.id === table);
+  return `${count} ${count === 1 ? type?.singular : type?.label.toLowerCase()}`;
+};
@@ -0,0 +1,9 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const daysBetween = (from: string, to?: string | null) =>
+  ((to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime()) / DAY_MS;
+
+export const formatDays = (days: number) => {
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))}h`;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+};
@@ -0,0 +1,42 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Errors the caller can act on, returned with their message instead of a generic one.
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Wraps a function handler with the CORS preflight and JSON error responses the app's
+ * `supabase.functions.invoke` expects.
+ */
+export const serveJson = (handler: (req: Request) => Promise<unknown>) =>
+  Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      return jsonResponse(await handler(req));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return jsonResponse({ error: error.message }, error.status);
+      }
+      console.error('Error handling request:', error);
+      return jsonResponse({ error: 'Something went wrong.' }, 500);
+    }
+  });
@@ -0,0 +1,227 @@
+/**
+ * Mailbox access shared by the email edge functions.
+ *
+ * They talk to whatever IMAP and SMTP servers a member configured, so they can be tried out
+ * against a local stand-in such as GreenMail (`greenmail/standalone`, IMAP on 3143 and SMTP on
+ * 3025 without TLS, accepting any login): connect a mailbox in Settings with `secure` off and
+ * `host.docker.internal` as the host, since the functions run in a container.
+ */
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { ParsedMail, AddressObject } from 'npm:mailparser@3';
+import nodemailer from 'npm:nodemailer@6';
+import { HttpError } from './cors.ts';
+
+export type EmailAccount = {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  email_address: string;
+  display_name: string | null;
+  username: string;
+  imap_host: string;
+  imap_port: number;
+  imap_secure: boolean;
+  smtp_host: string;
+  smtp_port: number;
+  smtp_secure: boolean;
+  sync_enabled: boolean;
+  sync_state: Record<string, { uid_validity: string; last_uid: number }>;
+  last_synced_at: string | null;
+  last_error: string | null;
+};
+
+export type EmailMessageInput = {
+  message_id: string;
+  in_reply_to: string | null;
+  references: string[];
+  direction: 'inbound' | 'outbound';
+  from_address: string;
+  from_name: string | null;
+  to_addresses: string[];
+  cc_addresses: string[];
+  subject: string | null;
+  body_text: string | null;
+  sent_at: string;
+};
+
+export type OutgoingMessage = {
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  // HTML version sent alongside the text, such as one with an open-tracking image
+  html?: string;
+  // `message_id` of the logged message being answered
+  inReplyTo: string | null;
+};
+
+// Longer bodies are cut, which keeps activities readable and rows small.
+const MAX_BODY_LENGTH = 20000;
+
+export const serviceClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const bearerToken = (req: Request) =>
+  (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+
+// Whether the request was made with the service role key, as scheduled syncs are.
+export const isServiceRequest = (req: Request) =>
+  bearerToken(req) === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+/**
+ * The caller's mailbox in their active workspace, read with their own token so the same
+ * policies apply as in the app.
+ */
+export async function callerAccount(req: Request): Promise<EmailAccount> {
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: `Bearer ${bearerToken(req)}` } },
+  });
+  const { data, error } = await client.from('email_accounts').select('*').maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(400, 'Connect your mailbox in Settings first.');
+  return data;
+}
+
+export async function accountPassword(service: SupabaseClient, accountId: string) {
+  const { data, error } = await service
+    .from('email_account_secrets')
+    .select('password')
+    .eq('account_id', accountId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(400, 'The mailbox has no password. Enter it in Settings.');
+  return data.password as string;
+}
+
+const addresses = (field: AddressObject | AddressObject[] | undefined) =>
+  (Array.isArray(field) ? field : field ? [field] : [])
+    .flatMap((group) => group.value)
+    .map((entry) => entry.address?.toLowerCase())
+    .filter((address): address is string => !!address);
+
+/**
+ * The fields `ingest_email_message` logs, from a parsed message. Mail from the account's own
+ * address is outbound wherever it was found. `fallbackId` stands in for a missing Message-ID.
+ */
+export function toEmailMessage(
+  account: EmailAccount,
+  parsed: ParsedMail,
+  fallbackId: string
+): EmailMessageInput {
+  const from = parsed.from?.value[0];
+  const fromAddress = from?.address?.toLowerCase() || '';
+  const references = parsed.references;
+
+  return {
+    message_id: parsed.messageId || fallbackId,
+    in_reply_to: parsed.inReplyTo || null,
+    references: Array.isArray(references) ? references : references ? references.split(/\s+/) : [],
+    direction: fromAddress === account.email_address.toLowerCase() ? 'outbound' : 'inbound',
+    from_address: fromAddress,
+    from_name: from?.name || null,
+    to_addresses: addresses(parsed.to),
+    cc_addresses: addresses(parsed.cc),
+    subject: parsed.subject || null,
+    body_text: parsed.text ? parsed.text.slice(0, MAX_BODY_LENGTH) : null,
+    sent_at: (parsed.date || new Date()).toISOString(),
+  };
+}
+
+// Logs the message as an activity; null when it involves no known contact or company.
+export async function ingestMessage(
+  service: SupabaseClient,
+  account: EmailAccount,
+  message: EmailMessageInput
+): Promise<string | null> {
+  const { data, error } = await service.rpc('ingest_email_message', {
+    p_account_id: account.id,
+    p_message: message,
+  });
+  if (error) throw error;
+  return data;
+}
+
+// A reply references the whole thread so far, as mail clients do.
+async function threadReferences(
+  service: SupabaseClient,
+  account: EmailAccount,
+  messageId: string
+): Promise<string[]> {
+  const { data, error } = await service
+    .from('email_messages')
+    .select('message_id, references')
+    .eq('organization_id', account.organization_id)
+    .eq('message_id', messageId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(400, 'The message being answered was not found.');
+  return [...data.references, data.message_id];
+}
+
+/**
+ * Sends a message from the mailbox and logs it right away, without waiting for the next sync
+ * to find it in the sent folder; that sync then skips it. Returns the logged activity, if the
+ * message involves a known contact or company, and the message's Message-ID.
+ */
+export async function sendMessage(
+  service: SupabaseClient,
+  account: EmailAccount,
+  outgoing: OutgoingMessage
+) {
+  const references = outgoing.inReplyTo
+    ? await threadReferences(service, account, outgoing.inReplyTo)
+    : [];
+  const domain = account.email_address.split('@')[1];
+  const message: EmailMessageInput = {
+    message_id: `<${crypto.randomUUID()}@${domain}>`,
+    in_reply_to: outgoing.inReplyTo,
+    references,
+    direction: 'outbound',
+    from_address: account.email_address.toLowerCase(),
+    from_name: account.display_name,
+    to_addresses: outgoing.to,
+    cc_addresses: outgoing.cc,
+    subject: outgoing.subject,
+    body_text: outgoing.text ? outgoing.text.slice(0, MAX_BODY_LENGTH) : null,
+    sent_at: new Date().toISOString(),
+  };
+
+  const transport = nodemailer.createTransport({
+    host: account.smtp_host,
+    port: account.smtp_port,
+    secure: account.smtp_secure,
+    auth: { user: account.username, pass: await accountPassword(service, account.id) },
+  });
+
+  try {
+    await transport.sendMail({
+      from: account.display_name
+        ? { name: account.display_name, address: account.email_address }
+        : account.email_address,
+      to: outgoing.to,
+      cc: outgoing.cc,
+      subject: outgoing.subject,
+      text: outgoing.text,
+      html: outgoing.html,
+      messageId: message.message_id,
+      inReplyTo: outgoing.inReplyTo || undefined,
+      references,
+      date: new Date(message.sent_at),
+    });
+  } catch (error) {
+    console.error('Error sending email:', error);
+    throw new HttpError(502, 'The mail server did not accept the message.');
+  } finally {
+    transport.close();
+  }
+
+  // The message is out, so failing to log it must not look like a failed send that gets retried;
+  // the next sync of the Sent folder logs it instead.
+  let activityId: string | null = null;
+  try {
+    activityId = await ingestMessage(service, account, message);
+  } catch (error) {
+    console.error('Error logging sent email:', error);
+  }
+  return { activityId, messageId: message.message_id };
+}
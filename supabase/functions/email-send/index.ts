@@ -0,0 +1,41 @@
+/**
+ * Sends an email from the caller's mailbox and logs it as an activity.
+ *
+ * Takes `to`, `cc`, `subject`, `text` and, for a reply, `in_reply_to`: the `message_id` of the
+ * logged message being answered, so the reply joins its thread.
+ */
+import { HttpError, serveJson } from '../_shared/cors.ts';
+import { callerAccount, sendMessage, serviceClient } from '../_shared/email.ts';
+
+type SendRequest = {
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  text?: string;
+  in_reply_to?: string | null;
+};
+
+const cleanAddresses = (list: string[] | undefined) =>
+  (list || []).map((address) => address.trim().toLowerCase()).filter(Boolean);
+
+serveJson(async (req) => {
+  const body: SendRequest = await req.json();
+  const to = cleanAddresses(body.to);
+  const cc = cleanAddresses(body.cc);
+  const subject = (body.subject || '').trim();
+  if (to.length === 0) throw new HttpError(400, 'Add at least one recipient.');
+  if ([...to, ...cc].some((address) => !/^[^\s@]+@[^\s@]+$/.test(address))) {
+    throw new HttpError(400, 'One of the addresses is not valid.');
+  }
+  if (!subject) throw new HttpError(400, 'Add a subject.');
+
+  const account = await callerAccount(req);
+  const { activityId } = await sendMessage(serviceClient(), account, {
+    to,
+    cc,
+    subject,
+    text: body.text || '',
+    inReplyTo: body.in_reply_to || null,
+  });
+  return { activity_id: activityId };
+});
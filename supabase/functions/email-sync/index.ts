@@ -0,0 +1,121 @@
+/**
+ * Reads new mail from connected mailboxes and logs it as activities.
+ *
+ * Called from the app, it syncs the caller's mailbox. Called with the service role key, for
+ * example from a pg_cron job every few minutes, it syncs every mailbox with sync turned on.
+ * Each folder remembers the last UID it read, so a sync only fetches newer messages; the first
+ * one looks back `FIRST_SYNC_DAYS`.
+ */
+import { ImapFlow } from 'npm:imapflow@1';
+import { simpleParser } from 'npm:mailparser@3';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { serveJson } from '../_shared/cors.ts';
+import {
+  EmailAccount,
+  accountPassword,
+  callerAccount,
+  ingestMessage,
+  isServiceRequest,
+  serviceClient,
+  toEmailMessage,
+} from '../_shared/email.ts';
+
+const FIRST_SYNC_DAYS = 30;
+
+type SyncResult = { account_id: string; read: number; logged: number; error?: string };
+
+// The inbox and, when the server marks one, the sent folder.
+async function foldersToSync(client: ImapFlow) {
+  const folders = await client.list();
+  const sent = folders.find((folder) => folder.specialUse === '\\Sent');
+  return sent ? ['INBOX', sent.path] : ['INBOX'];
+}
+
+async function syncAccount(service: SupabaseClient, account: EmailAccount): Promise<SyncResult> {
+  const result: SyncResult = { account_id: account.id, read: 0, logged: 0 };
+  const state = { ...account.sync_state };
+  let client: ImapFlow | null = null;
+
+  try {
+    client = new ImapFlow({
+      host: account.imap_host,
+      port: account.imap_port,
+      secure: account.imap_secure,
+      auth: { user: account.username, pass: await accountPassword(service, account.id) },
+      logger: false,
+    });
+    await client.connect();
+    for (const path of await foldersToSync(client)) {
+      const lock = await client.getMailboxLock(path);
+      try {
+        const mailbox = client.mailbox;
+        if (!mailbox) continue;
+        const uidValidity = String(mailbox.uidValidity);
+        const saved = state[path];
+        // A changed UIDVALIDITY means the server renumbered the folder; start over
+        let lastUid = saved && saved.uid_validity === uidValidity ? saved.last_uid : 0;
+        const query =
+          lastUid > 0
+            ? { uid: `${lastUid + 1}:*` }
+            : { since: new Date(Date.now() - FIRST_SYNC_DAYS * 24 * 60 * 60 * 1000) };
+
+        for await (const message of client.fetch(query, { uid: true, source: true }, { uid: true })) {
+          // `n:*` also returns the newest message when there is nothing after n
+          if (message.uid <= lastUid || !message.source) continue;
+          const parsed = await simpleParser(message.source);
+          const activityId = await ingestMessage(
+            service,
+            account,
+            toEmailMessage(account, parsed, `<${uidValidity}.${message.uid}.${account.id}@${path}>`)
+          );
+          result.read += 1;
+          if (activityId) result.logged += 1;
+          lastUid = Math.max(lastUid, message.uid);
+          state[path] = { uid_validity: uidValidity, last_uid: lastUid };
+        }
+
+        state[path] = {
+          uid_validity: uidValidity,
+          last_uid: Math.max(lastUid, (mailbox.uidNext || 1) - 1),
+        };
+      } finally {
+        lock.release();
+      }
+    }
+  } catch (error) {
+    console.error('Error syncing mailbox:', error);
+    result.error = error instanceof Error ? error.message : 'Could not sync the mailbox.';
+  } finally {
+    await client?.logout().catch(() => undefined);
+  }
+
+  // Progress is kept even when a folder failed part way, so the next sync resumes from there
+  const { error } = await service
+    .from('email_accounts')
+    .update({
+      sync_state: state,
+      last_error: result.error || null,
+      ...(result.error ? {} : { last_synced_at: new Date().toISOString() }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', account.id);
+  if (error) throw error;
+
+  return result;
+}
+
+serveJson(async (req) => {
+  const service = serviceClient();
+
+  if (!isServiceRequest(req)) {
+    return syncAccount(service, await callerAccount(req));
+  }
+
+  const { data, error } = await service.from('email_accounts').select('*').eq('sync_enabled', true);
+  if (error) throw error;
+  const results: SyncResult[] = [];
+  for (const account of (data || []) as EmailAccount[]) {
+    results.push(await syncAccount(service, account));
+  }
+  return { results };
+});
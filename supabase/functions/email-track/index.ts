@@ -0,0 +1,30 @@
+/**
+ * Serves the open-tracking image of sequence emails and counts the open.
+ *
+ * Mail clients load it without a Supabase token, so deploy it with `--no-verify-jwt`. Unknown
+ * tokens get the same image, so the URL reveals nothing about which messages exist.
+ */
+import { serviceClient } from '../_shared/email.ts';
+
+// A transparent 1x1 GIF
+const PIXEL = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  (char) => char.charCodeAt(0)
+);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('t') || '';
+  if (UUID.test(token)) {
+    const { error } = await serviceClient().rpc('record_email_open', { p_token: token });
+    if (error) console.error('Error recording email open:', error);
+  }
+
+  return new Response(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  });
+});
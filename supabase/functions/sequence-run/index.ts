@@ -0,0 +1,267 @@
+/**
+ * Runs the steps of sequence enrollments that are due.
+ *
+ * Meant to be called with the service role key on a schedule, for example from a pg_cron job
+ * every few minutes. Each due enrollment runs its steps in order until a wait or the end of the
+ * sequence. Progress is saved as soon as a step's email is sent or its task created, before
+ * anything else that could fail, so a retry never repeats it. An enrollment that fails keeps its
+ * place and is retried after `RETRY_MINUTES`.
+ */
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { HttpError, serveJson } from '../_shared/cors.ts';
+import { EmailAccount, isServiceRequest, sendMessage, serviceClient } from '../_shared/email.ts';
+
+// Enrollments handled per call; the rest are picked up by the next one.
+const BATCH_SIZE = 50;
+const RETRY_MINUTES = 60;
+
+type Step = {
+  id: string;
+  position: number;
+  step_type: 'email' | 'wait' | 'task';
+  delay_days: number | null;
+  task_title: string | null;
+  template: { subject: string; body: string } | null;
+};
+
+type Enrollment = {
+  id: string;
+  organization_id: string;
+  contact_id: string;
+  deal_id: string | null;
+  user_id: string;
+  current_step: number;
+  last_message_id: string | null;
+  sequence: { name: string; steps: Step[] };
+  contact: { email: string | null; company_id: string | null; deleted_at: string | null };
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const trackedHtml = (text: string, token: string) =>
+  `<div style="white-space: pre-wrap">${escapeHtml(text)}</div>` +
+  `<img src="${Deno.env.get('SUPABASE_URL')}/functions/v1/email-track?t=${token}" width="1" height="1" alt="">`;
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+async function render(service: SupabaseClient, enrollment: Enrollment, text: string) {
+  const { data, error } = await service.rpc('render_template', {
+    p_text: text,
+    p_contact_id: enrollment.contact_id,
+    p_deal_id: enrollment.deal_id,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+async function saveEnrollment(
+  service: SupabaseClient,
+  enrollment: Enrollment,
+  changes: Record<string, unknown>
+) {
+  const { error } = await service
+    .from('sequence_enrollments')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', enrollment.id)
+    // Leaves an enrollment alone once a reply or a member has ended it
+    .eq('status', 'active');
+  if (error) throw error;
+}
+
+// A reply or a stop since the run started ends the enrollment before its next step.
+async function isStillActive(service: SupabaseClient, enrollment: Enrollment) {
+  const { data, error } = await service
+    .from('sequence_enrollments')
+    .select('status')
+    .eq('id', enrollment.id)
+    .single();
+  if (error) throw error;
+  return data.status === 'active';
+}
+
+async function senderAccount(service: SupabaseClient, enrollment: Enrollment) {
+  const { data, error } = await service
+    .from('email_accounts')
+    .select('*')
+    .eq('organization_id', enrollment.organization_id)
+    .eq('user_id', enrollment.user_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('The member who enrolled the contact has no connected mailbox.');
+  return data as EmailAccount;
+}
+
+// Saves that the steps before `position` have run.
+async function advance(service: SupabaseClient, enrollment: Enrollment, position: number) {
+  await saveEnrollment(service, enrollment, {
+    current_step: position,
+    last_message_id: enrollment.last_message_id,
+    last_error: null,
+  });
+}
+
+// Sends the step's email, as a reply to the sequence's previous one, and links it to the step.
+async function runEmailStep(
+  service: SupabaseClient,
+  enrollment: Enrollment,
+  step: Step,
+  next: number
+) {
+  if (!step.template) throw new Error('The email step has no template.');
+  if (!enrollment.contact.email) throw new Error('The contact has no email address.');
+
+  const text = await render(service, enrollment, step.template.body);
+  const trackingToken = crypto.randomUUID();
+  const { activityId, messageId } = await sendMessage(
+    service,
+    await senderAccount(service, enrollment),
+    {
+      to: [enrollment.contact.email],
+      cc: [],
+      subject: await render(service, enrollment, step.template.subject),
+      text,
+      html: trackedHtml(text, trackingToken),
+      inReplyTo: enrollment.last_message_id,
+    }
+  );
+  enrollment.last_message_id = messageId;
+  await advance(service, enrollment, next);
+
+  if (activityId) {
+    const { error } = await service
+      .from('email_messages')
+      .update({
+        enrollment_id: enrollment.id,
+        sequence_step: step.position,
+        tracking_token: trackingToken,
+      })
+      .eq('activity_id', activityId);
+    if (error) throw error;
+
+    if (enrollment.deal_id) {
+      const { error: activityError } = await service
+        .from('activities')
+        .update({ deal_id: enrollment.deal_id })
+        .eq('id', activityId);
+      if (activityError) throw activityError;
+    }
+  }
+}
+
+// Creates the step's task for the enrolling member and logs it as a note.
+async function runTaskStep(
+  service: SupabaseClient,
+  enrollment: Enrollment,
+  step: Step,
+  next: number
+) {
+  const title = await render(service, enrollment, step.task_title || '');
+  const links = {
+    organization_id: enrollment.organization_id,
+    contact_id: enrollment.contact_id,
+    company_id: enrollment.contact.company_id,
+    deal_id: enrollment.deal_id,
+    user_id: enrollment.user_id,
+  };
+
+  const { error: taskError } = await service.from('tasks').insert([
+    {
+      ...links,
+      title,
+      description: `From the sequence "${enrollment.sequence.name}"`,
+      due_date: new Date().toISOString(),
+      priority: 'medium',
+      status: 'pending',
+      assignee_id: enrollment.user_id,
+    },
+  ]);
+  if (taskError) throw taskError;
+  await advance(service, enrollment, next);
+
+  const { error: activityError } = await service.from('activities').insert([
+    {
+      ...links,
+      type: 'note',
+      subject: `Sequence task: ${title}`,
+      description: `Created by step ${step.position + 1} of the sequence "${enrollment.sequence.name}"`,
+      activity_date: new Date().toISOString(),
+    },
+  ]);
+  if (activityError) throw activityError;
+}
+
+async function runEnrollment(service: SupabaseClient, enrollment: Enrollment) {
+  const steps = [...enrollment.sequence.steps].sort((a, b) => a.position - b.position);
+  let position = enrollment.current_step;
+
+  try {
+    // The service role also sees trashed contacts, which must not be emailed
+    if (enrollment.contact.deleted_at) {
+      await saveEnrollment(service, enrollment, {
+        status: 'stopped',
+        finished_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    while (position < steps.length) {
+      const step = steps[position];
+
+      if (step.step_type === 'wait') {
+        position += 1;
+        await saveEnrollment(service, enrollment, {
+          current_step: position,
+          next_run_at: daysFromNow(step.delay_days || 1),
+          last_error: null,
+        });
+        return;
+      }
+
+      if (!(await isStillActive(service, enrollment))) return;
+      if (step.step_type === 'email') {
+        await runEmailStep(service, enrollment, step, position + 1);
+      } else {
+        await runTaskStep(service, enrollment, step, position + 1);
+      }
+      position += 1;
+    }
+
+    await saveEnrollment(service, enrollment, {
+      status: 'completed',
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error running sequence step:', error);
+    // A failed save must not stop the other due enrollments; this one is picked up again later
+    try {
+      await saveEnrollment(service, enrollment, {
+        last_error: error instanceof Error ? error.message : 'Could not run the step.',
+        next_run_at: new Date(Date.now() + RETRY_MINUTES * 60 * 1000).toISOString(),
+      });
+    } catch (saveError) {
+      console.error('Error saving sequence enrollment:', saveError);
+    }
+  }
+}
+
+serveJson(async (req) => {
+  if (!isServiceRequest(req)) throw new HttpError(403, 'Sequences are run on a schedule.');
+
+  const service = serviceClient();
+  const { data, error } = await service
+    .from('sequence_enrollments')
+    .select(
+      '*, sequence:sequences(name, steps:sequence_steps(*, template:email_templates(subject, body))), contact:contacts(email, company_id, deleted_at)'
+    )
+    .eq('status', 'active')
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at')
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+
+  for (const enrollment of (data || []) as Enrollment[]) {
+    await runEnrollment(service, enrollment);
+  }
+  return { processed: (data || []).length };
+});
@@ -0,0 +1,185 @@
+/*
+  # Leads and Lead Conversion
+
+  ## Overview
+  Raw leads were previously stored as deals in the `lead` stage. This migration gives leads their
+  own table with a qualification workflow, and a `convert_lead` function that turns a qualified
+  lead into a company, contact and deal in a single transaction.
+
+  ## New Tables
+
+  ### 1. `leads`
+  - `id` (uuid, primary key)
+  - `first_name` (text, required) - Lead first name
+  - `last_name` (text) - Lead last name
+  - `email` (text) - Email address
+  - `phone` (text) - Phone number
+  - `title` (text) - Job title
+  - `company_name` (text) - Company name as captured, before a company record exists
+  - `website` (text) - Company website
+  - `source` (text, required) - Where the lead came from (web, referral, event, cold_outreach,
+    partner, advertising, other)
+  - `status` (text, required) - Qualification status (new, contacted, qualified, unqualified,
+    converted)
+  - `score` (integer) - Lead score (0-100)
+  - `owner_id` (uuid) - User responsible for working the lead
+  - `notes` (text) - Additional notes
+  - `converted_at` (timestamptz) - When the lead was converted
+  - `converted_company_id` (uuid) - Company created or linked on conversion
+  - `converted_contact_id` (uuid) - Contact created on conversion
+  - `converted_deal_id` (uuid) - Deal created on conversion
+  - `user_id` (uuid, required) - Creator of the lead record
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Functions
+  - `convert_lead(...)` - Creates (or links) the company, creates the contact and optionally the
+    deal, and marks the lead as converted. Runs as the calling user so RLS still applies.
+
+  ## Security
+  - Row Level Security enabled on `leads`
+  - Users can only access their own leads
+
+  ## Important Notes
+  - `user_id` and `owner_id` default to the calling user so the client does not need to send them
+  - Converted leads are kept for reporting; the `converted_*` columns link to the created records
+*/
+
+-- Create leads table
+CREATE TABLE IF NOT EXISTS leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name text NOT NULL,
+  last_name text,
+  email text,
+  phone text,
+  title text,
+  company_name text,
+  website text,
+  source text NOT NULL DEFAULT 'other'
+    CHECK (source IN ('web', 'referral', 'event', 'cold_outreach', 'partner', 'advertising', 'other')),
+  status text NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'contacted', 'qualified', 'unqualified', 'converted')),
+  score integer NOT NULL DEFAULT 0 CHECK (score BETWEEN 0 AND 100),
+  owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes text,
+  converted_at timestamptz,
+  converted_company_id uuid REFERENCES companies(id) ON DELETE SET NULL,
+  converted_contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL,
+  converted_deal_id uuid REFERENCES deals(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_leads_user_id ON leads(user_id);
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON leads(owner_id);
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+
+-- Enable Row Level Security
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+
+-- Leads policies
+CREATE POLICY "Users can view own leads"
+  ON leads FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own leads"
+  ON leads FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own leads"
+  ON leads FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own leads"
+  ON leads FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Convert a lead into a company, contact and (optionally) a deal in one transaction
+CREATE OR REPLACE FUNCTION convert_lead(
+  p_lead_id uuid,
+  p_company_id uuid DEFAULT NULL,
+  p_create_deal boolean DEFAULT true,
+  p_deal_title text DEFAULT NULL,
+  p_deal_value numeric DEFAULT 0,
+  p_expected_close_date date DEFAULT NULL
+)
+RETURNS leads
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead leads;
+  v_company_id uuid := p_company_id;
+  v_contact_id uuid;
+  v_deal_id uuid;
+BEGIN
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id;
+  END IF;
+
+  IF v_lead.status = 'converted' THEN
+    RAISE EXCEPTION 'Lead % has already been converted', p_lead_id;
+  END IF;
+
+  IF v_company_id IS NULL AND coalesce(trim(v_lead.company_name), '') <> '' THEN
+    INSERT INTO companies (name, website, user_id)
+    VALUES (trim(v_lead.company_name), v_lead.website, auth.uid())
+    RETURNING id INTO v_company_id;
+  END IF;
+
+  INSERT INTO contacts (first_name, last_name, email, phone, title, company_id, notes, user_id)
+  VALUES (
+    v_lead.first_name,
+    coalesce(v_lead.last_name, ''),
+    v_lead.email,
+    v_lead.phone,
+    v_lead.title,
+    v_company_id,
+    v_lead.notes,
+    auth.uid()
+  )
+  RETURNING id INTO v_contact_id;
+
+  IF p_create_deal THEN
+    INSERT INTO deals (title, value, stage, probability, expected_close_date, company_id, contact_id, user_id)
+    VALUES (
+      coalesce(
+        nullif(trim(p_deal_title), ''),
+        coalesce(nullif(trim(v_lead.company_name), ''), v_lead.first_name || ' ' || coalesce(v_lead.last_name, '')) || ' deal'
+      ),
+      coalesce(p_deal_value, 0),
+      'qualified',
+      20,
+      p_expected_close_date,
+      v_company_id,
+      v_contact_id,
+      auth.uid()
+    )
+    RETURNING id INTO v_deal_id;
+  END IF;
+
+  UPDATE leads
+  SET status = 'converted',
+      converted_at = now(),
+      converted_company_id = v_company_id,
+      converted_contact_id = v_contact_id,
+      converted_deal_id = v_deal_id,
+      updated_at = now()
+  WHERE id = p_lead_id
+  RETURNING * INTO v_lead;
+
+  RETURN v_lead;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_lead(uuid, uuid, boolean, text, numeric, date) TO authenticated;
@@ -0,0 +1,31 @@
+/*
+  # Deal Board Positions
+
+  ## Overview
+  Adds a persisted sort position to deals so the pipeline board keeps the same card order within
+  each stage for every user after a reload.
+
+  ## Modified Tables
+
+  ### 1. `deals`
+  - `position` (double precision, required) - Sort key within the deal's stage; lower values are
+    shown first. Cards moved between two neighbours take the midpoint of their positions, so a
+    move normally updates a single row.
+
+  ## Important Notes
+  - Existing deals are numbered per stage in their previous display order (newest first), spaced
+    1024 apart to leave room for later moves
+*/
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS position double precision NOT NULL DEFAULT 0;
+
+-- Backfill positions per stage in the previous display order
+UPDATE deals
+SET position = ranked.rank * 1024
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, stage ORDER BY created_at DESC) AS rank
+  FROM deals
+) AS ranked
+WHERE deals.id = ranked.id;
+
+CREATE INDEX IF NOT EXISTS idx_deals_stage_position ON deals(stage, position);
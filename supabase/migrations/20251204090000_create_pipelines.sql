@@ -0,0 +1,316 @@
+/*
+  # Configurable Sales Pipelines
+
+  ## Overview
+  Deal stages used to be a hard-coded list in the client. This migration introduces user-defined
+  pipelines, each with its own ordered stages, and moves deals from the free-text `stage` column
+  onto a pipeline and stage reference.
+
+  ## New Tables
+
+  ### 1. `pipelines`
+  - `id` (uuid, primary key)
+  - `name` (text, required) - Pipeline name (e.g. "New Business", "Renewals")
+  - `is_default` (boolean) - Pipeline used when no other is chosen; at most one per user
+  - `position` (integer) - Display order
+  - `user_id` (uuid, required) - Owner of the pipeline
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### 2. `pipeline_stages`
+  - `id` (uuid, primary key)
+  - `pipeline_id` (uuid, required) - Pipeline the stage belongs to
+  - `name` (text, required) - Stage name shown on the board
+  - `position` (integer) - Order of the stage within its pipeline
+  - `probability` (integer) - Default win probability (0-100) applied to deals entering the stage
+  - `outcome` (text, required) - `open` for in-progress stages, `won` or `lost` for closed ones
+  - `user_id` (uuid, required) - Owner of the stage
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### 1. `deals`
+  - `pipeline_id` (uuid, required) - Pipeline the deal belongs to
+  - `stage_id` (uuid, required) - Current stage; must belong to `pipeline_id`
+  - `stage` (text) - Removed; replaced by `stage_id`
+
+  ## Functions
+  - `create_default_pipeline(p_user_id)` - Creates the standard six-stage pipeline for a user if
+    they do not have a default pipeline yet, and returns its id
+  - `convert_lead(...)` - Now places the new deal on a pipeline stage (the default pipeline's
+    first open stage unless one is given) and takes its probability from that stage
+
+  ## Security
+  - Row Level Security enabled on `pipelines` and `pipeline_stages`
+  - Users can only access their own pipelines and stages
+
+  ## Important Notes
+  - Every user with existing deals gets a default pipeline whose stages match the old constants;
+    deals are mapped onto it by stage name
+  - Stages and pipelines that still have deals cannot be deleted
+*/
+
+-- Create pipelines table
+CREATE TABLE IF NOT EXISTS pipelines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create pipeline_stages table
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id uuid NOT NULL REFERENCES pipelines(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  probability integer NOT NULL DEFAULT 0 CHECK (probability BETWEEN 0 AND 100),
+  outcome text NOT NULL DEFAULT 'open' CHECK (outcome IN ('open', 'won', 'lost')),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (pipeline_id, id)
+);
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_one_default_per_user
+  ON pipelines(user_id) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_pipelines_user_id ON pipelines(user_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_pipeline_id ON pipeline_stages(pipeline_id);
+
+-- Enable Row Level Security
+ALTER TABLE pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- Pipelines policies
+CREATE POLICY "Users can view own pipelines"
+  ON pipelines FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own pipelines"
+  ON pipelines FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own pipelines"
+  ON pipelines FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own pipelines"
+  ON pipelines FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Pipeline stages policies
+CREATE POLICY "Users can view own pipeline stages"
+  ON pipeline_stages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own pipeline stages"
+  ON pipeline_stages FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own pipeline stages"
+  ON pipeline_stages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own pipeline stages"
+  ON pipeline_stages FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create the standard pipeline for a user who does not have a default one yet
+CREATE OR REPLACE FUNCTION create_default_pipeline(p_user_id uuid DEFAULT auth.uid())
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_pipeline_id uuid;
+BEGIN
+  SELECT id INTO v_pipeline_id FROM pipelines WHERE user_id = p_user_id AND is_default;
+
+  IF FOUND THEN
+    RETURN v_pipeline_id;
+  END IF;
+
+  INSERT INTO pipelines (name, is_default, position, user_id)
+  VALUES ('Sales Pipeline', true, 0, p_user_id)
+  RETURNING id INTO v_pipeline_id;
+
+  INSERT INTO pipeline_stages (pipeline_id, name, position, probability, outcome, user_id)
+  VALUES
+    (v_pipeline_id, 'Lead', 0, 10, 'open', p_user_id),
+    (v_pipeline_id, 'Qualified', 1, 25, 'open', p_user_id),
+    (v_pipeline_id, 'Proposal', 2, 50, 'open', p_user_id),
+    (v_pipeline_id, 'Negotiation', 3, 75, 'open', p_user_id),
+    (v_pipeline_id, 'Closed Won', 4, 100, 'won', p_user_id),
+    (v_pipeline_id, 'Closed Lost', 5, 0, 'lost', p_user_id);
+
+  RETURN v_pipeline_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_default_pipeline(uuid) TO authenticated;
+
+-- Move existing deals onto pipelines
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS pipeline_id uuid REFERENCES pipelines(id) ON DELETE RESTRICT;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS stage_id uuid;
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT DISTINCT user_id FROM deals LOOP
+    PERFORM create_default_pipeline(r.user_id);
+  END LOOP;
+END;
+$$;
+
+-- Old stage keys such as `closed_won` map onto the stage named "Closed Won"
+UPDATE deals
+SET pipeline_id = pipelines.id,
+    stage_id = coalesce(
+      (SELECT s.id FROM pipeline_stages s
+        WHERE s.pipeline_id = pipelines.id
+          AND lower(s.name) = replace(deals.stage, '_', ' ')),
+      (SELECT s.id FROM pipeline_stages s
+        WHERE s.pipeline_id = pipelines.id
+        ORDER BY s.position
+        LIMIT 1)
+    )
+FROM pipelines
+WHERE pipelines.user_id = deals.user_id AND pipelines.is_default;
+
+ALTER TABLE deals ALTER COLUMN pipeline_id SET NOT NULL;
+ALTER TABLE deals ALTER COLUMN stage_id SET NOT NULL;
+ALTER TABLE deals
+  ADD CONSTRAINT deals_pipeline_stage_fkey
+  FOREIGN KEY (pipeline_id, stage_id) REFERENCES pipeline_stages(pipeline_id, id) ON DELETE RESTRICT;
+
+DROP INDEX IF EXISTS idx_deals_stage_position;
+ALTER TABLE deals DROP COLUMN IF EXISTS stage;
+
+CREATE INDEX IF NOT EXISTS idx_deals_pipeline_id ON deals(pipeline_id);
+CREATE INDEX IF NOT EXISTS idx_deals_stage_position ON deals(stage_id, position);
+
+-- Lead conversion now targets a pipeline stage
+DROP FUNCTION IF EXISTS convert_lead(uuid, uuid, boolean, text, numeric, date);
+
+CREATE OR REPLACE FUNCTION convert_lead(
+  p_lead_id uuid,
+  p_company_id uuid DEFAULT NULL,
+  p_create_deal boolean DEFAULT true,
+  p_deal_title text DEFAULT NULL,
+  p_deal_value numeric DEFAULT 0,
+  p_expected_close_date date DEFAULT NULL,
+  p_stage_id uuid DEFAULT NULL
+)
+RETURNS leads
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead leads;
+  v_company_id uuid := p_company_id;
+  v_contact_id uuid;
+  v_deal_id uuid;
+  v_stage pipeline_stages;
+BEGIN
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id;
+  END IF;
+
+  IF v_lead.status = 'converted' THEN
+    RAISE EXCEPTION 'Lead % has already been converted', p_lead_id;
+  END IF;
+
+  IF p_create_deal THEN
+    IF p_stage_id IS NOT NULL THEN
+      SELECT * INTO v_stage FROM pipeline_stages WHERE id = p_stage_id;
+    ELSE
+      SELECT s.* INTO v_stage
+      FROM pipeline_stages s
+      JOIN pipelines p ON p.id = s.pipeline_id
+      WHERE p.id = create_default_pipeline() AND s.outcome = 'open'
+      ORDER BY s.position
+      LIMIT 1;
+    END IF;
+
+    IF v_stage.id IS NULL THEN
+      RAISE EXCEPTION 'No pipeline stage available for the new deal';
+    END IF;
+  END IF;
+
+  IF v_company_id IS NULL AND coalesce(trim(v_lead.company_name), '') <> '' THEN
+    INSERT INTO companies (name, website, user_id)
+    VALUES (trim(v_lead.company_name), v_lead.website, auth.uid())
+    RETURNING id INTO v_company_id;
+  END IF;
+
+  INSERT INTO contacts (first_name, last_name, email, phone, title, company_id, notes, user_id)
+  VALUES (
+    v_lead.first_name,
+    coalesce(v_lead.last_name, ''),
+    v_lead.email,
+    v_lead.phone,
+    v_lead.title,
+    v_company_id,
+    v_lead.notes,
+    auth.uid()
+  )
+  RETURNING id INTO v_contact_id;
+
+  IF p_create_deal THEN
+    INSERT INTO deals (
+      title, value, pipeline_id, stage_id, position, probability, expected_close_date,
+      company_id, contact_id, user_id
+    )
+    VALUES (
+      coalesce(
+        nullif(trim(p_deal_title), ''),
+        coalesce(nullif(trim(v_lead.company_name), ''), v_lead.first_name || ' ' || coalesce(v_lead.last_name, '')) || ' deal'
+      ),
+      coalesce(p_deal_value, 0),
+      v_stage.pipeline_id,
+      v_stage.id,
+      coalesce((SELECT min(position) FROM deals WHERE stage_id = v_stage.id), 1024) - 1024,
+      v_stage.probability,
+      p_expected_close_date,
+      v_company_id,
+      v_contact_id,
+      auth.uid()
+    )
+    RETURNING id INTO v_deal_id;
+  END IF;
+
+  UPDATE leads
+  SET status = 'converted',
+      converted_at = now(),
+      converted_company_id = v_company_id,
+      converted_contact_id = v_contact_id,
+      converted_deal_id = v_deal_id,
+      updated_at = now()
+  WHERE id = p_lead_id
+  RETURNING * INTO v_lead;
+
+  RETURN v_lead;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_lead(uuid, uuid, boolean, text, numeric, date, uuid) TO authenticated;
@@ -0,0 +1,112 @@
+/*
+  # Deal Stage History
+
+  ## Overview
+  Changing a deal's stage used to overwrite `deals.stage_id` with no record of when the deal
+  entered or left each stage. This migration records every stage a deal passes through so the
+  app can show a per-deal timeline and pipeline velocity metrics.
+
+  ## New Tables
+
+  ### 1. `deal_stage_history`
+  - `id` (uuid, primary key)
+  - `deal_id` (uuid, required) - Deal that changed stage
+  - `pipeline_id` (uuid) - Pipeline the stage belongs to
+  - `stage_id` (uuid) - Stage the deal entered; cleared if the stage is later deleted
+  - `stage_name` (text, required) - Stage name at the time, kept for deleted stages
+  - `from_stage_id` (uuid) - Stage the deal left, null for the first entry
+  - `entered_at` (timestamptz, required) - When the deal entered the stage
+  - `exited_at` (timestamptz) - When the deal left the stage, null while it is still there
+  - `changed_by` (uuid) - User who made the change
+  - `user_id` (uuid, required) - Owner of the deal, used for access control
+
+  ## Triggers
+  - `deals_record_stage_change` - After a deal is inserted or its `stage_id` changes, closes the
+    open history row and opens a new one. Every write path (board, modal, bulk updates, lead
+    conversion) is covered because the trigger runs in the database.
+
+  ## Security
+  - Row Level Security enabled on `deal_stage_history`
+  - Users can read the history of their own deals
+  - Rows are only written by the trigger; there are no insert, update or delete policies
+
+  ## Important Notes
+  - Existing deals get a single open row starting at their last `updated_at`, the best available
+    estimate of when they entered their current stage
+*/
+
+-- Create deal_stage_history table
+CREATE TABLE IF NOT EXISTS deal_stage_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  pipeline_id uuid REFERENCES pipelines(id) ON DELETE SET NULL,
+  stage_id uuid REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+  stage_name text NOT NULL,
+  from_stage_id uuid REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+  entered_at timestamptz NOT NULL DEFAULT now(),
+  exited_at timestamptz,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_id ON deal_stage_history(deal_id, entered_at);
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_stage_id ON deal_stage_history(stage_id);
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_user_id ON deal_stage_history(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Deal stage history policies
+CREATE POLICY "Users can view own deal stage history"
+  ON deal_stage_history FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Record stage changes
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.stage_id IS NOT DISTINCT FROM NEW.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE deal_stage_history
+  SET exited_at = v_now
+  WHERE deal_id = NEW.id AND exited_at IS NULL;
+
+  INSERT INTO deal_stage_history (
+    deal_id, pipeline_id, stage_id, stage_name, from_stage_id, entered_at, changed_by, user_id
+  )
+  SELECT
+    NEW.id,
+    NEW.pipeline_id,
+    NEW.stage_id,
+    s.name,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+    v_now,
+    auth.uid(),
+    NEW.user_id
+  FROM pipeline_stages s
+  WHERE s.id = NEW.stage_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER deals_record_stage_change
+  AFTER INSERT OR UPDATE OF stage_id ON deals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deal_stage_change();
+
+-- Backfill an open entry for every existing deal
+INSERT INTO deal_stage_history (deal_id, pipeline_id, stage_id, stage_name, entered_at, user_id)
+SELECT d.id, d.pipeline_id, d.stage_id, s.name, coalesce(d.updated_at, d.created_at, now()), d.user_id
+FROM deals d
+JOIN pipeline_stages s ON s.id = d.stage_id;
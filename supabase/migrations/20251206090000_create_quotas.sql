@@ -0,0 +1,63 @@
+/*
+  # Sales Quotas
+
+  ## Overview
+  Stores the quota a user sets for each forecast period so the forecast view can compare the
+  weighted pipeline and closed revenue against a target.
+
+  ## New Tables
+
+  ### 1. `quotas`
+  - `id` (uuid, primary key)
+  - `period_type` (text, required) - `month` or `quarter`
+  - `period_start` (date, required) - First day of the period
+  - `amount` (numeric, required) - Quota amount for the period
+  - `user_id` (uuid, required) - Owner of the quota
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - Row Level Security enabled on `quotas`
+  - Users can only access their own quotas
+
+  ## Important Notes
+  - One quota per user, period type and period start
+  - Monthly and quarterly quotas are independent; a quarter is not derived from its months
+*/
+
+-- Create quotas table
+CREATE TABLE IF NOT EXISTS quotas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_type text NOT NULL CHECK (period_type IN ('month', 'quarter')),
+  period_start date NOT NULL,
+  amount numeric NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, period_type, period_start)
+);
+
+-- Enable Row Level Security
+ALTER TABLE quotas ENABLE ROW LEVEL SECURITY;
+
+-- Quotas policies
+CREATE POLICY "Users can view own quotas"
+  ON quotas FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own quotas"
+  ON quotas FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own quotas"
+  ON quotas FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own quotas"
+  ON quotas FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
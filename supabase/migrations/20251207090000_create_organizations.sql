@@ -0,0 +1,511 @@
+/*
+  # Team Workspaces
+
+  ## Overview
+  Every record used to be private to the user who created it, so teammates could not see each
+  other's companies or hand off a deal. This migration introduces organizations (workspaces)
+  with members and email invitations, scopes every CRM table to an organization, and separates
+  the owner of a record from the user who created it.
+
+  ## New Tables
+
+  ### 1. `organizations`
+  - `id` (uuid, primary key)
+  - `name` (text, required) - Workspace name shown in the switcher
+  - `created_by` (uuid) - User who created the workspace
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### 2. `organization_members`
+  - `organization_id` (uuid, required) - Workspace
+  - `user_id` (uuid, required) - Member; references `profiles` so members can be listed with
+    their email
+  - `created_at` (timestamptz) - When the user joined
+
+  ### 3. `organization_invitations`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace the invitee will join
+  - `email` (text, required) - Address the invitation was sent to
+  - `invited_by` (uuid) - Member who sent the invitation
+  - `accepted_at` (timestamptz) - When the invitee joined, null while pending
+  - `created_at` (timestamptz)
+
+  ### 4. `profiles`
+  - `id` (uuid, primary key) - Same as the auth user id
+  - `email` (text) - Copied from the auth user so teammates can be listed
+  - `active_organization_id` (uuid) - Workspace the user is currently working in
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+  - `organization_id` (uuid, required) added to `companies`, `contacts`, `deals`, `tasks`,
+    `activities`, `leads`, `pipelines`, `pipeline_stages`, `quotas` and `deal_stage_history`
+  - `owner_id` (uuid) added to `companies`, `contacts` and `deals` - User responsible for the
+    record; `user_id` keeps recording who created it
+  - `user_id` on the original CRM tables now defaults to the calling user
+  - `quotas` are now one per workspace, period type and period start
+
+  ## Functions
+  - `active_organization_id()` - The calling user's active workspace, falling back to the oldest
+    workspace they belong to. Used by RLS and as the default for `organization_id`
+  - `is_organization_member(p_organization_id)` - Whether the calling user belongs to a workspace
+  - `create_organization(p_name)` - Creates a workspace, adds the caller and switches to it
+  - `set_active_organization(p_organization_id)` - Switches the caller's active workspace
+  - `accept_invitations()` - Joins every workspace with a pending invitation for the caller's
+    email address
+  - `create_default_pipeline()` - Now creates the standard pipeline for the active workspace
+
+  ## Triggers
+  - `on_auth_user_created` - Creates the profile of a new user, accepts their pending invitations
+    and gives them a personal workspace if they were not invited anywhere
+
+  ## Security
+  - Row Level Security enabled on all new tables
+  - CRM records are visible to every member of the active workspace; inserts must be made by the
+    calling user into their active workspace
+  - Members can see their workspaces, teammates' profiles and the workspace's invitations
+  - Any member can invite or revoke invitations
+
+  ## Important Notes
+  - Every existing user gets a personal workspace containing all of their records
+  - `organization_id` defaults to `active_organization_id()`, so the client does not send it;
+    switching workspace changes what every existing query returns
+  - Invitations are matched on email address when the invitee signs up or next signs in
+*/
+
+-- Create organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create profiles table
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  active_organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create organization_members table
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+-- Membership helpers. SECURITY DEFINER so policies on organization_members can use them
+-- without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION active_organization_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.organization_id
+  FROM organization_members m
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (m.organization_id = p.active_organization_id) DESC NULLS LAST, m.created_at
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_member(p_organization_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION active_organization_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION is_organization_member(uuid) TO authenticated;
+
+-- Create organization_invitations table
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+$'),
+  invited_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending
+  ON organization_invitations(organization_id, lower(email)) WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email
+  ON organization_invitations(lower(email)) WHERE accepted_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+-- Organizations policies
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (is_organization_member(id));
+
+CREATE POLICY "Members can update their organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (is_organization_member(id))
+  WITH CHECK (is_organization_member(id));
+
+-- Organization members policies
+CREATE POLICY "Members can view organization members"
+  ON organization_members FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+-- Organization invitations policies
+CREATE POLICY "Members can view organization invitations"
+  ON organization_invitations FOR SELECT
+  TO authenticated
+  USING (is_organization_member(organization_id));
+
+CREATE POLICY "Members can invite to their organization"
+  ON organization_invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (is_organization_member(organization_id) AND auth.uid() = invited_by);
+
+CREATE POLICY "Members can revoke organization invitations"
+  ON organization_invitations FOR DELETE
+  TO authenticated
+  USING (is_organization_member(organization_id) AND accepted_at IS NULL);
+
+-- Profiles policies
+CREATE POLICY "Users can view teammates' profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM organization_members m
+      WHERE m.user_id = profiles.id AND is_organization_member(m.organization_id)
+    )
+  );
+
+-- Workspace management. These run as the definer because the caller is not yet a member of
+-- the workspace they are creating or joining.
+CREATE OR REPLACE FUNCTION create_organization_for(p_user_id uuid, p_name text)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization organizations;
+BEGIN
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Workspace name is required';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), p_user_id)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id)
+  VALUES (v_organization.id, p_user_id);
+
+  UPDATE profiles SET active_organization_id = v_organization.id WHERE id = p_user_id;
+
+  RETURN v_organization;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_invitations_for(p_user_id uuid, p_email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH accepted AS (
+    UPDATE organization_invitations
+    SET accepted_at = now()
+    WHERE lower(email) = lower(p_email) AND accepted_at IS NULL
+    RETURNING organization_id
+  )
+  INSERT INTO organization_members (organization_id, user_id)
+  SELECT DISTINCT organization_id, p_user_id FROM accepted
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_organization_for(uuid, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_invitations_for(uuid, text) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_organization(p_name text)
+RETURNS organizations
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM create_organization_for(auth.uid(), p_name);
+$$;
+
+CREATE OR REPLACE FUNCTION set_active_organization(p_organization_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_organization_member(p_organization_id) THEN
+    RAISE EXCEPTION 'Not a member of workspace %', p_organization_id;
+  END IF;
+
+  UPDATE profiles SET active_organization_id = p_organization_id WHERE id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_invitations()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT accept_invitations_for(id, email) FROM auth.users WHERE id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION create_organization(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_active_organization(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_invitations() TO authenticated;
+
+-- Set up new users: profile, pending invitations, and a personal workspace otherwise
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, email) VALUES (NEW.id, NEW.email) ON CONFLICT (id) DO NOTHING;
+
+  IF accept_invitations_for(NEW.id, NEW.email) = 0 THEN
+    PERFORM create_organization_for(
+      NEW.id,
+      coalesce(nullif(split_part(NEW.email, '@', 1), ''), 'My') || '''s workspace'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Scope CRM tables to an organization
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE pipelines ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE pipeline_stages ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE quotas ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE deal_stage_history ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Owners are tracked separately from creators
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS owner_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE companies SET owner_id = user_id WHERE owner_id IS NULL;
+UPDATE contacts SET owner_id = user_id WHERE owner_id IS NULL;
+UPDATE deals SET owner_id = user_id WHERE owner_id IS NULL;
+
+-- Give every existing user a personal workspace holding their records
+DO $$
+DECLARE
+  r record;
+  v_organization organizations;
+  t text;
+BEGIN
+  FOR r IN SELECT id, email FROM auth.users ORDER BY created_at LOOP
+    INSERT INTO profiles (id, email) VALUES (r.id, r.email) ON CONFLICT (id) DO NOTHING;
+
+    v_organization := create_organization_for(
+      r.id,
+      coalesce(nullif(split_part(r.email, '@', 1), ''), 'My') || '''s workspace'
+    );
+
+    FOREACH t IN ARRAY ARRAY[
+      'companies', 'contacts', 'deals', 'tasks', 'activities', 'leads',
+      'pipelines', 'pipeline_stages', 'quotas', 'deal_stage_history'
+    ] LOOP
+      EXECUTE format('UPDATE %I SET organization_id = $1 WHERE user_id = $2', t)
+        USING v_organization.id, r.id;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Make organization_id required, default it to the active workspace, and replace the
+-- per-user policies with per-organization ones
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'companies', 'contacts', 'deals', 'tasks', 'activities', 'leads',
+    'pipelines', 'pipeline_stages', 'quotas', 'deal_stage_history'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN organization_id SET DEFAULT active_organization_id()', t);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN organization_id SET NOT NULL', t);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(organization_id)', 'idx_' || t || '_organization_id', t);
+  END LOOP;
+
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities'] LOOP
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN user_id SET DEFAULT auth.uid()', t);
+  END LOOP;
+
+  FOREACH t IN ARRAY ARRAY[
+    'companies', 'contacts', 'deals', 'tasks', 'activities', 'leads',
+    'pipelines', 'pipeline_stages', 'quotas'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Users can view own ' || replace(t, '_', ' '), t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Users can insert own ' || replace(t, '_', ' '), t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Users can update own ' || replace(t, '_', ' '), t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Users can delete own ' || replace(t, '_', ' '), t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated
+         USING (organization_id = active_organization_id())',
+      'Members can view organization ' || replace(t, '_', ' '), t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+         WITH CHECK (organization_id = active_organization_id() AND auth.uid() = user_id)',
+      'Members can insert organization ' || replace(t, '_', ' '), t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated
+         USING (organization_id = active_organization_id())
+         WITH CHECK (organization_id = active_organization_id())',
+      'Members can update organization ' || replace(t, '_', ' '), t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+         USING (organization_id = active_organization_id())',
+      'Members can delete organization ' || replace(t, '_', ' '), t);
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can view own deal stage history" ON deal_stage_history;
+
+CREATE POLICY "Members can view organization deal stage history"
+  ON deal_stage_history FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+-- One default pipeline and one quota per period per workspace
+DROP INDEX IF EXISTS idx_pipelines_one_default_per_user;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_one_default_per_organization
+  ON pipelines(organization_id) WHERE is_default;
+
+ALTER TABLE quotas DROP CONSTRAINT IF EXISTS quotas_user_id_period_type_period_start_key;
+ALTER TABLE quotas
+  ADD CONSTRAINT quotas_organization_id_period_type_period_start_key
+  UNIQUE (organization_id, period_type, period_start);
+
+-- Stage history rows belong to the deal's workspace
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now timestamptz := now();
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.stage_id IS NOT DISTINCT FROM NEW.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE deal_stage_history
+  SET exited_at = v_now
+  WHERE deal_id = NEW.id AND exited_at IS NULL;
+
+  INSERT INTO deal_stage_history (
+    deal_id, pipeline_id, stage_id, stage_name, from_stage_id, entered_at, changed_by, user_id,
+    organization_id
+  )
+  SELECT
+    NEW.id,
+    NEW.pipeline_id,
+    NEW.stage_id,
+    s.name,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+    v_now,
+    auth.uid(),
+    NEW.user_id,
+    NEW.organization_id
+  FROM pipeline_stages s
+  WHERE s.id = NEW.stage_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The standard pipeline is now created per workspace
+DROP FUNCTION IF EXISTS create_default_pipeline(uuid);
+
+CREATE OR REPLACE FUNCTION create_default_pipeline()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_pipeline_id uuid;
+BEGIN
+  SELECT id INTO v_pipeline_id
+  FROM pipelines
+  WHERE organization_id = active_organization_id() AND is_default;
+
+  IF FOUND THEN
+    RETURN v_pipeline_id;
+  END IF;
+
+  INSERT INTO pipelines (name, is_default, position)
+  VALUES ('Sales Pipeline', true, 0)
+  RETURNING id INTO v_pipeline_id;
+
+  INSERT INTO pipeline_stages (pipeline_id, name, position, probability, outcome)
+  VALUES
+    (v_pipeline_id, 'Lead', 0, 10, 'open'),
+    (v_pipeline_id, 'Qualified', 1, 25, 'open'),
+    (v_pipeline_id, 'Proposal', 2, 50, 'open'),
+    (v_pipeline_id, 'Negotiation', 3, 75, 'open'),
+    (v_pipeline_id, 'Closed Won', 4, 100, 'won'),
+    (v_pipeline_id, 'Closed Lost', 5, 0, 'lost');
+
+  RETURN v_pipeline_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_default_pipeline() TO authenticated;
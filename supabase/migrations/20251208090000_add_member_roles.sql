@@ -0,0 +1,274 @@
+/*
+  # Member Roles
+
+  ## Overview
+  Every member of a workspace could change every record in it. This migration gives each
+  membership a role and rewrites the workspace policies so that what a member may do depends on
+  it. The client mirrors the same rules in `src/lib/permissions.ts` to hide actions that would be
+  rejected.
+
+  ## Roles
+  - `admin` - Everything, including pipelines, quotas and the team (invitations, roles, removal)
+  - `manager` - Creates, edits, deletes and reassigns any record in the workspace; sets quotas
+  - `rep` - Creates records and edits or deletes the ones they own; cannot reassign them
+  - `read_only` - Views everything, changes nothing
+
+  ## Modified Tables
+
+  ### 1. `organization_members`
+  - `role` (text, required) - One of the roles above, `rep` by default
+
+  ### 2. `organization_invitations`
+  - `role` (text, required) - Role the invitee gets on joining, `rep` by default
+
+  ## Functions
+  - `active_role()` - The calling user's role in their active workspace
+  - `accept_invitations_for(...)` - Now grants the invited role
+  - `create_organization_for(...)` - The creator of a workspace becomes its admin
+  - `create_default_pipeline()` - Now runs as the definer so any member can seed the standard
+    pipeline of a new workspace
+
+  ## Triggers
+  - `organization_members_keep_admin` - Rejects removing or demoting the last admin
+
+  ## Security
+  - Ownership is `owner_id` on companies, contacts, deals and leads, and `user_id` on tasks and
+    activities
+  - Reps may only insert records they own, and the update check keeps them from handing records
+    to someone else
+  - Pipelines and stages are written by admins only; quotas by admins and managers
+  - Only admins can invite, revoke invitations, change roles or remove members; any member can
+    leave a workspace
+
+  ## Important Notes
+  - Existing members created their own workspaces, so they all become admins
+*/
+
+-- Add roles
+ALTER TABLE organization_members
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'rep'
+  CHECK (role IN ('admin', 'manager', 'rep', 'read_only'));
+
+ALTER TABLE organization_invitations
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'rep'
+  CHECK (role IN ('admin', 'manager', 'rep', 'read_only'));
+
+UPDATE organization_members SET role = 'admin';
+
+CREATE OR REPLACE FUNCTION active_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM organization_members
+  WHERE organization_id = active_organization_id() AND user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION active_role() TO authenticated;
+
+-- Creators become admins; invitees get the role they were invited with
+CREATE OR REPLACE FUNCTION create_organization_for(p_user_id uuid, p_name text)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization organizations;
+BEGIN
+  IF coalesce(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Workspace name is required';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (trim(p_name), p_user_id)
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_members (organization_id, user_id, role)
+  VALUES (v_organization.id, p_user_id, 'admin');
+
+  UPDATE profiles SET active_organization_id = v_organization.id WHERE id = p_user_id;
+
+  RETURN v_organization;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_invitations_for(p_user_id uuid, p_email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH accepted AS (
+    UPDATE organization_invitations
+    SET accepted_at = now()
+    WHERE lower(email) = lower(p_email) AND accepted_at IS NULL
+    RETURNING organization_id, role
+  )
+  INSERT INTO organization_members (organization_id, user_id, role)
+  SELECT DISTINCT ON (organization_id) organization_id, p_user_id, role FROM accepted
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_organization_for(uuid, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_invitations_for(uuid, text) FROM public, anon, authenticated;
+
+-- A workspace always keeps at least one admin
+CREATE OR REPLACE FUNCTION keep_organization_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'admin')
+    AND EXISTS (SELECT 1 FROM organizations WHERE id = OLD.organization_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_id = OLD.organization_id AND role = 'admin' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace must keep at least one admin';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER organization_members_keep_admin
+  BEFORE UPDATE OF role OR DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_organization_admin();
+
+-- Workspace and team policies
+DROP POLICY IF EXISTS "Members can update their organizations" ON organizations;
+
+CREATE POLICY "Admins can update their organizations"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (id = active_organization_id() AND active_role() = 'admin')
+  WITH CHECK (id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can change member roles"
+  ON organization_members FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin')
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can remove members and members can leave"
+  ON organization_members FOR DELETE
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR (organization_id = active_organization_id() AND active_role() = 'admin')
+  );
+
+DROP POLICY IF EXISTS "Members can invite to their organization" ON organization_invitations;
+DROP POLICY IF EXISTS "Members can revoke organization invitations" ON organization_invitations;
+
+CREATE POLICY "Admins can invite to their organization"
+  ON organization_invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() = 'admin'
+    AND auth.uid() = invited_by
+  );
+
+CREATE POLICY "Admins can revoke organization invitations"
+  ON organization_invitations FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND active_role() = 'admin'
+    AND accepted_at IS NULL
+  );
+
+-- Record policies: managers and admins change anything, reps change what they own
+DO $$
+DECLARE
+  t text;
+  v_owner text;
+  v_label text;
+  v_roles text;
+  v_who text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities', 'leads'] LOOP
+    v_owner := CASE WHEN t IN ('tasks', 'activities') THEN 'user_id' ELSE 'owner_id' END;
+    v_label := replace(t, '_', ' ');
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can insert organization ' || v_label, t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can update organization ' || v_label, t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can delete organization ' || v_label, t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+         WITH CHECK (
+           organization_id = active_organization_id()
+           AND auth.uid() = user_id
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND %I = auth.uid()))
+         )',
+      'Members can insert organization ' || v_label, t, v_owner);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated
+         USING (
+           organization_id = active_organization_id()
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND %I = auth.uid()))
+         )
+         WITH CHECK (
+           organization_id = active_organization_id()
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND %I = auth.uid()))
+         )',
+      'Members can update organization ' || v_label, t, v_owner, v_owner);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+         USING (
+           organization_id = active_organization_id()
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND %I = auth.uid()))
+         )',
+      'Members can delete organization ' || v_label, t, v_owner);
+  END LOOP;
+
+  -- Configuration: pipelines for admins, quotas for admins and managers
+  FOREACH t IN ARRAY ARRAY['pipelines', 'pipeline_stages', 'quotas'] LOOP
+    v_label := replace(t, '_', ' ');
+    v_roles := CASE WHEN t = 'quotas' THEN '{admin,manager}' ELSE '{admin}' END;
+    v_who := CASE WHEN t = 'quotas' THEN 'Managers' ELSE 'Admins' END;
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can insert organization ' || v_label, t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can update organization ' || v_label, t);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can delete organization ' || v_label, t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+         WITH CHECK (
+           organization_id = active_organization_id()
+           AND auth.uid() = user_id
+           AND active_role() = ANY (%L::text[])
+         )',
+      v_who || ' can insert organization ' || v_label, t, v_roles);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated
+         USING (organization_id = active_organization_id() AND active_role() = ANY (%L::text[]))
+         WITH CHECK (organization_id = active_organization_id() AND active_role() = ANY (%L::text[]))',
+      v_who || ' can update organization ' || v_label, t, v_roles, v_roles);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+         USING (organization_id = active_organization_id() AND active_role() = ANY (%L::text[]))',
+      v_who || ' can delete organization ' || v_label, t, v_roles);
+  END LOOP;
+END;
+$$;
+
+-- Any member may seed the standard pipeline of a workspace that has none yet
+ALTER FUNCTION create_default_pipeline() SECURITY DEFINER;
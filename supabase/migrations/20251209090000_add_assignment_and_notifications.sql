@@ -0,0 +1,531 @@
+/*
+  # Assignment, Routing and Notifications
+
+  ## Overview
+  Tasks could only belong to the user who created them, and nobody heard about a record being
+  handed to them. This migration adds an assignee to tasks, notifies users when a record is
+  assigned to them, and routes new leads and contacts to an owner automatically, either round
+  robin through a pool of members or by territory rules.
+
+  ## New Tables
+
+  ### 1. `notifications`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace the record belongs to
+  - `user_id` (uuid, required) - Recipient
+  - `actor_id` (uuid) - User whose change caused the notification, null for automatic routing
+  - `type` (text, required) - `assigned`
+  - `record_type` (text, required) - Table of the record: `companies`, `contacts`, `deals`,
+    `leads` or `tasks`
+  - `record_id` (uuid, required) - The record
+  - `title` (text, required) - Record name at the time, for display
+  - `read_at` (timestamptz) - When the recipient read it, null while unread
+  - `created_at` (timestamptz)
+
+  ### 2. `assignment_settings`
+  - `organization_id` (uuid, required) - Workspace
+  - `record_type` (text, required) - `leads` or `contacts`
+  - `strategy` (text, required) - `manual`, `round_robin`, or `territory` (rules first, then
+    round robin for records no rule matches)
+  - `member_ids` (uuid[]) - Round-robin pool, in order
+  - `last_assigned_id` (uuid) - Member who received the previous round-robin record
+  - `updated_at` (timestamptz)
+
+  ### 3. `territory_rules`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace
+  - `record_type` (text, required) - `leads` or `contacts`
+  - `position` (integer) - Evaluation order; the first matching rule wins
+  - `field` (text, required) - Record field to test: `email`, `website`, `company_name`, `source`
+    or `title` for leads; `email`, `title` or `company_address` for contacts
+  - `operator` (text, required) - `equals`, `contains`, `starts_with` or `ends_with`, case
+    insensitive
+  - `value` (text, required) - Value to test against
+  - `assignee_id` (uuid, required) - Member who receives matching records
+  - `user_id` (uuid, required) - Creator of the rule
+  - `created_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### 1. `tasks`
+  - `assignee_id` (uuid) - User the task is assigned to; defaults to the creator
+
+  ## Functions
+  - `next_round_robin_member(...)` - Advances the round-robin pool of a workspace
+  - `route_new_record()` - Picks an owner for a newly created lead or contact
+  - `notify_assignment()` - Notifies the new owner or assignee of a record
+  - `convert_lead(...)` - The contact and deal created on conversion now belong to the lead's
+    owner instead of being routed again
+
+  ## Triggers
+  - `leads_route_new_record`, `contacts_route_new_record` - After insert, reassign the record if
+    routing is configured
+  - `*_notify_assignment` on `companies`, `contacts`, `deals`, `leads` and `tasks` - After the
+    owner or assignee is set to someone other than the acting user
+
+  ## Security
+  - Row Level Security enabled on all new tables
+  - Users can only read, mark read and delete their own notifications; notifications are only
+    written by the trigger
+  - Members can read routing settings and rules; only admins can change them
+  - Reps can edit tasks assigned to them as well as tasks they created, and may assign tasks to
+    anyone
+
+  ## Important Notes
+  - Routing only applies to records whose owner is still the user who created them, so a record
+    explicitly created for someone else keeps that owner
+  - `notifications` is added to the `supabase_realtime` publication so the bell updates live
+*/
+
+-- Task assignees
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS assignee_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE tasks SET assignee_id = user_id WHERE assignee_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assignee_id ON tasks(assignee_id);
+
+DROP POLICY IF EXISTS "Members can update organization tasks" ON tasks;
+DROP POLICY IF EXISTS "Members can delete organization tasks" ON tasks;
+
+CREATE POLICY "Members can update organization tasks"
+  ON tasks FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (
+      active_role() IN ('admin', 'manager')
+      OR (active_role() = 'rep' AND auth.uid() IN (assignee_id, user_id))
+    )
+  )
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND (
+      active_role() IN ('admin', 'manager')
+      OR (active_role() = 'rep' AND auth.uid() IN (assignee_id, user_id))
+    )
+  );
+
+CREATE POLICY "Members can delete organization tasks"
+  ON tasks FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (
+      active_role() IN ('admin', 'manager')
+      OR (active_role() = 'rep' AND auth.uid() IN (assignee_id, user_id))
+    )
+  );
+
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  type text NOT NULL DEFAULT 'assigned' CHECK (type IN ('assigned')),
+  record_type text NOT NULL CHECK (record_type IN ('companies', 'contacts', 'deals', 'leads', 'tasks')),
+  record_id uuid NOT NULL,
+  title text NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- Create assignment_settings table
+CREATE TABLE IF NOT EXISTS assignment_settings (
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  record_type text NOT NULL CHECK (record_type IN ('leads', 'contacts')),
+  strategy text NOT NULL DEFAULT 'manual' CHECK (strategy IN ('manual', 'round_robin', 'territory')),
+  member_ids uuid[] NOT NULL DEFAULT '{}',
+  last_assigned_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, record_type)
+);
+
+-- Create territory_rules table
+CREATE TABLE IF NOT EXISTS territory_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  record_type text NOT NULL CHECK (record_type IN ('leads', 'contacts')),
+  position integer NOT NULL DEFAULT 0,
+  field text NOT NULL
+    CHECK (field IN ('email', 'website', 'company_name', 'source', 'title', 'company_address')),
+  operator text NOT NULL DEFAULT 'contains'
+    CHECK (operator IN ('equals', 'contains', 'starts_with', 'ends_with')),
+  value text NOT NULL CHECK (trim(value) <> ''),
+  assignee_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_territory_rules_organization_id
+  ON territory_rules(organization_id, record_type, position);
+
+-- Enable Row Level Security
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE assignment_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE territory_rules ENABLE ROW LEVEL SECURITY;
+
+-- Notifications policies
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Assignment settings policies
+CREATE POLICY "Members can view organization assignment settings"
+  ON assignment_settings FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Admins can insert organization assignment settings"
+  ON assignment_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can update organization assignment settings"
+  ON assignment_settings FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin')
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+-- Territory rules policies
+CREATE POLICY "Members can view organization territory rules"
+  ON territory_rules FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Admins can insert organization territory rules"
+  ON territory_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() = 'admin'
+    AND auth.uid() = user_id
+  );
+
+CREATE POLICY "Admins can update organization territory rules"
+  ON territory_rules FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin')
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can delete organization territory rules"
+  ON territory_rules FOR DELETE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin');
+
+-- Round robin: the pool member after the last one assigned, skipping users who have left
+CREATE OR REPLACE FUNCTION next_round_robin_member(p_organization_id uuid, p_record_type text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings assignment_settings;
+  v_pool uuid[];
+  v_index integer;
+  v_next uuid;
+BEGIN
+  SELECT * INTO v_settings
+  FROM assignment_settings
+  WHERE organization_id = p_organization_id AND record_type = p_record_type
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(array_agg(pool.id ORDER BY pool.ord), '{}') INTO v_pool
+  FROM unnest(v_settings.member_ids) WITH ORDINALITY AS pool(id, ord)
+  JOIN organization_members m ON m.user_id = pool.id AND m.organization_id = p_organization_id
+  WHERE m.role <> 'read_only';
+
+  IF cardinality(v_pool) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_index := coalesce(array_position(v_pool, v_settings.last_assigned_id), 0);
+  v_next := v_pool[v_index % cardinality(v_pool) + 1];
+
+  UPDATE assignment_settings
+  SET last_assigned_id = v_next
+  WHERE organization_id = p_organization_id AND record_type = p_record_type;
+
+  RETURN v_next;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_round_robin_member(uuid, text) FROM public, anon, authenticated;
+
+-- Route new leads and contacts. Runs after insert so the creator's RLS check sees the row as
+-- theirs; the reassignment then fires the notification trigger.
+CREATE OR REPLACE FUNCTION route_new_record()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_strategy text;
+  v_record jsonb := to_jsonb(NEW);
+  v_rule territory_rules;
+  v_value text;
+  v_owner uuid;
+BEGIN
+  IF current_setting('crm.skip_routing', true) = 'on'
+    OR NEW.owner_id IS DISTINCT FROM NEW.user_id
+  THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT strategy INTO v_strategy
+  FROM assignment_settings
+  WHERE organization_id = NEW.organization_id AND record_type = TG_TABLE_NAME;
+
+  IF v_strategy IS NULL OR v_strategy = 'manual' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_strategy = 'territory' THEN
+    IF TG_TABLE_NAME = 'contacts' THEN
+      v_record := v_record || jsonb_build_object(
+        'company_address',
+        (SELECT address FROM companies WHERE id = NEW.company_id)
+      );
+    END IF;
+
+    FOR v_rule IN
+      SELECT r.* FROM territory_rules r
+      JOIN organization_members m
+        ON m.user_id = r.assignee_id AND m.organization_id = r.organization_id
+      WHERE r.organization_id = NEW.organization_id AND r.record_type = TG_TABLE_NAME
+      ORDER BY r.position, r.created_at
+    LOOP
+      v_value := lower(coalesce(v_record ->> v_rule.field, ''));
+      IF (v_rule.operator = 'equals' AND v_value = lower(trim(v_rule.value)))
+        OR (v_rule.operator = 'contains' AND strpos(v_value, lower(trim(v_rule.value))) > 0)
+        OR (v_rule.operator = 'starts_with' AND left(v_value, length(trim(v_rule.value))) = lower(trim(v_rule.value)))
+        OR (v_rule.operator = 'ends_with' AND right(v_value, length(trim(v_rule.value))) = lower(trim(v_rule.value)))
+      THEN
+        v_owner := v_rule.assignee_id;
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF v_owner IS NULL THEN
+    v_owner := next_round_robin_member(NEW.organization_id, TG_TABLE_NAME);
+  END IF;
+
+  IF v_owner IS NOT NULL AND v_owner IS DISTINCT FROM NEW.owner_id THEN
+    EXECUTE format('UPDATE %I SET owner_id = $1 WHERE id = $2', TG_TABLE_NAME)
+      USING v_owner, NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER leads_route_new_record
+  AFTER INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION route_new_record();
+
+CREATE TRIGGER contacts_route_new_record
+  AFTER INSERT ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION route_new_record();
+
+-- Notify whoever a record was just assigned to. The owner column is passed as the trigger
+-- argument (`owner_id`, or `assignee_id` for tasks).
+CREATE OR REPLACE FUNCTION notify_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_column text := TG_ARGV[0];
+  v_new jsonb := to_jsonb(NEW);
+  v_recipient uuid := (v_new ->> v_column)::uuid;
+  v_title text;
+BEGIN
+  IF v_recipient IS NULL OR v_recipient = auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (to_jsonb(OLD) ->> v_column)::uuid IS NOT DISTINCT FROM v_recipient THEN
+    RETURN NULL;
+  END IF;
+
+  v_title := CASE TG_TABLE_NAME
+    WHEN 'companies' THEN v_new ->> 'name'
+    WHEN 'deals' THEN v_new ->> 'title'
+    WHEN 'tasks' THEN v_new ->> 'title'
+    ELSE trim(concat_ws(' ', v_new ->> 'first_name', v_new ->> 'last_name'))
+  END;
+
+  INSERT INTO notifications (organization_id, user_id, actor_id, record_type, record_id, title)
+  VALUES (NEW.organization_id, v_recipient, auth.uid(), TG_TABLE_NAME, NEW.id, coalesce(v_title, ''));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER companies_notify_assignment
+  AFTER INSERT OR UPDATE OF owner_id ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_assignment('owner_id');
+
+CREATE TRIGGER contacts_notify_assignment
+  AFTER INSERT OR UPDATE OF owner_id ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_assignment('owner_id');
+
+CREATE TRIGGER deals_notify_assignment
+  AFTER INSERT OR UPDATE OF owner_id ON deals
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_assignment('owner_id');
+
+CREATE TRIGGER leads_notify_assignment
+  AFTER INSERT OR UPDATE OF owner_id ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_assignment('owner_id');
+
+CREATE TRIGGER tasks_notify_assignment
+  AFTER INSERT OR UPDATE OF assignee_id ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_assignment('assignee_id');
+
+-- Deliver notifications live
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Converted records stay with the lead's owner
+CREATE OR REPLACE FUNCTION convert_lead(
+  p_lead_id uuid,
+  p_company_id uuid DEFAULT NULL,
+  p_create_deal boolean DEFAULT true,
+  p_deal_title text DEFAULT NULL,
+  p_deal_value numeric DEFAULT 0,
+  p_expected_close_date date DEFAULT NULL,
+  p_stage_id uuid DEFAULT NULL
+)
+RETURNS leads
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead leads;
+  v_company_id uuid := p_company_id;
+  v_contact_id uuid;
+  v_deal_id uuid;
+  v_stage pipeline_stages;
+  v_owner_id uuid;
+BEGIN
+  SELECT * INTO v_lead FROM leads WHERE id = p_lead_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id;
+  END IF;
+
+  IF v_lead.status = 'converted' THEN
+    RAISE EXCEPTION 'Lead % has already been converted', p_lead_id;
+  END IF;
+
+  v_owner_id := coalesce(v_lead.owner_id, auth.uid());
+  PERFORM set_config('crm.skip_routing', 'on', true);
+
+  IF p_create_deal THEN
+    IF p_stage_id IS NOT NULL THEN
+      SELECT * INTO v_stage FROM pipeline_stages WHERE id = p_stage_id;
+    ELSE
+      SELECT s.* INTO v_stage
+      FROM pipeline_stages s
+      JOIN pipelines p ON p.id = s.pipeline_id
+      WHERE p.id = create_default_pipeline() AND s.outcome = 'open'
+      ORDER BY s.position
+      LIMIT 1;
+    END IF;
+
+    IF v_stage.id IS NULL THEN
+      RAISE EXCEPTION 'No pipeline stage available for the new deal';
+    END IF;
+  END IF;
+
+  IF v_company_id IS NULL AND coalesce(trim(v_lead.company_name), '') <> '' THEN
+    INSERT INTO companies (name, website, user_id, owner_id)
+    VALUES (trim(v_lead.company_name), v_lead.website, auth.uid(), v_owner_id)
+    RETURNING id INTO v_company_id;
+  END IF;
+
+  INSERT INTO contacts (first_name, last_name, email, phone, title, company_id, notes, user_id, owner_id)
+  VALUES (
+    v_lead.first_name,
+    coalesce(v_lead.last_name, ''),
+    v_lead.email,
+    v_lead.phone,
+    v_lead.title,
+    v_company_id,
+    v_lead.notes,
+    auth.uid(),
+    v_owner_id
+  )
+  RETURNING id INTO v_contact_id;
+
+  IF p_create_deal THEN
+    INSERT INTO deals (
+      title, value, pipeline_id, stage_id, position, probability, expected_close_date,
+      company_id, contact_id, user_id, owner_id
+    )
+    VALUES (
+      coalesce(
+        nullif(trim(p_deal_title), ''),
+        coalesce(nullif(trim(v_lead.company_name), ''), v_lead.first_name || ' ' || coalesce(v_lead.last_name, '')) || ' deal'
+      ),
+      coalesce(p_deal_value, 0),
+      v_stage.pipeline_id,
+      v_stage.id,
+      coalesce((SELECT min(position) FROM deals WHERE stage_id = v_stage.id), 1024) - 1024,
+      v_stage.probability,
+      p_expected_close_date,
+      v_company_id,
+      v_contact_id,
+      auth.uid(),
+      v_owner_id
+    )
+    RETURNING id INTO v_deal_id;
+  END IF;
+
+  PERFORM set_config('crm.skip_routing', 'off', true);
+
+  UPDATE leads
+  SET status = 'converted',
+      converted_at = now(),
+      converted_company_id = v_company_id,
+      converted_contact_id = v_contact_id,
+      converted_deal_id = v_deal_id,
+      updated_at = now()
+  WHERE id = p_lead_id
+  RETURNING * INTO v_lead;
+
+  RETURN v_lead;
+END;
+$$;
@@ -0,0 +1,146 @@
+/*
+  # Audit Log
+
+  ## Overview
+  Saving a record overwrote it with no trace of who changed what, and deleting it left nothing
+  behind. This migration records every insert, update and delete on the CRM record tables in an
+  append-only `audit_log`, written by triggers so that no client path can skip it.
+
+  ## New Tables
+
+  ### 1. `audit_log`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace the record belongs to
+  - `table_name` (text, required) - `companies`, `contacts`, `deals`, `tasks`, `activities` or
+    `leads`
+  - `record_id` (uuid, required) - The changed record; kept after the record is deleted
+  - `record_label` (text) - Record name at the time of the change, for display and search
+  - `action` (text, required) - `insert`, `update` or `delete`
+  - `actor_id` (uuid) - User who made the change, null for changes made outside a user session
+  - `old_values` (jsonb) - Previous values of the changed fields; the whole row for deletes
+  - `new_values` (jsonb) - New values of the changed fields; the whole row for inserts
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `record_label(...)` - Display name of a record row
+  - `audit_record_change()` - Trigger writing one log entry per changed row
+
+  ## Triggers
+  - `*_audit` on `companies`, `contacts`, `deals`, `tasks`, `activities` and `leads` - After
+    insert, update or delete
+
+  ## Security
+  - Row Level Security enabled on `audit_log`
+  - Members can read the log of their active workspace, matching what they can already see of
+    its records; the client only shows the workspace-wide view to admins
+  - There are no insert, update or delete policies: entries are written by the trigger and never
+    changed
+
+  ## Important Notes
+  - `updated_at` is left out of the diff, and updates that change nothing else are not logged
+  - Cascading deletes of a whole workspace are not logged, since the log goes with it
+*/
+
+-- Create audit_log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  table_name text NOT NULL
+    CHECK (table_name IN ('companies', 'contacts', 'deals', 'tasks', 'activities', 'leads')),
+  record_id uuid NOT NULL,
+  record_label text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  old_values jsonb,
+  new_values jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization_id ON audit_log(organization_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+-- Display name of a record row
+CREATE OR REPLACE FUNCTION record_label(p_table text, p_row jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_table
+    WHEN 'companies' THEN p_row ->> 'name'
+    WHEN 'deals' THEN p_row ->> 'title'
+    WHEN 'tasks' THEN p_row ->> 'title'
+    WHEN 'activities' THEN p_row ->> 'subject'
+    ELSE trim(concat_ws(' ', p_row ->> 'first_name', p_row ->> 'last_name'))
+  END;
+$$;
+
+-- One entry per changed row, with only the fields that changed for updates
+CREATE OR REPLACE FUNCTION audit_record_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'updated_at' END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'updated_at' END;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_old_values jsonb := v_old;
+  v_new_values jsonb := v_new;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = (v_row ->> 'organization_id')::uuid) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(n.key, o.value),
+      jsonb_object_agg(n.key, n.value)
+    INTO v_old_values, v_new_values
+    FROM jsonb_each(v_new) n
+    JOIN jsonb_each(v_old) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF v_new_values IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id, table_name, record_id, record_label, action, actor_id, old_values, new_values
+  )
+  VALUES (
+    (v_row ->> 'organization_id')::uuid,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::uuid,
+    record_label(TG_TABLE_NAME, v_row),
+    lower(TG_OP),
+    auth.uid(),
+    v_old_values,
+    v_new_values
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities', 'leads'] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER %I AFTER INSERT OR UPDATE OR DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION audit_record_change()',
+      t || '_audit', t);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,354 @@
+/*
+  # Soft Delete and Trash
+
+  ## Overview
+  Deleting a record removed it for good, and the `ON DELETE SET NULL` foreign keys silently
+  unlinked everything that referenced it: deleting a company orphaned its contacts and deals.
+  Deletes now move records to a trash instead. A trigger turns every `DELETE` on the CRM record
+  tables into setting `deleted_at`, so the existing delete calls and their RLS checks keep
+  working unchanged, and links stay intact until a record is purged.
+
+  ## Modified Tables
+
+  ### 1. `companies`, `contacts`, `deals`, `tasks`, `activities`, `leads`
+  - `deleted_at` (timestamptz) - When the record was moved to the trash, null while live
+  - `deleted_by` (uuid) - User who moved it there
+
+  ### 2. `organizations`
+  - `trash_retention_days` (integer, required) - Days a record stays in the trash before it is
+    purged automatically, 30 by default
+
+  ### 3. `audit_log`
+  - `action` also accepts `restore` and `purge`; moving a record to the trash is logged as
+    `delete`
+
+  ## Functions
+  - `soft_delete_record()` - Trigger converting a delete into a move to the trash
+  - `can_modify_record(...)` - Whether the calling user may edit or delete a record row, per the
+    role rules of the record policies
+  - `list_trash()` - Trashed records of the active workspace, with whether the caller may restore
+    or purge each
+  - `restore_record(...)` - Moves a record back out of the trash
+  - `purge_record(...)` - Deletes a trashed record permanently
+  - `purge_expired_trash()` - Deletes records trashed longer than their workspace's retention
+  - `purge_trashed_deals()` - Trigger clearing trashed deals out of a stage or pipeline that is
+    being deleted, since they would otherwise block it
+  - `audit_record_change()` - Logs trash moves, restores and purges as such
+
+  ## Triggers
+  - `*_soft_delete` on the six record tables - Before delete
+  - `pipeline_stages_purge_trashed_deals`, `pipelines_purge_trashed_deals` - Before delete
+
+  ## Security
+  - Trashed records are hidden by the select policies, so every existing query, including
+    embedded relations, skips them
+  - The trash functions run as the definer and check `can_modify_record` themselves: reps can
+    only restore or purge records they own
+
+  ## Important Notes
+  - Deletes cascading from a deleted workspace or user, and deletes made by the purge functions,
+    go through as real deletes
+  - `purge_expired_trash()` is scheduled daily with `pg_cron`
+*/
+
+-- Trash columns
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities', 'leads'] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_at timestamptz', t);
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL',
+      t);
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON %I(organization_id, deleted_at) WHERE deleted_at IS NOT NULL',
+      'idx_' || t || '_deleted_at', t);
+
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can view organization ' || t, t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated
+         USING (organization_id = active_organization_id() AND deleted_at IS NULL)',
+      'Members can view organization ' || t, t);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS trash_retention_days integer NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- Deletes move records to the trash
+CREATE OR REPLACE FUNCTION soft_delete_record()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Cascades from a deleted workspace or user run inside a foreign key trigger
+  IF pg_trigger_depth() > 1 OR current_setting('crm.purge', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = now(), deleted_by = auth.uid() WHERE id = $1', TG_TABLE_NAME)
+    USING OLD.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities', 'leads'] LOOP
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION soft_delete_record()',
+      t || '_soft_delete', t);
+  END LOOP;
+END;
+$$;
+
+-- Same rules as the update and delete policies of the record tables
+CREATE OR REPLACE FUNCTION can_modify_record(p_table text, p_row jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (p_row ->> 'organization_id')::uuid = active_organization_id()
+    AND (
+      active_role() IN ('admin', 'manager')
+      OR (
+        active_role() = 'rep'
+        AND auth.uid() = ANY (
+          CASE p_table
+            WHEN 'tasks' THEN ARRAY[(p_row ->> 'user_id')::uuid, (p_row ->> 'assignee_id')::uuid]
+            WHEN 'activities' THEN ARRAY[(p_row ->> 'user_id')::uuid]
+            ELSE ARRAY[(p_row ->> 'owner_id')::uuid]
+          END
+        )
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_modify_record(text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION list_trash()
+RETURNS TABLE (
+  table_name text,
+  record_id uuid,
+  record_label text,
+  deleted_at timestamptz,
+  deleted_by uuid,
+  can_modify boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['companies', 'contacts', 'deals', 'tasks', 'activities', 'leads'] LOOP
+    RETURN QUERY EXECUTE format(
+      'SELECT %L::text, r.id, record_label(%L, to_jsonb(r)), r.deleted_at, r.deleted_by,
+              can_modify_record(%L, to_jsonb(r))
+       FROM %I r
+       WHERE r.organization_id = active_organization_id() AND r.deleted_at IS NOT NULL',
+      t, t, t, t);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_trash() TO authenticated;
+
+-- Looks up a trashed record the caller may modify, or raises
+CREATE OR REPLACE FUNCTION trashed_record(p_table text, p_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+BEGIN
+  IF p_table NOT IN ('companies', 'contacts', 'deals', 'tasks', 'activities', 'leads') THEN
+    RAISE EXCEPTION 'Unknown record type %', p_table;
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NOT NULL', p_table)
+    INTO v_row
+    USING p_id;
+
+  IF v_row IS NULL OR NOT can_modify_record(p_table, v_row) THEN
+    RAISE EXCEPTION 'Record not found in the trash';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trashed_record(text, uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION restore_record(p_table text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM trashed_record(p_table, p_id);
+  EXECUTE format('UPDATE %I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', p_table)
+    USING p_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purge_record(p_table text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM trashed_record(p_table, p_id);
+  PERFORM set_config('crm.purge', 'on', true);
+  EXECUTE format('DELETE FROM %I WHERE id = $1', p_table) USING p_id;
+  PERFORM set_config('crm.purge', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_record(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION purge_record(text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  t text;
+  v_count integer;
+  v_total integer := 0;
+BEGIN
+  PERFORM set_config('crm.purge', 'on', true);
+
+  FOREACH t IN ARRAY ARRAY['activities', 'tasks', 'deals', 'contacts', 'companies', 'leads'] LOOP
+    EXECUTE format(
+      'DELETE FROM %I r USING organizations o
+       WHERE o.id = r.organization_id
+         AND r.deleted_at < now() - make_interval(days => o.trash_retention_days)',
+      t);
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  PERFORM set_config('crm.purge', 'off', true);
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_trash() FROM public, anon, authenticated;
+
+-- Trashed deals still reference their stage and pipeline, which restrict deletion
+CREATE OR REPLACE FUNCTION purge_trashed_deals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'pipelines' THEN
+    DELETE FROM deals WHERE pipeline_id = OLD.id AND deleted_at IS NOT NULL;
+  ELSE
+    DELETE FROM deals WHERE stage_id = OLD.id AND deleted_at IS NOT NULL;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER pipeline_stages_purge_trashed_deals
+  BEFORE DELETE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION purge_trashed_deals();
+
+CREATE TRIGGER pipelines_purge_trashed_deals
+  BEFORE DELETE ON pipelines
+  FOR EACH ROW
+  EXECUTE FUNCTION purge_trashed_deals();
+
+-- Audit trash moves, restores and purges
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log
+  ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('insert', 'update', 'delete', 'restore', 'purge'));
+
+CREATE OR REPLACE FUNCTION audit_record_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'updated_at' END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'updated_at' END;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_action text := lower(TG_OP);
+  v_old_values jsonb := v_old;
+  v_new_values jsonb := v_new;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = (v_row ->> 'organization_id')::uuid) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_action := 'purge';
+  ELSIF TG_OP = 'UPDATE' AND (v_old ->> 'deleted_at') IS NULL AND (v_new ->> 'deleted_at') IS NOT NULL THEN
+    v_action := 'delete';
+    v_new_values := NULL;
+  ELSIF TG_OP = 'UPDATE' AND (v_old ->> 'deleted_at') IS NOT NULL AND (v_new ->> 'deleted_at') IS NULL THEN
+    v_action := 'restore';
+    v_old_values := NULL;
+  ELSIF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(n.key, o.value),
+      jsonb_object_agg(n.key, n.value)
+    INTO v_old_values, v_new_values
+    FROM jsonb_each(v_new) n
+    JOIN jsonb_each(v_old) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF v_new_values IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id, table_name, record_id, record_label, action, actor_id, old_values, new_values
+  )
+  VALUES (
+    (v_row ->> 'organization_id')::uuid,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::uuid,
+    record_label(TG_TABLE_NAME, v_row),
+    v_action,
+    auth.uid(),
+    v_old_values,
+    v_new_values
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Purge expired trash nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-expired-trash', '30 3 * * *', 'SELECT public.purge_expired_trash()');
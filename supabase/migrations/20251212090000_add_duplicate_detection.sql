@@ -0,0 +1,350 @@
+/*
+  # Duplicate Detection and Merge
+
+  ## Overview
+  The same person or company regularly ends up in the CRM twice, with a typo in the name or a
+  differently written email or phone number. Contacts and companies are now matched on
+  normalized values and fuzzy names, both while a record is being created and across the whole
+  workspace, and two records can be merged into one.
+
+  Contacts match when their names are similar, or their emails or phone numbers are the same
+  once normalized. Companies match when their names are similar once legal suffixes such as
+  "Inc." are dropped, or their websites share a domain.
+
+  ## New Tables
+
+  ### 1. `duplicate_dismissals`
+  Pairs of records a member marked as not being duplicates, so the review screen stops listing
+  them.
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `table_name` (text, required) - `contacts` or `companies`
+  - `record_a`, `record_b` (uuid, required) - The two records, lowest id first
+  - `user_id` (uuid) - Member who dismissed the pair
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `normalize_email(...)` - Trimmed and lowercased email
+  - `normalize_phone(...)` - Last ten digits of a phone number, ignoring formatting
+  - `website_domain(...)` - Host of a website without scheme, `www.` or path
+  - `contact_name_key(...)`, `company_name_key(...)` - Lowercased names without punctuation
+    (and legal suffixes for companies), compared by trigram similarity
+  - `find_duplicates(...)` - Live records matching the given field values
+  - `list_duplicate_pairs(...)` - Every matching pair of live records in the active workspace
+  - `merge_records(...)` - Copies the chosen field values onto the surviving record, re-points
+    every record linked to the duplicate to it, and moves the duplicate to the trash
+
+  ## Security
+  - Row Level Security enabled on `duplicate_dismissals`: members can view the workspace's
+    dismissals, everyone but read-only members can add them, and admins, managers and the
+    member who dismissed a pair can remove it
+  - `find_duplicates` and `list_duplicate_pairs` run as the caller, so they only see what the
+    record policies let the caller see
+  - `merge_records` runs as the definer to re-point links on records the caller may not own,
+    but requires the caller to be able to modify both records being merged
+
+  ## Important Notes
+  - Trashed records are not matched; links on trashed records are re-pointed by a merge too, so
+    restoring them later keeps them attached to the survivor
+  - The duplicate is soft deleted and can be restored from the trash, but the links moved to the
+    survivor stay there
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Normalized match keys
+CREATE OR REPLACE FUNCTION normalize_email(p_email text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(lower(trim(p_email)), '');
+$$;
+
+-- Numbers shorter than seven digits are too ambiguous to match on
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN length(digits) >= 7 THEN right(digits, 10) END
+  FROM (SELECT regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') AS digits) d;
+$$;
+
+-- "https://www.Acme.com/about" -> "acme.com"
+CREATE OR REPLACE FUNCTION website_domain(p_website text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(
+    regexp_replace(
+      regexp_replace(lower(trim(coalesce(p_website, ''))), '^[a-z][a-z0-9+.-]*://', ''),
+      '^www\.|[/:?#].*$', '', 'g'
+    ),
+    ''
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION contact_name_key(p_first_name text, p_last_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    lower(coalesce(p_first_name, '') || ' ' || coalesce(p_last_name, '')),
+    '[^[:alnum:]]+', ' ', 'g'
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION company_name_key(p_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(lower(coalesce(p_name, '')), '[^[:alnum:]]+', ' ', 'g'),
+    '\m(inc|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|sa|bv|plc)\M', '', 'g'
+  ));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_name_key
+  ON contacts USING gin (contact_name_key(first_name, last_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_email_key ON contacts(organization_id, normalize_email(email));
+CREATE INDEX IF NOT EXISTS idx_contacts_phone_key ON contacts(organization_id, normalize_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_companies_name_key
+  ON companies USING gin (company_name_key(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_domain_key
+  ON companies(organization_id, website_domain(website));
+
+-- Create duplicate_dismissals table
+CREATE TABLE IF NOT EXISTS duplicate_dismissals (
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  table_name text NOT NULL CHECK (table_name IN ('contacts', 'companies')),
+  record_a uuid NOT NULL,
+  record_b uuid NOT NULL,
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (organization_id, table_name, record_a, record_b),
+  CHECK (record_a < record_b)
+);
+
+ALTER TABLE duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization duplicate dismissals"
+  ON duplicate_dismissals FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Members can insert organization duplicate dismissals"
+  ON duplicate_dismissals FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() <> 'read_only'
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Members can delete organization duplicate dismissals"
+  ON duplicate_dismissals FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR user_id = auth.uid())
+  );
+
+-- Records matching a record being entered, best match first
+CREATE OR REPLACE FUNCTION find_duplicates(p_table text, p_values jsonb, p_exclude_id uuid DEFAULT NULL)
+RETURNS TABLE (record_id uuid, record_label text, reasons text[], score real)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.similarity_threshold = 0.5
+AS $$
+  WITH matches AS (
+    SELECT c.id, record_label('contacts', to_jsonb(c)) AS label, 'name' AS reason,
+           similarity(contact_name_key(c.first_name, c.last_name),
+                      contact_name_key(p_values ->> 'first_name', p_values ->> 'last_name')) AS score
+    FROM contacts c
+    WHERE p_table = 'contacts'
+      AND c.organization_id = active_organization_id()
+      AND contact_name_key(c.first_name, c.last_name)
+          % contact_name_key(p_values ->> 'first_name', p_values ->> 'last_name')
+    UNION ALL
+    SELECT c.id, record_label('contacts', to_jsonb(c)), 'email', 1::real
+    FROM contacts c
+    WHERE p_table = 'contacts'
+      AND c.organization_id = active_organization_id()
+      AND normalize_email(c.email) = normalize_email(p_values ->> 'email')
+    UNION ALL
+    SELECT c.id, record_label('contacts', to_jsonb(c)), 'phone', 1::real
+    FROM contacts c
+    WHERE p_table = 'contacts'
+      AND c.organization_id = active_organization_id()
+      AND normalize_phone(c.phone) = normalize_phone(p_values ->> 'phone')
+    UNION ALL
+    SELECT c.id, record_label('companies', to_jsonb(c)), 'name',
+           similarity(company_name_key(c.name), company_name_key(p_values ->> 'name'))
+    FROM companies c
+    WHERE p_table = 'companies'
+      AND c.organization_id = active_organization_id()
+      AND company_name_key(c.name) % company_name_key(p_values ->> 'name')
+    UNION ALL
+    SELECT c.id, record_label('companies', to_jsonb(c)), 'domain', 1::real
+    FROM companies c
+    WHERE p_table = 'companies'
+      AND c.organization_id = active_organization_id()
+      AND website_domain(c.website) = website_domain(p_values ->> 'website')
+  )
+  SELECT m.id, m.label, array_agg(DISTINCT m.reason), max(m.score)
+  FROM matches m
+  WHERE m.id IS DISTINCT FROM p_exclude_id
+  GROUP BY m.id, m.label
+  ORDER BY max(m.score) DESC, m.label
+  LIMIT 5;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_duplicates(text, jsonb, uuid) TO authenticated;
+
+-- Every matching pair in the active workspace that nobody dismissed, best match first
+CREATE OR REPLACE FUNCTION list_duplicate_pairs(p_table text)
+RETURNS TABLE (
+  record_a uuid,
+  label_a text,
+  record_b uuid,
+  label_b text,
+  reasons text[],
+  score real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+SET pg_trgm.similarity_threshold = 0.5
+AS $$
+  WITH contact_keys AS (
+    SELECT id, record_label('contacts', to_jsonb(c)) AS label,
+           contact_name_key(first_name, last_name) AS name_key,
+           normalize_email(email) AS email_key,
+           normalize_phone(phone) AS phone_key
+    FROM contacts c
+    WHERE p_table = 'contacts' AND organization_id = active_organization_id()
+  ),
+  company_keys AS (
+    SELECT id, record_label('companies', to_jsonb(c)) AS label,
+           company_name_key(name) AS name_key,
+           website_domain(website) AS domain_key
+    FROM companies c
+    WHERE p_table = 'companies' AND organization_id = active_organization_id()
+  ),
+  matches AS (
+    SELECT a.id AS id_a, a.label AS label_a, b.id AS id_b, b.label AS label_b,
+           'name' AS reason, similarity(a.name_key, b.name_key) AS score
+    FROM contact_keys a JOIN contact_keys b ON a.id < b.id AND a.name_key % b.name_key
+    UNION ALL
+    SELECT a.id, a.label, b.id, b.label, 'email', 1::real
+    FROM contact_keys a JOIN contact_keys b ON a.id < b.id AND a.email_key = b.email_key
+    UNION ALL
+    SELECT a.id, a.label, b.id, b.label, 'phone', 1::real
+    FROM contact_keys a JOIN contact_keys b ON a.id < b.id AND a.phone_key = b.phone_key
+    UNION ALL
+    SELECT a.id, a.label, b.id, b.label, 'name', similarity(a.name_key, b.name_key)
+    FROM company_keys a JOIN company_keys b ON a.id < b.id AND a.name_key % b.name_key
+    UNION ALL
+    SELECT a.id, a.label, b.id, b.label, 'domain', 1::real
+    FROM company_keys a JOIN company_keys b ON a.id < b.id AND a.domain_key = b.domain_key
+  )
+  SELECT m.id_a, m.label_a, m.id_b, m.label_b, array_agg(DISTINCT m.reason), max(m.score)
+  FROM matches m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM duplicate_dismissals d
+    WHERE d.organization_id = active_organization_id()
+      AND d.table_name = p_table
+      AND d.record_a = m.id_a
+      AND d.record_b = m.id_b
+  )
+  GROUP BY m.id_a, m.label_a, m.id_b, m.label_b
+  ORDER BY max(m.score) DESC, m.label_a
+  LIMIT 200;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_duplicate_pairs(text) TO authenticated;
+
+-- Merges a duplicate into the surviving record
+CREATE OR REPLACE FUNCTION merge_records(
+  p_table text,
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_values jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields text[];
+  v_links text[];
+  v_survivor jsonb;
+  v_duplicate jsonb;
+  v_assignments text;
+  v_link text;
+BEGIN
+  IF p_table = 'contacts' THEN
+    v_fields := ARRAY['first_name', 'last_name', 'email', 'phone', 'title', 'company_id', 'notes'];
+    v_links := ARRAY['deals.contact_id', 'tasks.contact_id', 'activities.contact_id',
+                     'leads.converted_contact_id'];
+  ELSIF p_table = 'companies' THEN
+    v_fields := ARRAY['name', 'industry', 'website', 'phone', 'email', 'address', 'notes'];
+    v_links := ARRAY['contacts.company_id', 'deals.company_id', 'tasks.company_id',
+                     'activities.company_id', 'leads.converted_company_id'];
+  ELSE
+    RAISE EXCEPTION 'Only contacts and companies can be merged';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A record cannot be merged into itself';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_survivor
+    USING p_survivor_id;
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_duplicate
+    USING p_duplicate_id;
+
+  IF v_survivor IS NULL OR v_duplicate IS NULL
+     OR NOT can_modify_record(p_table, v_survivor)
+     OR NOT can_modify_record(p_table, v_duplicate) THEN
+    RAISE EXCEPTION 'Records not found';
+  END IF;
+
+  -- Only mergeable fields are copied; ownership stays with the survivor
+  SELECT string_agg(format('%1$I = v.%1$I', f), ', ')
+  INTO v_assignments
+  FROM unnest(v_fields) f
+  WHERE p_values ? f;
+
+  IF v_assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE %1$I r SET %2$s, updated_at = now()
+       FROM jsonb_populate_record(NULL::%1$I, $1) v
+       WHERE r.id = $2',
+      p_table, v_assignments)
+      USING p_values, p_survivor_id;
+  END IF;
+
+  FOREACH v_link IN ARRAY v_links LOOP
+    EXECUTE format('UPDATE %I SET %I = $1 WHERE %2$I = $2',
+                   split_part(v_link, '.', 1), split_part(v_link, '.', 2))
+      USING p_survivor_id, p_duplicate_id;
+  END LOOP;
+
+  DELETE FROM duplicate_dismissals
+  WHERE table_name = p_table
+    AND (record_a = p_duplicate_id OR record_b = p_duplicate_id);
+
+  EXECUTE format('DELETE FROM %I WHERE id = $1', p_table) USING p_duplicate_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_records(text, uuid, uuid, jsonb) TO authenticated;
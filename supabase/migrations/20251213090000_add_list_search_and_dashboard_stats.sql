@@ -0,0 +1,100 @@
+/*
+  # Server-Side List Search and Dashboard Statistics
+
+  ## Overview
+  The contact and company lists loaded every row and searched them in the browser, and the
+  dashboard downloaded every deal and task only to count them. Lists are now searched, sorted
+  and paged by Postgres, and the dashboard figures are aggregated in the database.
+
+  ## New Views
+
+  ### 1. `contact_list`
+  Contacts with the columns their list searches and sorts on.
+  - Every `contacts` column
+  - `full_name` (text) - First and last name, so "jane do" matches across both
+  - `company_name` (text) - Name of the linked company, null when it is trashed or unset
+
+  ## Functions
+  - `dashboard_stats()` - Record counts, task counts, open pipeline value and deals per stage
+    of the active workspace, as one JSON object
+
+  ## Indexes
+  - Trigram indexes on the searched columns, so `ilike '%term%'` does not scan the table
+  - B-tree indexes on the sorted columns
+
+  ## Security
+  - `contact_list` is a `security_invoker` view: the record policies of `contacts` and
+    `companies` apply to it as they do to the tables
+  - `dashboard_stats()` runs as the caller, so it counts exactly the records the caller can see
+
+  ## Important Notes
+  - `contact_list` expands `contacts.*` when it is created; recreate it after adding columns to
+    `contacts`
+*/
+
+-- Create contact_list view
+CREATE OR REPLACE VIEW contact_list
+WITH (security_invoker = true) AS
+SELECT
+  c.*,
+  c.first_name || ' ' || c.last_name AS full_name,
+  co.name AS company_name
+FROM contacts c
+LEFT JOIN companies co ON co.id = c.company_id;
+
+GRANT SELECT ON contact_list TO authenticated;
+
+-- Search indexes
+CREATE INDEX IF NOT EXISTS idx_contacts_full_name_trgm
+  ON contacts USING gin ((first_name || ' ' || last_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_email_trgm ON contacts USING gin (email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_name_trgm ON companies USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_industry_trgm ON companies USING gin (industry gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_email_trgm ON companies USING gin (email gin_trgm_ops);
+
+-- Sort indexes
+CREATE INDEX IF NOT EXISTS idx_contacts_org_created_at ON contacts(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_contacts_org_name ON contacts(organization_id, last_name, first_name);
+CREATE INDEX IF NOT EXISTS idx_companies_org_name ON companies(organization_id, name);
+CREATE INDEX IF NOT EXISTS idx_companies_org_created_at ON companies(organization_id, created_at DESC);
+
+-- Dashboard aggregates
+CREATE OR REPLACE FUNCTION dashboard_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH open_deals AS (
+    SELECT d.value, d.probability
+    FROM deals d
+    JOIN pipeline_stages s ON s.id = d.stage_id
+    WHERE s.outcome = 'open'
+  ),
+  stage_counts AS (
+    SELECT stage_id, count(*) AS deals
+    FROM deals
+    GROUP BY stage_id
+  )
+  SELECT jsonb_build_object(
+    'contacts', (SELECT count(*) FROM contacts),
+    'companies', (SELECT count(*) FROM companies),
+    'activities', (SELECT count(*) FROM activities),
+    'deals', (SELECT count(*) FROM deals),
+    'active_tasks', (
+      SELECT count(*) FROM tasks WHERE status IN ('pending', 'in_progress')
+    ),
+    'overdue_tasks', (
+      SELECT count(*) FROM tasks
+      WHERE status IN ('pending', 'in_progress') AND due_date < now()
+    ),
+    'open_deals', (SELECT count(*) FROM open_deals),
+    'open_value', (SELECT coalesce(sum(value), 0) FROM open_deals),
+    'weighted_value', (SELECT coalesce(sum(value * probability / 100.0), 0) FROM open_deals),
+    'deals_by_stage', (
+      SELECT coalesce(jsonb_object_agg(stage_id, deals), '{}'::jsonb) FROM stage_counts
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION dashboard_stats() TO authenticated;
@@ -0,0 +1,171 @@
+/*
+  # Global Search
+
+  ## Overview
+  One search box finds contacts, companies, deals, tasks and activities at once. Each table gets
+  a full-text index over its searchable text, weighted so that a match in a record's name or
+  title ranks above one in its contact details, and both above one in its notes.
+
+  ## Functions
+  - `search_document(...)` - Weighted `tsvector` of a record: a name or title (A), details such
+    as email and phone (B) and free text such as notes and descriptions (C)
+  - `search_query(...)` - Prefix query for what the user typed: "jan smi" finds "Jane Smith"
+  - `global_search(...)` - Best matches of every record type, with a display title and subtitle,
+    ranked across types
+
+  ## Indexes
+  - GIN indexes on the `search_document(...)` expression of each table; `global_search` repeats
+    each expression exactly so the planner can use them
+
+  ## Security
+  - `global_search` runs as the caller, so results are limited to live records of the active
+    workspace by the record policies
+
+  ## Important Notes
+  - The `simple` configuration is used throughout: names and emails must not be stemmed, and
+    prefix matching already covers most word forms in notes
+*/
+
+CREATE OR REPLACE FUNCTION search_document(p_primary text, p_details text, p_body text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(p_primary, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(p_details, '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(p_body, '')), 'C');
+$$;
+
+-- Every word must match as a prefix; punctuation other than in emails and URLs is ignored
+CREATE OR REPLACE FUNCTION search_query(p_term text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(p_term, '')), '[^[:alnum:]@._-]+') AS word
+  WHERE word <> '';
+$$;
+
+-- Search indexes
+CREATE INDEX IF NOT EXISTS idx_contacts_search ON contacts USING gin (
+  search_document(
+    first_name || ' ' || last_name,
+    coalesce(email, '') || ' ' || coalesce(phone, '') || ' ' || coalesce(title, ''),
+    notes
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_search ON companies USING gin (
+  search_document(
+    name,
+    coalesce(industry, '') || ' ' || coalesce(website, '') || ' ' || coalesce(email, '') || ' '
+      || coalesce(phone, ''),
+    coalesce(address, '') || ' ' || coalesce(notes, '')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_deals_search ON deals USING gin (
+  search_document(title, NULL, notes)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING gin (
+  search_document(title, NULL, description)
+);
+
+CREATE INDEX IF NOT EXISTS idx_activities_search ON activities USING gin (
+  search_document(subject, NULL, description)
+);
+
+-- Search across record types
+CREATE OR REPLACE FUNCTION global_search(p_term text, p_limit integer DEFAULT 5)
+RETURNS TABLE (
+  table_name text,
+  record_id uuid,
+  title text,
+  subtitle text,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery := search_query(p_term);
+BEGIN
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'contacts'::text, c.id, c.first_name || ' ' || c.last_name,
+           coalesce(nullif(concat_ws(' · ', c.title, co.name), ''), c.email),
+           ts_rank(search_document(
+             c.first_name || ' ' || c.last_name,
+             coalesce(c.email, '') || ' ' || coalesce(c.phone, '') || ' ' || coalesce(c.title, ''),
+             c.notes
+           ), v_query)
+    FROM contacts c
+    LEFT JOIN companies co ON co.id = c.company_id
+    WHERE search_document(
+      c.first_name || ' ' || c.last_name,
+      coalesce(c.email, '') || ' ' || coalesce(c.phone, '') || ' ' || coalesce(c.title, ''),
+      c.notes
+    ) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'companies'::text, c.id, c.name, coalesce(c.industry, c.website),
+           ts_rank(search_document(
+             c.name,
+             coalesce(c.industry, '') || ' ' || coalesce(c.website, '') || ' ' || coalesce(c.email, '') || ' '
+               || coalesce(c.phone, ''),
+             coalesce(c.address, '') || ' ' || coalesce(c.notes, '')
+           ), v_query)
+    FROM companies c
+    WHERE search_document(
+      c.name,
+      coalesce(c.industry, '') || ' ' || coalesce(c.website, '') || ' ' || coalesce(c.email, '') || ' '
+        || coalesce(c.phone, ''),
+      coalesce(c.address, '') || ' ' || coalesce(c.notes, '')
+    ) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'deals'::text, d.id, d.title, s.name,
+           ts_rank(search_document(d.title, NULL, d.notes), v_query)
+    FROM deals d
+    LEFT JOIN pipeline_stages s ON s.id = d.stage_id
+    WHERE search_document(d.title, NULL, d.notes) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'tasks'::text, t.id, t.title, initcap(replace(t.status, '_', ' ')),
+           ts_rank(search_document(t.title, NULL, t.description), v_query)
+    FROM tasks t
+    WHERE search_document(t.title, NULL, t.description) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'activities'::text, a.id, a.subject, initcap(a.type),
+           ts_rank(search_document(a.subject, NULL, a.description), v_query)
+    FROM activities a
+    WHERE search_document(a.subject, NULL, a.description) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  ORDER BY 5 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION global_search(text, integer) TO authenticated;
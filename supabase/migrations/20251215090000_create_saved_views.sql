@@ -0,0 +1,143 @@
+/*
+  # Saved Views
+
+  ## Overview
+  Every list can be narrowed with a filter built from conditions on its fields, combined with
+  AND/OR groups. A filtered, searched and sorted list can be saved under a name, shared with the
+  workspace, and pinned to the navigation bar.
+
+  ## New Tables
+
+  ### 1. `saved_views`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `user_id` (uuid, required) - Member who saved the view
+  - `list` (text, required) - List the view belongs to: `leads`, `contacts`, `companies`,
+    `deals`, `tasks` or `activities`
+  - `name` (text, required)
+  - `filter` (jsonb) - Filter group of the view, null when it has no conditions
+  - `params` (jsonb, required) - Other list settings such as the search term, sort and status
+    tab, as the query parameters of the list
+  - `is_shared` (boolean, required) - Whether the rest of the workspace can use the view
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `saved_view_pins`
+  Views a member pinned to their navigation bar.
+  - `saved_view_id` (uuid, required) - The view
+  - `user_id` (uuid, required) - Member who pinned it
+  - `created_at` (timestamptz) - Pinned views are listed in the order they were pinned
+
+  ## Modified Views
+  - `contact_list` gains `company_industry`, so contacts can be filtered by the industry of
+    their company
+
+  ## Security
+  - Row Level Security enabled on both tables
+  - Members see their own views and the views shared in the active workspace
+  - Members can only save, change and delete their own views; admins can also delete shared
+    views
+  - Pins are private to the member who made them
+
+  ## Important Notes
+  - Filters are evaluated in the browser for lists loaded in full and turned into PostgREST
+    filters for the paged contact and company lists, so no new functions are needed
+*/
+
+-- Create saved_views table
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  list text NOT NULL
+    CHECK (list IN ('leads', 'contacts', 'companies', 'deals', 'tasks', 'activities')),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  filter jsonb,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_organization_list ON saved_views(organization_id, list);
+CREATE INDEX IF NOT EXISTS idx_saved_views_user_id ON saved_views(user_id);
+
+-- Create saved_view_pins table
+CREATE TABLE IF NOT EXISTS saved_view_pins (
+  saved_view_id uuid NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (saved_view_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_view_pins_user_id ON saved_view_pins(user_id);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_view_pins ENABLE ROW LEVEL SECURITY;
+
+-- Saved views policies
+CREATE POLICY "Members can view own and shared saved views"
+  ON saved_views FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (user_id = auth.uid() OR is_shared)
+  );
+
+CREATE POLICY "Members can insert own saved views"
+  ON saved_views FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Members can update own saved views"
+  ON saved_views FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND user_id = auth.uid()
+  )
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Members can delete own saved views and admins shared ones"
+  ON saved_views FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (user_id = auth.uid() OR (is_shared AND active_role() = 'admin'))
+  );
+
+-- Saved view pins policies
+CREATE POLICY "Users can view own saved view pins"
+  ON saved_view_pins FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can pin visible saved views"
+  ON saved_view_pins FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM saved_views v WHERE v.id = saved_view_id)
+  );
+
+CREATE POLICY "Users can delete own saved view pins"
+  ON saved_view_pins FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Company industry on the contact list; new columns have to come last
+CREATE OR REPLACE VIEW contact_list
+WITH (security_invoker = true) AS
+SELECT
+  c.*,
+  c.first_name || ' ' || c.last_name AS full_name,
+  co.name AS company_name,
+  co.industry AS company_industry
+FROM contacts c
+LEFT JOIN companies co ON co.id = c.company_id;
@@ -0,0 +1,376 @@
+/*
+  # Custom Fields
+
+  ## Overview
+  Admins can add their own fields to contacts, companies and deals, such as "Contract term" or
+  "Employee count". Each field has a type that its values are checked against, shows up in the
+  create and edit forms, and can be shown as a list column, searched, filtered and exported.
+
+  ## New Tables
+
+  ### 1. `custom_fields`
+  Field definitions of a workspace.
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `table_name` (text, required) - `contacts`, `companies` or `deals`
+  - `key` (text, required) - Name the values are stored under, unique per table; fixed once
+    created
+  - `label` (text, required) - Name shown to users
+  - `type` (text, required) - `text`, `number`, `currency`, `date`, `select`, `multi_select`,
+    `checkbox` or `url`; fixed once created
+  - `options` (text[], required) - Choices of `select` and `multi_select` fields
+  - `position` (integer) - Display order
+  - `show_in_list` (boolean, required) - Whether the field is a column of the list
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Modified Tables
+  - `contacts`, `companies`, `deals`: `custom_fields` (jsonb, required) - Values by field key.
+    Numbers and currency amounts are JSON numbers, checkboxes booleans, multi-selects arrays of
+    strings, dates `YYYY-MM-DD` strings and everything else strings
+
+  ## Modified Views
+  - `contact_list` is recreated so it includes `custom_fields`
+
+  ## Functions
+  - `custom_field_text(...)` - Every value of a record as one text, for searching
+  - `custom_text(...)` - The same for a contact list row or company, exposed to PostgREST as a
+    computed column so list searches can match custom values
+  - `validate_custom_fields()` - Trigger function checking every value against its field's type
+    and options; values of unknown fields and empty values are dropped
+  - `remove_custom_field_values()` - Trigger function removing the values of a deleted field
+  - `keep_custom_field_type()` - Trigger function rejecting changes to the key, type or record
+    type of a field
+  - `global_search(...)` - Now also matches custom values of contacts, companies and deals
+
+  ## Triggers
+  - `contacts_validate_custom_fields`, `companies_validate_custom_fields`,
+    `deals_validate_custom_fields` - Before insert or update
+  - `custom_fields_keep_type` - Before a field is updated
+  - `custom_fields_remove_values` - After a field is deleted
+
+  ## Indexes
+  - The search indexes of contacts, companies and deals are rebuilt to include custom values
+
+  ## Security
+  - Row Level Security enabled on `custom_fields`: members can view the workspace's fields, only
+    admins can add, change or remove them
+  - `remove_custom_field_values` runs as the definer so it also clears trashed records and
+    records the admin could not edit otherwise
+
+  ## Important Notes
+  - Only new or changed values are checked, so removing a choice from a select field leaves it
+    on existing records; the edit forms drop such values when a record is next saved
+*/
+
+-- Create custom_fields table
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  table_name text NOT NULL CHECK (table_name IN ('contacts', 'companies', 'deals')),
+  key text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,62}$'),
+  label text NOT NULL CHECK (length(trim(label)) > 0),
+  type text NOT NULL
+    CHECK (type IN ('text', 'number', 'currency', 'date', 'select', 'multi_select', 'checkbox', 'url')),
+  options text[] NOT NULL DEFAULT '{}',
+  position integer NOT NULL DEFAULT 0,
+  show_in_list boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, table_name, key)
+);
+
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization custom fields"
+  ON custom_fields FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Admins can insert organization custom fields"
+  ON custom_fields FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can update organization custom fields"
+  ON custom_fields FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin')
+  WITH CHECK (organization_id = active_organization_id() AND active_role() = 'admin');
+
+CREATE POLICY "Admins can delete organization custom fields"
+  ON custom_fields FOR DELETE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() = 'admin');
+
+-- The key and type of a field are fixed, so stored values keep matching their definition
+CREATE OR REPLACE FUNCTION keep_custom_field_type()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.key <> OLD.key OR NEW.type <> OLD.type OR NEW.table_name <> OLD.table_name THEN
+    RAISE EXCEPTION 'The key, type and record type of a custom field cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER custom_fields_keep_type
+  BEFORE UPDATE ON custom_fields
+  FOR EACH ROW EXECUTE FUNCTION keep_custom_field_type();
+
+-- Custom values
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION validate_custom_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_field custom_fields%ROWTYPE;
+  v_value jsonb;
+  v_text text;
+  v_values jsonb := '{}'::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.custom_fields IS NOT DISTINCT FROM OLD.custom_fields THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_field IN
+    SELECT * FROM custom_fields
+    WHERE organization_id = NEW.organization_id AND table_name = TG_TABLE_NAME
+  LOOP
+    v_value := coalesce(NEW.custom_fields, '{}'::jsonb) -> v_field.key;
+    CONTINUE WHEN v_value IS NULL OR v_value IN ('null', '""', '[]');
+    v_text := v_value #>> '{}';
+
+    -- Unchanged values are kept as they are, such as an option removed since it was picked
+    IF TG_OP = 'UPDATE' AND v_value = OLD.custom_fields -> v_field.key THEN
+      v_values := v_values || jsonb_build_object(v_field.key, v_value);
+      CONTINUE;
+    END IF;
+
+    IF NOT CASE v_field.type
+      WHEN 'text' THEN jsonb_typeof(v_value) = 'string'
+      WHEN 'url' THEN jsonb_typeof(v_value) = 'string' AND v_text ~* '^https?://\S+$'
+      WHEN 'number' THEN jsonb_typeof(v_value) = 'number'
+      WHEN 'currency' THEN jsonb_typeof(v_value) = 'number'
+      WHEN 'date' THEN jsonb_typeof(v_value) = 'string' AND v_text ~ '^\d{4}-\d{2}-\d{2}$'
+      WHEN 'checkbox' THEN jsonb_typeof(v_value) = 'boolean'
+      WHEN 'select' THEN jsonb_typeof(v_value) = 'string' AND v_text = ANY (v_field.options)
+      WHEN 'multi_select' THEN
+        jsonb_typeof(v_value) = 'array'
+        AND NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(v_value) AS e(item)
+          WHERE jsonb_typeof(e.item) <> 'string' OR NOT (e.item #>> '{}') = ANY (v_field.options)
+        )
+      ELSE false
+    END THEN
+      RAISE EXCEPTION 'Invalid value for custom field "%"', v_field.label
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_values := v_values || jsonb_build_object(v_field.key, v_value);
+  END LOOP;
+
+  NEW.custom_fields := v_values;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER contacts_validate_custom_fields
+  BEFORE INSERT OR UPDATE ON contacts
+  FOR EACH ROW EXECUTE FUNCTION validate_custom_fields();
+
+CREATE TRIGGER companies_validate_custom_fields
+  BEFORE INSERT OR UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION validate_custom_fields();
+
+CREATE TRIGGER deals_validate_custom_fields
+  BEFORE INSERT OR UPDATE ON deals
+  FOR EACH ROW EXECUTE FUNCTION validate_custom_fields();
+
+CREATE OR REPLACE FUNCTION remove_custom_field_values()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  EXECUTE format(
+    'UPDATE %I SET custom_fields = custom_fields - $1 WHERE organization_id = $2 AND custom_fields ? $1',
+    OLD.table_name
+  ) USING OLD.key, OLD.organization_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER custom_fields_remove_values
+  AFTER DELETE ON custom_fields
+  FOR EACH ROW EXECUTE FUNCTION remove_custom_field_values();
+
+-- Searching custom values
+CREATE OR REPLACE FUNCTION custom_field_text(p_values jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(string_agg(v.value, ' '), '')
+  FROM jsonb_each_text(coalesce(p_values, '{}'::jsonb)) AS v
+  WHERE jsonb_typeof(p_values -> v.key) <> 'boolean';
+$$;
+
+DROP VIEW IF EXISTS contact_list;
+
+CREATE VIEW contact_list
+WITH (security_invoker = true) AS
+SELECT
+  c.*,
+  c.first_name || ' ' || c.last_name AS full_name,
+  co.name AS company_name,
+  co.industry AS company_industry
+FROM contacts c
+LEFT JOIN companies co ON co.id = c.company_id;
+
+GRANT SELECT ON contact_list TO authenticated;
+
+CREATE OR REPLACE FUNCTION custom_text(contact_list)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT custom_field_text($1.custom_fields);
+$$;
+
+CREATE OR REPLACE FUNCTION custom_text(companies)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT custom_field_text($1.custom_fields);
+$$;
+
+-- Search indexes, now covering custom values
+DROP INDEX IF EXISTS idx_contacts_search;
+DROP INDEX IF EXISTS idx_companies_search;
+DROP INDEX IF EXISTS idx_deals_search;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_search ON contacts USING gin (
+  search_document(
+    first_name || ' ' || last_name,
+    coalesce(email, '') || ' ' || coalesce(phone, '') || ' ' || coalesce(title, ''),
+    coalesce(notes, '') || ' ' || custom_field_text(custom_fields)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_search ON companies USING gin (
+  search_document(
+    name,
+    coalesce(industry, '') || ' ' || coalesce(website, '') || ' ' || coalesce(email, '') || ' '
+      || coalesce(phone, ''),
+    coalesce(address, '') || ' ' || coalesce(notes, '') || ' ' || custom_field_text(custom_fields)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_deals_search ON deals USING gin (
+  search_document(title, NULL, coalesce(notes, '') || ' ' || custom_field_text(custom_fields))
+);
+
+CREATE OR REPLACE FUNCTION global_search(p_term text, p_limit integer DEFAULT 5)
+RETURNS TABLE (
+  table_name text,
+  record_id uuid,
+  title text,
+  subtitle text,
+  rank real
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery := search_query(p_term);
+BEGIN
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'contacts'::text, c.id, c.first_name || ' ' || c.last_name,
+           coalesce(nullif(concat_ws(' · ', c.title, co.name), ''), c.email),
+           ts_rank(search_document(
+             c.first_name || ' ' || c.last_name,
+             coalesce(c.email, '') || ' ' || coalesce(c.phone, '') || ' ' || coalesce(c.title, ''),
+             coalesce(c.notes, '') || ' ' || custom_field_text(c.custom_fields)
+           ), v_query)
+    FROM contacts c
+    LEFT JOIN companies co ON co.id = c.company_id
+    WHERE search_document(
+      c.first_name || ' ' || c.last_name,
+      coalesce(c.email, '') || ' ' || coalesce(c.phone, '') || ' ' || coalesce(c.title, ''),
+      coalesce(c.notes, '') || ' ' || custom_field_text(c.custom_fields)
+    ) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'companies'::text, c.id, c.name, coalesce(c.industry, c.website),
+           ts_rank(search_document(
+             c.name,
+             coalesce(c.industry, '') || ' ' || coalesce(c.website, '') || ' ' || coalesce(c.email, '') || ' '
+               || coalesce(c.phone, ''),
+             coalesce(c.address, '') || ' ' || coalesce(c.notes, '') || ' ' || custom_field_text(c.custom_fields)
+           ), v_query)
+    FROM companies c
+    WHERE search_document(
+      c.name,
+      coalesce(c.industry, '') || ' ' || coalesce(c.website, '') || ' ' || coalesce(c.email, '') || ' '
+        || coalesce(c.phone, ''),
+      coalesce(c.address, '') || ' ' || coalesce(c.notes, '') || ' ' || custom_field_text(c.custom_fields)
+    ) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'deals'::text, d.id, d.title, s.name,
+           ts_rank(search_document(
+             d.title, NULL, coalesce(d.notes, '') || ' ' || custom_field_text(d.custom_fields)
+           ), v_query)
+    FROM deals d
+    LEFT JOIN pipeline_stages s ON s.id = d.stage_id
+    WHERE search_document(
+      d.title, NULL, coalesce(d.notes, '') || ' ' || custom_field_text(d.custom_fields)
+    ) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'tasks'::text, t.id, t.title, initcap(replace(t.status, '_', ' ')),
+           ts_rank(search_document(t.title, NULL, t.description), v_query)
+    FROM tasks t
+    WHERE search_document(t.title, NULL, t.description) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'activities'::text, a.id, a.subject, initcap(a.type),
+           ts_rank(search_document(a.subject, NULL, a.description), v_query)
+    FROM activities a
+    WHERE search_document(a.subject, NULL, a.description) @@ v_query
+    ORDER BY 5 DESC
+    LIMIT p_limit
+  )
+  ORDER BY 5 DESC;
+END;
+$$;
@@ -0,0 +1,345 @@
+/*
+  # Tags and Segments
+
+  ## Overview
+  Contacts, companies and deals can be grouped with colored tags, shown as chips in the lists and
+  forms and usable in filters. Segments are named sets of filter rules, such as "Tagged VIP in
+  the software industry"; their members are worked out whenever the segment is used, so
+  membership follows the records as they change.
+
+  ## New Tables
+
+  ### 1. `tags`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `name` (text, required) - Unique within the workspace, ignoring case
+  - `color` (text, required) - One of the colors of the tag palette
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `contact_tags`, `company_tags`, `deal_tags`
+  Tags of each record.
+  - `contact_id` / `company_id` / `deal_id` (uuid, required) - The record
+  - `tag_id` (uuid, required) - The tag
+  - `created_at` (timestamptz)
+
+  ### 3. `segments`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `user_id` (uuid, required) - Member who created the segment
+  - `table_name` (text, required) - `contacts`, `companies` or `deals`
+  - `name` (text, required)
+  - `description` (text)
+  - `rules` (jsonb, required) - Filter group records must match, in the format saved views use
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Functions
+  - `tag_ids(...)` - Ids of the tags of a contact list row, company or deal as a JSON array,
+    exposed to PostgREST as a computed column so lists and segments can filter by tag
+  - `can_tag_record(...)` - Whether the caller may change the tags of a record
+  - `merge_records(...)` - Now also gives the surviving record the tags of the duplicate
+
+  ## Security
+  - Row Level Security enabled on every new table
+  - Members can view the workspace's tags; everyone but read-only members can add tags, and
+    admins and managers can rename, recolor and delete them
+  - Tags of a record can be seen by every member and changed by whoever may edit the record
+  - Members can view the workspace's segments; everyone but read-only members can create them,
+    and admins, managers and the member who created a segment can change or delete it
+  - `can_tag_record` runs as the definer so it can read the record regardless of the caller's
+    policies, and defers to `can_modify_record`
+
+  ## Important Notes
+  - Deleting a tag removes it from every record; rules of segments that used it then match
+    no record on that condition
+  - Tags of trashed records are kept, so restoring a record restores its tags
+*/
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  color text NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_organization_name ON tags(organization_id, lower(name));
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization tags"
+  ON tags FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Members can insert organization tags"
+  ON tags FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = active_organization_id() AND active_role() <> 'read_only');
+
+CREATE POLICY "Managers can update organization tags"
+  ON tags FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() IN ('admin', 'manager'))
+  WITH CHECK (organization_id = active_organization_id() AND active_role() IN ('admin', 'manager'));
+
+CREATE POLICY "Managers can delete organization tags"
+  ON tags FOR DELETE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND active_role() IN ('admin', 'manager'));
+
+CREATE OR REPLACE FUNCTION can_tag_record(p_table text, p_record_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+BEGIN
+  IF p_table NOT IN ('contacts', 'companies', 'deals') THEN
+    RETURN false;
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL', p_table)
+    INTO v_row
+    USING p_record_id;
+
+  RETURN v_row IS NOT NULL AND can_modify_record(p_table, v_row);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_tag_record(text, uuid) TO authenticated;
+
+-- Create join tables
+CREATE TABLE IF NOT EXISTS contact_tags (
+  contact_id uuid NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (contact_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS company_tags (
+  company_id uuid NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, tag_id)
+);
+
+CREATE TABLE IF NOT EXISTS deal_tags (
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (deal_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_tags_tag_id ON contact_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_company_tags_tag_id ON company_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_deal_tags_tag_id ON deal_tags(tag_id);
+
+-- Tag links are visible when the tag is, and changed by whoever may edit the record
+DO $$
+DECLARE
+  t text;
+  v_table text;
+  v_column text;
+  v_label text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['contact_tags', 'company_tags', 'deal_tags'] LOOP
+    v_table := CASE t WHEN 'contact_tags' THEN 'contacts' WHEN 'company_tags' THEN 'companies' ELSE 'deals' END;
+    v_column := CASE t WHEN 'contact_tags' THEN 'contact_id' WHEN 'company_tags' THEN 'company_id' ELSE 'deal_id' END;
+    v_label := replace(t, '_', ' ');
+
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated
+         USING (EXISTS (SELECT 1 FROM tags WHERE tags.id = tag_id))',
+      'Members can view organization ' || v_label, t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+         WITH CHECK (
+           EXISTS (SELECT 1 FROM tags WHERE tags.id = tag_id)
+           AND can_tag_record(%L, %I)
+         )',
+      'Editors can insert organization ' || v_label, t, v_table, v_column);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+         USING (
+           EXISTS (SELECT 1 FROM tags WHERE tags.id = tag_id)
+           AND can_tag_record(%L, %I)
+         )',
+      'Editors can delete organization ' || v_label, t, v_table, v_column);
+  END LOOP;
+END;
+$$;
+
+-- Tags as a filterable column
+CREATE OR REPLACE FUNCTION tag_ids(contact_list)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(jsonb_agg(tag_id), '[]'::jsonb) FROM contact_tags WHERE contact_id = $1.id;
+$$;
+
+CREATE OR REPLACE FUNCTION tag_ids(companies)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(jsonb_agg(tag_id), '[]'::jsonb) FROM company_tags WHERE company_id = $1.id;
+$$;
+
+CREATE OR REPLACE FUNCTION tag_ids(deals)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(jsonb_agg(tag_id), '[]'::jsonb) FROM deal_tags WHERE deal_id = $1.id;
+$$;
+
+-- Create segments table
+CREATE TABLE IF NOT EXISTS segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  table_name text NOT NULL CHECK (table_name IN ('contacts', 'companies', 'deals')),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  rules jsonb NOT NULL DEFAULT '{"match": "all", "conditions": []}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_segments_organization_table ON segments(organization_id, table_name);
+
+ALTER TABLE segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization segments"
+  ON segments FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Members can insert organization segments"
+  ON segments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() <> 'read_only'
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Members can update organization segments"
+  ON segments FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND user_id = auth.uid()))
+  )
+  WITH CHECK (organization_id = active_organization_id());
+
+CREATE POLICY "Members can delete organization segments"
+  ON segments FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND user_id = auth.uid()))
+  );
+
+-- Merges a duplicate into the surviving record, which now also receives its tags
+CREATE OR REPLACE FUNCTION merge_records(
+  p_table text,
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_values jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields text[];
+  v_links text[];
+  v_tag_table text;
+  v_tag_column text;
+  v_survivor jsonb;
+  v_duplicate jsonb;
+  v_assignments text;
+  v_link text;
+BEGIN
+  IF p_table = 'contacts' THEN
+    v_fields := ARRAY['first_name', 'last_name', 'email', 'phone', 'title', 'company_id', 'notes'];
+    v_links := ARRAY['deals.contact_id', 'tasks.contact_id', 'activities.contact_id',
+                     'leads.converted_contact_id'];
+    v_tag_table := 'contact_tags';
+    v_tag_column := 'contact_id';
+  ELSIF p_table = 'companies' THEN
+    v_fields := ARRAY['name', 'industry', 'website', 'phone', 'email', 'address', 'notes'];
+    v_links := ARRAY['contacts.company_id', 'deals.company_id', 'tasks.company_id',
+                     'activities.company_id', 'leads.converted_company_id'];
+    v_tag_table := 'company_tags';
+    v_tag_column := 'company_id';
+  ELSE
+    RAISE EXCEPTION 'Only contacts and companies can be merged';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A record cannot be merged into itself';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_survivor
+    USING p_survivor_id;
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_duplicate
+    USING p_duplicate_id;
+
+  IF v_survivor IS NULL OR v_duplicate IS NULL
+     OR NOT can_modify_record(p_table, v_survivor)
+     OR NOT can_modify_record(p_table, v_duplicate) THEN
+    RAISE EXCEPTION 'Records not found';
+  END IF;
+
+  -- Only mergeable fields are copied; ownership stays with the survivor
+  SELECT string_agg(format('%1$I = v.%1$I', f), ', ')
+  INTO v_assignments
+  FROM unnest(v_fields) f
+  WHERE p_values ? f;
+
+  IF v_assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE %1$I r SET %2$s, updated_at = now()
+       FROM jsonb_populate_record(NULL::%1$I, $1) v
+       WHERE r.id = $2',
+      p_table, v_assignments)
+      USING p_values, p_survivor_id;
+  END IF;
+
+  FOREACH v_link IN ARRAY v_links LOOP
+    EXECUTE format('UPDATE %I SET %I = $1 WHERE %2$I = $2',
+                   split_part(v_link, '.', 1), split_part(v_link, '.', 2))
+      USING p_survivor_id, p_duplicate_id;
+  END LOOP;
+
+  -- The duplicate keeps its own tags in case it is restored
+  EXECUTE format(
+    'INSERT INTO %1$I (%2$I, tag_id) SELECT $1, tag_id FROM %1$I WHERE %2$I = $2 ON CONFLICT DO NOTHING',
+    v_tag_table, v_tag_column)
+    USING p_survivor_id, p_duplicate_id;
+
+  DELETE FROM duplicate_dismissals
+  WHERE table_name = p_table
+    AND (record_a = p_duplicate_id OR record_b = p_duplicate_id);
+
+  EXECUTE format('DELETE FROM %I WHERE id = $1', p_table) USING p_duplicate_id;
+END;
+$$;
@@ -0,0 +1,38 @@
+/*
+  # Bulk Restore
+
+  ## Overview
+  Lists can act on many selected records at once: delete, reassign, change stage, status or
+  priority, tag and link them. Changes are sent in batches of ids and can be undone in one
+  step. Undoing a bulk delete restores every record it moved to the trash, which would take a
+  request per record with `restore_record`.
+
+  ## Functions
+  - `restore_records(p_table text, p_ids uuid[])` - Restores the given trashed records of one
+    type, with the same checks as `restore_record`
+
+  ## Security
+  - Runs as the definer like `restore_record`; each record must be in the trash and modifiable
+    by the caller, or nothing is restored
+
+  ## Important Notes
+  - Bulk updates, tagging and deletes go through the existing tables and policies, so rows the
+    caller may not change are left out by RLS; the app only sends records it may edit
+*/
+
+CREATE OR REPLACE FUNCTION restore_records(p_table text, p_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  FOREACH v_id IN ARRAY p_ids LOOP
+    PERFORM restore_record(p_table, v_id);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_records(text, uuid[]) TO authenticated;
@@ -0,0 +1,358 @@
+/*
+  # Email Sync
+
+  ## Overview
+  Members connect their mailbox over IMAP and SMTP. The `email-sync` edge function reads new
+  messages from the inbox and sent folder and logs each one that involves a known contact or
+  company as an `email` activity; the `email-send` edge function sends mail from a contact's
+  page and logs it the same way. Replies are grouped into threads with the message they answer,
+  so a conversation stays on the records it started on.
+
+  ## New Tables
+
+  ### 1. `email_accounts`
+  A member's mailbox, one per member and workspace.
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `user_id` (uuid, required) - Member who owns the mailbox, defaults to the caller
+  - `email_address` (text, required) - Address mail is sent from
+  - `display_name` (text) - Name shown to recipients
+  - `username` (text, required) - Login for both servers
+  - `imap_host`, `imap_port`, `imap_secure` - Incoming server; `imap_secure` uses TLS from the
+    start, otherwise the connection is plain or upgraded with STARTTLS
+  - `smtp_host`, `smtp_port`, `smtp_secure` - Outgoing server, in the same way
+  - `sync_enabled` (boolean) - Whether scheduled syncs include the mailbox
+  - `sync_state` (jsonb) - Per folder, the `uid_validity` and last `uid` read so far
+  - `last_synced_at` (timestamptz) - End of the last successful sync
+  - `last_error` (text) - Why the last sync or connection test failed, cleared on success
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `email_account_secrets`
+  - `account_id` (uuid, primary key) - The mailbox
+  - `password` (text, required) - Password or app password for both servers
+  - `updated_at` (timestamptz)
+
+  ### 3. `email_messages`
+  Headers and text of every logged message.
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace
+  - `account_id` (uuid) - Mailbox the message was read from or sent with
+  - `activity_id` (uuid, required) - The `email` activity it was logged as
+  - `thread_id` (uuid, required) - Shared by a message and every reply to it
+  - `message_id` (text, required) - The `Message-ID` header, unique within the workspace
+  - `in_reply_to` (text) - The `In-Reply-To` header
+  - `references` (text[]) - The `References` header
+  - `direction` (text, required) - `inbound` or `outbound`
+  - `from_address`, `from_name` (text) - Sender
+  - `to_addresses`, `cc_addresses` (text[]) - Recipients
+  - `subject`, `body_text` (text)
+  - `sent_at` (timestamptz, required) - The `Date` header
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `email_domain(p_address)` - Domain of an email address, lowercased
+  - `website_domain(p_url)` - Host of a website without scheme, `www.`, port or path
+  - `set_email_account_password(p_account_id, p_password)` - Stores the password of the
+    caller's mailbox
+  - `ingest_email_message(p_account_id, p_message)` - Logs a message read or sent with a
+    mailbox and returns the activity, or null when it involves no contact or company
+
+  ## Security
+  - Row Level Security enabled on every new table
+  - Members view, add, change and remove only their own mailbox in the active workspace
+  - Passwords can't be read by any member: `email_account_secrets` has no policies, the
+    password is written through `set_email_account_password` and read only by the edge
+    functions with the service role
+  - Members can view the workspace's logged messages; only `ingest_email_message` adds them,
+    and it can only be called with the service role
+
+  ## Important Notes
+  - A message is matched on the contact whose email is the sender (inbound) or a recipient
+    (outbound), then on the company whose email or website shares the address's domain.
+    Public mail providers such as gmail.com never match a company, and neither does the
+    mailbox's own domain
+  - A reply is logged on the records of the message it answers, even if its addresses don't
+    match them
+  - Messages that match nothing are not stored
+  - A message seen in several members' mailboxes, or both sent from the app and read from the
+    sent folder, is logged once
+  - Deleting an email activity keeps its message, so restoring the activity restores it; the
+    message goes away when the activity is purged from the trash
+*/
+
+-- Create email_accounts table
+CREATE TABLE IF NOT EXISTS email_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_address text NOT NULL CHECK (email_address LIKE '%_@_%'),
+  display_name text,
+  username text NOT NULL,
+  imap_host text NOT NULL,
+  imap_port integer NOT NULL DEFAULT 993 CHECK (imap_port BETWEEN 1 AND 65535),
+  imap_secure boolean NOT NULL DEFAULT true,
+  smtp_host text NOT NULL,
+  smtp_port integer NOT NULL DEFAULT 465 CHECK (smtp_port BETWEEN 1 AND 65535),
+  smtp_secure boolean NOT NULL DEFAULT true,
+  sync_enabled boolean NOT NULL DEFAULT true,
+  sync_state jsonb NOT NULL DEFAULT '{}'::jsonb,
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+ALTER TABLE email_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own email accounts"
+  ON email_accounts FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id() AND user_id = auth.uid());
+
+CREATE POLICY "Members can insert own email accounts"
+  ON email_accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = active_organization_id() AND user_id = auth.uid());
+
+CREATE POLICY "Members can update own email accounts"
+  ON email_accounts FOR UPDATE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND user_id = auth.uid())
+  WITH CHECK (organization_id = active_organization_id() AND user_id = auth.uid());
+
+CREATE POLICY "Members can delete own email accounts"
+  ON email_accounts FOR DELETE
+  TO authenticated
+  USING (organization_id = active_organization_id() AND user_id = auth.uid());
+
+-- Create email_account_secrets table, readable only with the service role
+CREATE TABLE IF NOT EXISTS email_account_secrets (
+  account_id uuid PRIMARY KEY REFERENCES email_accounts(id) ON DELETE CASCADE,
+  password text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_account_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION set_email_account_password(p_account_id uuid, p_password text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM email_accounts
+    WHERE id = p_account_id AND user_id = auth.uid() AND organization_id = active_organization_id()
+  ) THEN
+    RAISE EXCEPTION 'Email account not found';
+  END IF;
+
+  INSERT INTO email_account_secrets (account_id, password, updated_at)
+  VALUES (p_account_id, p_password, now())
+  ON CONFLICT (account_id) DO UPDATE SET password = EXCLUDED.password, updated_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_email_account_password(uuid, text) TO authenticated;
+
+-- Create email_messages table
+CREATE TABLE IF NOT EXISTS email_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  account_id uuid REFERENCES email_accounts(id) ON DELETE SET NULL,
+  activity_id uuid NOT NULL UNIQUE REFERENCES activities(id) ON DELETE CASCADE,
+  thread_id uuid NOT NULL,
+  message_id text NOT NULL,
+  in_reply_to text,
+  "references" text[] NOT NULL DEFAULT '{}',
+  direction text NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  from_address text NOT NULL,
+  from_name text,
+  to_addresses text[] NOT NULL DEFAULT '{}',
+  cc_addresses text[] NOT NULL DEFAULT '{}',
+  subject text,
+  body_text text,
+  sent_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_thread_id ON email_messages(thread_id);
+
+ALTER TABLE email_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization email messages"
+  ON email_messages FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE OR REPLACE FUNCTION email_domain(p_address text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(lower(trim(split_part(p_address, '@', 2))), '');
+$$;
+
+CREATE OR REPLACE FUNCTION website_domain(p_url text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(
+    regexp_replace(regexp_replace(lower(trim(p_url)), '^[a-z][a-z0-9+.-]*://', ''), '^www\.|[/:?#].*$', '', 'g'),
+    ''
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_email_lower ON contacts(organization_id, lower(email));
+CREATE INDEX IF NOT EXISTS idx_companies_email_domain ON companies(organization_id, email_domain(email));
+CREATE INDEX IF NOT EXISTS idx_companies_website_domain ON companies(organization_id, website_domain(website));
+
+/*
+  `p_message` holds `message_id`, `in_reply_to`, `references`, `direction`, `from_address`,
+  `from_name`, `to_addresses`, `cc_addresses`, `subject`, `body_text` and `sent_at`.
+*/
+CREATE OR REPLACE FUNCTION ingest_email_message(p_account_id uuid, p_message jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account email_accounts;
+  v_activity_id uuid;
+  v_message_id text := trim(p_message ->> 'message_id');
+  v_in_reply_to text := nullif(trim(p_message ->> 'in_reply_to'), '');
+  v_direction text := p_message ->> 'direction';
+  v_from text := lower(trim(p_message ->> 'from_address'));
+  v_to text[] := ARRAY(
+    SELECT lower(trim(a)) FROM jsonb_array_elements_text(coalesce(p_message -> 'to_addresses', '[]')) a
+  );
+  v_cc text[] := ARRAY(
+    SELECT lower(trim(a)) FROM jsonb_array_elements_text(coalesce(p_message -> 'cc_addresses', '[]')) a
+  );
+  v_references text[] := ARRAY(
+    SELECT trim(r) FROM jsonb_array_elements_text(coalesce(p_message -> 'references', '[]')) r
+  );
+  v_sent_at timestamptz := coalesce((p_message ->> 'sent_at')::timestamptz, now());
+  v_addresses text[];
+  v_domains text[];
+  v_thread record;
+  v_contact_id uuid;
+  v_company_id uuid;
+BEGIN
+  SELECT * INTO v_account FROM email_accounts WHERE id = p_account_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email account not found';
+  END IF;
+
+  IF coalesce(v_message_id, '') = '' OR v_direction NOT IN ('inbound', 'outbound') THEN
+    RAISE EXCEPTION 'Invalid email message';
+  END IF;
+
+  SELECT activity_id INTO v_activity_id
+  FROM email_messages
+  WHERE organization_id = v_account.organization_id AND message_id = v_message_id;
+  IF FOUND THEN
+    RETURN v_activity_id;
+  END IF;
+
+  -- The other side of the conversation: the sender of inbound mail, the recipients of outbound
+  v_addresses := CASE WHEN v_direction = 'inbound' THEN ARRAY[v_from] ELSE v_to || v_cc END;
+  v_domains := ARRAY(
+    SELECT DISTINCT email_domain(a)
+    FROM unnest(v_addresses) a
+    WHERE email_domain(a) IS NOT NULL
+      AND email_domain(a) <> email_domain(v_account.email_address)
+      AND email_domain(a) NOT IN (
+        'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+        'yahoo.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com',
+        'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'yandex.com', 'zoho.com'
+      )
+  );
+
+  -- The message this one answers, or failing that the latest one it references
+  SELECT m.thread_id, a.contact_id, a.company_id, a.deal_id
+  INTO v_thread
+  FROM email_messages m
+  JOIN activities a ON a.id = m.activity_id
+  WHERE m.organization_id = v_account.organization_id
+    AND (m.message_id = v_in_reply_to OR m.message_id = ANY(v_references))
+  ORDER BY (m.message_id = v_in_reply_to) DESC, m.sent_at DESC
+  LIMIT 1;
+
+  IF v_thread.thread_id IS NOT NULL AND (v_thread.contact_id IS NOT NULL OR v_thread.company_id IS NOT NULL) THEN
+    v_contact_id := v_thread.contact_id;
+    v_company_id := v_thread.company_id;
+  ELSE
+    SELECT id, company_id INTO v_contact_id, v_company_id
+    FROM contacts
+    WHERE organization_id = v_account.organization_id
+      AND deleted_at IS NULL
+      AND lower(email) = ANY(v_addresses)
+    ORDER BY updated_at DESC
+    LIMIT 1;
+
+    IF v_company_id IS NULL AND cardinality(v_domains) > 0 THEN
+      SELECT id INTO v_company_id
+      FROM companies
+      WHERE organization_id = v_account.organization_id
+        AND deleted_at IS NULL
+        AND (email_domain(email) = ANY(v_domains) OR website_domain(website) = ANY(v_domains))
+      ORDER BY updated_at DESC
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF v_contact_id IS NULL AND v_company_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO activities (
+    organization_id, type, subject, description, activity_date, contact_id, company_id, deal_id, user_id
+  )
+  VALUES (
+    v_account.organization_id,
+    'email',
+    coalesce(nullif(trim(p_message ->> 'subject'), ''), '(no subject)'),
+    nullif(trim(p_message ->> 'body_text'), ''),
+    v_sent_at,
+    v_contact_id,
+    v_company_id,
+    v_thread.deal_id,
+    v_account.user_id
+  )
+  RETURNING id INTO v_activity_id;
+
+  INSERT INTO email_messages (
+    organization_id, account_id, activity_id, thread_id, message_id, in_reply_to, "references",
+    direction, from_address, from_name, to_addresses, cc_addresses, subject, body_text, sent_at
+  )
+  VALUES (
+    v_account.organization_id,
+    v_account.id,
+    v_activity_id,
+    coalesce(v_thread.thread_id, gen_random_uuid()),
+    v_message_id,
+    v_in_reply_to,
+    v_references,
+    v_direction,
+    v_from,
+    nullif(trim(p_message ->> 'from_name'), ''),
+    v_to,
+    v_cc,
+    p_message ->> 'subject',
+    p_message ->> 'body_text',
+    v_sent_at
+  );
+
+  RETURN v_activity_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ingest_email_message(uuid, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ingest_email_message(uuid, jsonb) TO service_role;
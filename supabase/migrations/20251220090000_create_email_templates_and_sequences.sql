@@ -0,0 +1,394 @@
+/*
+  # Email Templates and Sequences
+
+  ## Overview
+  Reps keep a library of email templates with merge variables such as
+  `{{contact.first_name}}` or `{{company.name}}`, which are filled in from the contact, their
+  company and an optional deal when the email is written. Sequences chain emails, waits and
+  tasks into a follow-up cadence. Contacts are enrolled in a sequence and the `sequence-run`
+  edge function works through the steps as they come due, sending each email from the
+  enrolling member's mailbox and logging every email and task as an activity. A reply from the
+  contact ends their enrollment.
+
+  ## New Tables
+
+  ### 1. `email_templates`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `user_id` (uuid, required) - Member who created the template
+  - `name` (text, required)
+  - `subject` (text, required) - May use merge variables
+  - `body` (text, required) - Plain text, may use merge variables
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `sequences`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `user_id` (uuid, required) - Member who created the sequence
+  - `name` (text, required)
+  - `description` (text)
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 3. `sequence_steps`
+  - `id` (uuid, primary key)
+  - `sequence_id` (uuid, required) - The sequence
+  - `position` (integer, required) - Order of the step, from 0
+  - `step_type` (text, required) - `email`, `wait` or `task`
+  - `template_id` (uuid) - Template of an email step
+  - `delay_days` (integer) - Length of a wait step
+  - `task_title` (text) - Title of the task a task step creates, may use merge variables
+  - `created_at` (timestamptz)
+
+  ### 4. `sequence_enrollments`
+  - `id` (uuid, primary key)
+  - `organization_id` (uuid, required) - Workspace, defaults to the active one
+  - `sequence_id` (uuid, required) - The sequence
+  - `contact_id` (uuid, required) - The enrolled contact
+  - `deal_id` (uuid) - Deal the emails and tasks are about, also used for merge variables
+  - `user_id` (uuid, required) - Member who enrolled the contact; emails are sent from their
+    mailbox and tasks are assigned to them
+  - `status` (text, required) - `active`, `completed`, `replied` or `stopped`
+  - `current_step` (integer, required) - Position of the next step to run
+  - `next_run_at` (timestamptz, required) - When the next step is due
+  - `last_message_id` (text) - Message-ID of the last email sent, so the next one replies to it
+  - `last_error` (text) - Why the last run failed, cleared on success
+  - `enrolled_at`, `finished_at`, `updated_at` (timestamptz)
+
+  ## Modified Tables
+  - `email_messages`
+    - `enrollment_id` (uuid) - Enrollment that sent the message
+    - `sequence_step` (integer) - Position of the step that sent it
+    - `tracking_token` (uuid) - Identifies the message in its open-tracking image
+    - `opened_at` (timestamptz) - First time the image was loaded
+    - `open_count` (integer) - Times the image was loaded
+
+  ## Functions
+  - `render_template(p_text, p_contact_id, p_deal_id)` - Fills in the merge variables of a
+    template. `{{contact.x}}`, `{{company.x}}` and `{{deal.x}}` stand for field `x` of the
+    contact, their company and the deal, `{{contact.custom_fields.x}}` for a custom field, and
+    `{{contact.first_name|there}}` gives a fallback for an empty value
+  - `record_email_open(p_token)` - Counts an open of a tracked message
+  - `sequence_stats()` - Enrollments by status, emails sent and emails opened per sequence of
+    the active workspace
+
+  ## Triggers
+  - `email_messages_stop_sequences` - After an inbound message is logged, ends the active
+    enrollments of its thread and of its contact as `replied`
+
+  ## Security
+  - Row Level Security enabled on every new table
+  - Members can view the workspace's templates, sequences, steps and enrollments; everyone but
+    read-only members can create them, and admins, managers and the member who created one can
+    change or delete it
+  - Members enroll contacts for themselves only
+  - `render_template` runs as the caller, so it only fills in records they can view
+  - `record_email_open` can only be called with the service role, by the `email-track` edge
+    function
+
+  ## Important Notes
+  - Steps run in order: emails and tasks right away, a wait delays the steps after it. Waits are
+    not logged, since nothing happens on them
+  - Every email after the first is sent as a reply to the previous one, so the contact sees one
+    thread and a reply to any of them stops the sequence
+  - Changing the steps of a sequence affects active enrollments from their current position on
+  - Templates used by a sequence step can't be deleted
+  - Opens are counted by an image in the email; mail clients that block images never count,
+    and those that load images ahead of time count without the contact reading the email
+*/
+
+-- Create email_templates table
+CREATE TABLE IF NOT EXISTS email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  subject text NOT NULL CHECK (length(trim(subject)) > 0),
+  body text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_templates_organization_id ON email_templates(organization_id);
+
+-- Create sequences table
+CREATE TABLE IF NOT EXISTS sequences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequences_organization_id ON sequences(organization_id);
+
+-- Templates and sequences: managers and admins change anything, reps change their own
+DO $$
+DECLARE
+  t text;
+  v_label text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['email_templates', 'sequences'] LOOP
+    v_label := replace(t, '_', ' ');
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT TO authenticated
+         USING (organization_id = active_organization_id())',
+      'Members can view organization ' || v_label, t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT TO authenticated
+         WITH CHECK (
+           organization_id = active_organization_id()
+           AND active_role() <> ''read_only''
+           AND user_id = auth.uid()
+         )',
+      'Members can insert organization ' || v_label, t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE TO authenticated
+         USING (
+           organization_id = active_organization_id()
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND user_id = auth.uid()))
+         )
+         WITH CHECK (organization_id = active_organization_id())',
+      'Members can update organization ' || v_label, t);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR DELETE TO authenticated
+         USING (
+           organization_id = active_organization_id()
+           AND (active_role() IN (''admin'', ''manager'') OR (active_role() = ''rep'' AND user_id = auth.uid()))
+         )',
+      'Members can delete organization ' || v_label, t);
+  END LOOP;
+END $$;
+
+-- Create sequence_steps table
+CREATE TABLE IF NOT EXISTS sequence_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id uuid NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  position integer NOT NULL CHECK (position >= 0),
+  step_type text NOT NULL CHECK (step_type IN ('email', 'wait', 'task')),
+  template_id uuid REFERENCES email_templates(id) ON DELETE RESTRICT,
+  delay_days integer CHECK (delay_days > 0),
+  task_title text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (sequence_id, position),
+  CHECK (step_type <> 'email' OR template_id IS NOT NULL),
+  CHECK (step_type <> 'wait' OR delay_days IS NOT NULL),
+  CHECK (step_type <> 'task' OR length(trim(coalesce(task_title, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_steps_template_id ON sequence_steps(template_id);
+
+ALTER TABLE sequence_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization sequence steps"
+  ON sequence_steps FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE s.id = sequence_id AND s.organization_id = active_organization_id()
+    )
+  );
+
+CREATE POLICY "Members can manage steps of sequences they can edit"
+  ON sequence_steps FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE s.id = sequence_id
+        AND s.organization_id = active_organization_id()
+        AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND s.user_id = auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE s.id = sequence_id
+        AND s.organization_id = active_organization_id()
+        AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND s.user_id = auth.uid()))
+    )
+  );
+
+-- Create sequence_enrollments table
+CREATE TABLE IF NOT EXISTS sequence_enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT active_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  sequence_id uuid NOT NULL REFERENCES sequences(id) ON DELETE CASCADE,
+  contact_id uuid NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  deal_id uuid REFERENCES deals(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'replied', 'stopped')),
+  current_step integer NOT NULL DEFAULT 0,
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  last_message_id text,
+  last_error text,
+  enrolled_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- A contact is in a sequence at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sequence_enrollments_active
+  ON sequence_enrollments(sequence_id, contact_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_due
+  ON sequence_enrollments(next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_contact_id ON sequence_enrollments(contact_id);
+
+ALTER TABLE sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization sequence enrollments"
+  ON sequence_enrollments FOR SELECT
+  TO authenticated
+  USING (organization_id = active_organization_id());
+
+CREATE POLICY "Members can enroll contacts"
+  ON sequence_enrollments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() <> 'read_only'
+    AND user_id = auth.uid()
+  );
+
+CREATE POLICY "Members can update organization sequence enrollments"
+  ON sequence_enrollments FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND user_id = auth.uid()))
+  )
+  WITH CHECK (organization_id = active_organization_id());
+
+CREATE POLICY "Members can delete organization sequence enrollments"
+  ON sequence_enrollments FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND user_id = auth.uid()))
+  );
+
+-- Link sent messages to their sequence step and track opens
+ALTER TABLE email_messages
+  ADD COLUMN IF NOT EXISTS enrollment_id uuid REFERENCES sequence_enrollments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sequence_step integer,
+  ADD COLUMN IF NOT EXISTS tracking_token uuid UNIQUE,
+  ADD COLUMN IF NOT EXISTS opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS open_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_email_messages_enrollment_id ON email_messages(enrollment_id);
+
+CREATE OR REPLACE FUNCTION render_template(p_text text, p_contact_id uuid, p_deal_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_values jsonb;
+  v_match text[];
+  v_value text;
+  v_result text := coalesce(p_text, '');
+BEGIN
+  SELECT jsonb_build_object('contact', to_jsonb(c), 'company', to_jsonb(co))
+  INTO v_values
+  FROM contacts c
+  LEFT JOIN companies co ON co.id = c.company_id
+  WHERE c.id = p_contact_id;
+
+  v_values := coalesce(v_values, '{}'::jsonb)
+    || jsonb_build_object('deal', (SELECT to_jsonb(d) FROM deals d WHERE d.id = p_deal_id));
+
+  FOR v_match IN
+    SELECT regexp_matches(v_result, '(\{\{\s*((?:contact|company|deal)(?:\.[a-z0-9_]+)+)\s*(?:\|([^}]*))?\}\})', 'gi')
+  LOOP
+    v_value := v_values #>> string_to_array(lower(v_match[2]), '.');
+    v_result := replace(v_result, v_match[1], coalesce(nullif(trim(v_value), ''), v_match[3], ''));
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION render_template(text, uuid, uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION record_email_open(p_token uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE email_messages
+  SET open_count = open_count + 1, opened_at = coalesce(opened_at, now())
+  WHERE tracking_token = p_token;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_open(uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_email_open(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION stop_sequences_on_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sequence_enrollments e
+  SET status = 'replied', finished_at = now(), updated_at = now()
+  WHERE e.status = 'active'
+    AND e.organization_id = NEW.organization_id
+    AND e.enrolled_at <= NEW.sent_at
+    AND (
+      e.id IN (
+        SELECT m.enrollment_id FROM email_messages m
+        WHERE m.thread_id = NEW.thread_id AND m.enrollment_id IS NOT NULL
+      )
+      OR e.contact_id = (SELECT a.contact_id FROM activities a WHERE a.id = NEW.activity_id)
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER email_messages_stop_sequences
+  AFTER INSERT ON email_messages
+  FOR EACH ROW
+  WHEN (NEW.direction = 'inbound')
+  EXECUTE FUNCTION stop_sequences_on_reply();
+
+CREATE OR REPLACE FUNCTION sequence_stats()
+RETURNS TABLE (
+  sequence_id uuid,
+  enrolled bigint,
+  active bigint,
+  completed bigint,
+  replied bigint,
+  emails_sent bigint,
+  emails_opened bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    count(DISTINCT e.id),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'active'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'completed'),
+    count(DISTINCT e.id) FILTER (WHERE e.status = 'replied'),
+    count(m.id),
+    count(m.id) FILTER (WHERE m.opened_at IS NOT NULL)
+  FROM sequences s
+  LEFT JOIN sequence_enrollments e ON e.sequence_id = s.id
+  LEFT JOIN email_messages m ON m.enrollment_id = e.id AND m.direction = 'outbound'
+  WHERE s.organization_id = active_organization_id()
+  GROUP BY s.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION sequence_stats() TO authenticated;
@@ -0,0 +1,98 @@
+/*
+  # Accept Invitations On Email Confirmation
+
+  ## Overview
+  Invitations were accepted as soon as an account existed for the invited address, before the
+  address was confirmed. Anyone could sign up with an invited address they do not own and join
+  the workspace with the invited role. Invitations are now only accepted for confirmed
+  addresses, when the address is confirmed or on a later sign-in.
+
+  ## Functions
+  - `set_up_confirmed_user(p_user_id, p_email)` - Accepts the user's pending invitations and
+    gives them a personal workspace if they belong to none
+  - `accept_invitations()` - Now does nothing until the caller's email address is confirmed
+  - `handle_new_user()` - Now only creates the profile, and sets up users whose address is
+    already confirmed, such as when confirmations are turned off
+
+  ## Triggers
+  - `on_auth_user_confirmed` - Sets up a user once their email address is confirmed
+
+  ## Security
+  - `set_up_confirmed_user` is not callable by clients
+
+  ## Important Notes
+  - New users get their personal workspace on confirmation rather than on sign-up
+*/
+
+CREATE OR REPLACE FUNCTION set_up_confirmed_user(p_user_id uuid, p_email text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM accept_invitations_for(p_user_id, p_email);
+
+  IF NOT EXISTS (SELECT 1 FROM organization_members WHERE user_id = p_user_id) THEN
+    PERFORM create_organization_for(
+      p_user_id,
+      coalesce(nullif(split_part(p_email, '@', 1), ''), 'My') || '''s workspace'
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_up_confirmed_user(uuid, text) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION accept_invitations()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT accept_invitations_for(id, email)
+      FROM auth.users
+      WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL
+    ),
+    0
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, email) VALUES (NEW.id, NEW.email) ON CONFLICT (id) DO NOTHING;
+
+  IF NEW.email_confirmed_at IS NOT NULL THEN
+    PERFORM set_up_confirmed_user(NEW.id, NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Set up users once they confirm their address
+CREATE OR REPLACE FUNCTION handle_user_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_up_confirmed_user(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION handle_user_confirmed();
@@ -0,0 +1,151 @@
+/*
+  # Pipeline Velocity In Dashboard Statistics
+
+  ## Overview
+  The dashboard still loaded every `deal_stage_history` row to work out pipeline velocity in the
+  browser. The request is capped at 1000 rows, so on a busy workspace the figures were computed
+  from part of the history. Velocity is now aggregated by `dashboard_stats()` with the other
+  dashboard figures.
+
+  ## Functions
+  - `dashboard_stats()` - Adds `velocity`, keyed by pipeline id:
+    - `stages` - For each open stage in order: `stage_id`, `name`, `average_days` spent in the
+      stage (completed stints only), `entered` (deals that entered it), `converted` (of those,
+      deals that later reached a further stage that is not a lost outcome) and
+      `conversion_rate`
+    - `average_days_to_win` - From a deal's first stage to its first closing stage, for deals
+      that closed as won
+    - `win_rate` - Share of closed deals whose first closing stage was won
+
+  ## Security
+  - Still runs as the caller, so velocity covers exactly the stage history the caller can see
+
+  ## Important Notes
+  - History rows whose stage was deleted are left out, as before
+*/
+
+CREATE OR REPLACE FUNCTION dashboard_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH open_deals AS (
+    SELECT d.value, d.probability
+    FROM deals d
+    JOIN pipeline_stages s ON s.id = d.stage_id
+    WHERE s.outcome = 'open'
+  ),
+  stage_counts AS (
+    SELECT stage_id, count(*) AS deals
+    FROM deals
+    GROUP BY stage_id
+  ),
+  history AS (
+    SELECT h.deal_id, h.stage_id, h.entered_at, h.exited_at, s.pipeline_id, s.position, s.outcome
+    FROM deal_stage_history h
+    JOIN pipeline_stages s ON s.id = h.stage_id
+  ),
+  stage_durations AS (
+    SELECT stage_id, avg(extract(epoch FROM exited_at - entered_at) / 86400) AS average_days
+    FROM history
+    WHERE exited_at IS NOT NULL
+    GROUP BY stage_id
+  ),
+  first_entries AS (
+    SELECT deal_id, stage_id, pipeline_id, position, min(entered_at) AS entered_at
+    FROM history
+    GROUP BY deal_id, stage_id, pipeline_id, position
+  ),
+  stage_conversions AS (
+    SELECT
+      f.stage_id,
+      count(*) AS entered,
+      count(*) FILTER (
+        WHERE EXISTS (
+          SELECT 1 FROM history later
+          WHERE later.deal_id = f.deal_id
+            AND later.pipeline_id = f.pipeline_id
+            AND later.position > f.position
+            AND later.outcome <> 'lost'
+            AND later.entered_at >= f.entered_at
+        )
+      ) AS converted
+    FROM first_entries f
+    GROUP BY f.stage_id
+  ),
+  deal_starts AS (
+    SELECT pipeline_id, deal_id, min(entered_at) AS started_at
+    FROM history
+    GROUP BY pipeline_id, deal_id
+  ),
+  deal_closings AS (
+    SELECT DISTINCT ON (pipeline_id, deal_id) pipeline_id, deal_id, outcome, entered_at
+    FROM history
+    WHERE outcome <> 'open'
+    ORDER BY pipeline_id, deal_id, entered_at
+  ),
+  pipeline_wins AS (
+    SELECT
+      c.pipeline_id,
+      avg(extract(epoch FROM c.entered_at - st.started_at) / 86400)
+        FILTER (WHERE c.outcome = 'won') AS average_days_to_win,
+      count(*) FILTER (WHERE c.outcome = 'won')::numeric / count(*) AS win_rate
+    FROM deal_closings c
+    JOIN deal_starts st ON st.pipeline_id = c.pipeline_id AND st.deal_id = c.deal_id
+    GROUP BY c.pipeline_id
+  )
+  SELECT jsonb_build_object(
+    'contacts', (SELECT count(*) FROM contacts),
+    'companies', (SELECT count(*) FROM companies),
+    'activities', (SELECT count(*) FROM activities),
+    'deals', (SELECT count(*) FROM deals),
+    'active_tasks', (
+      SELECT count(*) FROM tasks WHERE status IN ('pending', 'in_progress')
+    ),
+    'overdue_tasks', (
+      SELECT count(*) FROM tasks
+      WHERE status IN ('pending', 'in_progress') AND due_date < now()
+    ),
+    'open_deals', (SELECT count(*) FROM open_deals),
+    'open_value', (SELECT coalesce(sum(value), 0) FROM open_deals),
+    'weighted_value', (SELECT coalesce(sum(value * probability / 100.0), 0) FROM open_deals),
+    'deals_by_stage', (
+      SELECT coalesce(jsonb_object_agg(stage_id, deals), '{}'::jsonb) FROM stage_counts
+    ),
+    'velocity', (
+      SELECT coalesce(
+        jsonb_object_agg(
+          p.id,
+          jsonb_build_object(
+            'stages', (
+              SELECT coalesce(
+                jsonb_agg(
+                  jsonb_build_object(
+                    'stage_id', s.id,
+                    'name', s.name,
+                    'average_days', sd.average_days,
+                    'entered', coalesce(sc.entered, 0),
+                    'converted', coalesce(sc.converted, 0),
+                    'conversion_rate', sc.converted::numeric / nullif(sc.entered, 0)
+                  )
+                  ORDER BY s.position
+                ),
+                '[]'::jsonb
+              )
+              FROM pipeline_stages s
+              LEFT JOIN stage_durations sd ON sd.stage_id = s.id
+              LEFT JOIN stage_conversions sc ON sc.stage_id = s.id
+              WHERE s.pipeline_id = p.id AND s.outcome = 'open'
+            ),
+            'average_days_to_win', w.average_days_to_win,
+            'win_rate', w.win_rate
+          )
+        ),
+        '{}'::jsonb
+      )
+      FROM pipelines p
+      LEFT JOIN pipeline_wins w ON w.pipeline_id = p.id
+    )
+  );
+$$;
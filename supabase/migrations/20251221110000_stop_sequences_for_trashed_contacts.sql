@@ -0,0 +1,50 @@
+/*
+  # Stop Sequences For Trashed Contacts
+
+  ## Overview
+  The `sequence-run` edge function reads enrollments with the service role, which is not subject
+  to the policies that hide trashed records. Contacts moved to the trash kept receiving sequence
+  emails and tasks. Trashing a contact now stops its active enrollments, and the runner also
+  stops any enrollment whose contact is in the trash.
+
+  ## Functions
+  - `stop_sequences_on_trash()` - Trigger stopping the active enrollments of a contact moved to
+    the trash
+
+  ## Triggers
+  - `contacts_stop_sequences` - After `deleted_at` of a contact is set
+
+  ## Security
+  - The trigger runs as the definer, so it stops enrollments the deleting member could not change
+    themselves
+
+  ## Important Notes
+  - Active enrollments of contacts already in the trash are stopped by this migration
+  - Restoring a contact does not resume its enrollments; it can be enrolled again
+*/
+
+CREATE OR REPLACE FUNCTION stop_sequences_on_trash()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sequence_enrollments
+  SET status = 'stopped', finished_at = now(), updated_at = now()
+  WHERE contact_id = NEW.id AND status = 'active';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER contacts_stop_sequences
+  AFTER UPDATE OF deleted_at ON contacts
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION stop_sequences_on_trash();
+
+UPDATE sequence_enrollments e
+SET status = 'stopped', finished_at = now(), updated_at = now()
+FROM contacts c
+WHERE c.id = e.contact_id AND c.deleted_at IS NOT NULL AND e.status = 'active';
@@ -0,0 +1,82 @@
+/*
+  # Check Sequence Enrollment Links
+
+  ## Overview
+  The enrollment policies only checked the enrollment's own workspace, not the sequence, contact
+  and deal it points to. A member could enroll a contact of another workspace, or use another
+  workspace's sequence or deal, and the `sequence-run` edge function, which runs with the
+  service role, would then render and send whatever those ids point to. Enrollments must now
+  point at a sequence, a contact and, optionally, a deal of the active workspace.
+
+  ## Modified Tables
+  - `sequence_enrollments`
+    - "Members can enroll contacts" - Checks the sequence, contact and deal
+    - "Members can update organization sequence enrollments" - Checks them as well, so an
+      enrollment can't be pointed elsewhere afterwards
+
+  ## Functions
+  - `enrollment_links_in_active_organization(p_sequence_id, p_contact_id, p_deal_id)` - Whether
+    the sequence, the contact and the deal, if any, belong to the active workspace
+
+  ## Security
+  - Runs as the definer so that links to a record since moved to the trash still pass, and an
+    enrollment about a trashed deal can still be stopped; it only compares workspaces
+
+  ## Important Notes
+  - Trashed contacts are not enrolled by the app, and the runner stops enrollments of trashed
+    contacts
+*/
+
+CREATE OR REPLACE FUNCTION enrollment_links_in_active_organization(
+  p_sequence_id uuid,
+  p_contact_id uuid,
+  p_deal_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+      SELECT 1 FROM sequences
+      WHERE id = p_sequence_id AND organization_id = active_organization_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM contacts
+      WHERE id = p_contact_id AND organization_id = active_organization_id()
+    )
+    AND (
+      p_deal_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM deals
+        WHERE id = p_deal_id AND organization_id = active_organization_id()
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION enrollment_links_in_active_organization(uuid, uuid, uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Members can enroll contacts" ON sequence_enrollments;
+CREATE POLICY "Members can enroll contacts"
+  ON sequence_enrollments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND active_role() <> 'read_only'
+    AND user_id = auth.uid()
+    AND enrollment_links_in_active_organization(sequence_id, contact_id, deal_id)
+  );
+
+DROP POLICY IF EXISTS "Members can update organization sequence enrollments" ON sequence_enrollments;
+CREATE POLICY "Members can update organization sequence enrollments"
+  ON sequence_enrollments FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = active_organization_id()
+    AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND user_id = auth.uid()))
+  )
+  WITH CHECK (
+    organization_id = active_organization_id()
+    AND enrollment_links_in_active_organization(sequence_id, contact_id, deal_id)
+  );
@@ -0,0 +1,36 @@
+/*
+  # Keep Converted Lead Status
+
+  ## Overview
+  A converted lead could be edited back to another status, which offered the conversion again
+  and created a second contact and deal. Once a lead is converted its status stays
+  `converted`.
+
+  ## Functions
+  - `keep_converted_lead_status()` - Trigger rejecting a status change on a converted lead
+
+  ## Triggers
+  - `leads_keep_converted_status` - Before update of `status`
+
+  ## Important Notes
+  - A lead counts as converted once `convert_lead` has set `converted_at`
+*/
+
+CREATE OR REPLACE FUNCTION keep_converted_lead_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.converted_at IS NOT NULL AND NEW.status <> 'converted' THEN
+    RAISE EXCEPTION 'A converted lead keeps its converted status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER leads_keep_converted_status
+  BEFORE UPDATE OF status ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_converted_lead_status();
@@ -0,0 +1,119 @@
+/*
+  # Check The Company Of Merged Contacts
+
+  ## Overview
+  `merge_records()` runs as the definer and copied `company_id` from the chosen values onto the
+  surviving contact without looking at the company. A member could link a contact to a company
+  of another workspace, or to one in the trash. The company must now be a live company of the
+  active workspace.
+
+  ## Functions
+  - `merge_records(...)` - Raises "Company not found" when the chosen `company_id` is not a
+    live company of the active workspace
+
+  ## Important Notes
+  - Keeping the surviving contact's own company is still allowed, even if it is in the trash
+  - Merging with no company still clears it, as before
+*/
+
+CREATE OR REPLACE FUNCTION merge_records(
+  p_table text,
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_values jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields text[];
+  v_links text[];
+  v_tag_table text;
+  v_tag_column text;
+  v_survivor jsonb;
+  v_duplicate jsonb;
+  v_assignments text;
+  v_link text;
+BEGIN
+  IF p_table = 'contacts' THEN
+    v_fields := ARRAY['first_name', 'last_name', 'email', 'phone', 'title', 'company_id', 'notes'];
+    v_links := ARRAY['deals.contact_id', 'tasks.contact_id', 'activities.contact_id',
+                     'leads.converted_contact_id'];
+    v_tag_table := 'contact_tags';
+    v_tag_column := 'contact_id';
+  ELSIF p_table = 'companies' THEN
+    v_fields := ARRAY['name', 'industry', 'website', 'phone', 'email', 'address', 'notes'];
+    v_links := ARRAY['contacts.company_id', 'deals.company_id', 'tasks.company_id',
+                     'activities.company_id', 'leads.converted_company_id'];
+    v_tag_table := 'company_tags';
+    v_tag_column := 'company_id';
+  ELSE
+    RAISE EXCEPTION 'Only contacts and companies can be merged';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A record cannot be merged into itself';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_survivor
+    USING p_survivor_id;
+  EXECUTE format('SELECT to_jsonb(r) FROM %I r WHERE id = $1 AND deleted_at IS NULL FOR UPDATE', p_table)
+    INTO v_duplicate
+    USING p_duplicate_id;
+
+  IF v_survivor IS NULL OR v_duplicate IS NULL
+     OR NOT can_modify_record(p_table, v_survivor)
+     OR NOT can_modify_record(p_table, v_duplicate) THEN
+    RAISE EXCEPTION 'Records not found';
+  END IF;
+
+  -- The company is checked here because the function runs as the definer. Keeping the
+  -- survivor's own company is always allowed.
+  IF p_table = 'contacts' AND nullif(p_values->>'company_id', '') IS NOT NULL
+     AND p_values->>'company_id' IS DISTINCT FROM v_survivor->>'company_id'
+     AND NOT EXISTS (
+       SELECT 1 FROM companies
+       WHERE id = (p_values->>'company_id')::uuid
+         AND organization_id = active_organization_id()
+         AND deleted_at IS NULL
+     ) THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+
+  -- Only mergeable fields are copied; ownership stays with the survivor
+  SELECT string_agg(format('%1$I = v.%1$I', f), ', ')
+  INTO v_assignments
+  FROM unnest(v_fields) f
+  WHERE p_values ? f;
+
+  IF v_assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE %1$I r SET %2$s, updated_at = now()
+       FROM jsonb_populate_record(NULL::%1$I, $1) v
+       WHERE r.id = $2',
+      p_table, v_assignments)
+      USING p_values, p_survivor_id;
+  END IF;
+
+  FOREACH v_link IN ARRAY v_links LOOP
+    EXECUTE format('UPDATE %I SET %I = $1 WHERE %2$I = $2',
+                   split_part(v_link, '.', 1), split_part(v_link, '.', 2))
+      USING p_survivor_id, p_duplicate_id;
+  END LOOP;
+
+  -- The duplicate keeps its own tags in case it is restored
+  EXECUTE format(
+    'INSERT INTO %1$I (%2$I, tag_id) SELECT $1, tag_id FROM %1$I WHERE %2$I = $2 ON CONFLICT DO NOTHING',
+    v_tag_table, v_tag_column)
+    USING p_survivor_id, p_duplicate_id;
+
+  DELETE FROM duplicate_dismissals
+  WHERE table_name = p_table
+    AND (record_a = p_duplicate_id OR record_b = p_duplicate_id);
+
+  EXECUTE format('DELETE FROM %I WHERE id = $1', p_table) USING p_duplicate_id;
+END;
+$$;
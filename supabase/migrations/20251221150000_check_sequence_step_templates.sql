@@ -0,0 +1,44 @@
+/*
+  # Check Sequence Step Templates
+
+  ## Overview
+  The step policy only checked that the parent sequence belongs to the active workspace, not the
+  template a step uses. A member could attach another workspace's template to their own
+  sequence, and the `sequence-run` edge function, which runs with the service role, would then
+  render and send its contents. Steps must now use a template of the active workspace.
+
+  ## Modified Tables
+  - `sequence_steps`
+    - "Members can manage steps of sequences they can edit" - Also checks the template
+
+  ## Important Notes
+  - Steps without a template, such as task steps, are unaffected
+*/
+
+DROP POLICY IF EXISTS "Members can manage steps of sequences they can edit" ON sequence_steps;
+CREATE POLICY "Members can manage steps of sequences they can edit"
+  ON sequence_steps FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE s.id = sequence_id
+        AND s.organization_id = active_organization_id()
+        AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND s.user_id = auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE s.id = sequence_id
+        AND s.organization_id = active_organization_id()
+        AND (active_role() IN ('admin', 'manager') OR (active_role() = 'rep' AND s.user_id = auth.uid()))
+    )
+    AND (
+      template_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM email_templates t
+        WHERE t.id = template_id AND t.organization_id = active_organization_id()
+      )
+    )
+  );